@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "request_matches" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "totalScore" INTEGER NOT NULL,
+    "matchScore" JSONB NOT NULL,
+    "algorithmVersion" TEXT NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "request_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "request_matches_requestId_algorithmVersion_idx" ON "request_matches"("requestId", "algorithmVersion");
+
+-- CreateIndex
+CREATE INDEX "request_matches_companyId_idx" ON "request_matches"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "request_matches_requestId_companyId_algorithmVersion_key" ON "request_matches"("requestId", "companyId", "algorithmVersion");
+
+-- AddForeignKey
+ALTER TABLE "request_matches" ADD CONSTRAINT "request_matches_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "request_matches" ADD CONSTRAINT "request_matches_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "tech_stacks" ADD COLUMN     "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "tech_stacks_parentId_idx" ON "tech_stacks"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "tech_stacks" ADD CONSTRAINT "tech_stacks_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "tech_stacks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
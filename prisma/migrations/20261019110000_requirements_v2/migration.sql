@@ -0,0 +1,90 @@
+-- Rewrite request requirements to version 2.
+-- Free-text technology names ("technologies", "techStacks") are resolved to
+-- TechStack IDs by name, slug or alias (ignoring case, whitespace and . _ - /).
+-- Specialty names ("specialties") are resolved to Specialty IDs by name or slug.
+-- Names that cannot be resolved are kept in "otherTechnologies" and
+-- "otherSpecialties"; "location" and every other key are left as they are.
+
+-- Normalize a technology name the same way as src/lib/matching/taxonomy.ts
+CREATE FUNCTION "pg_temp"."normalize_tech_name"(value TEXT) RETURNS TEXT AS $$
+  SELECT regexp_replace(lower(value), '[[:space:]._/-]', '', 'g')
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Collect legacy technology names per request
+CREATE TEMP TABLE "legacy_request_technologies" AS
+SELECT DISTINCT r."id" AS "requestId", tech.name
+FROM "requests" r
+CROSS JOIN LATERAL jsonb_array_elements_text(
+  CASE WHEN jsonb_typeof(r."requirements"->'technologies') = 'array' THEN r."requirements"->'technologies' ELSE '[]'::jsonb END ||
+  CASE WHEN jsonb_typeof(r."requirements"->'techStacks') = 'array' THEN r."requirements"->'techStacks' ELSE '[]'::jsonb END
+) AS tech(name)
+WHERE jsonb_typeof(r."requirements") = 'object'
+  AND NOT (r."requirements" ? 'version')
+  AND btrim(tech.name) <> '';
+
+-- Collect legacy specialty names per request
+CREATE TEMP TABLE "legacy_request_specialties" AS
+SELECT DISTINCT r."id" AS "requestId", spec.name
+FROM "requests" r
+CROSS JOIN LATERAL jsonb_array_elements_text(
+  CASE WHEN jsonb_typeof(r."requirements"->'specialties') = 'array' THEN r."requirements"->'specialties' ELSE '[]'::jsonb END
+) AS spec(name)
+WHERE jsonb_typeof(r."requirements") = 'object'
+  AND NOT (r."requirements" ? 'version')
+  AND btrim(spec.name) <> '';
+
+-- Rewrite requirements
+UPDATE "requests" r
+SET "requirements" = (r."requirements" - 'technologies' - 'techStacks' - 'specialties')
+  || jsonb_build_object(
+    'version', 2,
+    'techStackIds', COALESCE((
+      SELECT jsonb_agg(DISTINCT ts."id")
+      FROM "legacy_request_technologies" lt
+      JOIN "tech_stacks" ts
+        ON "pg_temp"."normalize_tech_name"(lt.name) IN (
+          "pg_temp"."normalize_tech_name"(ts."name"),
+          "pg_temp"."normalize_tech_name"(ts."slug")
+        )
+        OR "pg_temp"."normalize_tech_name"(lt.name) IN (
+          SELECT "pg_temp"."normalize_tech_name"(alias) FROM unnest(ts."aliases") AS alias
+        )
+      WHERE lt."requestId" = r."id"
+    ), '[]'::jsonb),
+    'specialtyIds', COALESCE((
+      SELECT jsonb_agg(DISTINCT s."id")
+      FROM "legacy_request_specialties" ls
+      JOIN "specialties" s
+        ON lower(btrim(ls.name)) IN (lower(s."name"), lower(s."slug"))
+      WHERE ls."requestId" = r."id"
+    ), '[]'::jsonb),
+    'otherTechnologies', COALESCE((
+      SELECT jsonb_agg(DISTINCT btrim(lt.name))
+      FROM "legacy_request_technologies" lt
+      WHERE lt."requestId" = r."id"
+        AND NOT EXISTS (
+          SELECT 1 FROM "tech_stacks" ts
+          WHERE "pg_temp"."normalize_tech_name"(lt.name) IN (
+            "pg_temp"."normalize_tech_name"(ts."name"),
+            "pg_temp"."normalize_tech_name"(ts."slug")
+          )
+          OR "pg_temp"."normalize_tech_name"(lt.name) IN (
+            SELECT "pg_temp"."normalize_tech_name"(alias) FROM unnest(ts."aliases") AS alias
+          )
+        )
+    ), '[]'::jsonb),
+    'otherSpecialties', COALESCE((
+      SELECT jsonb_agg(DISTINCT btrim(ls.name))
+      FROM "legacy_request_specialties" ls
+      WHERE ls."requestId" = r."id"
+        AND NOT EXISTS (
+          SELECT 1 FROM "specialties" s
+          WHERE lower(btrim(ls.name)) IN (lower(s."name"), lower(s."slug"))
+        )
+    ), '[]'::jsonb)
+  )
+WHERE jsonb_typeof(r."requirements") = 'object'
+  AND NOT (r."requirements" ? 'version');
+
+DROP TABLE "legacy_request_technologies";
+DROP TABLE "legacy_request_specialties";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "maxConcurrentProjects" INTEGER;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "RequestTransition" AS ENUM ('PUBLISH', 'CLOSE', 'CANCEL', 'REOPEN', 'EXPIRE');
+
+-- CreateTable
+CREATE TABLE "request_status_history" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "fromStatus" "RequestStatus" NOT NULL,
+    "toStatus" "RequestStatus" NOT NULL,
+    "transition" "RequestTransition" NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "request_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "request_status_history_requestId_createdAt_idx" ON "request_status_history"("requestId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "request_status_history_actorId_idx" ON "request_status_history"("actorId");
+
+-- AddForeignKey
+ALTER TABLE "request_status_history" ADD CONSTRAINT "request_status_history_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "request_status_history" ADD CONSTRAINT "request_status_history_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
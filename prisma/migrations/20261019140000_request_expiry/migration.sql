@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "RequestCompanyStatus" ADD VALUE 'EXPIRED';
+
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('REQUEST_EXPIRED');
+
+-- AlterTable
+ALTER TABLE "requests" ADD COLUMN     "quoteDeadline" TIMESTAMP(3);
+
+-- Backfill: published requests get the default 14-day quote window
+-- (or the project deadline if that comes first), as on publish
+UPDATE "requests"
+SET "quoteDeadline" = LEAST(COALESCE("publishedAt", "createdAt") + INTERVAL '14 days', "deadline")
+WHERE "status" = 'PUBLISHED' AND "quoteDeadline" IS NULL;
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT,
+    "link" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "requests_status_quoteDeadline_idx" ON "requests"("status", "quoteDeadline");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_readAt_idx" ON "notifications"("userId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
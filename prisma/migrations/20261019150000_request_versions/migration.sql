@@ -0,0 +1,61 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'REQUEST_AMENDED';
+
+-- AlterTable
+ALTER TABLE "requests" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "request_companies" ADD COLUMN     "requestVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "request_versions" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changes" JSONB,
+    "note" TEXT,
+    "authorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "request_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "request_versions_requestId_version_key" ON "request_versions"("requestId", "version");
+
+-- CreateIndex
+CREATE INDEX "request_versions_authorId_idx" ON "request_versions"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "request_versions" ADD CONSTRAINT "request_versions_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "request_versions" ADD CONSTRAINT "request_versions_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: requests published before versioning get version 1 as they are now
+INSERT INTO "request_versions" ("id", "requestId", "version", "snapshot", "authorId", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    "id",
+    1,
+    jsonb_build_object(
+        'title', "title",
+        'description', "description",
+        'budgetMin', "budgetMin",
+        'budgetMax', "budgetMax",
+        'deadline', to_char("deadline", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+        'preferredStart', to_char("preferredStart", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+        'quoteDeadline', to_char("quoteDeadline", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+        'requirements', "requirements",
+        'attachments', to_jsonb("attachments")
+    ),
+    "userId",
+    "publishedAt"
+FROM "requests"
+WHERE "publishedAt" IS NOT NULL;
+
+-- Backfill: existing proposals were written against version 1
+UPDATE "request_companies"
+SET "requestVersion" = 1
+WHERE "respondedAt" IS NOT NULL;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "request_templates" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT,
+    "projectType" "ProjectType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "descriptionScaffold" TEXT NOT NULL,
+    "features" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "integrations" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "budgetMin" INTEGER,
+    "budgetMax" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "request_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "request_templates_projectType_idx" ON "request_templates"("projectType");
+
+-- CreateIndex
+CREATE INDEX "request_templates_ownerId_idx" ON "request_templates"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "request_templates" ADD CONSTRAINT "request_templates_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
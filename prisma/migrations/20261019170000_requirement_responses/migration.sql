@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "request_companies" ADD COLUMN     "requirementResponses" JSONB;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "AttachmentPurpose" AS ENUM ('REQUEST', 'PROPOSAL', 'COMPANY_IMAGE');
+
+-- CreateTable
+CREATE TABLE "attachments" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "purpose" "AttachmentPurpose" NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "requestId" TEXT,
+    "requestCompanyId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attachments_storageKey_key" ON "attachments"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "attachments_ownerId_idx" ON "attachments"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "attachments_requestId_idx" ON "attachments"("requestId");
+
+-- CreateIndex
+CREATE INDEX "attachments_requestCompanyId_idx" ON "attachments"("requestCompanyId");
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_requestCompanyId_fkey" FOREIGN KEY ("requestCompanyId") REFERENCES "request_companies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
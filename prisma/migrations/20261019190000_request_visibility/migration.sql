@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "RequestVisibility" AS ENUM ('PUBLIC', 'INVITE_ONLY', 'ANONYMOUS_BUYER');
+
+-- AlterTable
+ALTER TABLE "requests" ADD COLUMN "visibility" "RequestVisibility" NOT NULL DEFAULT 'PUBLIC';
+
+-- CreateIndex
+CREATE INDEX "requests_visibility_idx" ON "requests"("visibility");
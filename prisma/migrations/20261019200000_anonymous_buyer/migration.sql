@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "BuyerIndustry" AS ENUM ('MANUFACTURING', 'RETAIL', 'FINANCE', 'HEALTHCARE', 'IT_SERVICES', 'REAL_ESTATE', 'LOGISTICS', 'EDUCATION', 'PUBLIC_SECTOR', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "BuyerSize" AS ENUM ('STARTUP', 'SMALL', 'MEDIUM', 'LARGE', 'ENTERPRISE');
+
+-- AlterTable
+ALTER TABLE "requests" ADD COLUMN "buyerIndustry" "BuyerIndustry",
+ADD COLUMN "buyerSize" "BuyerSize";
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'PROPOSAL_SELECTED';
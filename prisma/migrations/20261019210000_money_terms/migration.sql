@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "Currency" AS ENUM ('JPY', 'USD', 'EUR');
+
+-- CreateEnum
+CREATE TYPE "MoneyUnit" AS ENUM ('ONE_OFF', 'MONTHLY', 'PERSON_MONTH');
+
+-- AlterTable
+ALTER TABLE "requests" ADD COLUMN "budgetCurrency" "Currency" NOT NULL DEFAULT 'JPY',
+ADD COLUMN "budgetTaxIncluded" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "budgetUnit" "MoneyUnit" NOT NULL DEFAULT 'ONE_OFF';
+
+-- AlterTable
+ALTER TABLE "request_companies" ADD COLUMN "estimatedCurrency" "Currency" NOT NULL DEFAULT 'JPY',
+ADD COLUMN "estimatedTaxIncluded" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "estimatedUnit" "MoneyUnit" NOT NULL DEFAULT 'ONE_OFF';
+
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN "projectCostAmount" INTEGER,
+ADD COLUMN "projectCostCurrency" "Currency" NOT NULL DEFAULT 'JPY',
+ADD COLUMN "projectCostTaxIncluded" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "projectCostUnit" "MoneyUnit" NOT NULL DEFAULT 'ONE_OFF';
@@ -0,0 +1,56 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'SAVED_SEARCH_MATCH';
+
+-- CreateTable
+CREATE TABLE "saved_searches" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "projectTypes" "ProjectType"[] DEFAULT ARRAY[]::"ProjectType"[],
+    "budgetMin" INTEGER,
+    "budgetMax" INTEGER,
+    "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "techStackIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "alertsEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "emailDigest" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "saved_search_matches" (
+    "id" TEXT NOT NULL,
+    "savedSearchId" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "emailedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "saved_search_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_searches_userId_companyId_idx" ON "saved_searches"("userId", "companyId");
+
+-- CreateIndex
+CREATE INDEX "saved_searches_companyId_idx" ON "saved_searches"("companyId");
+
+-- CreateIndex
+CREATE INDEX "saved_search_matches_requestId_idx" ON "saved_search_matches"("requestId");
+
+-- CreateIndex
+CREATE INDEX "saved_search_matches_emailedAt_idx" ON "saved_search_matches"("emailedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "saved_search_matches_savedSearchId_requestId_key" ON "saved_search_matches"("savedSearchId", "requestId");
+
+-- AddForeignKey
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_userId_companyId_fkey" FOREIGN KEY ("userId", "companyId") REFERENCES "company_users"("userId", "companyId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_savedSearchId_fkey" FOREIGN KEY ("savedSearchId") REFERENCES "saved_searches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
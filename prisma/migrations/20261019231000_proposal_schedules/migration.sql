@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "DurationUnit" AS ENUM ('DAYS', 'WEEKS', 'MONTHS');
+
+-- AlterTable
+ALTER TABLE "request_companies" ADD COLUMN "durationUnit" "DurationUnit",
+ADD COLUMN "durationValue" INTEGER,
+ADD COLUMN "schedule" JSONB;
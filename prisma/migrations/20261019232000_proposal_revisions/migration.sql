@@ -0,0 +1,87 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'PROPOSAL_REVISION_REQUESTED';
+ALTER TYPE "NotificationType" ADD VALUE 'PROPOSAL_REVISED';
+
+-- AlterTable
+ALTER TABLE "request_companies" ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "proposal_revisions" (
+    "id" TEXT NOT NULL,
+    "requestCompanyId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changes" JSONB,
+    "note" TEXT,
+    "authorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposal_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "proposal_revision_requests" (
+    "id" TEXT NOT NULL,
+    "requestCompanyId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "comment" TEXT NOT NULL,
+    "authorId" TEXT,
+    "resolvedRevision" INTEGER,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposal_revision_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposal_revisions_requestCompanyId_revision_key" ON "proposal_revisions"("requestCompanyId", "revision");
+
+-- CreateIndex
+CREATE INDEX "proposal_revisions_authorId_idx" ON "proposal_revisions"("authorId");
+
+-- CreateIndex
+CREATE INDEX "proposal_revision_requests_requestCompanyId_idx" ON "proposal_revision_requests"("requestCompanyId");
+
+-- CreateIndex
+CREATE INDEX "proposal_revision_requests_authorId_idx" ON "proposal_revision_requests"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "proposal_revisions" ADD CONSTRAINT "proposal_revisions_requestCompanyId_fkey" FOREIGN KEY ("requestCompanyId") REFERENCES "request_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_revisions" ADD CONSTRAINT "proposal_revisions_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_revision_requests" ADD CONSTRAINT "proposal_revision_requests_requestCompanyId_fkey" FOREIGN KEY ("requestCompanyId") REFERENCES "request_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_revision_requests" ADD CONSTRAINT "proposal_revision_requests_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: submitted proposals get revision 1 as they are now
+INSERT INTO "proposal_revisions" ("id", "requestCompanyId", "revision", "snapshot", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    "id",
+    1,
+    jsonb_build_object(
+        'estimatedCost', "estimatedCost",
+        'estimatedCurrency', "estimatedCurrency",
+        'estimatedTaxIncluded', "estimatedTaxIncluded",
+        'estimatedUnit', "estimatedUnit",
+        'estimatedDuration', "estimatedDuration",
+        'durationValue', "durationValue",
+        'durationUnit', "durationUnit",
+        'schedule', "schedule",
+        'quote', "quote",
+        'proposal', "proposal",
+        'attachments', to_jsonb("attachments"),
+        'requirementResponses', "requirementResponses",
+        'requestVersion', "requestVersion"
+    ),
+    "respondedAt"
+FROM "request_companies"
+WHERE "respondedAt" IS NOT NULL;
+
+UPDATE "request_companies"
+SET "revision" = 1
+WHERE "respondedAt" IS NOT NULL;
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "QuestionVisibility" AS ENUM ('PRIVATE', 'PUBLIC');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'REQUEST_QUESTION_ASKED';
+ALTER TYPE "NotificationType" ADD VALUE 'REQUEST_QUESTION_ANSWERED';
+
+-- CreateTable
+CREATE TABLE "request_questions" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "question" TEXT NOT NULL,
+    "answer" TEXT,
+    "visibility" "QuestionVisibility" NOT NULL DEFAULT 'PRIVATE',
+    "answeredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "request_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "request_questions_requestId_idx" ON "request_questions"("requestId");
+
+-- CreateIndex
+CREATE INDEX "request_questions_companyId_idx" ON "request_questions"("companyId");
+
+-- CreateIndex
+CREATE INDEX "request_questions_authorId_idx" ON "request_questions"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "request_questions" ADD CONSTRAINT "request_questions_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "request_questions" ADD CONSTRAINT "request_questions_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "request_questions" ADD CONSTRAINT "request_questions_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "ProposalMessageSender" AS ENUM ('BUYER', 'COMPANY');
+
+-- AlterEnum
+ALTER TYPE "AttachmentPurpose" ADD VALUE 'MESSAGE';
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'PROPOSAL_MESSAGE';
+
+-- AlterTable
+ALTER TABLE "request_companies" ADD COLUMN "lastMessageAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "proposal_messages" (
+    "id" TEXT NOT NULL,
+    "requestCompanyId" TEXT NOT NULL,
+    "sender" "ProposalMessageSender" NOT NULL,
+    "authorId" TEXT,
+    "body" TEXT NOT NULL,
+    "attachments" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposal_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "proposal_thread_reads" (
+    "id" TEXT NOT NULL,
+    "requestCompanyId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "proposal_thread_reads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "proposal_messages_requestCompanyId_createdAt_idx" ON "proposal_messages"("requestCompanyId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "proposal_messages_authorId_idx" ON "proposal_messages"("authorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposal_thread_reads_requestCompanyId_userId_key" ON "proposal_thread_reads"("requestCompanyId", "userId");
+
+-- CreateIndex
+CREATE INDEX "proposal_thread_reads_userId_idx" ON "proposal_thread_reads"("userId");
+
+-- AddForeignKey
+ALTER TABLE "proposal_messages" ADD CONSTRAINT "proposal_messages_requestCompanyId_fkey" FOREIGN KEY ("requestCompanyId") REFERENCES "request_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_messages" ADD CONSTRAINT "proposal_messages_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_thread_reads" ADD CONSTRAINT "proposal_thread_reads_requestCompanyId_fkey" FOREIGN KEY ("requestCompanyId") REFERENCES "request_companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_thread_reads" ADD CONSTRAINT "proposal_thread_reads_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'REQUEST_INVITATION';
+
+-- AlterTable
+ALTER TABLE "request_companies" ADD COLUMN "invitedAt" TIMESTAMP(3);
+
+-- Backfill: invitations are created before the company answers, while
+-- unsolicited proposals are created by their first submission. Rows never
+-- answered, or first answered more than a minute after they were created,
+-- count as invitations.
+UPDATE "request_companies" AS rc
+SET "invitedAt" = rc."createdAt"
+WHERE COALESCE(
+    (SELECT MIN(pr."createdAt") FROM "proposal_revisions" pr WHERE pr."requestCompanyId" = rc."id"),
+    rc."respondedAt"
+) IS NULL
+OR COALESCE(
+    (SELECT MIN(pr."createdAt") FROM "proposal_revisions" pr WHERE pr."requestCompanyId" = rc."id"),
+    rc."respondedAt"
+) > rc."createdAt" + INTERVAL '1 minute';
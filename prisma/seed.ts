@@ -1,4 +1,4 @@
-import { PrismaClient, TechStackCategory } from "@prisma/client"
+import { PrismaClient, ProjectType, TechStackCategory } from "@prisma/client"
 
 const prisma = new PrismaClient()
 
@@ -8,41 +8,60 @@ async function main() {
   // Seed TechStacks
   const techStacks = [
     // Languages
-    { name: "TypeScript", slug: "typescript", category: "LANGUAGE" as TechStackCategory },
-    { name: "JavaScript", slug: "javascript", category: "LANGUAGE" as TechStackCategory },
+    { name: "TypeScript", slug: "typescript", category: "LANGUAGE" as TechStackCategory, aliases: ["TS"] },
+    { name: "JavaScript", slug: "javascript", category: "LANGUAGE" as TechStackCategory, aliases: ["JS"] },
     { name: "Python", slug: "python", category: "LANGUAGE" as TechStackCategory },
     { name: "Java", slug: "java", category: "LANGUAGE" as TechStackCategory },
-    { name: "Go", slug: "go", category: "LANGUAGE" as TechStackCategory },
+    { name: "Go", slug: "go", category: "LANGUAGE" as TechStackCategory, aliases: ["Golang"] },
     
     // Frameworks
     { name: "Next.js", slug: "nextjs", category: "FRAMEWORK" as TechStackCategory },
     { name: "React", slug: "react", category: "FRAMEWORK" as TechStackCategory },
-    { name: "Vue.js", slug: "vuejs", category: "FRAMEWORK" as TechStackCategory },
+    { name: "Vue.js", slug: "vuejs", category: "FRAMEWORK" as TechStackCategory, aliases: ["Vue"] },
     { name: "Angular", slug: "angular", category: "FRAMEWORK" as TechStackCategory },
     { name: "Django", slug: "django", category: "FRAMEWORK" as TechStackCategory },
     { name: "FastAPI", slug: "fastapi", category: "FRAMEWORK" as TechStackCategory },
     
     // Databases
-    { name: "PostgreSQL", slug: "postgresql", category: "DATABASE" as TechStackCategory },
+    { name: "PostgreSQL", slug: "postgresql", category: "DATABASE" as TechStackCategory, aliases: ["Postgres"] },
     { name: "MySQL", slug: "mysql", category: "DATABASE" as TechStackCategory },
-    { name: "MongoDB", slug: "mongodb", category: "DATABASE" as TechStackCategory },
+    { name: "MongoDB", slug: "mongodb", category: "DATABASE" as TechStackCategory, aliases: ["Mongo"] },
     { name: "Redis", slug: "redis", category: "DATABASE" as TechStackCategory },
     
     // Cloud
-    { name: "AWS", slug: "aws", category: "CLOUD" as TechStackCategory },
-    { name: "Google Cloud", slug: "gcp", category: "CLOUD" as TechStackCategory },
-    { name: "Azure", slug: "azure", category: "CLOUD" as TechStackCategory },
+    { name: "AWS", slug: "aws", category: "CLOUD" as TechStackCategory, aliases: ["Amazon Web Services"] },
+    { name: "Google Cloud", slug: "gcp", category: "CLOUD" as TechStackCategory, aliases: ["Google Cloud Platform"] },
+    { name: "Azure", slug: "azure", category: "CLOUD" as TechStackCategory, aliases: ["Microsoft Azure"] },
     { name: "Vercel", slug: "vercel", category: "CLOUD" as TechStackCategory },
   ]
 
   for (const tech of techStacks) {
     await prisma.techStack.upsert({
       where: { slug: tech.slug },
-      update: {},
+      update: { aliases: tech.aliases ?? [] },
       create: tech,
     })
   }
 
+  // TechStack hierarchy (child slug -> parent slug) used by matching
+  const techStackParents: Record<string, string> = {
+    typescript: "javascript",
+    react: "javascript",
+    vuejs: "javascript",
+    angular: "typescript",
+    nextjs: "react",
+    django: "python",
+    fastapi: "python",
+  }
+
+  for (const [slug, parentSlug] of Object.entries(techStackParents)) {
+    const parent = await prisma.techStack.findUnique({ where: { slug: parentSlug } })
+    await prisma.techStack.update({
+      where: { slug },
+      data: { parentId: parent?.id ?? null },
+    })
+  }
+
   console.log("✅ TechStacks seeded")
 
   // Seed Specialties
@@ -66,6 +85,61 @@ async function main() {
   }
 
   console.log("✅ Specialties seeded")
+
+  // Seed shared request templates (ownerId null = managed by admins)
+  const requestTemplates = [
+    {
+      projectType: "WEB_DEVELOPMENT" as ProjectType,
+      name: "コーポレートサイト制作",
+      descriptionScaffold:
+        "【背景】\n現在のサイトの課題:\n\n【目的】\nリニューアルで達成したいこと:\n\n【ページ構成】\n想定ページ数:\n\n【運用】\n更新頻度・更新担当:",
+      features: ["お問い合わせフォーム", "お知らせ・ブログ (CMS)", "レスポンシブ対応", "SEO対策"],
+      integrations: ["Google Analytics"],
+      budgetMin: 1000000,
+      budgetMax: 3000000,
+    },
+    {
+      projectType: "MOBILE_APP" as ProjectType,
+      name: "iOS/Androidアプリ開発",
+      descriptionScaffold:
+        "【アプリの概要】\n\n【想定ユーザー】\n\n【対応OS】\niOS / Android\n\n【ストア公開】\n公開予定時期:",
+      features: ["会員登録・ログイン", "プッシュ通知", "管理画面"],
+      integrations: ["Firebase"],
+      budgetMin: 3000000,
+      budgetMax: 10000000,
+    },
+    {
+      projectType: "AI_ML" as ProjectType,
+      name: "AI活用PoC",
+      descriptionScaffold:
+        "【解決したい課題】\n\n【利用可能なデータ】\nデータの種類・件数:\n\n【評価指標】\nPoCの成功基準:",
+      features: ["データ分析", "モデル構築", "精度評価レポート"],
+      integrations: [],
+      budgetMin: 2000000,
+      budgetMax: 8000000,
+    },
+    {
+      projectType: "SYSTEM_INTEGRATION" as ProjectType,
+      name: "業務システム導入",
+      descriptionScaffold:
+        "【対象業務】\n\n【現行システム】\n\n【利用者数】\n\n【移行データ】",
+      features: ["権限管理", "帳票出力", "データ移行"],
+      integrations: ["既存基幹システム"],
+      budgetMin: 5000000,
+      budgetMax: 20000000,
+    },
+  ]
+
+  for (const template of requestTemplates) {
+    const existing = await prisma.requestTemplate.findFirst({
+      where: { ownerId: null, projectType: template.projectType, name: template.name },
+    })
+    if (!existing) {
+      await prisma.requestTemplate.create({ data: template })
+    }
+  }
+
+  console.log("✅ Request templates seeded")
   console.log("🎉 Seed completed!")
 }
 
@@ -0,0 +1,103 @@
+/**
+ * Offline matching evaluation
+ *
+ * Replays requests with a SELECTED company through the matching algorithm
+ * and reports hit@k / MRR for one or more MatchingConfig values.
+ *
+ * Usage:
+ *   npm run matching:evaluate -- [--configs <file.json>] [--k 1,3,5,10] [--limit <n>] [--out <dir>]
+ *
+ * --configs  JSON object of named configs (default: { "default": {} }),
+ *            see scripts/matching-configs.example.json
+ * --k        hit@k cut-offs (default: 1,3,5,10)
+ * --limit    Only the n most recent requests
+ * --out      Output directory for matching-evaluation.json / .md (default: reports)
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises"
+import path from "path"
+import { prisma } from "@/lib/prisma"
+import { resolveMatchingWeights, validateMatchingWeights } from "@/lib/matching/algorithm"
+import {
+  compareMatchingConfigs,
+  DEFAULT_EVALUATION_KS,
+  loadEvaluationCases,
+  renderEvaluationMarkdown,
+} from "@/lib/matching/evaluation"
+import { loadTechStackTaxonomy } from "@/lib/matching/snapshots"
+import { evaluationConfigsSchema, EvaluationConfigs } from "@/lib/validations/matching"
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {}
+
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue
+    const value = argv[i + 1]
+    if (value === undefined || value.startsWith("--")) {
+      throw new Error(`Missing value for ${argv[i]}`)
+    }
+    args[argv[i].slice(2)] = value
+    i++
+  }
+
+  return args
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+
+  const configs: EvaluationConfigs = args.configs
+    ? evaluationConfigsSchema.parse(JSON.parse(await readFile(args.configs, "utf8")))
+    : { default: {} }
+
+  for (const [name, config] of Object.entries(configs)) {
+    const validation = validateMatchingWeights(resolveMatchingWeights(config))
+    if (!validation.valid) {
+      throw new Error(`Config "${name}": ${validation.error}`)
+    }
+  }
+
+  const ks = args.k ? args.k.split(",").map((k) => parseInt(k, 10)) : DEFAULT_EVALUATION_KS
+  if (ks.some((k) => !Number.isInteger(k) || k < 1)) {
+    throw new Error("--k must be a comma-separated list of positive integers")
+  }
+
+  const limit = args.limit ? parseInt(args.limit, 10) : undefined
+  const outDir = args.out ?? "reports"
+
+  console.log("📥 Loading historical requests...")
+  const [cases, techStackTaxonomy] = await Promise.all([
+    loadEvaluationCases({ limit }),
+    loadTechStackTaxonomy(),
+  ])
+
+  if (cases.length === 0) {
+    console.warn("⚠️  No requests with a SELECTED company found; the report will be empty")
+  }
+
+  console.log(`🔁 Replaying ${cases.length} requests with ${Object.keys(configs).length} configs...`)
+  const report = compareMatchingConfigs(
+    cases,
+    Object.fromEntries(
+      Object.entries(configs).map(([name, config]) => [name, { ...config, techStackTaxonomy }])
+    ),
+    ks
+  )
+  const markdown = renderEvaluationMarkdown(report)
+
+  await mkdir(outDir, { recursive: true })
+  await writeFile(path.join(outDir, "matching-evaluation.json"), JSON.stringify(report, null, 2))
+  await writeFile(path.join(outDir, "matching-evaluation.md"), markdown)
+
+  console.log(markdown)
+  console.log(`✅ Report written to ${outDir}/matching-evaluation.{json,md}`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,40 @@
+/**
+ * Request expiry job
+ *
+ * Closes published requests whose quote window has ended, expires their
+ * unanswered invitations and notifies the owners. Run from cron, e.g.
+ *
+ *   0 * * * *  cd /app && npm run requests:expire
+ */
+
+import { prisma } from "@/lib/prisma"
+import { expireRequests } from "@/lib/requests/expiry"
+
+async function main() {
+  console.log("⏰ Expiring requests past their quote window...")
+  const result = await expireRequests()
+
+  for (const { requestId, expiredInvitations } of result.expired) {
+    console.log(`  ${requestId}: closed, ${expiredInvitations} invitations expired`)
+  }
+  for (const requestId of result.skipped) {
+    console.log(`  ${requestId}: skipped (status changed)`)
+  }
+  for (const { requestId, error } of result.failed) {
+    console.error(`  ${requestId}: failed (${error})`)
+  }
+  if (result.failed.length > 0) {
+    process.exitCode = 1
+  }
+
+  console.log(`✅ ${result.expired.length} requests expired`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
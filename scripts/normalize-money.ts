@@ -0,0 +1,89 @@
+/**
+ * Money backfill
+ *
+ * Parses legacy free-text amounts into the structured money fields:
+ * - Request.budget ("300万円", "100〜200万円 税込", …) into budgetMin/budgetMax
+ *   and the budget terms, for requests without a numeric budget
+ * - Review.projectCost into projectCostAmount and its terms
+ *
+ * Values that can't be parsed are reported and left as they are. Safe to run
+ * more than once:
+ *
+ *   npm run money:normalize
+ */
+
+import { prisma } from "@/lib/prisma"
+import { parseMoneyRange } from "@/lib/utils/money"
+import { toProjectCostData } from "@/lib/validations/review"
+
+async function normalizeRequestBudgets() {
+  const requests = await prisma.request.findMany({
+    where: { budget: { not: null }, budgetMin: null, budgetMax: null },
+    select: { id: true, budget: true },
+  })
+
+  let updated = 0
+  for (const request of requests) {
+    const range = parseMoneyRange(request.budget)
+    if (!range) {
+      console.log(`  request ${request.id}: could not parse "${request.budget}"`)
+      continue
+    }
+
+    await prisma.request.update({
+      where: { id: request.id },
+      data: {
+        // A single amount is an upper bound ("300万円" = up to ¥3,000,000);
+        // open-ended amounts ("300万円以上") keep their one bound
+        budgetMin: range.min !== range.max ? range.min : null,
+        budgetMax: range.max,
+        budgetCurrency: range.currency,
+        budgetTaxIncluded: range.taxIncluded,
+        budgetUnit: range.unit,
+      },
+    })
+    updated++
+  }
+
+  return { total: requests.length, updated }
+}
+
+async function normalizeReviewCosts() {
+  const reviews = await prisma.review.findMany({
+    where: { projectCost: { not: null }, projectCostAmount: null },
+    select: { id: true, projectCost: true },
+  })
+
+  let updated = 0
+  for (const review of reviews) {
+    const data = toProjectCostData(review.projectCost)
+    if (data.projectCostAmount === null) {
+      console.log(`  review ${review.id}: could not parse "${review.projectCost}"`)
+      continue
+    }
+
+    await prisma.review.update({ where: { id: review.id }, data })
+    updated++
+  }
+
+  return { total: reviews.length, updated }
+}
+
+async function main() {
+  console.log("💴 Normalizing legacy request budgets...")
+  const budgets = await normalizeRequestBudgets()
+  console.log(`✅ ${budgets.updated} of ${budgets.total} request budgets normalized`)
+
+  console.log("💴 Normalizing review project costs...")
+  const costs = await normalizeReviewCosts()
+  console.log(`✅ ${costs.updated} of ${costs.total} review costs normalized`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,27 @@
+/**
+ * Saved search digest job
+ *
+ * Emails each company member the requests their saved searches matched since
+ * the last digest. Run from cron, e.g. daily at 8:00:
+ *
+ *   0 8 * * *  cd /app && npm run alerts:digest
+ */
+
+import { prisma } from "@/lib/prisma"
+import { sendSavedSearchDigests } from "@/lib/notifications/digest"
+
+async function main() {
+  console.log("📬 Sending saved search digests...")
+  const result = await sendSavedSearchDigests()
+
+  console.log(`✅ ${result.sent} digests sent with ${result.matches} matching requests`)
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,90 @@
+/**
+ * Company Matches API Route
+ * GET /api/companies/[id]/matches - Requests this company was matched to, with score breakdown
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { MATCHING_ALGORITHM_VERSION } from "@/lib/matching/algorithm";
+import { visibleToCompanyWhere } from "@/lib/requests/visibility";
+import { MatchScore } from "@/types/matching";
+
+/**
+ * GET /api/companies/[id]/matches
+ * List stored match snapshots (current algorithm version) for published requests
+ * the company can see
+ * Only accessible by company members
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check company membership
+    const membership = await prisma.companyUser.findUnique({
+      where: {
+        userId_companyId: {
+          userId: user.id,
+          companyId: params.id,
+        },
+      },
+    });
+
+    if (!membership && user.role !== "SYSTEM_ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const matches = await prisma.requestMatch.findMany({
+      where: {
+        companyId: params.id,
+        algorithmVersion: MATCHING_ALGORITHM_VERSION,
+        // Invite-only requests only for companies that were invited
+        request: {
+          status: "PUBLISHED",
+          ...visibleToCompanyWhere(params.id),
+        },
+      },
+      include: {
+        request: {
+          select: {
+            id: true,
+            title: true,
+            projectType: true,
+            budgetMin: true,
+            budgetMax: true,
+            deadline: true,
+            publishedAt: true,
+          },
+        },
+      },
+      orderBy: {
+        computedAt: "desc",
+      },
+    });
+
+    return NextResponse.json({
+      companyId: params.id,
+      algorithmVersion: MATCHING_ALGORITHM_VERSION,
+      totalMatches: matches.length,
+      matches: matches.map((match) => ({
+        request: match.request,
+        rank: match.rank,
+        matchScore: match.matchScore as unknown as MatchScore,
+        computedAt: match.computedAt,
+      })),
+    });
+  } catch (error) {
+    console.error("GET /api/companies/[id]/matches error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch matches" },
+      { status: 500 }
+    );
+  }
+}
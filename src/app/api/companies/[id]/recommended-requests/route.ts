@@ -0,0 +1,100 @@
+/**
+ * Company Recommended Requests API Route
+ * GET /api/companies/[id]/recommended-requests - Published requests ranked for this company
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { MATCHING_ALGORITHM_VERSION } from "@/lib/matching/algorithm";
+import { getRecommendedRequests } from "@/lib/matching/recommendations";
+import { recommendedRequestsQuerySchema } from "@/lib/validations/matching";
+
+/**
+ * GET /api/companies/[id]/recommended-requests
+ * Rank published requests against the company's tech stacks, specialties,
+ * price history and rating. Requests the company already quoted are excluded.
+ * Only accessible by company members
+ *
+ * Query parameters:
+ * - minScore: Minimum matching score (0-100, default: 30)
+ * - maxResults: Maximum number of results (default: 10, max: 50)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check company membership
+    const membership = await prisma.companyUser.findUnique({
+      where: {
+        userId_companyId: {
+          userId: user.id,
+          companyId: params.id,
+        },
+      },
+    });
+
+    if (!membership && user.role !== "SYSTEM_ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { minScore, maxResults } = recommendedRequestsQuerySchema.parse({
+      minScore: searchParams.get("minScore") || undefined,
+      maxResults: searchParams.get("maxResults") || undefined,
+    });
+
+    const recommendations = await getRecommendedRequests(params.id, {
+      minScore,
+      maxResults,
+    });
+
+    if (!recommendations) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      companyId: params.id,
+      algorithmVersion: MATCHING_ALGORITHM_VERSION,
+      totalRecommendations: recommendations.length,
+      recommendations: recommendations.map(({ request: req, matchScore }) => ({
+        request: {
+          id: req.id,
+          title: req.title,
+          projectType: req.projectType,
+          budgetMin: req.budgetMin,
+          budgetMax: req.budgetMax,
+          budgetCurrency: req.budgetCurrency,
+          budgetTaxIncluded: req.budgetTaxIncluded,
+          budgetUnit: req.budgetUnit,
+          deadline: req.deadline,
+          publishedAt: req.publishedAt,
+        },
+        matchScore,
+        invited: req.requestCompanies.length > 0,
+      })),
+    });
+  } catch (error) {
+    console.error("GET /api/companies/[id]/recommended-requests error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch recommended requests" },
+      { status: 500 }
+    );
+  }
+}
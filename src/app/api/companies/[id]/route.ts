@@ -188,6 +188,12 @@ export async function PATCH(
           ...(validatedData.website !== undefined && {
             website: validatedData.website,
           }),
+          ...(validatedData.acceptsNewProjects !== undefined && {
+            acceptsNewProjects: validatedData.acceptsNewProjects,
+          }),
+          ...(validatedData.maxConcurrentProjects !== undefined && {
+            maxConcurrentProjects: validatedData.maxConcurrentProjects,
+          }),
         },
       })
 
@@ -0,0 +1,108 @@
+/**
+ * Company Saved Search API Routes
+ * PATCH /api/companies/[id]/saved-searches/[searchId] - Update a saved search
+ * DELETE /api/companies/[id]/saved-searches/[searchId] - Delete a saved search
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { validateRequirementIds } from "@/lib/requests/requirements";
+import { savedSearchUpdateSchema } from "@/lib/validations/request";
+
+interface RouteParams {
+  params: { id: string; searchId: string };
+}
+
+/**
+ * Saved search of the current user in this company
+ */
+async function findOwnSavedSearch(userId: string, { id, searchId }: RouteParams["params"]) {
+  return prisma.savedSearch.findFirst({
+    where: { id: searchId, userId, companyId: id },
+  });
+}
+
+/**
+ * PATCH /api/companies/[id]/saved-searches/[searchId]
+ * Update the filter or alert settings of a saved search
+ * Only accessible by the member who saved it
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existing = await findOwnSavedSearch(user.id, params);
+    if (!existing) {
+      return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const data = savedSearchUpdateSchema.parse(body);
+
+    // The budget range is checked against the stored value of the other bound
+    const budgetMin = data.budgetMin !== undefined ? data.budgetMin : existing.budgetMin;
+    const budgetMax = data.budgetMax !== undefined ? data.budgetMax : existing.budgetMax;
+    if (budgetMin && budgetMax && budgetMin >= budgetMax) {
+      return NextResponse.json(
+        { error: "Minimum budget must be less than maximum budget" },
+        { status: 400 }
+      );
+    }
+
+    if (data.techStackIds) {
+      const idCheck = await validateRequirementIds({ techStackIds: data.techStackIds });
+      if (!idCheck.valid) {
+        return NextResponse.json({ error: idCheck.error }, { status: 400 });
+      }
+    }
+
+    const savedSearch = await prisma.savedSearch.update({
+      where: { id: existing.id },
+      data,
+    });
+
+    return NextResponse.json(savedSearch);
+  } catch (error) {
+    console.error("PATCH /api/companies/[id]/saved-searches/[searchId] error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: "Failed to update saved search" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/companies/[id]/saved-searches/[searchId]
+ * Delete a saved search; notifications already sent stay in the inbox
+ * Only accessible by the member who saved it
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existing = await findOwnSavedSearch(user.id, params);
+    if (!existing) {
+      return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+    }
+
+    await prisma.savedSearch.delete({ where: { id: existing.id } });
+
+    return NextResponse.json({ success: true, message: "Saved search deleted" });
+  } catch (error) {
+    console.error("DELETE /api/companies/[id]/saved-searches/[searchId] error:", error);
+    return NextResponse.json({ error: "Failed to delete saved search" }, { status: 500 });
+  }
+}
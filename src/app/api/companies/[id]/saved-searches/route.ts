@@ -0,0 +1,98 @@
+/**
+ * Company Saved Searches API Routes
+ * GET /api/companies/[id]/saved-searches - The current member's saved searches
+ * POST /api/companies/[id]/saved-searches - Save a search
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { validateRequirementIds } from "@/lib/requests/requirements";
+import { savedSearchCreateSchema } from "@/lib/validations/request";
+
+/**
+ * GET /api/companies/[id]/saved-searches
+ * Saved searches of the current user for this company, with the number of
+ * requests each one alerted about
+ * Only accessible by company members
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.companyUser.findUnique({
+      where: { userId_companyId: { userId: user.id, companyId: params.id } },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const savedSearches = await prisma.savedSearch.findMany({
+      where: { userId: user.id, companyId: params.id },
+      include: { _count: { select: { matches: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ savedSearches });
+  } catch (error) {
+    console.error("GET /api/companies/[id]/saved-searches error:", error);
+    return NextResponse.json({ error: "Failed to fetch saved searches" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/companies/[id]/saved-searches
+ * Save a search for the current user; matching requests published from now
+ * on are sent to their inbox (and the email digest if `emailDigest` is on)
+ * Only accessible by company members
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.companyUser.findUnique({
+      where: { userId_companyId: { userId: user.id, companyId: params.id } },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const data = savedSearchCreateSchema.parse(body);
+
+    const idCheck = await validateRequirementIds({ techStackIds: data.techStackIds });
+    if (!idCheck.valid) {
+      return NextResponse.json({ error: idCheck.error }, { status: 400 });
+    }
+
+    const savedSearch = await prisma.savedSearch.create({
+      data: {
+        ...data,
+        userId: user.id,
+        companyId: params.id,
+      },
+    });
+
+    return NextResponse.json(savedSearch, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/companies/[id]/saved-searches error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ error: "Failed to save search" }, { status: 500 });
+  }
+}
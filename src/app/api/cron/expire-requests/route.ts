@@ -0,0 +1,34 @@
+/**
+ * Request Expiry Cron Route
+ * GET /api/cron/expire-requests - Close requests whose quote window has ended
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { expireRequests } from '@/lib/requests/expiry';
+
+/**
+ * GET /api/cron/expire-requests
+ * Expire published requests past their quote window
+ * Requires `Authorization: Bearer <CRON_SECRET>` (disabled when CRON_SECRET is unset)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await expireRequests();
+
+    return NextResponse.json({
+      expiredCount: result.expired.length,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error expiring requests:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
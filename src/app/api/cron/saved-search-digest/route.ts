@@ -0,0 +1,32 @@
+/**
+ * Saved Search Digest Cron Route
+ * GET /api/cron/saved-search-digest - Email pending saved search matches
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { sendSavedSearchDigests } from '@/lib/notifications/digest';
+
+/**
+ * GET /api/cron/saved-search-digest
+ * Send each member one email with the requests their saved searches matched
+ * since the last digest
+ * Requires `Authorization: Bearer <CRON_SECRET>` (disabled when CRON_SECRET is unset)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await sendSavedSearchDigests();
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error sending saved search digests:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * File Access API Route
+ * GET /api/files/[id] - Redirect to a signed download URL
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { getStorageAdapter } from '@/lib/storage';
+import { canAccessAttachment, SIGNED_URL_TTL_SECONDS } from '@/lib/storage/files';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET /api/files/[id]
+ * Check access to an uploaded file and redirect to a download URL that
+ * expires after SIGNED_URL_TTL_SECONDS
+ *
+ * - Request attachments: request owner and invited companies
+ * - Proposal and proposal message attachments: request owner and the
+ *   proposing company
+ * - Company images: public
+ * The uploader can always access their files.
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    const session = await getServerSession();
+
+    const attachment = await prisma.attachment.findUnique({
+      where: { id },
+      include: {
+        request: {
+          select: {
+            userId: true,
+            requestCompanies: { select: { companyId: true } },
+          },
+        },
+        requestCompany: {
+          select: {
+            companyId: true,
+            request: { select: { userId: true } },
+          },
+        },
+      },
+    });
+
+    if (!attachment) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const viewer = session?.user?.email
+      ? await prisma.user.findUnique({
+          where: { email: session.user.email },
+          select: {
+            id: true,
+            companyUsers: { select: { companyId: true } },
+          },
+        })
+      : null;
+
+    const canAccess = canAccessAttachment(
+      {
+        ownerId: attachment.ownerId,
+        purpose: attachment.purpose,
+        request: attachment.request && {
+          userId: attachment.request.userId,
+          companyIds: attachment.request.requestCompanies.map((rc) => rc.companyId),
+        },
+        proposal: attachment.requestCompany && {
+          requestUserId: attachment.requestCompany.request.userId,
+          companyId: attachment.requestCompany.companyId,
+        },
+      },
+      viewer && {
+        userId: viewer.id,
+        companyIds: viewer.companyUsers.map((cu) => cu.companyId),
+      }
+    );
+
+    if (!canAccess) {
+      return NextResponse.json(
+        { error: session?.user?.email ? 'Unauthorized' : 'Authentication required' },
+        { status: session?.user?.email ? 403 : 401 }
+      );
+    }
+
+    const signedUrl = await getStorageAdapter().getSignedUrl(attachment.storageKey, {
+      expiresIn: SIGNED_URL_TTL_SECONDS,
+    });
+
+    return NextResponse.redirect(new URL(signedUrl, req.url));
+  } catch (error) {
+    console.error('Error accessing file:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Local File Download API Route
+ * GET /api/files/download - Serve a file from local storage by signed URL
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getStorageAdapter } from '@/lib/storage';
+import { LocalStorageAdapter } from '@/lib/storage/local';
+
+/**
+ * GET /api/files/download
+ * Serve a locally stored file
+ * No session needed: the signature proves that /api/files/[id] granted access
+ *
+ * Query parameters:
+ * - key: Storage key
+ * - expires: Expiry (Unix seconds)
+ * - signature: HMAC over key and expiry
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const storage = getStorageAdapter();
+    if (!(storage instanceof LocalStorageAdapter)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const key = searchParams.get('key') ?? '';
+    const isValid = storage.verify({
+      key,
+      expires: Number(searchParams.get('expires')),
+      signature: searchParams.get('signature') ?? '',
+    });
+
+    if (!isValid) {
+      return NextResponse.json(
+        { error: 'Download link is invalid or has expired' },
+        { status: 403 }
+      );
+    }
+
+    const attachment = await prisma.attachment.findUnique({
+      where: { storageKey: key },
+    });
+
+    if (!attachment) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const data = await storage.read(key);
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${
+          attachment.mimeType.startsWith('image/') ? 'inline' : 'attachment'
+        }; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading file:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
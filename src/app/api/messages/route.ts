@@ -0,0 +1,140 @@
+/**
+ * Message Threads API Route
+ * GET /api/messages - The current user's proposal conversations with unread counts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import { ProposalMessageSender } from '@prisma/client';
+
+/**
+ * Query parameters validation schema
+ */
+const threadQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(50).default(10),
+});
+
+/**
+ * Unread message count per thread over every conversation of a user, in one
+ * query: messages of the other side after the user's read position (see
+ * getUnreadMessagesWhere). Threads without unread messages are left out.
+ */
+async function countUnreadMessagesByThread(userId: string): Promise<Map<string, number>> {
+  const rows = await prisma.$queryRaw<{ requestCompanyId: string; unreadCount: number }[]>`
+    SELECT m."requestCompanyId", COUNT(*)::int AS "unreadCount"
+    FROM "proposal_messages" m
+    JOIN "request_companies" rc ON rc."id" = m."requestCompanyId"
+    JOIN "requests" r ON r."id" = rc."requestId"
+    LEFT JOIN "proposal_thread_reads" tr
+      ON tr."requestCompanyId" = m."requestCompanyId" AND tr."userId" = ${userId}
+    WHERE (
+        (r."userId" = ${userId} AND m."sender" = 'COMPANY')
+        OR (
+          r."userId" <> ${userId}
+          AND m."sender" = 'BUYER'
+          AND EXISTS (
+            SELECT 1 FROM "company_users" cu
+            WHERE cu."companyId" = rc."companyId" AND cu."userId" = ${userId}
+          )
+        )
+      )
+      AND (tr."lastReadAt" IS NULL OR m."createdAt" > tr."lastReadAt")
+    GROUP BY m."requestCompanyId"
+  `;
+
+  return new Map(rows.map((row) => [row.requestCompanyId, row.unreadCount]));
+}
+
+/**
+ * GET /api/messages
+ * Proposal conversations the current user takes part in, as the request owner
+ * or a member of the proposing company, most recent message first
+ *
+ * Query parameters:
+ * - limit: Maximum number of threads (default: 10, max: 50)
+ *
+ * `unreadCount` is the total over all of the user's threads, not only the
+ * returned ones.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const { limit } = threadQuerySchema.parse({
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const [proposals, unreadByThread] = await Promise.all([
+      prisma.requestCompany.findMany({
+        where: {
+          lastMessageAt: { not: null },
+          OR: [
+            { request: { userId: user.id } },
+            { company: { companyUsers: { some: { userId: user.id } } } },
+          ],
+        },
+        include: {
+          request: {
+            select: { id: true, title: true, userId: true },
+          },
+          company: {
+            select: { id: true, name: true },
+          },
+          messages: {
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            select: { sender: true, body: true, createdAt: true },
+          },
+        },
+        orderBy: { lastMessageAt: 'desc' },
+        take: limit,
+      }),
+      countUnreadMessagesByThread(user.id),
+    ]);
+
+    const threads = proposals.map((proposal) => {
+      // Only threads the user takes part in are returned; the request owner
+      // speaks as the buyer
+      const sender: ProposalMessageSender =
+        proposal.request.userId === user.id ? 'BUYER' : 'COMPANY';
+
+      return {
+        proposalId: proposal.id,
+        sender,
+        request: { id: proposal.request.id, title: proposal.request.title },
+        company: { id: proposal.company.id, name: proposal.company.name },
+        lastMessage: proposal.messages[0] ?? null,
+        lastMessageAt: proposal.lastMessageAt,
+        unreadCount: unreadByThread.get(proposal.id) ?? 0,
+      };
+    });
+
+    return NextResponse.json({
+      threads,
+      unreadCount: [...unreadByThread.values()].reduce((sum, count) => sum + count, 0),
+    });
+  } catch (error) {
+    console.error('Error fetching message threads:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Notifications API Routes
+ * GET /api/notifications - The current user's inbox
+ * PATCH /api/notifications - Mark notifications as read
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUser } from '@/lib/auth';
+import {
+  notificationQuerySchema,
+  notificationReadSchema,
+} from '@/lib/validations/notification';
+
+/**
+ * GET /api/notifications
+ * Latest notifications of the current user, newest first, with the unread count
+ *
+ * Query parameters:
+ * - unreadOnly: Only unread notifications (true/false)
+ * - limit: Maximum number of notifications (default: 20, max: 50)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const { unreadOnly, limit } = notificationQuerySchema.parse({
+      unreadOnly: searchParams.get('unreadOnly') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId: user.id, ...(unreadOnly && { readAt: null }) },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      prisma.notification.count({ where: { userId: user.id, readAt: null } }),
+    ]);
+
+    return NextResponse.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/notifications
+ * Mark the given notifications (or all unread ones) as read
+ * Notifications of other users are ignored
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { ids } = notificationReadSchema.parse(body);
+
+    const { count } = await prisma.notification.updateMany({
+      where: { userId: user.id, readAt: null, ...(ids && { id: { in: ids } }) },
+      data: { readAt: new Date() },
+    });
+
+    const unreadCount = await prisma.notification.count({
+      where: { userId: user.id, readAt: null },
+    });
+
+    return NextResponse.json({ updated: count, unreadCount });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
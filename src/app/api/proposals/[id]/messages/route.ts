@@ -0,0 +1,273 @@
+/**
+ * Proposal Messages API Routes
+ * GET /api/proposals/[id]/messages - Conversation with read receipts and the unread count
+ * POST /api/proposals/[id]/messages - Send a message
+ * PATCH /api/proposals/[id]/messages - Mark the conversation as read
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { linkAttachments } from '@/lib/storage';
+import { canSeeBuyerIdentity } from '@/lib/requests/buyer';
+import {
+  canSendMessage,
+  getMessageSender,
+  getReadUpTo,
+  getUnreadMessagesWhere,
+  hasMessageThread,
+  markThreadRead,
+  presentMessage,
+  sendProposalMessage,
+} from '@/lib/requests/messages';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * Message validation schema
+ */
+const messageSchema = z.object({
+  body: z.string().trim().min(1, 'Message is required').max(4000),
+  attachments: z.array(z.string().url()).max(5).default([]),
+});
+
+/**
+ * Load a proposal's conversation participants and the signed-in user's side
+ * Returns an error response for missing proposals and outsiders.
+ */
+async function loadThread(id: string, email: string) {
+  const [user, proposal] = await Promise.all([
+    prisma.user.findUnique({ where: { email } }),
+    prisma.requestCompany.findUnique({
+      where: { id },
+      include: {
+        request: {
+          select: { id: true, title: true, userId: true, visibility: true },
+        },
+        company: {
+          select: {
+            name: true,
+            companyUsers: { select: { userId: true } },
+          },
+        },
+      },
+    }),
+  ]);
+
+  if (!proposal) {
+    return {
+      error: NextResponse.json({ error: 'Proposal not found' }, { status: 404 }),
+    };
+  }
+
+  // Check authorization (request owner or company member)
+  const sender =
+    user &&
+    getMessageSender({
+      isRequestOwner: proposal.request.userId === user.id,
+      isCompanyMember: proposal.company.companyUsers.some((cu) => cu.userId === user.id),
+    });
+
+  if (!user || !sender) {
+    return {
+      error: NextResponse.json({ error: 'Unauthorized' }, { status: 403 }),
+    };
+  }
+
+  return { user, proposal, sender };
+}
+
+/**
+ * GET /api/proposals/[id]/messages
+ * Get the conversation of a proposal, oldest first
+ * Accessible by request owner or company member
+ *
+ * Messages of the viewer's side carry `isRead` once someone on the other side
+ * has read them. `unreadCount` counts the other side's messages the viewer has
+ * not read yet; reading the thread does not change it, see PATCH.
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const thread = await loadThread(id, session.user.email);
+    if (thread.error) return thread.error;
+    const { user, proposal, sender } = thread;
+
+    const otherSideUserIds =
+      sender === 'BUYER'
+        ? proposal.company.companyUsers.map((cu) => cu.userId)
+        : [proposal.request.userId];
+
+    const [messages, ownRead, otherSideReads] = await Promise.all([
+      prisma.proposalMessage.findMany({
+        where: { requestCompanyId: id },
+        include: {
+          author: {
+            select: { id: true, name: true },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.proposalThreadRead.findUnique({
+        where: { requestCompanyId_userId: { requestCompanyId: id, userId: user.id } },
+      }),
+      prisma.proposalThreadRead.findMany({
+        where: { requestCompanyId: id, userId: { in: otherSideUserIds } },
+      }),
+    ]);
+
+    const unreadCount = await prisma.proposalMessage.count({
+      where: getUnreadMessagesWhere(id, sender, ownRead?.lastReadAt ?? null),
+    });
+
+    const viewer = {
+      userId: user.id,
+      sender,
+      showBuyer: canSeeBuyerIdentity(proposal.request, {
+        isOwner: sender === 'BUYER',
+        isSelected: proposal.status === 'SELECTED',
+      }),
+    };
+    const otherSideReadUpTo = getReadUpTo(otherSideReads);
+
+    return NextResponse.json({
+      proposalId: id,
+      sender,
+      hasThread: hasMessageThread(proposal.status),
+      canSend: canSendMessage(proposal.status),
+      unreadCount,
+      messages: messages.map((message) => presentMessage(message, viewer, otherSideReadUpTo)),
+    });
+  } catch (error) {
+    console.error('Error fetching proposal messages:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/proposals/[id]/messages
+ * Send a message on a submitted proposal
+ * Accessible by request owner or company member
+ * The other side is notified; attachments must be uploaded with the
+ * `message` purpose.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const thread = await loadThread(id, session.user.email);
+    if (thread.error) return thread.error;
+    const { user, proposal, sender } = thread;
+
+    if (!canSendMessage(proposal.status)) {
+      return NextResponse.json(
+        { error: 'Messages can only be sent on submitted proposals' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = messageSchema.parse(body);
+
+    const message = await prisma.$transaction(async (tx) => {
+      const entry = await sendProposalMessage(tx, proposal, proposal.request, {
+        sender,
+        authorId: user.id,
+        body: validatedData.body,
+        attachments: validatedData.attachments,
+      });
+
+      await linkAttachments(tx, {
+        ownerId: user.id,
+        urls: entry.attachments,
+        purpose: 'MESSAGE',
+        requestCompanyId: proposal.id,
+      });
+
+      return entry;
+    });
+
+    return NextResponse.json(
+      presentMessage(
+        { ...message, author: { id: user.id, name: user.name } },
+        { userId: user.id, sender, showBuyer: true },
+        null
+      ),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error sending proposal message:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/proposals/[id]/messages
+ * Mark the conversation as read up to now
+ * Accessible by request owner or company member
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const thread = await loadThread(id, session.user.email);
+    if (thread.error) return thread.error;
+
+    const read = await markThreadRead(prisma, id, thread.user.id);
+
+    return NextResponse.json({ lastReadAt: read.lastReadAt, unreadCount: 0 });
+  } catch (error) {
+    console.error('Error marking proposal messages as read:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
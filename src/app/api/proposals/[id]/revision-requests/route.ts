@@ -0,0 +1,129 @@
+/**
+ * Proposal Revision Requests API Route
+ * POST /api/proposals/[id]/revision-requests - Ask the company to revise its proposal
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { isRequestOpen } from '@/lib/requests/lifecycle';
+import { isQuoteWindowOpen } from '@/lib/utils/request';
+import { ProposalRevisionError, requestProposalRevision } from '@/lib/requests/revisions';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * Revision request validation schema
+ */
+const revisionRequestSchema = z.object({
+  comment: z.string().trim().min(1, 'Comment is required').max(2000),
+});
+
+/**
+ * POST /api/proposals/[id]/revision-requests
+ * Ask the company to revise a submitted proposal
+ * Only accessible by request owner while the request takes proposals
+ * Company members are notified; their next submission resolves the request.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Fetch proposal with request details
+    const proposal = await prisma.requestCompany.findUnique({
+      where: { id },
+      include: {
+        request: {
+          include: {
+            user: {
+              select: { email: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (proposal.request.user.email !== session.user.email) {
+      return NextResponse.json(
+        { error: 'Only request owner can request revisions' },
+        { status: 403 }
+      );
+    }
+
+    if (proposal.status !== 'RESPONDED') {
+      return NextResponse.json(
+        { error: 'Only submitted proposals can be revised' },
+        { status: 400 }
+      );
+    }
+
+    // The company could not resubmit anymore
+    if (!isRequestOpen(proposal.request.status) || !isQuoteWindowOpen(proposal.request)) {
+      return NextResponse.json(
+        { error: 'Request is no longer accepting proposals' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { comment } = revisionRequestSchema.parse(body);
+
+    const entry = await prisma.$transaction((tx) =>
+      requestProposalRevision(tx, proposal, proposal.request, comment, {
+        authorId: proposal.request.userId,
+      })
+    );
+
+    return NextResponse.json(
+      {
+        id: entry.id,
+        revision: entry.revision,
+        comment: entry.comment,
+        resolvedRevision: entry.resolvedRevision,
+        resolvedAt: entry.resolvedAt,
+        createdAt: entry.createdAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error requesting proposal revision:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ProposalRevisionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Proposal Revisions API Route
+ * GET /api/proposals/[id]/revisions - Revision history and revision requests
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { canSeeBuyerIdentity } from '@/lib/requests/buyer';
+import { ProposalFieldChange, ProposalSnapshot } from '@/lib/requests/revisions';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET /api/proposals/[id]/revisions
+ * Get every revision of a proposal with its content, oldest first, and the
+ * buyer's revision requests
+ * Accessible by request owner or company member
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const proposal = await prisma.requestCompany.findUnique({
+      where: { id },
+      include: {
+        request: {
+          include: {
+            user: {
+              select: { email: true },
+            },
+          },
+        },
+        company: {
+          select: {
+            companyUsers: {
+              select: {
+                user: {
+                  select: { email: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'Proposal not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check authorization (request owner or company member)
+    const isRequestOwner = proposal.request.user.email === session.user.email;
+    const isCompanyMember = proposal.company.companyUsers.some(
+      (cu) => cu.user.email === session.user.email
+    );
+
+    if (!isRequestOwner && !isCompanyMember) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 403 }
+      );
+    }
+
+    const [revisions, revisionRequests] = await Promise.all([
+      prisma.proposalRevision.findMany({
+        where: { requestCompanyId: id },
+        include: {
+          author: {
+            select: { id: true, name: true },
+          },
+        },
+        orderBy: { revision: 'asc' },
+      }),
+      prisma.proposalRevisionRequest.findMany({
+        where: { requestCompanyId: id },
+        include: {
+          author: {
+            select: { id: true, name: true },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    // Revision requests are written by the buyer
+    const showBuyer = canSeeBuyerIdentity(proposal.request, {
+      isOwner: isRequestOwner,
+      isSelected: proposal.status === 'SELECTED',
+    });
+
+    return NextResponse.json({
+      proposalId: id,
+      currentRevision: proposal.revision,
+      revisions: revisions.map((entry) => ({
+        id: entry.id,
+        revision: entry.revision,
+        snapshot: entry.snapshot as ProposalSnapshot,
+        changes: (entry.changes ?? []) as ProposalFieldChange[],
+        note: entry.note,
+        author: entry.author,
+        createdAt: entry.createdAt,
+      })),
+      revisionRequests: revisionRequests.map((entry) => ({
+        id: entry.id,
+        revision: entry.revision,
+        comment: entry.comment,
+        author: showBuyer ? entry.author : null,
+        resolvedRevision: entry.resolvedRevision,
+        resolvedAt: entry.resolvedAt,
+        createdAt: entry.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching proposal revisions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,8 +7,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { prisma } from '@/lib/prisma';
+import { isRequestOpen } from '@/lib/requests/lifecycle';
 import { z } from 'zod';
 import { RequestCompanyStatus } from '@prisma/client';
+import { isProposalOutdated } from '@/lib/requests/versions';
+import { getRequirementItems } from '@/lib/requests/coverage';
+import { getQuote } from '@/lib/requests/quotes';
+import { getDurationDays, getMilestones } from '@/lib/requests/schedule';
 
 interface RouteParams {
   params: {
@@ -107,12 +112,26 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       requestId: proposal.requestId,
       companyId: proposal.companyId,
       estimatedCost: proposal.estimatedCost,
+      estimatedCurrency: proposal.estimatedCurrency,
+      estimatedTaxIncluded: proposal.estimatedTaxIncluded,
+      estimatedUnit: proposal.estimatedUnit,
       estimatedDuration: proposal.estimatedDuration,
+      durationValue: proposal.durationValue,
+      durationUnit: proposal.durationUnit,
+      durationDays: getDurationDays(proposal),
+      schedule: getMilestones(proposal.schedule),
       proposal: proposal.proposal,
       attachments: proposal.attachments,
+      requirementResponses: proposal.requirementResponses,
+      quote: getQuote(proposal.quote),
       status: proposal.status,
       respondedAt: proposal.respondedAt,
       selectedAt: proposal.selectedAt,
+      requestVersion: proposal.requestVersion,
+      isOutdated: isProposalOutdated(proposal, proposal.request),
+      revision: proposal.revision,
+      isRequestOwner,
+      isCompanyMember,
       createdAt: proposal.createdAt,
       updatedAt: proposal.updatedAt,
       request: {
@@ -122,7 +141,12 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
         projectType: proposal.request.projectType,
         budgetMin: proposal.request.budgetMin,
         budgetMax: proposal.request.budgetMax,
+        budgetCurrency: proposal.request.budgetCurrency,
+        budgetTaxIncluded: proposal.request.budgetTaxIncluded,
+        budgetUnit: proposal.request.budgetUnit,
         status: proposal.request.status,
+        version: proposal.request.version,
+        requirementItems: getRequirementItems(proposal.request.requirements),
       },
       company: {
         id: proposal.company.id,
@@ -152,7 +176,8 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
 /**
  * PATCH /api/proposals/[id]
  * Update proposal status
- * Only accessible by request owner (for SELECTED/REJECTED status)
+ * Only accessible by request owner (PENDING/REJECTED while the request is open;
+ * selecting goes through POST /api/proposals/[id]/select)
  */
 export async function PATCH(req: NextRequest, { params }: RouteParams) {
   try {
@@ -210,12 +235,28 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Selecting closes the request, which only the select route does
+    if (validatedData.status === 'SELECTED') {
+      return NextResponse.json(
+        { error: 'Use POST /api/proposals/[id]/select to select a proposal' },
+        { status: 400 }
+      );
+    }
+
+    // Proposals of closed or cancelled requests are final
+    if (!isRequestOpen(proposal.request.status)) {
+      return NextResponse.json(
+        { error: 'Request is no longer accepting selections' },
+        { status: 400 }
+      );
+    }
+
     // Update proposal
     const updatedProposal = await prisma.requestCompany.update({
       where: { id },
       data: {
         status: validatedData.status,
-        selectedAt: validatedData.status === 'SELECTED' ? new Date() : null,
+        selectedAt: null,
       },
       include: {
         company: {
@@ -6,6 +6,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { prisma } from '@/lib/prisma';
+import {
+  isRequestOpen,
+  RequestTransitionError,
+  transitionRequestStatus,
+} from '@/lib/requests/lifecycle';
+import { createNotification } from '@/lib/notifications/inbox';
+import { describeBuyerContact } from '@/lib/requests/buyer';
 
 interface RouteParams {
   params: {
@@ -17,6 +24,8 @@ interface RouteParams {
  * POST /api/proposals/[id]/select
  * Select a proposal and automatically reject all other proposals for the request
  * Only accessible by request owner
+ * Members of the selected company are notified with the buyer's contact
+ * details, which is also how anonymous buyers reveal themselves.
  */
 export async function POST(req: NextRequest, { params }: RouteParams) {
   try {
@@ -39,6 +48,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
           include: {
             user: {
               select: {
+                name: true,
                 email: true,
               },
             },
@@ -79,7 +89,7 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
     }
 
     // Check if request is still open
-    if (proposal.request.status !== 'PUBLISHED') {
+    if (!isRequestOpen(proposal.request.status)) {
       return NextResponse.json(
         { error: 'Request is no longer accepting selections' },
         { status: 400 }
@@ -121,22 +131,31 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
         },
       });
 
-      // 3. Optionally close the request (or mark as closed)
-      await tx.request.update({
-        where: { id: proposal.requestId },
-        data: {
-          status: 'CLOSED',
-          closedAt: new Date(),
-        },
+      // 3. Close the request (recorded in the status history)
+      await transitionRequestStatus(tx, proposal.request, 'CLOSE', {
+        actorId: proposal.request.userId,
+        reason: `Selected proposal from ${proposal.company.name}`,
+      });
+
+      // 4. Notify the selected company and share the buyer's contact details
+      const members = await tx.companyUser.findMany({
+        where: { companyId: proposal.companyId },
+        select: { userId: true },
       });
+      for (const { userId } of members) {
+        await createNotification(tx, {
+          userId,
+          type: 'PROPOSAL_SELECTED',
+          title: `Proposal selected: ${proposal.request.title}`,
+          body: `Contact the buyer: ${describeBuyerContact(proposal.request.user)}.`,
+          link: `/requests/${proposal.requestId}`,
+        });
+      }
 
       return selectedProposal;
     });
 
-    // TODO: Send notifications
-    // - Notify selected company
-    // - Notify rejected companies
-    // - Update request status
+    // TODO: Notify rejected companies
 
     return NextResponse.json({
       message: 'Proposal selected successfully',
@@ -144,6 +163,11 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
     });
   } catch (error) {
     console.error('Error selecting proposal:', error);
+
+    if (error instanceof RequestTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
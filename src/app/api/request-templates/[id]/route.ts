@@ -0,0 +1,122 @@
+/**
+ * Individual Request Template API Routes
+ * PATCH /api/request-templates/[id] - Update a template
+ * DELETE /api/request-templates/[id] - Delete a template
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { requestTemplateUpdateSchema } from '@/lib/validations/request';
+import { canManageRequestTemplate } from '@/lib/requests/templates';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * Load a template and check that the session user can manage it
+ */
+async function getManagedTemplate(id: string) {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return {
+      error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }),
+    };
+  }
+
+  const [user, template] = await Promise.all([
+    prisma.user.findUnique({ where: { email: session.user.email } }),
+    prisma.requestTemplate.findUnique({ where: { id } }),
+  ]);
+
+  if (!template) {
+    return {
+      error: NextResponse.json({ error: 'Template not found' }, { status: 404 }),
+    };
+  }
+
+  if (!user || !canManageRequestTemplate(template, user)) {
+    return {
+      error: NextResponse.json(
+        { error: 'Only the template owner can change this template' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { template };
+}
+
+/**
+ * PATCH /api/request-templates/[id]
+ * Update a template
+ * Own templates only; shared templates by system admins
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const managed = await getManagedTemplate(params.id);
+    if ('error' in managed) return managed.error;
+
+    const body = await req.json();
+    const data = requestTemplateUpdateSchema.parse(body);
+
+    // Budget fields are checked together with the stored values
+    const budgetMin = data.budgetMin !== undefined ? data.budgetMin : managed.template.budgetMin;
+    const budgetMax = data.budgetMax !== undefined ? data.budgetMax : managed.template.budgetMax;
+    if (budgetMin && budgetMax && budgetMin >= budgetMax) {
+      return NextResponse.json(
+        { error: 'Minimum budget must be less than maximum budget' },
+        { status: 400 }
+      );
+    }
+
+    const template = await prisma.requestTemplate.update({
+      where: { id: params.id },
+      data,
+    });
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error('Error updating request template:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/request-templates/[id]
+ * Delete a template
+ * Own templates only; shared templates by system admins
+ */
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const managed = await getManagedTemplate(params.id);
+    if ('error' in managed) return managed.error;
+
+    await prisma.requestTemplate.delete({
+      where: { id: params.id },
+    });
+
+    return NextResponse.json({ success: true, message: 'Template deleted' });
+  } catch (error) {
+    console.error('Error deleting request template:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Request Templates API Routes
+ * GET /api/request-templates - Templates for the new request wizard
+ * POST /api/request-templates - Save a template
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import {
+  requestTemplateCreateSchema,
+  requestTemplateQuerySchema,
+} from '@/lib/validations/request';
+import {
+  canManageRequestTemplate,
+  visibleRequestTemplatesWhere,
+} from '@/lib/requests/templates';
+
+/**
+ * GET /api/request-templates
+ * Get shared templates and the user's own templates
+ * Requires authentication
+ *
+ * Query parameters:
+ * - projectType: Only templates for this project type
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const { projectType } = requestTemplateQuerySchema.parse({
+      projectType: searchParams.get('projectType') || undefined,
+    });
+
+    const templates = await prisma.requestTemplate.findMany({
+      where: {
+        AND: [visibleRequestTemplatesWhere(user.id), projectType ? { projectType } : {}],
+      },
+      // Shared templates first (NULL ownerId sorts first ascending)
+      orderBy: [{ ownerId: { sort: 'asc', nulls: 'first' } }, { name: 'asc' }],
+    });
+
+    return NextResponse.json({
+      templates: templates.map((template) => ({
+        ...template,
+        isShared: template.ownerId === null,
+        canManage: canManageRequestTemplate(template, user),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching request templates:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/request-templates
+ * Save a template for the current user
+ * Shared templates (`shared: true`) can only be created by system admins
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const { shared, ...data } = requestTemplateCreateSchema.parse(body);
+
+    if (shared && user.role !== 'SYSTEM_ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can create shared templates' },
+        { status: 403 }
+      );
+    }
+
+    const template = await prisma.requestTemplate.create({
+      data: {
+        ...data,
+        ownerId: shared ? null : user.id,
+      },
+    });
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error('Error creating request template:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
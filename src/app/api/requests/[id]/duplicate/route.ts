@@ -0,0 +1,76 @@
+/**
+ * Duplicate Request API Route
+ * POST /api/requests/[id]/duplicate - Copy a request into a new draft
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { toDuplicateRequestData } from '@/lib/requests/templates';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * POST /api/requests/[id]/duplicate
+ * Create a new DRAFT request with the content of an existing request
+ * Only accessible by request owner; works for requests in any status
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Fetch request with user info
+    const existingRequest = await prisma.request.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: { email: true },
+        },
+      },
+    });
+
+    if (!existingRequest) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 });
+    }
+
+    // Check ownership
+    if (existingRequest.user.email !== session.user.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const duplicate = await prisma.request.create({
+      data: toDuplicateRequestData(existingRequest),
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json(duplicate, { status: 201 });
+  } catch (error) {
+    console.error('Error duplicating request:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Request Invitations API Routes
+ * GET /api/requests/[id]/invitations - List invited companies and their status
+ * POST /api/requests/[id]/invitations - Invite companies to quote (creates PENDING proposals)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { createNotification } from '@/lib/notifications/inbox';
+import { isRequestOpen } from '@/lib/requests/lifecycle';
+import { alertSavedSearches } from '@/lib/requests/alerts';
+import { isListedVisibility } from '@/lib/requests/visibility';
+import { z } from 'zod';
+import { requestInvitationSchema } from '@/lib/validations/request';
+import { isQuoteWindowOpen, MAX_INVITATIONS_PER_REQUEST } from '@/lib/utils/request';
+import { InvitationSkip } from '@/types/matching';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * Load a request and check that the session user owns it
+ */
+async function getOwnedRequest(id: string) {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return {
+      error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }),
+    };
+  }
+
+  const request = await prisma.request.findUnique({
+    where: { id },
+    include: {
+      user: {
+        select: { email: true },
+      },
+    },
+  });
+
+  if (!request) {
+    return {
+      error: NextResponse.json({ error: 'Request not found' }, { status: 404 }),
+    };
+  }
+
+  if (request.user.email !== session.user.email) {
+    return {
+      error: NextResponse.json(
+        { error: 'Only request owner can manage invitations' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { request };
+}
+
+/**
+ * GET /api/requests/[id]/invitations
+ * List every company linked to the request (invited or quoted) with its status
+ * Only accessible by request owner
+ *
+ * `totalInvitations` counts invited companies only, as the cap does;
+ * unsolicited proposals have a null `invitedAt`.
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const owned = await getOwnedRequest(params.id);
+    if ('error' in owned) return owned.error;
+
+    const invitations = await prisma.requestCompany.findMany({
+      where: { requestId: params.id },
+      select: {
+        id: true,
+        companyId: true,
+        status: true,
+        createdAt: true,
+        invitedAt: true,
+        respondedAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      requestId: params.id,
+      maxInvitations: MAX_INVITATIONS_PER_REQUEST,
+      totalInvitations: invitations.filter((rc) => rc.invitedAt !== null).length,
+      invitations,
+    });
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/requests/[id]/invitations
+ * Invite companies to submit a quote
+ * Only accessible by request owner
+ *
+ * Creates a PENDING RequestCompany row per company and notifies the members
+ * of each invited company. Companies that are already linked to the request,
+ * do not accept new projects, or exceed the per-request invitation cap are
+ * skipped and reported back. Only invitations count towards the cap, not
+ * unsolicited proposals.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: requestId } = params;
+
+    const owned = await getOwnedRequest(requestId);
+    if ('error' in owned) return owned.error;
+    const { request } = owned;
+
+    // Only published requests can invite companies
+    if (!isRequestOpen(request.status)) {
+      return NextResponse.json(
+        { error: 'Only published requests can invite companies' },
+        { status: 400 }
+      );
+    }
+
+    // The expiry job may not have closed the request yet
+    if (!isQuoteWindowOpen(request)) {
+      return NextResponse.json(
+        { error: 'The quote window for this request has ended' },
+        { status: 400 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await req.json();
+    const { companyIds } = requestInvitationSchema.parse(body);
+    const uniqueCompanyIds = [...new Set(companyIds)];
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Lock the request so concurrent invitations cannot both pass the cap
+      await tx.$queryRaw`SELECT id FROM "requests" WHERE id = ${requestId} FOR UPDATE`;
+
+      const [existing, companies] = await Promise.all([
+        tx.requestCompany.findMany({
+          where: { requestId },
+          select: { companyId: true, invitedAt: true },
+        }),
+        tx.company.findMany({
+          where: { id: { in: uniqueCompanyIds } },
+          select: { id: true, acceptsNewProjects: true },
+        }),
+      ]);
+
+      const existingIds = new Set(existing.map((rc) => rc.companyId));
+      const companiesById = new Map(companies.map((c) => [c.id, c]));
+      let remainingSlots =
+        MAX_INVITATIONS_PER_REQUEST - existing.filter((rc) => rc.invitedAt !== null).length;
+
+      const toInvite: string[] = [];
+      const skipped: InvitationSkip[] = [];
+
+      for (const companyId of uniqueCompanyIds) {
+        const company = companiesById.get(companyId);
+
+        if (!company) {
+          skipped.push({ companyId, reason: 'not_found' });
+        } else if (existingIds.has(companyId)) {
+          skipped.push({ companyId, reason: 'already_invited' });
+        } else if (!company.acceptsNewProjects) {
+          skipped.push({ companyId, reason: 'not_accepting_projects' });
+        } else if (remainingSlots <= 0) {
+          skipped.push({ companyId, reason: 'limit_reached' });
+        } else {
+          toInvite.push(companyId);
+          remainingSlots--;
+        }
+      }
+
+      const invitedAt = new Date();
+      await tx.requestCompany.createMany({
+        data: toInvite.map((companyId) => ({
+          requestId,
+          companyId,
+          status: 'PENDING',
+          invitedAt,
+        })),
+        skipDuplicates: true,
+      });
+
+      const invited = await tx.requestCompany.findMany({
+        where: { requestId, companyId: { in: toInvite } },
+        select: {
+          id: true,
+          companyId: true,
+          status: true,
+          createdAt: true,
+          invitedAt: true,
+        },
+      });
+
+      const members = await tx.companyUser.findMany({
+        where: { companyId: { in: toInvite } },
+        select: { userId: true },
+      });
+      for (const userId of new Set(members.map((m) => m.userId))) {
+        await createNotification(tx, {
+          userId,
+          type: 'REQUEST_INVITATION',
+          title: `You are invited to quote: ${request.title}`,
+          link: `/requests/${requestId}`,
+        });
+      }
+
+      return { invited, skipped };
+    });
+
+    // Invite-only requests alert the invited companies' saved searches now
+    // (best effort, like on publish)
+    if (!isListedVisibility(request.visibility) && result.invited.length > 0) {
+      try {
+        await alertSavedSearches(requestId);
+      } catch (alertError) {
+        console.error('Error alerting saved searches:', alertError);
+      }
+    }
+
+    return NextResponse.json(
+      {
+        message: `${result.invited.length} companies invited`,
+        invited: result.invited,
+        skipped: result.skipped,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error inviting companies:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
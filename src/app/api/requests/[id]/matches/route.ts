@@ -1,12 +1,38 @@
 /**
  * Request Matching API Routes
  * GET /api/requests/[id]/matches - Get matched companies with scores
+ * POST /api/requests/[id]/matches - Recompute the stored match snapshot
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
 import { prisma } from '@/lib/prisma';
-import { findMatchingCompanies } from '@/lib/matching/algorithm';
-import { RequestWithRequirements, MatchingFilters } from '@/types/matching';
+import { isRequestOpen } from '@/lib/requests/lifecycle';
+import { isListedVisibility } from '@/lib/requests/visibility';
+import { z } from 'zod';
+import {
+  findMatchingCompanies,
+  resolveMatchingWeights,
+  validateMatchingWeights,
+  MATCHING_ALGORITHM_VERSION,
+} from '@/lib/matching/algorithm';
+import {
+  diffMatchRankings,
+  getRequestMatchSnapshot,
+  loadCompanyWorkloads,
+  loadMatchingCompanies,
+  loadTechStackTaxonomy,
+  snapshotRequestMatches,
+} from '@/lib/matching/snapshots';
+import { getCompanyAvailability } from '@/lib/matching/capacity';
+import { matchesQuerySchema } from '@/lib/validations/matching';
+import {
+  CompanyAvailability,
+  CompanyWithRelations,
+  MatchScore,
+  RequestWithRequirements,
+  MatchingFilters,
+} from '@/types/matching';
 
 interface RouteParams {
   params: {
@@ -14,15 +40,54 @@ interface RouteParams {
   };
 }
 
+/**
+ * Format a matched company for the response
+ */
+function formatMatch(
+  company: CompanyWithRelations,
+  matchScore: MatchScore,
+  availability?: CompanyAvailability,
+  rank?: number
+) {
+  return {
+    company: {
+      id: company.id,
+      name: company.name,
+      slug: company.slug,
+      logo: company.logo,
+      description: company.description,
+      averageRating: company.averageRating,
+      reviewCount: company.reviewCount,
+      projectCount: company.projectCount,
+      isVerified: company.isVerified,
+      techStacks: company.techStacks.map((ct) => ct.techStack.name),
+      specialties: company.specialties.map((cs) => cs.specialty.name),
+    },
+    matchScore,
+    availability,
+    rank,
+  };
+}
+
 /**
  * GET /api/requests/[id]/matches
  * Get matched companies for a request with matching scores
  *
+ * Without weight overrides the stored snapshot for the current algorithm
+ * version is returned (it is created on first access if missing), so the
+ * ranking stays stable between calls. Weight overrides rank live instead.
+ * Invite-only requests are visible to their owner only.
+ *
  * Query parameters:
  * - minScore: Minimum matching score (0-100, default: 30)
  * - maxResults: Maximum number of results (default: 20)
  * - verifiedOnly: Only verified companies (boolean, default: false)
  * - minRating: Minimum company rating (0-5, default: 0)
+ * - techStackWeight, specialtyWeight, budgetWeight, ratingWeight:
+ *   Weight overrides (0-1). Merged with the defaults (0.4/0.3/0.2/0.1),
+ *   the resulting weights must add up to 1.
+ * - algorithmVersion: Read the snapshot of another algorithm version
+ * - compareTo: Include rank changes against the snapshot of this version
  */
 export async function GET(req: NextRequest, { params }: RouteParams) {
   try {
@@ -30,17 +95,51 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
     const { searchParams } = new URL(req.url);
 
     // Parse query parameters
-    const minScore = parseInt(searchParams.get('minScore') || '30');
-    const maxResults = parseInt(searchParams.get('maxResults') || '20');
-    const verifiedOnly = searchParams.get('verifiedOnly') === 'true';
-    const minRating = parseFloat(searchParams.get('minRating') || '0');
+    const {
+      minScore,
+      maxResults,
+      verifiedOnly,
+      minRating,
+      algorithmVersion,
+      compareTo,
+      ...weightOverrides
+    } = matchesQuerySchema.parse({
+      minScore: searchParams.get('minScore') || undefined,
+      maxResults: searchParams.get('maxResults') || undefined,
+      verifiedOnly: searchParams.get('verifiedOnly') || undefined,
+      minRating: searchParams.get('minRating') || undefined,
+      techStackWeight: searchParams.get('techStackWeight') || undefined,
+      specialtyWeight: searchParams.get('specialtyWeight') || undefined,
+      budgetWeight: searchParams.get('budgetWeight') || undefined,
+      ratingWeight: searchParams.get('ratingWeight') || undefined,
+      algorithmVersion: searchParams.get('algorithmVersion') || undefined,
+      compareTo: searchParams.get('compareTo') || undefined,
+    });
+
+    // Resolve and validate weights before touching the database
+    const weights = resolveMatchingWeights(weightOverrides);
+    const weightValidation = validateMatchingWeights(weights);
+    if (!weightValidation.valid) {
+      return NextResponse.json(
+        { error: weightValidation.error },
+        { status: 400 }
+      );
+    }
 
     // Fetch request with all details
     const request = await prisma.request.findUnique({
       where: { id },
+      include: { user: { select: { email: true } } },
     });
 
-    if (!request) {
+    // Matches of invite-only requests are for the owner only
+    const session =
+      request && !isListedVisibility(request.visibility) ? await getServerSession() : null;
+
+    if (
+      !request ||
+      (!isListedVisibility(request.visibility) && session?.user?.email !== request.user.email)
+    ) {
       return NextResponse.json(
         { error: 'Request not found' },
         { status: 404 }
@@ -48,91 +147,195 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
     }
 
     // Only published requests can receive matches
-    if (request.status !== 'PUBLISHED') {
+    if (!isRequestOpen(request.status)) {
       return NextResponse.json(
         { error: 'Only published requests can receive matches' },
         { status: 400 }
       );
     }
 
-    // Fetch all active companies with their tech stacks and specialties
-    const companies = await prisma.company.findMany({
-      where: {
-        acceptsNewProjects: true,
-        isVerified: verifiedOnly ? true : undefined,
-      },
+    const hasWeightOverrides = Object.values(weightOverrides).some((w) => w !== undefined);
+
+    if (hasWeightOverrides) {
+      // Live ranking with custom weights (not persisted)
+      const [companies, techStackTaxonomy] = await Promise.all([
+        loadMatchingCompanies({
+          isVerified: verifiedOnly ? true : undefined,
+        }),
+        loadTechStackTaxonomy(),
+      ]);
+
+      // Cast request to RequestWithRequirements
+      const requestWithReq = request as RequestWithRequirements;
+
+      // Prepare filters
+      const filters: MatchingFilters = {
+        verifiedOnly,
+        minRating,
+      };
+
+      // Find matching companies
+      const matchedCompanies = findMatchingCompanies(
+        companies,
+        requestWithReq,
+        filters,
+        {
+          ...weights,
+          minScore,
+          maxResults,
+          techStackTaxonomy,
+        }
+      );
+
+      return NextResponse.json({
+        requestId: id,
+        source: 'live',
+        algorithmVersion: MATCHING_ALGORITHM_VERSION,
+        weights,
+        totalMatches: matchedCompanies.length,
+        matches: matchedCompanies.map((mc) =>
+          formatMatch(mc.company, mc.matchScore, mc.availability)
+        ),
+      });
+    }
+
+    // Stored snapshot (created on first access for the current version)
+    const version = algorithmVersion || MATCHING_ALGORITHM_VERSION;
+    let snapshot = await getRequestMatchSnapshot(id, version);
+    if (snapshot.length === 0 && version === MATCHING_ALGORITHM_VERSION) {
+      snapshot = await snapshotRequestMatches(id);
+    }
+
+    const filtered = snapshot
+      .filter(
+        (match) =>
+          match.totalScore >= minScore &&
+          (!verifiedOnly || match.company.isVerified) &&
+          match.company.averageRating >= minRating
+      )
+      .slice(0, maxResults);
+
+    const changes = compareTo
+      ? diffMatchRankings(await getRequestMatchSnapshot(id, compareTo), snapshot)
+      : undefined;
+
+    // Availability is always current, even for older snapshots
+    const workloads = await loadCompanyWorkloads(filtered.map((match) => match.companyId));
+
+    return NextResponse.json({
+      requestId: id,
+      source: 'snapshot',
+      algorithmVersion: version,
+      computedAt: snapshot[0]?.computedAt ?? null,
+      weights,
+      totalMatches: filtered.length,
+      matches: filtered.map((match) =>
+        formatMatch(
+          match.company,
+          match.matchScore as unknown as MatchScore,
+          getCompanyAvailability({
+            ...match.company,
+            workload: workloads.get(match.companyId),
+          }),
+          match.rank
+        )
+      ),
+      changes,
+    });
+  } catch (error) {
+    console.error('Error fetching matches:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/requests/[id]/matches
+ * Recompute the match snapshot with the current algorithm version
+ * Only accessible by request owner
+ *
+ * Returns the new ranking and the rank changes against the previous snapshot.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Fetch request with user info
+    const request = await prisma.request.findUnique({
+      where: { id },
       include: {
-        techStacks: {
-          include: {
-            techStack: {
-              select: {
-                id: true,
-                name: true,
-                slug: true,
-                category: true,
-              },
-            },
-          },
-        },
-        specialties: {
-          include: {
-            specialty: {
-              select: {
-                id: true,
-                name: true,
-                slug: true,
-              },
-            },
-          },
+        user: {
+          select: { email: true },
         },
       },
     });
 
-    // Cast request to RequestWithRequirements
-    const requestWithReq = request as RequestWithRequirements;
+    if (!request) {
+      return NextResponse.json(
+        { error: 'Request not found' },
+        { status: 404 }
+      );
+    }
 
-    // Prepare filters
-    const filters: MatchingFilters = {
-      verifiedOnly,
-      minRating,
-    };
-
-    // Find matching companies
-    const matchedCompanies = findMatchingCompanies(
-      companies,
-      requestWithReq,
-      filters,
-      {
-        minScore,
-        maxResults,
-      }
-    );
+    // Check ownership
+    if (request.user.email !== session.user.email) {
+      return NextResponse.json(
+        { error: 'Only request owner can recompute matches' },
+        { status: 403 }
+      );
+    }
 
-    // Format response
-    const response = {
-      requestId: id,
-      totalMatches: matchedCompanies.length,
-      matches: matchedCompanies.map((mc) => ({
-        company: {
-          id: mc.company.id,
-          name: mc.company.name,
-          slug: mc.company.slug,
-          logo: mc.company.logo,
-          description: mc.company.description,
-          averageRating: mc.company.averageRating,
-          reviewCount: mc.company.reviewCount,
-          projectCount: mc.company.projectCount,
-          isVerified: mc.company.isVerified,
-          techStacks: mc.company.techStacks.map((ct) => ct.techStack.name),
-          specialties: mc.company.specialties.map((cs) => cs.specialty.name),
-        },
-        matchScore: mc.matchScore,
-      })),
-    };
+    if (!isRequestOpen(request.status)) {
+      return NextResponse.json(
+        { error: 'Only published requests can receive matches' },
+        { status: 400 }
+      );
+    }
+
+    const previous = await getRequestMatchSnapshot(id);
+    const snapshot = await snapshotRequestMatches(id);
+    const workloads = await loadCompanyWorkloads(snapshot.map((match) => match.companyId));
 
-    return NextResponse.json(response);
+    return NextResponse.json({
+      requestId: id,
+      source: 'snapshot',
+      algorithmVersion: MATCHING_ALGORITHM_VERSION,
+      computedAt: snapshot[0]?.computedAt ?? null,
+      totalMatches: snapshot.length,
+      matches: snapshot.map((match) =>
+        formatMatch(
+          match.company,
+          match.matchScore as unknown as MatchScore,
+          getCompanyAvailability({
+            ...match.company,
+            workload: workloads.get(match.companyId),
+          }),
+          match.rank
+        )
+      ),
+      changes: diffMatchRankings(previous, snapshot),
+    });
   } catch (error) {
-    console.error('Error fetching matches:', error);
+    console.error('Error recomputing matches:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
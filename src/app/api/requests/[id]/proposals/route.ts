@@ -6,9 +6,40 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { linkAttachments } from '@/lib/storage';
+import { isRequestOpen } from '@/lib/requests/lifecycle';
+import { getBudgetTerms, isQuoteWindowOpen } from '@/lib/utils/request';
+import { isProposalOutdated } from '@/lib/requests/versions';
+import {
+  canReviseProposal,
+  ProposalRevisionError,
+  recordProposalRevision,
+  toProposalSnapshot,
+} from '@/lib/requests/revisions';
+import { canViewRequest } from '@/lib/requests/visibility';
+import { getRequirementItems, validateRequirementResponses } from '@/lib/requests/coverage';
+import { buildQuote, getQuote } from '@/lib/requests/quotes';
+import {
+  formatDuration,
+  getDurationDays,
+  getMilestones,
+  validateSchedule,
+} from '@/lib/requests/schedule';
+import {
+  currencySchema,
+  durationUnitSchema,
+  moneyUnitSchema,
+  quoteInputSchema,
+  RequirementResponse,
+  requirementResponseSchema,
+  scheduleSchema,
+} from '@/lib/validations/request';
 import { z } from 'zod';
 import { calculateMatchScore } from '@/lib/matching/algorithm';
+import { priceHistoryInclude, withPriceProfile } from '@/lib/matching/pricing';
+import { loadTechStackTaxonomy } from '@/lib/matching/snapshots';
 import { RequestWithRequirements } from '@/types/matching';
 
 interface RouteParams {
@@ -19,13 +50,39 @@ interface RouteParams {
 
 /**
  * Proposal submission validation schema
+ * Either a single estimated cost or a line-item quote; with a quote the
+ * estimated cost is computed from the line items. The duration is structured
+ * (value + unit); a free-text estimatedDuration is still accepted on its own.
+ * `revisionNote` describes what a resubmission changed.
  */
-const proposalSchema = z.object({
-  estimatedCost: z.number().int().positive('Estimated cost must be positive'),
-  estimatedDuration: z.string().min(1, 'Estimated duration is required'),
-  proposal: z.string().min(50, 'Proposal must be at least 50 characters'),
-  attachments: z.array(z.string().url()).optional(),
-});
+const proposalSchema = z
+  .object({
+    estimatedCost: z.number().int().positive('Estimated cost must be positive').optional(),
+    estimatedCurrency: currencySchema.default('JPY'),
+    estimatedTaxIncluded: z.boolean().default(false),
+    estimatedUnit: moneyUnitSchema.default('ONE_OFF'),
+    estimatedDuration: z.string().min(1, 'Estimated duration is required').optional(),
+    durationValue: z.number().int().positive('Duration must be positive').max(3650).optional(),
+    durationUnit: durationUnitSchema.optional(),
+    schedule: scheduleSchema.optional(),
+    proposal: z.string().min(50, 'Proposal must be at least 50 characters'),
+    attachments: z.array(z.string().url()).optional(),
+    requirementResponses: z.array(requirementResponseSchema).max(50).optional(),
+    quote: quoteInputSchema.optional(),
+    revisionNote: z.string().max(2000).optional(),
+  })
+  .refine((data) => data.estimatedCost !== undefined || data.quote !== undefined, {
+    message: 'Enter an estimated cost or a line-item quote',
+    path: ['estimatedCost'],
+  })
+  .refine((data) => (data.durationValue === undefined) === (data.durationUnit === undefined), {
+    message: 'Enter the duration together with its unit',
+    path: ['durationUnit'],
+  })
+  .refine((data) => data.durationValue !== undefined || data.estimatedDuration !== undefined, {
+    message: 'Estimated duration is required',
+    path: ['durationValue'],
+  });
 
 /**
  * GET /api/requests/[id]/proposals
@@ -91,6 +148,7 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
                 specialty: true,
               },
             },
+            ...priceHistoryInclude,
           },
         },
       },
@@ -102,20 +160,35 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
 
     // Calculate match scores for each proposal
     const requestWithReq = request as RequestWithRequirements;
+    const techStackTaxonomy = await loadTechStackTaxonomy();
     const proposalsWithScores = proposals.map((proposal) => {
-      const matchScore = calculateMatchScore(proposal.company, requestWithReq);
+      const matchScore = calculateMatchScore(withPriceProfile(proposal.company), requestWithReq, {
+        techStackTaxonomy,
+      });
 
       return {
         id: proposal.id,
         requestId: proposal.requestId,
         companyId: proposal.companyId,
         estimatedCost: proposal.estimatedCost,
+        estimatedCurrency: proposal.estimatedCurrency,
+        estimatedTaxIncluded: proposal.estimatedTaxIncluded,
+        estimatedUnit: proposal.estimatedUnit,
         estimatedDuration: proposal.estimatedDuration,
+        durationValue: proposal.durationValue,
+        durationUnit: proposal.durationUnit,
+        durationDays: getDurationDays(proposal),
+        schedule: getMilestones(proposal.schedule),
         proposal: proposal.proposal,
         attachments: proposal.attachments,
+        requirementResponses: proposal.requirementResponses as RequirementResponse[] | null,
+        quote: getQuote(proposal.quote),
         status: proposal.status,
         respondedAt: proposal.respondedAt,
         selectedAt: proposal.selectedAt,
+        requestVersion: proposal.requestVersion,
+        isOutdated: isProposalOutdated(proposal, request),
+        revision: proposal.revision,
         createdAt: proposal.createdAt,
         updatedAt: proposal.updatedAt,
         company: {
@@ -137,6 +210,13 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({
       requestId: id,
+      requestVersion: request.version,
+      budgetMin: request.budgetMin,
+      budgetMax: request.budgetMax,
+      budgetTerms: getBudgetTerms(request),
+      preferredStart: request.preferredStart,
+      deadline: request.deadline,
+      requirementItems: getRequirementItems(request.requirements),
       totalProposals: proposalsWithScores.length,
       proposals: proposalsWithScores,
     });
@@ -152,7 +232,10 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
 /**
  * POST /api/requests/[id]/proposals
  * Submit a proposal for a request
- * Only accessible by verified company admins
+ * Only accessible by verified company admins; invite-only requests accept
+ * proposals from invited companies only
+ * A submitted proposal can be resubmitted once the request has been amended or
+ * the buyer requested a revision. Every submission is stored as a revision.
  */
 export async function POST(req: NextRequest, { params }: RouteParams) {
   try {
@@ -203,7 +286,17 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       where: { id: requestId },
     });
 
-    if (!request) {
+    // Invite-only requests only take proposals from invited companies
+    const isInvited =
+      !!request &&
+      (await prisma.requestCompany.count({
+        where: { requestId, companyId: company.id },
+      })) > 0;
+
+    if (
+      !request ||
+      !canViewRequest(request, { isOwner: request.userId === user.id, isInvited })
+    ) {
       return NextResponse.json(
         { error: 'Request not found' },
         { status: 404 }
@@ -211,13 +304,21 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
     }
 
     // Only published requests can receive proposals
-    if (request.status !== 'PUBLISHED') {
+    if (!isRequestOpen(request.status)) {
       return NextResponse.json(
         { error: 'Only published requests can receive proposals' },
         { status: 400 }
       );
     }
 
+    // The expiry job may not have closed the request yet
+    if (!isQuoteWindowOpen(request)) {
+      return NextResponse.json(
+        { error: 'The quote window for this request has ended' },
+        { status: 400 }
+      );
+    }
+
     // Check if company already submitted a proposal
     const existingProposal = await prisma.requestCompany.findUnique({
       where: {
@@ -228,7 +329,20 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       },
     });
 
-    if (existingProposal && existingProposal.status !== 'PENDING') {
+    const hasOpenRevisionRequest =
+      !!existingProposal &&
+      (await prisma.proposalRevisionRequest.count({
+        where: { requestCompanyId: existingProposal.id, resolvedAt: null },
+      })) > 0;
+
+    if (
+      existingProposal &&
+      existingProposal.status !== 'PENDING' &&
+      !canReviseProposal(existingProposal, {
+        hasOpenRevisionRequest,
+        isOutdated: isProposalOutdated(existingProposal, request),
+      })
+    ) {
       return NextResponse.json(
         { error: 'Company has already submitted a proposal for this request' },
         { status: 400 }
@@ -239,44 +353,107 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
     const body = await req.json();
     const validatedData = proposalSchema.parse(body);
 
-    // Create or update proposal
-    const proposal = await prisma.requestCompany.upsert({
-      where: {
-        requestId_companyId: {
+    // Every requirement item (except WONT) must be answered
+    const requirementItems = getRequirementItems(request.requirements);
+    const requirementResponses = validatedData.requirementResponses ?? [];
+    const responsesValidation = validateRequirementResponses(
+      requirementItems,
+      requirementResponses
+    );
+    if (!responsesValidation.valid) {
+      return NextResponse.json(
+        { error: responsesValidation.error },
+        { status: 400 }
+      );
+    }
+
+    // Totals of a line-item quote are computed here, never taken from the client;
+    // the estimated cost becomes the subtotal without tax
+    const quote = validatedData.quote ? buildQuote(validatedData.quote) : null;
+    if (quote && quote.totals.subtotal <= 0) {
+      return NextResponse.json(
+        { error: 'A quote needs at least one required line with an amount' },
+        { status: 400 }
+      );
+    }
+
+    // The schedule has to fit between the request's preferred start and deadline
+    const schedule = getMilestones(validatedData.schedule);
+    const scheduleValidation = validateSchedule(schedule, request);
+    if (!scheduleValidation.valid) {
+      return NextResponse.json(
+        { error: scheduleValidation.error },
+        { status: 400 }
+      );
+    }
+
+    const proposalData = {
+      estimatedCost: quote ? quote.totals.subtotal : validatedData.estimatedCost,
+      estimatedCurrency: validatedData.estimatedCurrency,
+      estimatedTaxIncluded: quote ? false : validatedData.estimatedTaxIncluded,
+      estimatedUnit: validatedData.estimatedUnit,
+      estimatedDuration:
+        validatedData.durationValue && validatedData.durationUnit
+          ? formatDuration(validatedData.durationValue, validatedData.durationUnit)
+          : validatedData.estimatedDuration,
+      durationValue: validatedData.durationValue ?? null,
+      durationUnit: validatedData.durationUnit ?? null,
+      schedule: schedule.length > 0 ? schedule : Prisma.JsonNull,
+      proposal: validatedData.proposal,
+      attachments: validatedData.attachments || [],
+      requirementResponses,
+      quote: quote ? (quote as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+      status: 'RESPONDED' as const,
+      respondedAt: new Date(),
+      requestVersion: request.version,
+    };
+
+    // Create or update proposal, give it the uploaded files it references and
+    // store the submission as its next revision
+    const proposal = await prisma.$transaction(async (tx) => {
+      const saved = await tx.requestCompany.upsert({
+        where: {
+          requestId_companyId: {
+            requestId,
+            companyId: company.id,
+          },
+        },
+        create: {
           requestId,
           companyId: company.id,
+          ...proposalData,
         },
-      },
-      create: {
-        requestId,
-        companyId: company.id,
-        estimatedCost: validatedData.estimatedCost,
-        estimatedDuration: validatedData.estimatedDuration,
-        proposal: validatedData.proposal,
-        attachments: validatedData.attachments || [],
-        status: 'RESPONDED',
-        respondedAt: new Date(),
-      },
-      update: {
-        estimatedCost: validatedData.estimatedCost,
-        estimatedDuration: validatedData.estimatedDuration,
-        proposal: validatedData.proposal,
-        attachments: validatedData.attachments || [],
-        status: 'RESPONDED',
-        respondedAt: new Date(),
-      },
-      include: {
-        company: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-            logo: true,
-            averageRating: true,
-            reviewCount: true,
+        update: proposalData,
+        include: {
+          company: {
+            select: {
+              id: true,
+              name: true,
+              slug: true,
+              logo: true,
+              averageRating: true,
+              reviewCount: true,
+            },
           },
         },
-      },
+      });
+
+      await linkAttachments(tx, {
+        ownerId: user.id,
+        urls: saved.attachments,
+        purpose: 'PROPOSAL',
+        requestCompanyId: saved.id,
+      });
+
+      const entry = await recordProposalRevision(
+        tx,
+        { id: saved.id, revision: existingProposal?.revision ?? 0, companyName: company.name },
+        request,
+        toProposalSnapshot(saved),
+        { authorId: user.id, note: validatedData.revisionNote }
+      );
+
+      return { ...saved, revision: entry.revision };
     });
 
     // TODO: Send notification to request owner
@@ -298,6 +475,10 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
+    if (error instanceof ProposalRevisionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -6,6 +6,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { prisma } from '@/lib/prisma';
+import { snapshotRequestMatches } from '@/lib/matching/snapshots';
+import { getDefaultQuoteDeadline } from '@/lib/utils/request';
+import {
+  RequestTransitionError,
+  transitionRequestStatus,
+  validateRequestTransition,
+} from '@/lib/requests/lifecycle';
+import { createInitialRequestVersion } from '@/lib/requests/versions';
+import { alertSavedSearches } from '@/lib/requests/alerts';
 
 interface RouteParams {
   params: {
@@ -16,7 +25,10 @@ interface RouteParams {
 /**
  * POST /api/requests/[id]/publish
  * Publish a draft request (change status from DRAFT to PUBLISHED)
- * Once published, request cannot be edited
+ * Once published, request cannot be edited, only amended (version 1 is stored here)
+ * Sets the end of the quote window if the owner did not choose one
+ * Also stores the initial match snapshot for the request and alerts matching
+ * saved searches
  */
 export async function POST(req: NextRequest, { params }: RouteParams) {
   try {
@@ -51,11 +63,9 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
     }
 
     // Check if request can be published
-    if (existingRequest.status !== 'DRAFT') {
-      return NextResponse.json(
-        { error: 'Only draft requests can be published' },
-        { status: 400 }
-      );
+    const transition = validateRequestTransition(existingRequest.status, 'PUBLISH');
+    if (!transition.valid) {
+      return NextResponse.json({ error: transition.error }, { status: 400 });
     }
 
     // Validate required fields for publishing
@@ -73,28 +83,68 @@ export async function POST(req: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Open the quote window (default: DEFAULT_QUOTE_WINDOW_DAYS or until the deadline)
+    const now = new Date();
+    if (existingRequest.quoteDeadline && existingRequest.quoteDeadline <= now) {
+      return NextResponse.json(
+        { error: 'Quote deadline must be in the future' },
+        { status: 400 }
+      );
+    }
+    const quoteDeadline =
+      existingRequest.quoteDeadline ?? getDefaultQuoteDeadline(now, existingRequest.deadline);
+
     // Publish request
-    const publishedRequest = await prisma.request.update({
-      where: { id },
-      data: {
-        status: 'PUBLISHED',
-        publishedAt: new Date(),
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
+    const publishedRequest = await prisma.$transaction(async (tx) => {
+      await transitionRequestStatus(tx, existingRequest, 'PUBLISH', {
+        actorId: existingRequest.userId,
+        now,
+        data: { quoteDeadline },
+      });
+
+      await createInitialRequestVersion(
+        tx,
+        { ...existingRequest, quoteDeadline },
+        { authorId: existingRequest.userId, now }
+      );
+
+      return tx.request.findUniqueOrThrow({
+        where: { id },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              image: true,
+            },
           },
         },
-      },
+      });
     });
 
+    // Store the initial match ranking (publishing succeeds even if this fails)
+    try {
+      await snapshotRequestMatches(id);
+    } catch (snapshotError) {
+      console.error('Error storing match snapshot:', snapshotError);
+    }
+
+    // Alert companies whose saved searches match (best effort, like the snapshot)
+    try {
+      await alertSavedSearches(id);
+    } catch (alertError) {
+      console.error('Error alerting saved searches:', alertError);
+    }
+
     return NextResponse.json(publishedRequest);
   } catch (error) {
     console.error('Error publishing request:', error);
+
+    if (error instanceof RequestTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
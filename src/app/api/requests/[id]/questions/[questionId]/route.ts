@@ -0,0 +1,105 @@
+/**
+ * Request Question API Route
+ * PATCH /api/requests/[id]/questions/[questionId] - Answer a question
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { answerQuestion, presentQuestion, RequestQuestionError } from '@/lib/requests/questions';
+import { requestAnswerSchema } from '@/lib/validations/request';
+
+interface RouteParams {
+  params: {
+    id: string;
+    questionId: string;
+  };
+}
+
+/**
+ * PATCH /api/requests/[id]/questions/[questionId]
+ * Answer a question privately or publicly
+ * Only accessible by request owner
+ *
+ * Body: `answer` and `visibility` (PRIVATE, default, or PUBLIC). Public
+ * answers are shared with every invited company without the asking company's
+ * name. Questions are answered once.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, questionId } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const question = await prisma.requestQuestion.findFirst({
+      where: { id: questionId, requestId: id },
+      include: {
+        request: {
+          include: {
+            user: {
+              select: { email: true },
+            },
+          },
+        },
+        company: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    if (!question) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    if (question.request.user.email !== session.user.email) {
+      return NextResponse.json(
+        { error: 'Only request owner can answer questions' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const answer = requestAnswerSchema.parse(body);
+
+    const now = new Date();
+    await prisma.$transaction((tx) =>
+      answerQuestion(tx, question, question.request, answer, { now })
+    );
+
+    return NextResponse.json(
+      presentQuestion(
+        { ...question, ...answer, answeredAt: now },
+        { isOwner: true, companyId: null }
+      )
+    );
+  } catch (error) {
+    console.error('Error answering request question:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RequestQuestionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Request Questions API Routes
+ * GET /api/requests/[id]/questions - Questions and answers visible to the viewer
+ * POST /api/requests/[id]/questions - Ask a question (invited companies)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import {
+  askQuestion,
+  canAskQuestions,
+  findQuestionInvitation,
+  getVisibleQuestionsWhere,
+  presentQuestion,
+} from '@/lib/requests/questions';
+import { requestQuestionSchema } from '@/lib/validations/request';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET /api/requests/[id]/questions
+ * Get the questions of a request, oldest first
+ * Accessible by the request owner (every question, with the asking company)
+ * and invited companies in any status (their own questions and the public
+ * FAQ, anonymized)
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const request = await prisma.request.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: { email: true },
+        },
+      },
+    });
+
+    if (!request) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 });
+    }
+
+    const isOwner = request.user.email === session.user.email;
+    const invitation = isOwner
+      ? null
+      : await findQuestionInvitation(prisma, id, session.user.email);
+
+    if (!isOwner && !invitation) {
+      return NextResponse.json(
+        { error: 'Only the request owner and invited companies can view questions' },
+        { status: 403 }
+      );
+    }
+
+    const viewer = { isOwner, companyId: invitation?.companyId ?? null };
+    const questions = await prisma.requestQuestion.findMany({
+      where: getVisibleQuestionsWhere(id, viewer),
+      include: {
+        company: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      requestId: id,
+      canAsk: canAskQuestions(request, invitation),
+      canAnswer: isOwner,
+      questions: questions.map((question) => presentQuestion(question, viewer)),
+    });
+  } catch (error) {
+    console.error('Error fetching request questions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/requests/[id]/questions
+ * Ask the buyer a clarification question
+ * Only accessible by members of invited companies while the request takes
+ * proposals; the buyer is notified
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const request = await prisma.request.findUnique({
+      where: { id },
+    });
+
+    if (!request) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 });
+    }
+
+    const invitation = await findQuestionInvitation(prisma, id, session.user.email);
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: 'Only invited companies can ask questions' },
+        { status: 403 }
+      );
+    }
+
+    if (!canAskQuestions(request, invitation)) {
+      return NextResponse.json(
+        { error: 'Request is no longer accepting questions' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { question } = requestQuestionSchema.parse(body);
+
+    const entry = await prisma.$transaction((tx) =>
+      askQuestion(tx, request, invitation.company, question, { authorId: user.id })
+    );
+
+    return NextResponse.json(
+      presentQuestion(
+        { ...entry, company: invitation.company },
+        { isOwner: false, companyId: invitation.companyId }
+      ),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error asking request question:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,7 +8,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { prisma } from '@/lib/prisma';
+import { linkAttachments } from '@/lib/storage';
 import { requestUpdateSchema } from '@/lib/validations/request';
+import { loadRequirementLabels, validateRequirementIds } from '@/lib/requests/requirements';
+import { canDeleteRequest, canEditRequest } from '@/lib/requests/lifecycle';
+import { canViewRequest } from '@/lib/requests/visibility';
+import { presentBuyer } from '@/lib/requests/buyer';
 import { Prisma } from '@prisma/client';
 
 interface RouteParams {
@@ -20,7 +25,11 @@ interface RouteParams {
 /**
  * GET /api/requests/[id]
  * Get request details
- * Public for published requests, private for drafts
+ * Public for published requests, private for drafts; invite-only requests
+ * and attachments only for the owner and invited companies. The buyer of an
+ * anonymous request is only revealed to the company whose proposal was selected.
+ * Proposals are returned in full to the owner; a company only gets its own
+ * proposal, everyone else only `proposalCount`.
  */
 export async function GET(req: NextRequest, { params }: RouteParams) {
   try {
@@ -72,7 +81,50 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
       }
     }
 
-    return NextResponse.json(request);
+    const isOwner =
+      !!session?.user?.email && session.user.email === request.user.email;
+    const invitations =
+      session?.user?.email && !isOwner
+        ? await prisma.requestCompany.findMany({
+            where: {
+              requestId: id,
+              company: {
+                companyUsers: { some: { user: { email: session.user.email } } },
+              },
+            },
+            select: { companyId: true, status: true },
+          })
+        : [];
+    const isInvited = invitations.length > 0;
+    const isSelected = invitations.some((invitation) => invitation.status === 'SELECTED');
+
+    // Invite-only requests don't exist for anyone else
+    if (!canViewRequest(request, { isOwner, isInvited })) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 });
+    }
+
+    // Resolve requirement IDs to names for display
+    const requirementLabels = await loadRequirementLabels(
+      request.requirements as { techStackIds?: string[]; specialtyIds?: string[] } | null
+    );
+
+    // Attachments are visible to the owner and invited companies only
+    const canViewAttachments = isOwner || isInvited;
+
+    // Quotes, schedules and proposal texts are confidential between the buyer
+    // and each company
+    const ownCompanyIds = invitations.map((invitation) => invitation.companyId);
+    const requestCompanies = isOwner
+      ? request.requestCompanies
+      : request.requestCompanies.filter((rc) => ownCompanyIds.includes(rc.companyId));
+
+    return NextResponse.json({
+      ...presentBuyer(request, { isOwner, isSelected }),
+      attachments: canViewAttachments ? request.attachments : [],
+      requestCompanies,
+      proposalCount: request.requestCompanies.filter((rc) => rc.respondedAt !== null).length,
+      requirementLabels,
+    });
   } catch (error) {
     console.error('Error fetching request:', error);
     return NextResponse.json(
@@ -119,9 +171,9 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
     }
 
     // Check if request can be edited (only DRAFT status)
-    if (existingRequest.status !== 'DRAFT') {
+    if (!canEditRequest(existingRequest.status)) {
       return NextResponse.json(
-        { error: 'Only draft requests can be edited' },
+        { error: 'Only draft requests can be edited; amend published requests instead' },
         { status: 400 }
       );
     }
@@ -130,6 +182,15 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
     const body = await req.json();
     const validatedData = requestUpdateSchema.parse(body);
 
+    // Check referenced tech stacks / specialties
+    const requirementsValidation = await validateRequirementIds(validatedData.requirements);
+    if (!requirementsValidation.valid) {
+      return NextResponse.json(
+        { error: requirementsValidation.error },
+        { status: 400 }
+      );
+    }
+
     // Build update data
     const updateData: Prisma.RequestUpdateInput = {};
 
@@ -138,10 +199,22 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       updateData.description = validatedData.description;
     if (validatedData.projectType !== undefined)
       updateData.projectType = validatedData.projectType;
+    if (validatedData.visibility !== undefined)
+      updateData.visibility = validatedData.visibility;
+    if (validatedData.buyerIndustry !== undefined)
+      updateData.buyerIndustry = validatedData.buyerIndustry;
+    if (validatedData.buyerSize !== undefined)
+      updateData.buyerSize = validatedData.buyerSize;
     if (validatedData.budgetMin !== undefined)
       updateData.budgetMin = validatedData.budgetMin;
     if (validatedData.budgetMax !== undefined)
       updateData.budgetMax = validatedData.budgetMax;
+    if (validatedData.budgetCurrency !== undefined)
+      updateData.budgetCurrency = validatedData.budgetCurrency;
+    if (validatedData.budgetTaxIncluded !== undefined)
+      updateData.budgetTaxIncluded = validatedData.budgetTaxIncluded;
+    if (validatedData.budgetUnit !== undefined)
+      updateData.budgetUnit = validatedData.budgetUnit;
     if (validatedData.deadline !== undefined)
       updateData.deadline = validatedData.deadline
         ? new Date(validatedData.deadline)
@@ -150,25 +223,40 @@ export async function PATCH(req: NextRequest, { params }: RouteParams) {
       updateData.preferredStart = validatedData.preferredStart
         ? new Date(validatedData.preferredStart)
         : null;
+    if (validatedData.quoteDeadline !== undefined)
+      updateData.quoteDeadline = validatedData.quoteDeadline
+        ? new Date(validatedData.quoteDeadline)
+        : null;
     if (validatedData.requirements !== undefined)
       updateData.requirements = validatedData.requirements || Prisma.JsonNull;
     if (validatedData.attachments !== undefined)
       updateData.attachments = validatedData.attachments;
 
-    // Update request
-    const updatedRequest = await prisma.request.update({
-      where: { id },
-      data: updateData,
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
+    // Update request and give it the uploaded files it references
+    const updatedRequest = await prisma.$transaction(async (tx) => {
+      const saved = await tx.request.update({
+        where: { id },
+        data: updateData,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              image: true,
+            },
           },
         },
-      },
+      });
+
+      await linkAttachments(tx, {
+        ownerId: existingRequest.userId,
+        urls: saved.attachments,
+        purpose: 'REQUEST',
+        requestId: saved.id,
+      });
+
+      return saved;
     });
 
     return NextResponse.json(updatedRequest);
@@ -226,10 +314,7 @@ export async function DELETE(req: NextRequest, { params }: RouteParams) {
     }
 
     // Check if request can be deleted
-    if (
-      existingRequest.status !== 'DRAFT' &&
-      existingRequest.status !== 'CANCELLED'
-    ) {
+    if (!canDeleteRequest(existingRequest.status)) {
       return NextResponse.json(
         { error: 'Only draft or cancelled requests can be deleted' },
         { status: 400 }
@@ -0,0 +1,191 @@
+/**
+ * Request Status API Routes
+ * GET /api/requests/[id]/status - Current status, allowed transitions and status history
+ * POST /api/requests/[id]/status - Close, cancel or reopen a request
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import {
+  getAvailableTransitions,
+  RequestTransitionError,
+  transitionRequestStatus,
+  validateRequestTransition,
+} from '@/lib/requests/lifecycle';
+import { requestStatusChangeSchema } from '@/lib/validations/request';
+import { getDefaultQuoteDeadline, isQuoteWindowOpen } from '@/lib/utils/request';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * Load a request and check that the session user owns it
+ */
+async function getOwnedRequest(id: string) {
+  const session = await getServerSession();
+  if (!session?.user?.email) {
+    return {
+      error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }),
+    };
+  }
+
+  const request = await prisma.request.findUnique({
+    where: { id },
+    include: {
+      user: {
+        select: { email: true },
+      },
+    },
+  });
+
+  if (!request) {
+    return {
+      error: NextResponse.json({ error: 'Request not found' }, { status: 404 }),
+    };
+  }
+
+  if (request.user.email !== session.user.email) {
+    return {
+      error: NextResponse.json(
+        { error: 'Only request owner can manage the request status' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { request };
+}
+
+/**
+ * Status history of a request, oldest first
+ */
+function getStatusHistory(requestId: string) {
+  return prisma.requestStatusHistory.findMany({
+    where: { requestId },
+    include: {
+      actor: {
+        select: { id: true, name: true },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * GET /api/requests/[id]/status
+ * Get the current status, the transitions allowed from it and the status history
+ * Only accessible by request owner
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const owned = await getOwnedRequest(params.id);
+    if ('error' in owned) return owned.error;
+
+    return NextResponse.json({
+      requestId: params.id,
+      status: owned.request.status,
+      availableTransitions: getAvailableTransitions(owned.request.status),
+      history: await getStatusHistory(params.id),
+    });
+  } catch (error) {
+    console.error('Error fetching request status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/requests/[id]/status
+ * Change the request status
+ * Only accessible by request owner
+ *
+ * Body: { transition: 'CLOSE' | 'CANCEL' | 'REOPEN', reason?: string }
+ * Requests with a selected proposal cannot be reopened. Reopening restores
+ * expired invitations and starts a new quote window if the old one ended.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const owned = await getOwnedRequest(params.id);
+    if ('error' in owned) return owned.error;
+    const { request } = owned;
+
+    const body = await req.json();
+    const { transition, reason } = requestStatusChangeSchema.parse(body);
+
+    const validation = validateRequestTransition(request.status, transition);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    if (transition === 'REOPEN') {
+      const selectedCount = await prisma.requestCompany.count({
+        where: { requestId: request.id, status: 'SELECTED' },
+      });
+      if (selectedCount > 0) {
+        return NextResponse.json(
+          { error: 'Requests with a selected proposal cannot be reopened' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const now = new Date();
+    const entry = await prisma.$transaction(async (tx) => {
+      if (transition !== 'REOPEN') {
+        return transitionRequestStatus(tx, request, transition, {
+          actorId: request.userId,
+          reason,
+          now,
+        });
+      }
+
+      const reopened = await transitionRequestStatus(tx, request, transition, {
+        actorId: request.userId,
+        reason,
+        now,
+        data: isQuoteWindowOpen(request, now)
+          ? {}
+          : { quoteDeadline: getDefaultQuoteDeadline(now, request.deadline) },
+      });
+
+      await tx.requestCompany.updateMany({
+        where: { requestId: request.id, status: 'EXPIRED' },
+        data: { status: 'PENDING' },
+      });
+
+      return reopened;
+    });
+
+    return NextResponse.json({
+      requestId: request.id,
+      status: entry.toStatus,
+      availableTransitions: getAvailableTransitions(entry.toStatus),
+      history: await getStatusHistory(request.id),
+    });
+  } catch (error) {
+    console.error('Error changing request status:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RequestTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
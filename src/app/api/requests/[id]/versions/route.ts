@@ -0,0 +1,262 @@
+/**
+ * Request Versions API Routes
+ * GET /api/requests/[id]/versions - Amendment history with field changes
+ * POST /api/requests/[id]/versions - Amend a published request
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { prisma } from '@/lib/prisma';
+import { linkAttachments } from '@/lib/storage';
+import { z } from 'zod';
+import { canAmendRequest } from '@/lib/requests/lifecycle';
+import { canSeeBuyerIdentity } from '@/lib/requests/buyer';
+import { loadRequirementLabels, validateRequirementIds } from '@/lib/requests/requirements';
+import {
+  amendRequest,
+  buildRequestAmendment,
+  RequestAmendmentError,
+  RequestFieldChange,
+  validateRequestSnapshot,
+} from '@/lib/requests/versions';
+import { requestAmendmentSchema } from '@/lib/validations/request';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * Resolve tech stack / specialty IDs mentioned in the changes to names
+ */
+function loadChangeLabels(changes: RequestFieldChange[]) {
+  const idsFor = (field: string) =>
+    changes
+      .filter((change) => change.field === field)
+      .flatMap((change) => [change.from, change.to])
+      .flatMap((value) => (Array.isArray(value) ? value : []))
+      .filter((id): id is string => typeof id === 'string');
+
+  return loadRequirementLabels({
+    techStackIds: [...new Set(idsFor('requirements.techStackIds'))],
+    specialtyIds: [...new Set(idsFor('requirements.specialtyIds'))],
+  });
+}
+
+/**
+ * GET /api/requests/[id]/versions
+ * Get the amendment history of a request, oldest first
+ * Accessible by the request owner and invited companies
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const request = await prisma.request.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: { email: true },
+        },
+      },
+    });
+
+    if (!request) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 });
+    }
+
+    // Invited companies see which version their proposal was written against
+    const isOwner = request.user.email === session.user.email;
+    const invitation = isOwner
+      ? null
+      : await prisma.requestCompany.findFirst({
+          where: {
+            requestId: id,
+            company: {
+              companyUsers: { some: { user: { email: session.user.email } } },
+            },
+          },
+          select: { requestVersion: true, status: true },
+        });
+
+    if (!isOwner && !invitation) {
+      return NextResponse.json(
+        { error: 'Only the request owner and invited companies can view amendments' },
+        { status: 403 }
+      );
+    }
+
+    const versions = await prisma.requestVersion.findMany({
+      where: { requestId: id },
+      include: {
+        author: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { version: 'asc' },
+    });
+
+    // Amendments are written by the buyer
+    const showAuthor = canSeeBuyerIdentity(request, {
+      isOwner,
+      isSelected: invitation?.status === 'SELECTED',
+    });
+
+    const history = versions.map((entry) => ({
+      id: entry.id,
+      version: entry.version,
+      changes: (entry.changes ?? []) as RequestFieldChange[],
+      note: entry.note,
+      author: showAuthor ? entry.author : null,
+      createdAt: entry.createdAt,
+    }));
+
+    return NextResponse.json({
+      requestId: id,
+      currentVersion: request.version,
+      proposalVersion: invitation?.requestVersion ?? null,
+      versions: history,
+      labels: await loadChangeLabels(history.flatMap((entry) => entry.changes)),
+    });
+  } catch (error) {
+    console.error('Error fetching request versions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/requests/[id]/versions
+ * Amend a published request
+ * Only accessible by request owner
+ *
+ * Body: any amendable request field (not projectType) plus a required `note`.
+ * Invited companies are notified; existing proposals keep the version they
+ * were written against.
+ */
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+
+    // Check authentication
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const request = await prisma.request.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: { email: true },
+        },
+      },
+    });
+
+    if (!request) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 });
+    }
+
+    if (request.user.email !== session.user.email) {
+      return NextResponse.json(
+        { error: 'Only request owner can amend the request' },
+        { status: 403 }
+      );
+    }
+
+    if (!canAmendRequest(request.status)) {
+      return NextResponse.json(
+        { error: 'Only published requests can be amended' },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+    const { note, ...fields } = requestAmendmentSchema.parse(body);
+
+    // Check referenced tech stacks / specialties
+    const requirementsValidation = await validateRequirementIds(fields.requirements);
+    if (!requirementsValidation.valid) {
+      return NextResponse.json(
+        { error: requirementsValidation.error },
+        { status: 400 }
+      );
+    }
+
+    const amendment = buildRequestAmendment(request, fields);
+    if (amendment.changes.length === 0) {
+      return NextResponse.json(
+        { error: 'The amendment does not change the request' },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const validation = validateRequestSnapshot(amendment.snapshot, now);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const created = await amendRequest(tx, request, amendment, {
+        authorId: request.userId,
+        note,
+        now,
+      });
+
+      // Newly added uploads become visible to the invited companies
+      await linkAttachments(tx, {
+        ownerId: request.userId,
+        urls: amendment.snapshot.attachments,
+        purpose: 'REQUEST',
+        requestId: request.id,
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(
+      {
+        id: entry.id,
+        version: entry.version,
+        changes: amendment.changes,
+        note: entry.note,
+        createdAt: entry.createdAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error amending request:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof RequestAmendmentError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
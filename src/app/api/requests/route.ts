@@ -7,10 +7,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { prisma } from '@/lib/prisma';
+import { linkAttachments } from '@/lib/storage';
 import {
   requestCreateSchema,
   requestQuerySchema,
 } from '@/lib/validations/request';
+import { validateRequirementIds } from '@/lib/requests/requirements';
+import { visibleRequestsWhere } from '@/lib/requests/visibility';
+import { presentBuyer } from '@/lib/requests/buyer';
 import { Prisma } from '@prisma/client';
 
 /**
@@ -43,33 +47,62 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const validatedData = requestCreateSchema.parse(body);
 
-    // Create request
-    const request = await prisma.request.create({
-      data: {
-        userId: user.id,
-        title: validatedData.title,
-        description: validatedData.description,
-        projectType: validatedData.projectType,
-        budgetMin: validatedData.budgetMin,
-        budgetMax: validatedData.budgetMax,
-        deadline: validatedData.deadline ? new Date(validatedData.deadline) : null,
-        preferredStart: validatedData.preferredStart
-          ? new Date(validatedData.preferredStart)
-          : null,
-        requirements: validatedData.requirements || Prisma.JsonNull,
-        attachments: validatedData.attachments,
-        status: 'DRAFT',
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
+    // Check referenced tech stacks / specialties
+    const requirementsValidation = await validateRequirementIds(validatedData.requirements);
+    if (!requirementsValidation.valid) {
+      return NextResponse.json(
+        { error: requirementsValidation.error },
+        { status: 400 }
+      );
+    }
+
+    // Create request and give it the uploaded files it references
+    const request = await prisma.$transaction(async (tx) => {
+      const created = await tx.request.create({
+        data: {
+          userId: user.id,
+          title: validatedData.title,
+          description: validatedData.description,
+          projectType: validatedData.projectType,
+          visibility: validatedData.visibility,
+          buyerIndustry: validatedData.buyerIndustry,
+          buyerSize: validatedData.buyerSize,
+          budgetMin: validatedData.budgetMin,
+          budgetMax: validatedData.budgetMax,
+          budgetCurrency: validatedData.budgetCurrency,
+          budgetTaxIncluded: validatedData.budgetTaxIncluded,
+          budgetUnit: validatedData.budgetUnit,
+          deadline: validatedData.deadline ? new Date(validatedData.deadline) : null,
+          preferredStart: validatedData.preferredStart
+            ? new Date(validatedData.preferredStart)
+            : null,
+          quoteDeadline: validatedData.quoteDeadline
+            ? new Date(validatedData.quoteDeadline)
+            : null,
+          requirements: validatedData.requirements || Prisma.JsonNull,
+          attachments: validatedData.attachments,
+          status: 'DRAFT',
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              image: true,
+            },
           },
         },
-      },
+      });
+
+      await linkAttachments(tx, {
+        ownerId: user.id,
+        urls: created.attachments,
+        purpose: 'REQUEST',
+        requestId: created.id,
+      });
+
+      return created;
     });
 
     return NextResponse.json(request, { status: 201 });
@@ -135,6 +168,9 @@ export async function GET(req: NextRequest) {
               }
             : { status: 'PUBLISHED' },
 
+        // Visibility: invite-only requests only reach the owner and invited companies
+        visibleRequestsWhere(userEmail),
+
         // Project type filter
         validatedQuery.projectType
           ? { projectType: validatedQuery.projectType }
@@ -157,6 +193,14 @@ export async function GET(req: NextRequest) {
       ],
     };
 
+    // Anonymous buyers are shown by alias to everyone but themselves
+    const viewer = userEmail
+      ? await prisma.user.findUnique({
+          where: { email: userEmail },
+          select: { id: true },
+        })
+      : null;
+
     // Calculate pagination
     const skip = (validatedQuery.page - 1) * validatedQuery.limit;
 
@@ -188,7 +232,10 @@ export async function GET(req: NextRequest) {
     });
 
     return NextResponse.json({
-      data: requests,
+      // Attachments are only shown to the owner and invited companies (detail API)
+      data: requests.map(({ attachments: _attachments, ...request }) =>
+        presentBuyer(request, { isOwner: request.userId === viewer?.id, isSelected: false })
+      ),
       pagination: {
         page: validatedQuery.page,
         limit: validatedQuery.limit,
@@ -14,6 +14,7 @@ import {
   moderateReviewSchema,
   canEditReview,
   containsInappropriateContent,
+  toProjectCostData,
 } from "@/lib/validations/review";
 
 /**
@@ -214,7 +215,11 @@ export async function PATCH(
         where: {
           id: params.id,
         },
-        data: validatedData,
+        data: {
+          ...validatedData,
+          ...(validatedData.projectCost !== undefined &&
+            toProjectCostData(validatedData.projectCost)),
+        },
         include: {
           user: {
             select: {
@@ -12,6 +12,7 @@ import {
   createReviewSchema,
   reviewQuerySchema,
   containsInappropriateContent,
+  toProjectCostData,
 } from "@/lib/validations/review";
 import { Prisma } from "@prisma/client";
 
@@ -95,6 +96,7 @@ export async function POST(request: NextRequest) {
           projectType: validatedData.projectType || null,
           projectDuration: validatedData.projectDuration || null,
           projectCost: validatedData.projectCost || null,
+          ...toProjectCostData(validatedData.projectCost),
           isPublished: true,
           isVerified: false,
         },
@@ -0,0 +1,207 @@
+/**
+ * Upload API Routes
+ * POST /api/upload - Upload a file
+ * DELETE /api/upload - Delete an uploaded file
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { AttachmentPurpose } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { getStorageAdapter } from '@/lib/storage';
+import {
+  buildStorageKey,
+  getAttachmentIdFromUrl,
+  getFileUrl,
+  isAttachmentInUse,
+  validateUpload,
+  validateUploadRequestSize,
+  validateUploadSize,
+} from '@/lib/storage/files';
+
+const purposes: Record<string, AttachmentPurpose> = {
+  request: 'REQUEST',
+  proposal: 'PROPOSAL',
+  message: 'MESSAGE',
+  company: 'COMPANY_IMAGE',
+};
+
+const deleteSchema = z
+  .object({
+    id: z.string().optional(),
+    url: z.string().optional(),
+  })
+  .refine((data) => data.id || data.url, { message: 'id or url is required' });
+
+/**
+ * POST /api/upload
+ * Upload a file (multipart form data)
+ * Requires authentication
+ *
+ * Form fields:
+ * - file: The file
+ * - purpose: request | proposal | message | company (default: request)
+ *
+ * The file is private to the uploader until a request, proposal or message
+ * that references its URL is saved. Oversized uploads are rejected from the
+ * Content-Length and the declared file size before the file is read.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Don't buffer bodies that can't hold an acceptable file
+    const requestSize = validateUploadRequestSize(req.headers.get('content-length'));
+    if (!requestSize.valid) {
+      return NextResponse.json(
+        { error: requestSize.error },
+        { status: requestSize.status }
+      );
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('file');
+    const purpose = purposes[String(formData.get('purpose') ?? 'request')];
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+    }
+    if (!purpose) {
+      return NextResponse.json({ error: 'Invalid upload purpose' }, { status: 400 });
+    }
+
+    const declaredSize = validateUploadSize(file.size, purpose);
+    if (!declaredSize.valid) {
+      return NextResponse.json({ error: declaredSize.error }, { status: 413 });
+    }
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    const validation = validateUpload({ name: file.name, size: data.length, data }, purpose);
+    if (!validation.valid || !validation.mimeType) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const storage = getStorageAdapter();
+    const storageKey = buildStorageKey(purpose, user.id, validation.mimeType, randomUUID());
+    await storage.put(storageKey, data, validation.mimeType);
+
+    try {
+      const attachment = await prisma.attachment.create({
+        data: {
+          ownerId: user.id,
+          purpose,
+          storageKey,
+          fileName: file.name.slice(0, 255),
+          mimeType: validation.mimeType,
+          size: data.length,
+        },
+      });
+
+      return NextResponse.json(
+        {
+          id: attachment.id,
+          url: new URL(getFileUrl(attachment.id), req.url).toString(),
+          name: attachment.fileName,
+          size: attachment.size,
+          type: attachment.mimeType,
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      // Don't leave unreferenced objects behind
+      await storage.delete(storageKey);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error uploading file:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/upload
+ * Delete an uploaded file by `id` or `url`
+ * Only the uploader; files of published requests and submitted proposals are kept
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getServerSession();
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { id, url } = deleteSchema.parse(body);
+    const attachmentId = id ?? getAttachmentIdFromUrl(url ?? '');
+
+    const attachment = attachmentId
+      ? await prisma.attachment.findUnique({
+          where: { id: attachmentId },
+          include: {
+            owner: { select: { email: true } },
+            request: { select: { status: true } },
+            requestCompany: { select: { status: true } },
+          },
+        })
+      : null;
+
+    if (!attachment) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    if (attachment.owner.email !== session.user.email) {
+      return NextResponse.json(
+        { error: 'Only the uploader can delete this file' },
+        { status: 403 }
+      );
+    }
+
+    if (isAttachmentInUse(attachment)) {
+      return NextResponse.json(
+        { error: 'This file is part of a published request or submitted proposal' },
+        { status: 409 }
+      );
+    }
+
+    await prisma.attachment.delete({ where: { id: attachment.id } });
+    await getStorageAdapter().delete(attachment.storageKey);
+
+    return NextResponse.json({ success: true, message: 'File deleted' });
+  } catch (error) {
+    console.error('Error deleting file:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
 import { LandingPage } from "@/components/home/LandingPage"
 import { Dashboard } from "@/components/home/Dashboard"
 
@@ -12,6 +13,16 @@ export default async function Home() {
     return <LandingPage />
   }
 
+  // Companies the user belongs to (for the recommended requests feed)
+  const companyUsers = await prisma.companyUser.findMany({
+    where: { userId: session.user.id },
+    select: {
+      company: {
+        select: { id: true, name: true },
+      },
+    },
+  })
+
   // Show Dashboard for authenticated users
-  return <Dashboard />
+  return <Dashboard companies={companyUsers.map((cu) => cu.company)} />
 }
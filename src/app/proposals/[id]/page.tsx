@@ -0,0 +1,389 @@
+/**
+ * Proposal Detail Page
+ *
+ * A proposal with its revision history and a side-by-side diff of any two
+ * revisions. The buyer can ask for a revision; the company answers with a
+ * new revision. Both sides talk in the proposal's message thread.
+ * Only accessible by request owner or company member
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ProposalWithDetails } from '@/types/matching';
+import { ProposalRevisionDiff } from '@/components/matching/ProposalRevisionDiff';
+import { ProposalMessages } from '@/components/matching/ProposalMessages';
+import {
+  ProposalFieldChange,
+  proposalRevisionFieldLabels,
+  ProposalSnapshot,
+} from '@/lib/requests/revisions';
+import { isRequestOpen } from '@/lib/requests/lifecycle';
+import { formatMoney } from '@/lib/utils/money';
+import { formatDate, getEstimateTerms } from '@/lib/utils/request';
+import { RequestStatus } from '@prisma/client';
+
+interface ProposalResponse extends Omit<ProposalWithDetails, 'company'> {
+  isRequestOwner: boolean;
+  isCompanyMember: boolean;
+  request: { id: string; title: string; status: RequestStatus };
+  company: { id: string; name: string; slug: string };
+}
+
+interface RevisionEntry {
+  id: string;
+  revision: number;
+  snapshot: ProposalSnapshot;
+  changes: ProposalFieldChange[];
+  note: string | null;
+  author: { id: string; name: string | null } | null;
+  createdAt: string;
+}
+
+interface RevisionRequestEntry {
+  id: string;
+  revision: number;
+  comment: string;
+  author: { id: string; name: string | null } | null;
+  resolvedRevision: number | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+interface RevisionsResponse {
+  currentRevision: number;
+  revisions: RevisionEntry[];
+  revisionRequests: RevisionRequestEntry[];
+}
+
+type HistoryItem =
+  | { kind: 'revision'; createdAt: string; entry: RevisionEntry }
+  | { kind: 'request'; createdAt: string; entry: RevisionRequestEntry };
+
+export default function ProposalDetailPage({ params }: { params: { id: string } }) {
+  const [proposal, setProposal] = useState<ProposalResponse | null>(null);
+  const [history, setHistory] = useState<RevisionsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchProposal();
+  }, [params.id]);
+
+  const fetchProposal = async () => {
+    try {
+      setIsLoading(true);
+      const [proposalResponse, revisionsResponse] = await Promise.all([
+        fetch(`/api/proposals/${params.id}`),
+        fetch(`/api/proposals/${params.id}/revisions`),
+      ]);
+
+      if (!proposalResponse.ok) {
+        const errorData = await proposalResponse.json();
+        throw new Error(errorData.error || 'Failed to fetch proposal');
+      }
+      if (!revisionsResponse.ok) {
+        const errorData = await revisionsResponse.json();
+        throw new Error(errorData.error || 'Failed to fetch revisions');
+      }
+
+      const revisionsData: RevisionsResponse = await revisionsResponse.json();
+      setProposal(await proposalResponse.json());
+      setHistory(revisionsData);
+
+      // Compare the latest revision with the one before it
+      const latest = revisionsData.revisions[revisionsData.revisions.length - 1];
+      setToRevision(latest?.revision ?? null);
+      setFromRevision(latest ? Math.max(latest.revision - 1, 1) : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRequestRevision = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitError(null);
+
+    if (!comment.trim()) {
+      setSubmitError('Please describe what should be revised');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`/api/proposals/${params.id}/revision-requests`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ comment: comment.trim() }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to request a revision');
+      }
+
+      setComment('');
+      await fetchProposal();
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to request a revision');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading proposal...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !proposal || !history) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full">
+          <h2 className="text-xl font-bold text-gray-900 mb-2 text-center">
+            Error Loading Proposal
+          </h2>
+          <p className="text-gray-600 text-center mb-4">{error}</p>
+          <Link
+            href="/requests"
+            className="block w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg text-center transition-colors"
+          >
+            Back to Requests
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const openRequest = history.revisionRequests.find((entry) => !entry.resolvedAt);
+  const isOpen = proposal.status === 'RESPONDED' && isRequestOpen(proposal.request.status);
+  const canRequestRevision = proposal.isRequestOwner && isOpen && !openRequest;
+  const canRevise = proposal.isCompanyMember && isOpen && (!!openRequest || proposal.isOutdated);
+
+  const fromEntry = history.revisions.find((entry) => entry.revision === fromRevision);
+  const toEntry = history.revisions.find((entry) => entry.revision === toRevision);
+
+  const items: HistoryItem[] = [
+    ...history.revisions.map((entry) => ({
+      kind: 'revision' as const,
+      createdAt: entry.createdAt,
+      entry,
+    })),
+    ...history.revisionRequests.map((entry) => ({
+      kind: 'request' as const,
+      createdAt: entry.createdAt,
+      entry,
+    })),
+  ].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const revisionSelect = (value: number | null, onChange: (value: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    >
+      {history.revisions.map((entry) => (
+        <option key={entry.id} value={entry.revision}>
+          Revision {entry.revision} ({formatDate(entry.createdAt)})
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href={
+              proposal.isRequestOwner
+                ? `/requests/${proposal.requestId}/proposals`
+                : `/requests/${proposal.requestId}`
+            }
+            className="text-blue-600 hover:text-blue-700 font-medium mb-4 inline-flex items-center"
+          >
+            <svg className="w-5 h-5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 19l-7-7 7-7"
+              />
+            </svg>
+            {proposal.isRequestOwner ? 'Back to Proposals' : 'Back to Request'}
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Proposal from {proposal.company.name}
+          </h1>
+          <p className="text-gray-600">
+            {proposal.request.title} · Revision {history.currentRevision}
+          </p>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <p className="text-sm text-gray-600 mb-1">Estimated Cost</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {proposal.estimatedCost !== null
+                ? formatMoney(proposal.estimatedCost, getEstimateTerms(proposal))
+                : 'N/A'}
+            </p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <p className="text-sm text-gray-600 mb-1">Duration</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {proposal.estimatedDuration ?? 'N/A'}
+            </p>
+          </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <p className="text-sm text-gray-600 mb-1">Submitted</p>
+            <p className="text-2xl font-bold text-gray-900">{formatDate(proposal.respondedAt)}</p>
+          </div>
+        </div>
+
+        {/* Open revision request */}
+        {openRequest && (
+          <div className="mb-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <p className="font-medium text-yellow-900 mb-1">
+              Revision requested on {formatDate(openRequest.createdAt)}
+            </p>
+            <p className="text-sm text-yellow-800 whitespace-pre-wrap">{openRequest.comment}</p>
+          </div>
+        )}
+
+        {canRevise && (
+          <div className="mb-8">
+            <Link
+              href={`/requests/${proposal.requestId}/proposals/new?revise=${proposal.id}`}
+              className="inline-block bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+            >
+              Revise Proposal
+            </Link>
+          </div>
+        )}
+
+        {canRequestRevision && (
+          <form
+            onSubmit={handleRequestRevision}
+            className="mb-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6"
+          >
+            <label htmlFor="comment" className="block text-sm font-medium text-gray-700 mb-2">
+              Request a Revision
+            </label>
+            <textarea
+              id="comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={4}
+              maxLength={2000}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="What should the company change? e.g. lower the cost of the testing phase"
+            />
+            {submitError && <p className="mt-2 text-sm text-red-600">{submitError}</p>}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="mt-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+            >
+              {isSubmitting ? 'Sending...' : 'Request Revision'}
+            </button>
+          </form>
+        )}
+
+        <ProposalMessages
+          proposalId={proposal.id}
+          companyName={proposal.company.name}
+          className="mb-8"
+        />
+
+        {/* Revision diff */}
+        <div className="mb-8">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h2 className="text-xl font-bold text-gray-900">Compare Revisions</h2>
+            {history.revisions.length > 1 && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                {revisionSelect(fromRevision, setFromRevision)}
+                <span>→</span>
+                {revisionSelect(toRevision, setToRevision)}
+              </div>
+            )}
+          </div>
+          {fromEntry && toEntry && history.revisions.length > 1 ? (
+            <ProposalRevisionDiff from={fromEntry} to={toEntry} />
+          ) : (
+            <p className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 text-sm text-gray-500">
+              There is only one revision of this proposal so far.
+            </p>
+          )}
+        </div>
+
+        {/* History */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">History</h2>
+          <ol className="space-y-4">
+            {items.map((item) =>
+              item.kind === 'revision' ? (
+                <li key={item.entry.id} className="border-l-4 border-blue-500 pl-4">
+                  <p className="font-medium text-gray-900">
+                    Revision {item.entry.revision}
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {formatDate(item.entry.createdAt)}
+                      {item.entry.author?.name && ` · ${item.entry.author.name}`}
+                    </span>
+                  </p>
+                  {item.entry.note && (
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{item.entry.note}</p>
+                  )}
+                  {item.entry.changes.length > 0 && (
+                    <p className="text-sm text-gray-500">
+                      Changed:{' '}
+                      {[
+                        ...new Set(
+                          item.entry.changes.map(
+                            (change) => proposalRevisionFieldLabels[change.field] ?? change.field
+                          )
+                        ),
+                      ].join(', ')}
+                    </p>
+                  )}
+                </li>
+              ) : (
+                <li key={item.entry.id} className="border-l-4 border-yellow-400 pl-4">
+                  <p className="font-medium text-gray-900">
+                    Revision requested
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {formatDate(item.entry.createdAt)}
+                      {item.entry.author?.name && ` · ${item.entry.author.name}`}
+                    </span>
+                  </p>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{item.entry.comment}</p>
+                  <p className="text-sm text-gray-500">
+                    {item.entry.resolvedRevision
+                      ? `Answered by revision ${item.entry.resolvedRevision}`
+                      : 'Waiting for a new revision'}
+                  </p>
+                </li>
+              )
+            )}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,14 +11,51 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { CompanyMatchCard } from '@/components/matching/CompanyMatchCard';
-import { MatchedCompany } from '@/types/matching';
+import { matchReasonLocaleLabels } from '@/lib/matching/explanations';
+import { RequestCompanyStatus } from '@prisma/client';
+import {
+  InvitationSkip,
+  MatchedCompany,
+  MatchingWeights,
+  MatchReasonLocale,
+} from '@/types/matching';
+
+/**
+ * Ranking presets sent to the matches API as weight overrides
+ */
+const rankingPresets: Record<string, { label: string; weights: MatchingWeights }> = {
+  balanced: {
+    label: 'Balanced',
+    weights: { techStackWeight: 0.4, specialtyWeight: 0.3, budgetWeight: 0.2, ratingWeight: 0.1 },
+  },
+  techStack: {
+    label: 'Tech stack first',
+    weights: { techStackWeight: 0.6, specialtyWeight: 0.2, budgetWeight: 0.1, ratingWeight: 0.1 },
+  },
+  budget: {
+    label: 'Budget first',
+    weights: { techStackWeight: 0.2, specialtyWeight: 0.2, budgetWeight: 0.5, ratingWeight: 0.1 },
+  },
+  rating: {
+    label: 'Reputation first',
+    weights: { techStackWeight: 0.25, specialtyWeight: 0.2, budgetWeight: 0.15, ratingWeight: 0.4 },
+  },
+};
 
 interface MatchesResponse {
   requestId: string;
+  source: 'snapshot' | 'live';
+  algorithmVersion: string;
+  computedAt?: string | null;
   totalMatches: number;
   matches: MatchedCompany[];
 }
 
+interface InvitationsResponse {
+  maxInvitations: number;
+  invitations: { companyId: string; status: RequestCompanyStatus }[];
+}
+
 export default function RequestMatchesPage({
   params,
 }: {
@@ -32,12 +69,79 @@ export default function RequestMatchesPage({
     minScore: 30,
     verifiedOnly: false,
     minRating: 0,
+    ranking: 'balanced',
   });
+  const [reasonLocale, setReasonLocale] = useState<MatchReasonLocale>('en');
+  const [invitations, setInvitations] = useState<InvitationsResponse | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteMessage, setInviteMessage] = useState<string | null>(null);
 
   useEffect(() => {
     fetchMatches();
   }, [params.id, filters]);
 
+  useEffect(() => {
+    fetchInvitations();
+  }, [params.id]);
+
+  // Only the request owner can list invitations; others just browse matches
+  const fetchInvitations = async () => {
+    const response = await fetch(`/api/requests/${params.id}/invitations`);
+    if (response.ok) {
+      setInvitations(await response.json());
+    }
+  };
+
+  const invitationStatusByCompany = new Map(
+    invitations?.invitations.map((inv) => [inv.companyId, inv.status]) ?? []
+  );
+  const remainingInvitations = invitations
+    ? invitations.maxInvitations - invitations.invitations.length
+    : 0;
+
+  const handleToggleSelect = (companyId: string) => {
+    setInviteMessage(null);
+    setSelectedIds((prev) =>
+      prev.includes(companyId)
+        ? prev.filter((id) => id !== companyId)
+        : prev.length < remainingInvitations
+        ? [...prev, companyId]
+        : prev
+    );
+  };
+
+  const handleInvite = async () => {
+    try {
+      setIsInviting(true);
+      setInviteMessage(null);
+
+      const response = await fetch(`/api/requests/${params.id}/invitations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ companyIds: selectedIds }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to invite companies');
+      }
+
+      const skipped: InvitationSkip[] = data.skipped;
+      setInviteMessage(
+        skipped.length > 0
+          ? `${data.invited.length} invited, ${skipped.length} skipped`
+          : `${data.invited.length} companies invited to quote`
+      );
+      setSelectedIds([]);
+      await fetchInvitations();
+    } catch (err) {
+      setInviteMessage(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
   const fetchMatches = async () => {
     try {
       setIsLoading(true);
@@ -47,6 +151,15 @@ export default function RequestMatchesPage({
         minRating: filters.minRating.toString(),
       });
 
+      // The balanced preset uses the stored ranking; others re-rank live
+      if (filters.ranking !== 'balanced') {
+        const { weights } = rankingPresets[filters.ranking];
+        queryParams.set('techStackWeight', weights.techStackWeight.toString());
+        queryParams.set('specialtyWeight', weights.specialtyWeight.toString());
+        queryParams.set('budgetWeight', weights.budgetWeight.toString());
+        queryParams.set('ratingWeight', weights.ratingWeight.toString());
+      }
+
       const response = await fetch(
         `/api/requests/${params.id}/matches?${queryParams}`
       );
@@ -145,12 +258,18 @@ export default function RequestMatchesPage({
           <p className="text-gray-600">
             Found {matches?.totalMatches || 0} companies that match your requirements
           </p>
+          {matches?.source === 'snapshot' && matches.computedAt && (
+            <p className="text-sm text-gray-500 mt-1">
+              Ranking as of {new Date(matches.computedAt).toLocaleString('ja-JP')} (algorithm v
+              {matches.algorithmVersion})
+            </p>
+          )}
         </div>
 
         {/* Filters */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Filters</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             {/* Minimum Score */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -187,6 +306,50 @@ export default function RequestMatchesPage({
               />
             </div>
 
+            {/* Ranking Priority */}
+            <div>
+              <label
+                htmlFor="ranking"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Ranking Priority
+              </label>
+              <select
+                id="ranking"
+                value={filters.ranking}
+                onChange={(e) => setFilters({ ...filters, ranking: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                {Object.entries(rankingPresets).map(([key, preset]) => (
+                  <option key={key} value={key}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Explanation Language */}
+            <div>
+              <label
+                htmlFor="reasonLocale"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Explanation Language
+              </label>
+              <select
+                id="reasonLocale"
+                value={reasonLocale}
+                onChange={(e) => setReasonLocale(e.target.value as MatchReasonLocale)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                {Object.entries(matchReasonLocaleLabels).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Verified Only */}
             <div className="flex items-center">
               <input
@@ -208,6 +371,26 @@ export default function RequestMatchesPage({
           </div>
         </div>
 
+        {/* Invite Bar (request owner only) */}
+        {invitations && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {selectedIds.length} selected · {remainingInvitations} of{' '}
+                {invitations.maxInvitations} invitations left
+              </p>
+              {inviteMessage && <p className="text-sm text-gray-600 mt-1">{inviteMessage}</p>}
+            </div>
+            <button
+              onClick={handleInvite}
+              disabled={selectedIds.length === 0 || isInviting}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+            >
+              {isInviting ? 'Sending...' : 'Request Quotes'}
+            </button>
+          </div>
+        )}
+
         {/* Matches Grid */}
         {matches && matches.matches.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -216,6 +399,11 @@ export default function RequestMatchesPage({
                 key={match.company.id}
                 match={match}
                 onSubmitProposal={handleSubmitProposal}
+                invitationStatus={invitationStatusByCompany.get(match.company.id)}
+                selectable={!!invitations}
+                selected={selectedIds.includes(match.company.id)}
+                onToggleSelect={handleToggleSelect}
+                reasonLocale={reasonLocale}
               />
             ))}
           </div>
@@ -242,7 +430,12 @@ export default function RequestMatchesPage({
             </p>
             <button
               onClick={() =>
-                setFilters({ minScore: 0, verifiedOnly: false, minRating: 0 })
+                setFilters({
+                  minScore: 0,
+                  verifiedOnly: false,
+                  minRating: 0,
+                  ranking: 'balanced',
+                })
               }
               className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-6 rounded-lg transition-colors"
             >
@@ -8,20 +8,45 @@
 import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { ProjectType, RequestStatus } from '@prisma/client';
+import {
+  Currency,
+  MoneyUnit,
+  ProjectType,
+  RequestStatus,
+  RequestTransition,
+  RequestVisibility,
+} from '@prisma/client';
 import {
   projectTypeLabels,
   requestStatusLabels,
   requestStatusColors,
   formatBudgetRange,
   formatDate,
-  canEditRequest,
-  canPublishRequest,
-  canCancelRequest,
+  getBudgetTerms,
+  getEstimateTerms,
+  isQuoteWindowOpen,
 } from '@/lib/utils/request';
+import { formatMoney } from '@/lib/utils/money';
+import {
+  canDeleteRequest,
+  canEditRequest,
+  canTransitionRequest,
+  requestTransitionLabels,
+} from '@/lib/requests/lifecycle';
+import { getRequirementItems, requirementPriorityLabels } from '@/lib/requests/coverage';
+import { requestVisibilityLabels } from '@/lib/requests/visibility';
+import type { AnonymousBuyer } from '@/lib/requests/buyer';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  RequestAmendments,
+  RequestVersionEntry,
+} from '@/components/request/RequestAmendments';
+import {
+  RequestQuestionEntry,
+  RequestQuestions,
+} from '@/components/request/RequestQuestions';
 
 interface Request {
   id: string;
@@ -29,26 +54,43 @@ interface Request {
   description: string;
   projectType: ProjectType;
   status: RequestStatus;
+  visibility: RequestVisibility;
   budgetMin?: number | null;
   budgetMax?: number | null;
+  budgetCurrency?: Currency;
+  budgetTaxIncluded?: boolean;
+  budgetUnit?: MoneyUnit;
   deadline?: string | null;
+  quoteDeadline?: string | null;
   preferredStart?: string | null;
   requirements?: any;
+  requirementLabels?: {
+    techStacks: Array<{ id: string; name: string }>;
+    specialties: Array<{ id: string; name: string }>;
+  };
   attachments: string[];
   publishedAt?: string | null;
   closedAt?: string | null;
+  version: number;
   createdAt: string;
   updatedAt: string;
+  // Hidden for anonymous-buyer requests of other users
   user: {
     id: string;
     name: string | null;
     email: string;
     image: string | null;
-  };
+  } | null;
+  // Alias shown instead of `user` for anonymous-buyer requests
+  buyer: AnonymousBuyer | null;
+  // All proposals for the owner, only its own for a company
   requestCompanies: Array<{
     id: string;
     status: string;
     estimatedCost?: number | null;
+    estimatedCurrency?: Currency;
+    estimatedTaxIncluded?: boolean;
+    estimatedUnit?: MoneyUnit;
     respondedAt?: string | null;
     company: {
       id: string;
@@ -59,8 +101,48 @@ interface Request {
       reviewCount: number;
     };
   }>;
+  proposalCount: number;
 }
 
+interface VersionsResponse {
+  currentVersion: number;
+  proposalVersion: number | null;
+  versions: RequestVersionEntry[];
+  labels: {
+    techStacks: Array<{ id: string; name: string }>;
+    specialties: Array<{ id: string; name: string }>;
+  };
+}
+
+interface QuestionsResponse {
+  canAsk: boolean;
+  canAnswer: boolean;
+  questions: RequestQuestionEntry[];
+}
+
+interface StatusHistoryEntry {
+  id: string;
+  fromStatus: RequestStatus;
+  toStatus: RequestStatus;
+  transition: RequestTransition;
+  reason: string | null;
+  createdAt: string;
+  actor: { id: string; name: string | null } | null;
+}
+
+/**
+ * Owner actions that change the request status via POST /api/requests/[id]/status
+ */
+const statusActions: Array<{
+  transition: 'CLOSE' | 'CANCEL' | 'REOPEN';
+  label: string;
+  confirm: string;
+}> = [
+  { transition: 'CLOSE', label: 'Close', confirm: 'Close this request to new proposals?' },
+  { transition: 'REOPEN', label: 'Reopen', confirm: 'Reopen this request for proposals?' },
+  { transition: 'CANCEL', label: 'Cancel Request', confirm: 'Cancel this request?' },
+];
+
 interface PageProps {
   params: {
     id: string;
@@ -72,6 +154,9 @@ export default function RequestDetailPage({ params }: PageProps) {
   const [request, setRequest] = useState<Request | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isOwner, setIsOwner] = useState(false);
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([]);
+  const [versions, setVersions] = useState<VersionsResponse | null>(null);
+  const [questions, setQuestions] = useState<QuestionsResponse | null>(null);
 
   useEffect(() => {
     fetchRequest();
@@ -96,6 +181,22 @@ export default function RequestDetailPage({ params }: PageProps) {
       // Check if current user is the owner
       // In production, get this from session
       setIsOwner(true); // For demo purposes
+
+      // Status history is only returned to the owner
+      const statusResponse = await fetch(`/api/requests/${params.id}/status`);
+      if (statusResponse.ok) {
+        const statusData = await statusResponse.json();
+        setStatusHistory(statusData.history);
+      }
+
+      // Amendments are only returned to the owner and invited companies
+      if (data.status !== 'DRAFT') {
+        const versionsResponse = await fetch(`/api/requests/${params.id}/versions`);
+        if (versionsResponse.ok) {
+          setVersions(await versionsResponse.json());
+        }
+        await fetchQuestions();
+      }
     } catch (error) {
       console.error('Error fetching request:', error);
     } finally {
@@ -103,6 +204,14 @@ export default function RequestDetailPage({ params }: PageProps) {
     }
   };
 
+  // Questions are only returned to the owner and invited companies
+  const fetchQuestions = async () => {
+    const questionsResponse = await fetch(`/api/requests/${params.id}/questions`);
+    if (questionsResponse.ok) {
+      setQuestions(await questionsResponse.json());
+    }
+  };
+
   const handlePublish = async () => {
     if (!request || !window.confirm('Publish this request?')) return;
 
@@ -121,6 +230,48 @@ export default function RequestDetailPage({ params }: PageProps) {
     }
   };
 
+  const handleStatusChange = async (action: (typeof statusActions)[number]) => {
+    if (!request || !window.confirm(action.confirm)) return;
+
+    const reason = window.prompt('Reason (optional)') ?? undefined;
+
+    try {
+      const response = await fetch(`/api/requests/${request.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transition: action.transition, reason: reason || undefined }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to change request status');
+      }
+
+      await fetchRequest();
+    } catch (error) {
+      console.error('Error changing request status:', error);
+      alert(error instanceof Error ? error.message : 'Failed to change request status');
+    }
+  };
+
+  const handleDuplicate = async () => {
+    if (!request) return;
+
+    try {
+      const response = await fetch(`/api/requests/${request.id}/duplicate`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) throw new Error('Failed to duplicate request');
+
+      const duplicate = await response.json();
+      router.push(`/requests/${duplicate.id}`);
+    } catch (error) {
+      console.error('Error duplicating request:', error);
+      alert('Failed to duplicate request. Please try again.');
+    }
+  };
+
   const handleDelete = async () => {
     if (
       !request ||
@@ -172,6 +323,11 @@ export default function RequestDetailPage({ params }: PageProps) {
                 <span className="text-sm text-gray-500">
                   {projectTypeLabels[request.projectType]}
                 </span>
+                {request.visibility !== 'PUBLIC' && (
+                  <Badge variant="outline">
+                    {requestVisibilityLabels[request.visibility]}
+                  </Badge>
+                )}
               </div>
 
               <h1 className="text-3xl font-bold text-gray-900">
@@ -179,6 +335,21 @@ export default function RequestDetailPage({ params }: PageProps) {
               </h1>
 
               <div className="mt-4 flex items-center text-sm text-gray-500">
+                {request.buyer ? (
+                  <>
+                    <span>
+                      {request.buyer.alias} ({request.buyer.descriptor})
+                    </span>
+                    <span className="mx-2">•</span>
+                  </>
+                ) : (
+                  request.user?.name && (
+                    <>
+                      <span>{request.user.name}</span>
+                      <span className="mx-2">•</span>
+                    </>
+                  )
+                )}
                 <span>Posted {formatDate(request.createdAt)}</span>
                 {request.publishedAt && (
                   <>
@@ -186,6 +357,12 @@ export default function RequestDetailPage({ params }: PageProps) {
                     <span>Published {formatDate(request.publishedAt)}</span>
                   </>
                 )}
+                {request.version > 1 && (
+                  <>
+                    <span className="mx-2">•</span>
+                    <span>Amended (v{request.version})</span>
+                  </>
+                )}
               </div>
             </div>
 
@@ -198,11 +375,27 @@ export default function RequestDetailPage({ params }: PageProps) {
                   </Link>
                 )}
 
-                {canPublishRequest(request.status) && (
+                {canTransitionRequest(request.status, 'PUBLISH') && (
                   <Button onClick={handlePublish}>Publish</Button>
                 )}
 
-                {canCancelRequest(request.status) && (
+                {statusActions
+                  .filter((action) => canTransitionRequest(request.status, action.transition))
+                  .map((action) => (
+                    <Button
+                      key={action.transition}
+                      variant="outline"
+                      onClick={() => handleStatusChange(action)}
+                    >
+                      {action.label}
+                    </Button>
+                  ))}
+
+                <Button variant="outline" onClick={handleDuplicate}>
+                  Duplicate
+                </Button>
+
+                {canDeleteRequest(request.status) && (
                   <Button variant="destructive" onClick={handleDelete}>
                     Delete
                   </Button>
@@ -253,23 +446,96 @@ export default function RequestDetailPage({ params }: PageProps) {
                       </div>
                     )}
 
-                  {request.requirements.technologies &&
-                    request.requirements.technologies.length > 0 && (
-                      <div>
-                        <h4 className="mb-2 font-medium text-gray-900">
-                          Technologies
-                        </h4>
-                        <div className="flex flex-wrap gap-2">
-                          {request.requirements.technologies.map(
-                            (tech: string, index: number) => (
-                              <Badge key={index} variant="secondary">
-                                {tech}
+                  {getRequirementItems(request.requirements).length > 0 && (
+                    <div>
+                      <h4 className="mb-2 font-medium text-gray-900">
+                        Requirement Items
+                      </h4>
+                      <ul className="space-y-3">
+                        {getRequirementItems(request.requirements).map((item) => (
+                          <li key={item.id} className="rounded-md border p-3">
+                            <div className="flex items-center gap-2">
+                              <Badge
+                                variant={item.priority === 'MUST' ? 'default' : 'secondary'}
+                              >
+                                {requirementPriorityLabels[item.priority]}
                               </Badge>
-                            )
-                          )}
-                        </div>
+                              <span className="font-medium text-gray-900">
+                                {item.title}
+                              </span>
+                            </div>
+                            {item.description && (
+                              <p className="mt-2 whitespace-pre-wrap text-sm text-gray-700">
+                                {item.description}
+                              </p>
+                            )}
+                            {item.acceptanceNotes && (
+                              <p className="mt-1 text-sm text-gray-500">
+                                Acceptance: {item.acceptanceNotes}
+                              </p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {((request.requirementLabels?.techStacks.length ?? 0) > 0 ||
+                    request.requirements.otherTechnologies?.length > 0) && (
+                    <div>
+                      <h4 className="mb-2 font-medium text-gray-900">
+                        Technologies
+                      </h4>
+                      <div className="flex flex-wrap gap-2">
+                        {request.requirementLabels?.techStacks.map((tech) => (
+                          <Badge key={tech.id} variant="secondary">
+                            {tech.name}
+                          </Badge>
+                        ))}
+                        {request.requirements.otherTechnologies?.map(
+                          (tech: string, index: number) => (
+                            <Badge key={index} variant="outline">
+                              {tech}
+                            </Badge>
+                          )
+                        )}
                       </div>
-                    )}
+                    </div>
+                  )}
+
+                  {((request.requirementLabels?.specialties.length ?? 0) > 0 ||
+                    request.requirements.otherSpecialties?.length > 0) && (
+                    <div>
+                      <h4 className="mb-2 font-medium text-gray-900">
+                        Specialties
+                      </h4>
+                      <div className="flex flex-wrap gap-2">
+                        {request.requirementLabels?.specialties.map((specialty) => (
+                          <Badge key={specialty.id} variant="secondary">
+                            {specialty.name}
+                          </Badge>
+                        ))}
+                        {request.requirements.otherSpecialties?.map(
+                          (specialty: string, index: number) => (
+                            <Badge key={index} variant="outline">
+                              {specialty}
+                            </Badge>
+                          )
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {request.requirements.location && (
+                    <div>
+                      <h4 className="mb-2 font-medium text-gray-900">
+                        Location
+                      </h4>
+                      <p className="text-gray-700">
+                        {request.requirements.location}
+                      </p>
+                    </div>
+                  )}
 
                   {request.requirements.targetAudience && (
                     <div>
@@ -333,6 +599,29 @@ export default function RequestDetailPage({ params }: PageProps) {
                 </CardContent>
               </Card>
             )}
+
+            {/* Amendments (owner and invited companies) */}
+            {versions && (
+              <RequestAmendments
+                versions={versions.versions}
+                currentVersion={versions.currentVersion}
+                proposalVersion={versions.proposalVersion}
+                labels={versions.labels}
+                className="mt-6"
+              />
+            )}
+
+            {/* Questions & Answers (owner and invited companies) */}
+            {questions && (
+              <RequestQuestions
+                requestId={request.id}
+                questions={questions.questions}
+                canAsk={questions.canAsk}
+                canAnswer={questions.canAnswer}
+                onChange={fetchQuestions}
+                className="mt-6"
+              />
+            )}
           </div>
 
           {/* Sidebar */}
@@ -348,7 +637,11 @@ export default function RequestDetailPage({ params }: PageProps) {
                     Budget
                   </h4>
                   <p className="text-lg font-semibold text-gray-900">
-                    {formatBudgetRange(request.budgetMin, request.budgetMax)}
+                    {formatBudgetRange(
+                      request.budgetMin,
+                      request.budgetMax,
+                      getBudgetTerms(request)
+                    )}
                   </p>
                 </div>
 
@@ -373,6 +666,20 @@ export default function RequestDetailPage({ params }: PageProps) {
                     </p>
                   </div>
                 )}
+
+                {request.quoteDeadline && (
+                  <div>
+                    <h4 className="mb-1 text-sm font-medium text-gray-600">
+                      Quote Deadline
+                    </h4>
+                    <p className="text-gray-900">
+                      {formatDate(request.quoteDeadline)}
+                      {!isQuoteWindowOpen(request) && (
+                        <span className="ml-2 text-sm text-gray-500">(closed)</span>
+                      )}
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -384,7 +691,9 @@ export default function RequestDetailPage({ params }: PageProps) {
               <CardContent>
                 {request.requestCompanies.length === 0 ? (
                   <p className="text-sm text-gray-500">
-                    No quotes received yet
+                    {request.proposalCount > 0
+                      ? `${request.proposalCount} quote${request.proposalCount !== 1 ? 's' : ''} received`
+                      : 'No quotes received yet'}
                   </p>
                 ) : (
                   <div className="space-y-3">
@@ -408,7 +717,7 @@ export default function RequestDetailPage({ params }: PageProps) {
                             </p>
                             {rc.estimatedCost && (
                               <p className="text-sm text-gray-600">
-                                ¥{rc.estimatedCost.toLocaleString()}
+                                {formatMoney(rc.estimatedCost, getEstimateTerms(rc))}
                               </p>
                             )}
                             <div className="mt-1 flex items-center text-xs text-gray-500">
@@ -430,6 +739,37 @@ export default function RequestDetailPage({ params }: PageProps) {
                 )}
               </CardContent>
             </Card>
+
+            {/* Status History (owner only) */}
+            {statusHistory.length > 0 && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>Status History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ol className="space-y-3">
+                    {statusHistory.map((entry) => (
+                      <li key={entry.id} className="text-sm">
+                        <p className="font-medium text-gray-900">
+                          {requestTransitionLabels[entry.transition]}
+                          <span className="ml-1 font-normal text-gray-500">
+                            ({requestStatusLabels[entry.fromStatus]} →{' '}
+                            {requestStatusLabels[entry.toStatus]})
+                          </span>
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(entry.createdAt)} ·{' '}
+                          {entry.actor ? entry.actor.name ?? 'Owner' : 'System'}
+                        </p>
+                        {entry.reason && (
+                          <p className="mt-1 text-gray-700">{entry.reason}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </div>
       </div>
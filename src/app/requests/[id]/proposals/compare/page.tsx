@@ -9,13 +9,30 @@
 
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { ProposalWithDetails } from '@/types/matching';
+import { MatchReasonLocale, ProposalWithDetails } from '@/types/matching';
 import { MatchScoreDetails } from '@/components/matching/MatchScoreDetails';
+import { MatchReasons } from '@/components/matching/MatchReasons';
+import { RequirementCoverageMatrix } from '@/components/matching/RequirementCoverageMatrix';
+import { QuotePhaseComparison } from '@/components/matching/QuotePhaseComparison';
+import { ProposalScheduleTimeline } from '@/components/matching/ProposalScheduleTimeline';
+import { matchReasonLocaleLabels } from '@/lib/matching/explanations';
+import { RequirementItem } from '@/lib/validations/request';
+import { getQuotePrice } from '@/lib/matching/pricing';
+import { formatMoney, MoneyTerms } from '@/lib/utils/money';
+import { formatBudgetRange, formatDate, getEstimateTerms } from '@/lib/utils/request';
+import { getAverageDurationDays } from '@/lib/requests/schedule';
 
 interface ProposalsResponse {
   requestId: string;
+  requestVersion: number;
   totalProposals: number;
   proposals: ProposalWithDetails[];
+  requirementItems: RequirementItem[];
+  budgetMin: number | null;
+  budgetMax: number | null;
+  budgetTerms: Partial<MoneyTerms>;
+  preferredStart: string | null;
+  deadline: string | null;
 }
 
 export default function ProposalsComparePage({
@@ -26,6 +43,7 @@ export default function ProposalsComparePage({
   const [data, setData] = useState<ProposalsResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reasonLocale, setReasonLocale] = useState<MatchReasonLocale>('en');
 
   useEffect(() => {
     fetchProposals();
@@ -144,9 +162,9 @@ export default function ProposalsComparePage({
     );
   }
 
-  // Calculate comparison metrics
+  // Calculate comparison metrics (one-off JPY quotes without tax only)
   const costs = proposals
-    .map((p) => p.estimatedCost)
+    .map(getQuotePrice)
     .filter((c): c is number => c !== null);
   const avgCost = costs.length > 0 ? costs.reduce((a, b) => a + b, 0) / costs.length : 0;
   const minCost = costs.length > 0 ? Math.min(...costs) : 0;
@@ -155,6 +173,8 @@ export default function ProposalsComparePage({
     .map((p) => p.matchScore?.total)
     .filter((s): s is number => s !== undefined);
   const avgScore = scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+  const avgDuration = getAverageDurationDays(proposals);
+  const outdatedCount = proposals.filter((p) => p.isOutdated).length;
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -180,18 +200,53 @@ export default function ProposalsComparePage({
             </svg>
             Back to Proposals
           </Link>
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            Proposal Comparison
-          </h1>
-          <p className="text-gray-600">
-            Comparing {proposals.length} proposals side-by-side
-          </p>
+          <div className="flex items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                Proposal Comparison
+              </h1>
+              <p className="text-gray-600">
+                Comparing {proposals.length} proposals side-by-side
+              </p>
+            </div>
+            <div className="flex gap-1" role="group" aria-label="Explanation language">
+              {Object.entries(matchReasonLocaleLabels).map(([key, label]) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setReasonLocale(key as MatchReasonLocale)}
+                  className={`px-3 py-1 text-sm rounded-lg border transition-colors ${
+                    reasonLocale === key
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:border-gray-400'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
 
+        {/* Outdated Proposals */}
+        {outdatedCount > 0 && (
+          <div className="mb-6 rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+            {outdatedCount === 1
+              ? '1 proposal was'
+              : `${outdatedCount} proposals were`}{' '}
+            written against an earlier version of this request (current: v
+            {data?.requestVersion}). Their cost and scope may not reflect your{' '}
+            <Link href={`/requests/${params.id}`} className="font-medium underline">
+              amendments
+            </Link>
+            .
+          </div>
+        )}
+
         {/* Summary Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-8">
           <div className="bg-white rounded-lg border border-gray-200 p-4">
-            <p className="text-sm text-gray-600 mb-1">Average Cost</p>
+            <p className="text-sm text-gray-600 mb-1">Average Cost (excl. tax)</p>
             <p className="text-2xl font-bold text-gray-900">{formatCurrency(avgCost)}</p>
           </div>
           <div className="bg-white rounded-lg border border-gray-200 p-4">
@@ -199,6 +254,22 @@ export default function ProposalsComparePage({
             <p className="text-2xl font-bold text-gray-900">
               {formatCurrency(minCost)} - {formatCurrency(maxCost)}
             </p>
+            {data && (
+              <p className="mt-1 text-xs text-gray-500">
+                Budget: {formatBudgetRange(data.budgetMin, data.budgetMax, data.budgetTerms)}
+              </p>
+            )}
+          </div>
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <p className="text-sm text-gray-600 mb-1">Average Duration</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {avgDuration !== null ? `${Math.round(avgDuration)} days` : 'N/A'}
+            </p>
+            {data?.deadline && (
+              <p className="mt-1 text-xs text-gray-500">
+                Deadline: {formatDate(data.deadline)}
+              </p>
+            )}
           </div>
           <div className="bg-white rounded-lg border border-gray-200 p-4">
             <p className="text-sm text-gray-600 mb-1">Average Match</p>
@@ -267,6 +338,14 @@ export default function ProposalsComparePage({
                           {proposal.company.isVerified && (
                             <span className="ml-1 text-blue-600 text-xs">✓</span>
                           )}
+                          {proposal.isOutdated && (
+                            <span
+                              className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800"
+                              title={`Written against v${proposal.requestVersion}`}
+                            >
+                              Outdated (v{proposal.requestVersion})
+                            </span>
+                          )}
                         </div>
                       </div>
                     </td>
@@ -278,7 +357,14 @@ export default function ProposalsComparePage({
                       )}
                     </td>
                     <td className="px-6 py-4 font-semibold text-gray-900">
-                      {formatCurrency(proposal.estimatedCost)}
+                      {proposal.estimatedCost
+                        ? formatMoney(proposal.estimatedCost, getEstimateTerms(proposal))
+                        : 'N/A'}
+                      {proposal.quote && (
+                        <span className="block text-xs font-normal text-gray-500">
+                          {proposal.quote.lineItems.length} line items
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-gray-700">
                       {proposal.estimatedDuration || 'N/A'}
@@ -322,6 +408,39 @@ export default function ProposalsComparePage({
           </div>
         </div>
 
+        {/* Cost by Phase */}
+        {proposals.some((p) => p.quote) && (
+          <div className="mt-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Cost by Phase
+            </h2>
+            <QuotePhaseComparison proposals={proposals} />
+          </div>
+        )}
+
+        {/* Schedule */}
+        {data && proposals.some((p) => p.schedule && p.schedule.length > 0) && (
+          <div className="mt-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Schedule
+            </h2>
+            <ProposalScheduleTimeline
+              proposals={proposals}
+              dates={{ preferredStart: data.preferredStart, deadline: data.deadline }}
+            />
+          </div>
+        )}
+
+        {/* Requirement Coverage */}
+        {data && data.requirementItems.length > 0 && (
+          <div className="mt-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Requirement Coverage
+            </h2>
+            <RequirementCoverageMatrix items={data.requirementItems} proposals={proposals} />
+          </div>
+        )}
+
         {/* Detailed Comparison Cards */}
         <div className="mt-8">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">
@@ -343,10 +462,18 @@ export default function ProposalsComparePage({
                 </div>
 
                 {proposal.matchScore && (
-                  <MatchScoreDetails
-                    matchScore={proposal.matchScore}
-                    className="mb-4"
-                  />
+                  <>
+                    <MatchReasons
+                      matchScore={proposal.matchScore}
+                      company={proposal.company}
+                      locale={reasonLocale}
+                      className="mb-4"
+                    />
+                    <MatchScoreDetails
+                      matchScore={proposal.matchScore}
+                      className="mb-4"
+                    />
+                  </>
                 )}
 
                 <div className="pt-4 border-t border-gray-200">
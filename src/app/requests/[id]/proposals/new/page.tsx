@@ -2,6 +2,8 @@
  * New Proposal Submission Page
  *
  * Form for companies to submit proposals to a request
+ * With `?revise=<proposal id>` the form starts from the submitted proposal
+ * and the submission becomes its next revision.
  * Only accessible by verified company members
  */
 
@@ -10,6 +12,26 @@
 import { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
+import { Currency, DurationUnit, MoneyUnit } from '@prisma/client';
+import {
+  Milestone,
+  QuoteLineItem,
+  RequirementItem,
+  RequirementResponse,
+} from '@/lib/validations/request';
+import {
+  getAnswerableItems,
+  getRequirementItems,
+  requirementPriorityLabels,
+  requirementSupportLabels,
+} from '@/lib/requests/coverage';
+import { calculateQuoteTotals, newQuoteLineItem } from '@/lib/requests/quotes';
+import { durationUnitLabels, ScheduleWindow, validateSchedule } from '@/lib/requests/schedule';
+import { CONSUMPTION_TAX_RATE, currencyLabels, moneyUnitLabels } from '@/lib/utils/money';
+import { FileUpload } from '@/components/request/FileUpload';
+import { QuoteLineItemsEditor } from '@/components/matching/QuoteLineItemsEditor';
+import { ScheduleMilestonesEditor } from '@/components/matching/ScheduleMilestonesEditor';
+import { ProposalWithDetails } from '@/types/matching';
 
 export default function NewProposalPage({
   params,
@@ -18,30 +40,144 @@ export default function NewProposalPage({
 }) {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const reviseId = searchParams.get('revise');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     estimatedCost: '',
-    estimatedDuration: '',
+    estimatedCurrency: 'JPY' as Currency,
+    estimatedTaxIncluded: false,
+    estimatedUnit: 'ONE_OFF' as MoneyUnit,
+    durationValue: '',
+    durationUnit: 'MONTHS' as DurationUnit,
     proposal: '',
     attachments: [] as string[],
   });
+  const [uploadedFiles, setUploadedFiles] = useState<string[]>([]);
+  const [requirementItems, setRequirementItems] = useState<RequirementItem[]>([]);
+  const [responses, setResponses] = useState<Record<string, RequirementResponse>>({});
+  const [pricing, setPricing] = useState<'SINGLE' | 'LINE_ITEMS'>('SINGLE');
+  const [lineItems, setLineItems] = useState<QuoteLineItem[]>(() => [newQuoteLineItem()]);
+  const [taxRate, setTaxRate] = useState(CONSUMPTION_TAX_RATE);
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [scheduleWindow, setScheduleWindow] = useState<ScheduleWindow>({});
+  const [revisionNote, setRevisionNote] = useState('');
+
+  // Load the request's requirement items to answer and quote in the budget's terms
+  useEffect(() => {
+    fetch(`/api/requests/${params.id}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setRequirementItems(getAnswerableItems(getRequirementItems(data.requirements)));
+        setScheduleWindow({ preferredStart: data.preferredStart, deadline: data.deadline });
+        // A revision keeps the terms of the submitted proposal
+        if (reviseId) return;
+        setFormData((prev) => ({
+          ...prev,
+          estimatedCurrency: data.budgetCurrency ?? prev.estimatedCurrency,
+          estimatedTaxIncluded: data.budgetTaxIncluded ?? prev.estimatedTaxIncluded,
+          estimatedUnit: data.budgetUnit ?? prev.estimatedUnit,
+        }));
+      })
+      .catch((err) => console.error('Error loading requirement items:', err));
+  }, [params.id, reviseId]);
+
+  // Start a revision from the submitted proposal
+  useEffect(() => {
+    if (!reviseId) return;
+    fetch(`/api/proposals/${reviseId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: ProposalWithDetails | null) => {
+        if (!data) return;
+        setFormData((prev) => ({
+          ...prev,
+          estimatedCost: data.estimatedCost?.toString() ?? '',
+          estimatedCurrency: data.estimatedCurrency,
+          estimatedTaxIncluded: data.estimatedTaxIncluded,
+          estimatedUnit: data.estimatedUnit,
+          durationValue: data.durationValue?.toString() ?? '',
+          durationUnit: data.durationUnit ?? prev.durationUnit,
+          proposal: data.proposal ?? '',
+        }));
+        setUploadedFiles(data.attachments);
+        setMilestones(data.schedule ?? []);
+        setResponses(
+          Object.fromEntries(
+            (data.requirementResponses ?? []).map((response) => [response.itemId, response])
+          )
+        );
+        if (data.quote) {
+          setPricing('LINE_ITEMS');
+          setLineItems(data.quote.lineItems);
+          setTaxRate(data.quote.taxRate);
+        }
+      })
+      .catch((err) => console.error('Error loading proposal to revise:', err));
+  }, [reviseId]);
+
+  const updateResponse = (itemId: string, changes: Partial<RequirementResponse>) => {
+    setResponses((prev) => ({
+      ...prev,
+      [itemId]: { ...(prev[itemId] ?? { itemId, support: 'SUPPORTED' }), ...changes },
+    }));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
     // Validation
-    if (!formData.estimatedCost || !formData.estimatedDuration || !formData.proposal) {
+    if (
+      (pricing === 'SINGLE' && !formData.estimatedCost) ||
+      !formData.durationValue ||
+      !formData.proposal
+    ) {
       setError('Please fill in all required fields');
       return;
     }
 
+    if (pricing === 'LINE_ITEMS') {
+      if (lineItems.some((item) => !item.phase.trim())) {
+        setError('Every line item needs a phase');
+        return;
+      }
+      if (calculateQuoteTotals(lineItems, taxRate).subtotal <= 0) {
+        setError('The quote needs at least one required line with an amount');
+        return;
+      }
+    }
+
     if (formData.proposal.length < 50) {
       setError('Proposal must be at least 50 characters');
       return;
     }
 
+    if (milestones.length > 0) {
+      if (milestones.some((m) => !m.title.trim() || !m.startDate || !m.endDate)) {
+        setError('Every milestone needs a title, a start and an end date');
+        return;
+      }
+      const paymentTotal = milestones.reduce((sum, m) => sum + m.paymentPercent, 0);
+      if (Math.abs(paymentTotal - 100) >= 0.01) {
+        setError('Milestone payments must add up to 100%');
+        return;
+      }
+      const scheduleValidation = validateSchedule(milestones, scheduleWindow);
+      if (!scheduleValidation.valid) {
+        setError(scheduleValidation.error ?? 'Invalid schedule');
+        return;
+      }
+    }
+
+    const unanswered = requirementItems.filter((item) => !responses[item.id]);
+    if (unanswered.length > 0) {
+      setError(
+        `Please answer every requirement (missing: ${unanswered.map((item) => item.title).join(', ')})`
+      );
+      return;
+    }
+
     try {
       setIsLoading(true);
 
@@ -51,10 +187,18 @@ export default function NewProposalPage({
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          estimatedCost: parseInt(formData.estimatedCost),
-          estimatedDuration: formData.estimatedDuration,
+          estimatedCost: pricing === 'SINGLE' ? parseInt(formData.estimatedCost) : undefined,
+          estimatedCurrency: formData.estimatedCurrency,
+          estimatedTaxIncluded: formData.estimatedTaxIncluded,
+          estimatedUnit: formData.estimatedUnit,
+          durationValue: parseInt(formData.durationValue),
+          durationUnit: formData.durationUnit,
+          schedule: milestones.length > 0 ? milestones : undefined,
           proposal: formData.proposal,
-          attachments: formData.attachments.filter((a) => a.trim() !== ''),
+          attachments: [...uploadedFiles, ...formData.attachments.filter((a) => a.trim() !== '')],
+          requirementResponses: requirementItems.map((item) => responses[item.id]),
+          quote: pricing === 'LINE_ITEMS' ? { lineItems, taxRate } : undefined,
+          revisionNote: reviseId && revisionNote.trim() ? revisionNote.trim() : undefined,
         }),
       });
 
@@ -63,8 +207,8 @@ export default function NewProposalPage({
         throw new Error(errorData.error || 'Failed to submit proposal');
       }
 
-      // Success - redirect to request page
-      router.push(`/requests/${params.id}`);
+      // Success - redirect to the revised proposal or the request page
+      router.push(reviseId ? `/proposals/${reviseId}` : `/requests/${params.id}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to submit proposal');
     } finally {
@@ -73,7 +217,7 @@ export default function NewProposalPage({
   };
 
   const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
@@ -125,10 +269,12 @@ export default function NewProposalPage({
             Back to Request
           </Link>
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            Submit Proposal
+            {reviseId ? 'Revise Proposal' : 'Submit Proposal'}
           </h1>
           <p className="text-gray-600">
-            Provide your quote and proposal details for this project
+            {reviseId
+              ? 'Your changes are submitted as a new revision; earlier revisions stay visible to the buyer'
+              : 'Provide your quote and proposal details for this project'}
           </p>
         </div>
 
@@ -156,52 +302,161 @@ export default function NewProposalPage({
 
           {/* Estimated Cost */}
           <div className="mb-6">
-            <label
-              htmlFor="estimatedCost"
-              className="block text-sm font-medium text-gray-700 mb-2"
-            >
-              Estimated Cost (JPY) <span className="text-red-500">*</span>
-            </label>
-            <input
-              type="number"
-              id="estimatedCost"
-              name="estimatedCost"
-              value={formData.estimatedCost}
-              onChange={handleChange}
-              required
-              min="0"
-              step="1000"
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="e.g., 5000000"
-            />
+            <div className="flex items-center justify-between mb-2">
+              <label
+                htmlFor="estimatedCost"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Estimated Cost <span className="text-red-500">*</span>
+              </label>
+              <div className="flex gap-1" role="group" aria-label="Pricing">
+                {(
+                  [
+                    ['SINGLE', 'Single amount'],
+                    ['LINE_ITEMS', 'Line items'],
+                  ] as const
+                ).map(([key, label]) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setPricing(key)}
+                    className={`px-3 py-1 text-sm rounded-lg border transition-colors ${
+                      pricing === key
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:border-gray-400'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {pricing === 'SINGLE' ? (
+              <input
+                type="number"
+                id="estimatedCost"
+                name="estimatedCost"
+                value={formData.estimatedCost}
+                onChange={handleChange}
+                required
+                min="0"
+                step="1000"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g., 5000000"
+              />
+            ) : (
+              <QuoteLineItemsEditor
+                value={lineItems}
+                onChange={setLineItems}
+                taxRate={taxRate}
+                onTaxRateChange={setTaxRate}
+                currency={formData.estimatedCurrency}
+              />
+            )}
+            <div className="mt-3 grid grid-cols-3 gap-4">
+              <select
+                id="estimatedCurrency"
+                name="estimatedCurrency"
+                value={formData.estimatedCurrency}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {Object.entries(currencyLabels).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <select
+                id="estimatedUnit"
+                name="estimatedUnit"
+                value={formData.estimatedUnit}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {Object.entries(moneyUnitLabels).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {pricing === 'SINGLE' && (
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.estimatedTaxIncluded}
+                    onChange={(e) =>
+                      setFormData((prev) => ({ ...prev, estimatedTaxIncluded: e.target.checked }))
+                    }
+                    className="mr-2 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  Tax included
+                </label>
+              )}
+            </div>
             <p className="mt-1 text-sm text-gray-500">
-              Total project cost in Japanese Yen
+              Defaults to the terms of the buyer&apos;s budget
+              {pricing === 'LINE_ITEMS' &&
+                '. Line items are entered without tax; the buyer sees costs by phase.'}
             </p>
           </div>
 
           {/* Estimated Duration */}
           <div className="mb-6">
             <label
-              htmlFor="estimatedDuration"
+              htmlFor="durationValue"
               className="block text-sm font-medium text-gray-700 mb-2"
             >
               Estimated Duration <span className="text-red-500">*</span>
             </label>
-            <input
-              type="text"
-              id="estimatedDuration"
-              name="estimatedDuration"
-              value={formData.estimatedDuration}
-              onChange={handleChange}
-              required
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="e.g., 3 months, 12 weeks"
-            />
+            <div className="grid grid-cols-2 gap-4">
+              <input
+                type="number"
+                id="durationValue"
+                name="durationValue"
+                value={formData.durationValue}
+                onChange={handleChange}
+                required
+                min="1"
+                step="1"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g., 3"
+              />
+              <select
+                id="durationUnit"
+                name="durationUnit"
+                value={formData.durationUnit}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {Object.entries(durationUnitLabels).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
             <p className="mt-1 text-sm text-gray-500">
               Expected project completion time
             </p>
           </div>
 
+          {/* Schedule */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Schedule (Optional)
+            </label>
+            <p className="mb-3 text-sm text-gray-500">
+              Milestones with the share of the price paid on completion. The schedule has to
+              fit between the buyer&apos;s preferred start and deadline.
+            </p>
+            <ScheduleMilestonesEditor
+              value={milestones}
+              onChange={setMilestones}
+              dates={scheduleWindow}
+            />
+          </div>
+
           {/* Proposal */}
           <div className="mb-6">
             <label
@@ -226,11 +481,84 @@ export default function NewProposalPage({
             </p>
           </div>
 
+          {/* Requirement Responses */}
+          {requirementItems.length > 0 && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Requirements <span className="text-red-500">*</span>
+              </label>
+              <p className="mb-3 text-sm text-gray-500">
+                Answer each requirement. Cost impact is the amount included in your estimate for it.
+              </p>
+              <div className="space-y-4">
+                {requirementItems.map((item) => (
+                  <div key={item.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-xs font-medium text-gray-500">
+                        {requirementPriorityLabels[item.priority]}
+                      </span>
+                      <span className="font-medium text-gray-900">{item.title}</span>
+                    </div>
+                    {item.description && (
+                      <p className="text-sm text-gray-600 whitespace-pre-wrap">{item.description}</p>
+                    )}
+                    {item.acceptanceNotes && (
+                      <p className="text-sm text-gray-500">Acceptance: {item.acceptanceNotes}</p>
+                    )}
+                    <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                      <select
+                        value={responses[item.id]?.support ?? ''}
+                        onChange={(e) =>
+                          updateResponse(item.id, {
+                            support: e.target.value as RequirementResponse['support'],
+                          })
+                        }
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="" disabled>
+                          Select support...
+                        </option>
+                        {Object.entries(requirementSupportLabels).map(([support, label]) => (
+                          <option key={support} value={support}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        step="1000"
+                        value={responses[item.id]?.costImpact ?? ''}
+                        onChange={(e) =>
+                          updateResponse(item.id, {
+                            costImpact: e.target.value ? parseInt(e.target.value) : null,
+                          })
+                        }
+                        className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="Cost impact (JPY, optional)"
+                      />
+                    </div>
+                    <input
+                      type="text"
+                      value={responses[item.id]?.note ?? ''}
+                      onChange={(e) => updateResponse(item.id, { note: e.target.value || undefined })}
+                      className="mt-3 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Note (optional), e.g. what a partial answer leaves out"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Attachments */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Attachments (Optional)
             </label>
+            <FileUpload value={uploadedFiles} onChange={setUploadedFiles} purpose="proposal" />
+            <p className="mt-1 mb-4 text-sm text-gray-500">
+              Uploaded files are only visible to the buyer and your company
+            </p>
             <div className="space-y-2">
               {formData.attachments.map((attachment, index) => (
                 <div key={index} className="flex gap-2">
@@ -263,6 +591,27 @@ export default function NewProposalPage({
             </p>
           </div>
 
+          {/* Revision Note */}
+          {reviseId && (
+            <div className="mb-6">
+              <label
+                htmlFor="revisionNote"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                What Changed (Optional)
+              </label>
+              <textarea
+                id="revisionNote"
+                value={revisionNote}
+                onChange={(e) => setRevisionNote(e.target.value)}
+                rows={3}
+                maxLength={2000}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g. Reduced the testing phase and moved the launch two weeks earlier"
+              />
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="flex gap-4 pt-6 border-t border-gray-200">
             <button
@@ -270,7 +619,7 @@ export default function NewProposalPage({
               disabled={isLoading}
               className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-medium py-3 px-6 rounded-lg transition-colors"
             >
-              {isLoading ? 'Submitting...' : 'Submit Proposal'}
+              {isLoading ? 'Submitting...' : reviseId ? 'Submit Revision' : 'Submit Proposal'}
             </button>
             <Link
               href={`/requests/${params.id}`}
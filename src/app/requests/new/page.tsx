@@ -10,7 +10,14 @@ import { useRouter } from 'next/navigation';
 import { useSession, signIn } from 'next-auth/react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { ProjectType } from '@prisma/client';
+import {
+  BuyerIndustry,
+  BuyerSize,
+  Currency,
+  MoneyUnit,
+  ProjectType,
+  RequestVisibility,
+} from '@prisma/client';
 import {
   requestCreateSchema,
   type RequestCreateInput,
@@ -18,7 +25,23 @@ import {
 import {
   projectTypeLabels,
   projectTypeDescriptions,
+  REQUIREMENTS_VERSION,
+  DEFAULT_QUOTE_WINDOW_DAYS,
+  formatBudgetRange,
+  getBudgetTerms,
 } from '@/lib/utils/request';
+import { currencyLabels, moneyUnitLabels } from '@/lib/utils/money';
+import { toRequestTemplateValues } from '@/lib/requests/templates';
+import { getRequirementItems, requirementPriorityLabels } from '@/lib/requests/coverage';
+import {
+  requestVisibilityDescriptions,
+  requestVisibilityLabels,
+} from '@/lib/requests/visibility';
+import {
+  buyerIndustryLabels,
+  buyerSizeLabels,
+  describeBuyer,
+} from '@/lib/requests/buyer';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -32,9 +55,31 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { FileUpload } from '@/components/request/FileUpload';
+import { RequirementItemsEditor } from '@/components/request/RequirementItemsEditor';
+import { TechStackSelector } from '@/components/company/TechStackSelector';
+import { SpecialtySelector } from '@/components/company/SpecialtySelector';
 import { AlertCircle } from 'lucide-react';
 
 type FormData = RequestCreateInput;
+type RequirementsData = NonNullable<FormData['requirements']>;
+
+interface RequestTemplateOption {
+  id: string;
+  name: string;
+  isShared: boolean;
+  projectType: ProjectType;
+  descriptionScaffold: string;
+  features: string[];
+  integrations: string[];
+  budgetMin: number | null;
+  budgetMax: number | null;
+}
+
+const EMPTY_REQUIREMENTS: RequirementsData = {
+  version: REQUIREMENTS_VERSION,
+  techStackIds: [],
+  specialtyIds: [],
+};
 
 const STEPS = [
   { id: 1, title: 'プロジェクト情報', description: '基本的なプロジェクト詳細' },
@@ -51,6 +96,8 @@ export default function NewRequestPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [draftId, setDraftId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<RequestTemplateOption[]>([]);
+  const [templateMessage, setTemplateMessage] = useState<string | null>(null);
 
   const {
     register,
@@ -61,10 +108,90 @@ export default function NewRequestPage() {
   } = useForm<FormData>({
     resolver: zodResolver(requestCreateSchema),
     mode: 'onChange',
+    defaultValues: {
+      visibility: 'PUBLIC',
+      budgetCurrency: 'JPY',
+      budgetTaxIncluded: false,
+      budgetUnit: 'ONE_OFF',
+      requirements: EMPTY_REQUIREMENTS,
+      attachments: [],
+    },
   });
 
   const formData = watch();
 
+  const updateRequirements = (changes: Partial<RequirementsData>) => {
+    setValue('requirements', {
+      ...EMPTY_REQUIREMENTS,
+      ...formData.requirements,
+      ...changes,
+    });
+  };
+
+  // Load templates for the selected project type
+  useEffect(() => {
+    if (!formData.projectType || !session) {
+      setTemplates([]);
+      return;
+    }
+
+    fetch(`/api/request-templates?projectType=${formData.projectType}`)
+      .then((response) => (response.ok ? response.json() : { templates: [] }))
+      .then((data) => setTemplates(data.templates))
+      .catch((error) => console.error('Error loading templates:', error));
+  }, [formData.projectType, session]);
+
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template) return;
+
+    if (
+      formData.description &&
+      !window.confirm('入力済みの概要をテンプレートで置き換えますか?')
+    ) {
+      return;
+    }
+
+    const values = toRequestTemplateValues(template);
+    setValue('description', values.description, { shouldValidate: true });
+    setValue('budgetMin', values.budgetMin);
+    setValue('budgetMax', values.budgetMax);
+    updateRequirements(values.requirements);
+  };
+
+  const saveAsTemplate = async () => {
+    const name = window.prompt('テンプレート名を入力してください', formData.title);
+    if (!name) return;
+
+    try {
+      const response = await fetch('/api/request-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          projectType: formData.projectType,
+          descriptionScaffold: formData.description ?? '',
+          features: (formData.requirements?.items ?? [])
+            .map((item) => item.title.trim())
+            .filter(Boolean),
+          integrations: formData.requirements?.integrations ?? [],
+          budgetMin: formData.budgetMin || null,
+          budgetMax: formData.budgetMax || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save template');
+      }
+
+      setTemplateMessage(`テンプレート「${name}」を保存しました`);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      setError(error instanceof Error ? error.message : 'テンプレートの保存に失敗しました');
+    }
+  };
+
   // Auto-save draft every 30 seconds
   useEffect(() => {
     const interval = setInterval(() => {
@@ -350,6 +477,32 @@ export default function NewRequestPage() {
                     )}
                   </div>
 
+                  {templates.length > 0 && (
+                    <div>
+                      <Label htmlFor="template">テンプレート (任意)</Label>
+                      <Select onValueChange={applyTemplate}>
+                        <SelectTrigger id="template">
+                          <SelectValue placeholder="テンプレートから入力" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {templates.map((template) => (
+                            <SelectItem key={template.id} value={template.id}>
+                              {template.name}
+                              {!template.isShared && (
+                                <span className="ml-2 text-xs text-gray-500">
+                                  マイテンプレート
+                                </span>
+                              )}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="mt-1 text-xs text-gray-500">
+                        概要・主要機能・連携システム・予算の目安が入力されます
+                      </p>
+                    </div>
+                  )}
+
                   <div>
                     <Label htmlFor="description">プロジェクト概要 *</Label>
                     <Textarea
@@ -367,6 +520,83 @@ export default function NewRequestPage() {
                       {formData.description?.length || 0} / 2000 文字
                     </p>
                   </div>
+
+                  <div>
+                    <Label htmlFor="visibility">公開範囲</Label>
+                    <Select
+                      value={formData.visibility}
+                      onValueChange={(value) =>
+                        setValue('visibility', value as RequestVisibility)
+                      }
+                    >
+                      <SelectTrigger id="visibility">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(requestVisibilityLabels).map(([key, label]) => (
+                          <SelectItem key={key} value={key}>
+                            <div>
+                              <div className="font-medium">{label}</div>
+                              <div className="text-xs text-gray-500">
+                                {requestVisibilityDescriptions[key as RequestVisibility]}
+                              </div>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="mt-1 text-xs text-gray-500">
+                      公開後は変更できません
+                    </p>
+                  </div>
+
+                  {formData.visibility === 'ANONYMOUS_BUYER' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="buyerIndustry">業種</Label>
+                        <Select
+                          value={formData.buyerIndustry ?? undefined}
+                          onValueChange={(value) =>
+                            setValue('buyerIndustry', value as BuyerIndustry)
+                          }
+                        >
+                          <SelectTrigger id="buyerIndustry">
+                            <SelectValue placeholder="業種を選択" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(buyerIndustryLabels).map(([key, label]) => (
+                              <SelectItem key={key} value={key}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="buyerSize">企業規模</Label>
+                        <Select
+                          value={formData.buyerSize ?? undefined}
+                          onValueChange={(value) =>
+                            setValue('buyerSize', value as BuyerSize)
+                          }
+                        >
+                          <SelectTrigger id="buyerSize">
+                            <SelectValue placeholder="企業規模を選択" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(buyerSizeLabels).map(([key, label]) => (
+                              <SelectItem key={key} value={key}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <p className="col-span-2 text-xs text-gray-500">
+                        企業には自動生成された名前と業種・規模だけが表示されます。氏名と連絡先は採用した企業にのみ開示されます
+                      </p>
+                    </div>
+                  )}
                 </>
               )}
 
@@ -375,7 +605,7 @@ export default function NewRequestPage() {
                 <>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <Label htmlFor="budgetMin">最低予算 (¥)</Label>
+                      <Label htmlFor="budgetMin">最低予算</Label>
                       <Input
                         id="budgetMin"
                         type="number"
@@ -389,7 +619,7 @@ export default function NewRequestPage() {
                       )}
                     </div>
                     <div>
-                      <Label htmlFor="budgetMax">最高予算 (¥)</Label>
+                      <Label htmlFor="budgetMax">最高予算</Label>
                       <Input
                         id="budgetMax"
                         type="number"
@@ -404,6 +634,63 @@ export default function NewRequestPage() {
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="budgetCurrency">通貨</Label>
+                      <Select
+                        value={formData.budgetCurrency}
+                        onValueChange={(value) =>
+                          setValue('budgetCurrency', value as Currency)
+                        }
+                      >
+                        <SelectTrigger id="budgetCurrency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(currencyLabels).map(([key, label]) => (
+                            <SelectItem key={key} value={key}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="budgetUnit">単位</Label>
+                      <Select
+                        value={formData.budgetUnit}
+                        onValueChange={(value) =>
+                          setValue('budgetUnit', value as MoneyUnit)
+                        }
+                      >
+                        <SelectTrigger id="budgetUnit">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(moneyUnitLabels).map(([key, label]) => (
+                            <SelectItem key={key} value={key}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-end pb-2">
+                      <input
+                        type="checkbox"
+                        id="budgetTaxIncluded"
+                        {...register('budgetTaxIncluded')}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <label
+                        htmlFor="budgetTaxIncluded"
+                        className="ml-2 text-sm text-gray-700"
+                      >
+                        税込
+                      </label>
+                    </div>
+                  </div>
+
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <Label htmlFor="preferredStart">希望開始日</Label>
@@ -428,6 +715,23 @@ export default function NewRequestPage() {
                       )}
                     </div>
                   </div>
+
+                  <div>
+                    <Label htmlFor="quoteDeadline">見積締切</Label>
+                    <Input
+                      id="quoteDeadline"
+                      type="date"
+                      {...register('quoteDeadline')}
+                    />
+                    <p className="mt-1 text-sm text-gray-500">
+                      未指定の場合は公開から{DEFAULT_QUOTE_WINDOW_DAYS}日後（納期が先ならその日）に締め切られます
+                    </p>
+                    {errors.quoteDeadline && (
+                      <p className="mt-1 text-sm text-red-600">
+                        {errors.quoteDeadline.message}
+                      </p>
+                    )}
+                  </div>
                 </>
               )}
 
@@ -435,39 +739,60 @@ export default function NewRequestPage() {
               {currentStep === 3 && (
                 <>
                   <div>
-                    <Label htmlFor="features">主要機能</Label>
-                    <Textarea
-                      id="features"
-                      rows={4}
-                      placeholder="必要な主要機能をリストアップしてください..."
+                    <Label>要件項目</Label>
+                    <p className="mb-2 text-sm text-gray-500">
+                      優先度 (MoSCoW) ごとに要件を登録してください。各社は提案で要件ごとの対応可否を回答します
+                    </p>
+                    <RequirementItemsEditor
+                      value={formData.requirements?.items ?? []}
+                      onChange={(items) => updateRequirements({ items })}
+                    />
+                  </div>
+
+                  <TechStackSelector
+                    label="希望技術スタック (任意)"
+                    description="選択した技術に対応できる企業が優先的にマッチングされます"
+                    value={formData.requirements?.techStackIds ?? []}
+                    onChange={(techStackIds) => updateRequirements({ techStackIds })}
+                    required={false}
+                  />
+
+                  <div>
+                    <Label htmlFor="otherTechnologies">
+                      その他の技術 (任意)
+                    </Label>
+                    <Input
+                      id="otherTechnologies"
+                      placeholder="一覧にない技術をカンマ区切りで入力"
                       onChange={(e) => {
-                        const features = e.target.value
-                          .split('\n')
-                          .filter((f) => f.trim());
-                        setValue('requirements', {
-                          ...formData.requirements,
-                          features,
-                        });
+                        const otherTechnologies = e.target.value
+                          .split(',')
+                          .map((t) => t.trim())
+                          .filter(Boolean);
+                        updateRequirements({ otherTechnologies });
                       }}
                     />
                   </div>
 
+                  <SpecialtySelector
+                    label="必要な専門分野 (任意)"
+                    value={formData.requirements?.specialtyIds ?? []}
+                    onChange={(specialtyIds) => updateRequirements({ specialtyIds })}
+                    required={false}
+                  />
+
                   <div>
-                    <Label htmlFor="technologies">
-                      希望技術スタック (任意)
-                    </Label>
+                    <Label htmlFor="integrations">連携システム (任意)</Label>
                     <Input
-                      id="technologies"
-                      placeholder="例: React, Node.js, PostgreSQL"
+                      id="integrations"
+                      placeholder="連携が必要なシステムをカンマ区切りで入力"
+                      defaultValue={(formData.requirements?.integrations ?? []).join(', ')}
                       onChange={(e) => {
-                        const technologies = e.target.value
+                        const integrations = e.target.value
                           .split(',')
                           .map((t) => t.trim())
                           .filter(Boolean);
-                        setValue('requirements', {
-                          ...formData.requirements,
-                          technologies,
-                        });
+                        updateRequirements({ integrations });
                       }}
                     />
                   </div>
@@ -478,10 +803,7 @@ export default function NewRequestPage() {
                       id="targetAudience"
                       placeholder="誰がこのシステムを使用しますか?"
                       onChange={(e) => {
-                        setValue('requirements', {
-                          ...formData.requirements,
-                          targetAudience: e.target.value,
-                        });
+                        updateRequirements({ targetAudience: e.target.value });
                       }}
                     />
                   </div>
@@ -493,10 +815,7 @@ export default function NewRequestPage() {
                       rows={4}
                       placeholder="その他の要件やメモ..."
                       onChange={(e) => {
-                        setValue('requirements', {
-                          ...formData.requirements,
-                          additionalNotes: e.target.value,
-                        });
+                        updateRequirements({ additionalNotes: e.target.value });
                       }}
                     />
                   </div>
@@ -536,6 +855,17 @@ export default function NewRequestPage() {
                             projectTypeLabels[formData.projectType]}
                         </dd>
                       </div>
+                      <div>
+                        <dt className="text-gray-600">公開範囲:</dt>
+                        <dd className="font-medium">
+                          {requestVisibilityLabels[formData.visibility ?? 'PUBLIC']}
+                          {formData.visibility === 'ANONYMOUS_BUYER' &&
+                            ` (${describeBuyer({
+                              buyerIndustry: formData.buyerIndustry ?? null,
+                              buyerSize: formData.buyerSize ?? null,
+                            })})`}
+                        </dd>
+                      </div>
                       <div>
                         <dt className="text-gray-600">概要:</dt>
                         <dd>{formData.description}</dd>
@@ -551,8 +881,12 @@ export default function NewRequestPage() {
                       <div>
                         <dt className="text-gray-600">予算:</dt>
                         <dd className="font-medium">
-                          {formData.budgetMin && formData.budgetMax
-                            ? `¥${formData.budgetMin.toLocaleString()} - ¥${formData.budgetMax.toLocaleString()}`
+                          {formData.budgetMin || formData.budgetMax
+                            ? formatBudgetRange(
+                                formData.budgetMin,
+                                formData.budgetMax,
+                                getBudgetTerms(formData)
+                              )
                             : '未指定'}
                         </dd>
                       </div>
@@ -564,9 +898,33 @@ export default function NewRequestPage() {
                             : '未指定'}
                         </dd>
                       </div>
+                      <div>
+                        <dt className="text-gray-600">見積締切:</dt>
+                        <dd className="font-medium">
+                          {formData.quoteDeadline
+                            ? `${formData.quoteDeadline}`
+                            : `公開から${DEFAULT_QUOTE_WINDOW_DAYS}日後`}
+                        </dd>
+                      </div>
                     </dl>
                   </div>
 
+                  {formData.requirements?.items && formData.requirements.items.length > 0 && (
+                    <div className="rounded-lg bg-gray-50 p-4">
+                      <h3 className="font-medium text-gray-900">要件項目</h3>
+                      <ul className="mt-2 space-y-1 text-sm">
+                        {getRequirementItems(formData.requirements).map((item) => (
+                          <li key={item.id}>
+                            <span className="text-gray-600">
+                              [{requirementPriorityLabels[item.priority]}]
+                            </span>{' '}
+                            {item.title}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {formData.attachments && formData.attachments.length > 0 && (
                     <div className="rounded-lg bg-gray-50 p-4">
                       <h3 className="font-medium text-gray-900">添付ファイル</h3>
@@ -575,6 +933,21 @@ export default function NewRequestPage() {
                       </p>
                     </div>
                   )}
+
+                  <div className="flex items-center justify-between rounded-lg border border-dashed p-4">
+                    <p className="text-sm text-gray-600">
+                      {templateMessage ?? '次回のために、この内容をテンプレートとして保存できます'}
+                    </p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={saveAsTemplate}
+                      disabled={!formData.projectType}
+                    >
+                      テンプレートとして保存
+                    </Button>
+                  </div>
                 </div>
               )}
 
@@ -8,15 +8,25 @@
 import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { ProjectType, RequestStatus } from '@prisma/client';
+import {
+  Currency,
+  MoneyUnit,
+  ProjectType,
+  RequestStatus,
+  RequestVisibility,
+} from '@prisma/client';
 import {
   projectTypeLabels,
   requestStatusLabels,
   requestStatusColors,
   formatBudgetRange,
+  getBudgetTerms,
   formatDate,
   daysUntilDeadline,
+  getDeadlineUrgency,
 } from '@/lib/utils/request';
+import { requestVisibilityLabels } from '@/lib/requests/visibility';
+import type { AnonymousBuyer } from '@/lib/requests/buyer';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -37,14 +47,22 @@ interface Request {
   status: RequestStatus;
   budgetMin?: number | null;
   budgetMax?: number | null;
+  budgetCurrency?: Currency;
+  budgetTaxIncluded?: boolean;
+  budgetUnit?: MoneyUnit;
   deadline?: string | null;
+  quoteDeadline?: string | null;
+  visibility: RequestVisibility;
   publishedAt?: string | null;
   createdAt: string;
+  // Hidden for anonymous-buyer requests of other users
   user: {
     id: string;
     name: string | null;
     image: string | null;
-  };
+  } | null;
+  // Alias shown instead of `user` for anonymous-buyer requests
+  buyer: AnonymousBuyer | null;
   _count: {
     requestCompanies: number;
   };
@@ -213,7 +231,9 @@ export default function RequestsPage() {
             <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
               {requests.map((request) => {
                 const days = daysUntilDeadline(request.deadline);
-                const isUrgent = days !== null && days < 7;
+                const quoteDays = daysUntilDeadline(request.quoteDeadline);
+                const urgency =
+                  request.status === 'PUBLISHED' ? getDeadlineUrgency(request) : null;
 
                 return (
                   <Link key={request.id} href={`/requests/${request.id}`}>
@@ -227,9 +247,17 @@ export default function RequestsPage() {
                           >
                             {requestStatusLabels[request.status]}
                           </Badge>
-                          {isUrgent && (
+                          {urgency === 'urgent' && (
                             <Badge variant="destructive">Urgent</Badge>
                           )}
+                          {urgency === 'closed' && (
+                            <Badge variant="secondary">Quotes closed</Badge>
+                          )}
+                          {request.visibility === 'INVITE_ONLY' && (
+                            <Badge variant="outline">
+                              {requestVisibilityLabels[request.visibility]}
+                            </Badge>
+                          )}
                         </div>
 
                         {/* Title */}
@@ -242,6 +270,12 @@ export default function RequestsPage() {
                           {projectTypeLabels[request.projectType]}
                         </p>
 
+                        {request.buyer && (
+                          <p className="mb-3 text-xs text-gray-500">
+                            {request.buyer.alias} · {request.buyer.descriptor}
+                          </p>
+                        )}
+
                         {/* Description */}
                         <p className="mb-4 text-sm text-gray-600 line-clamp-3">
                           {request.description}
@@ -265,7 +299,8 @@ export default function RequestsPage() {
                           <span className="text-gray-700">
                             {formatBudgetRange(
                               request.budgetMin,
-                              request.budgetMax
+                              request.budgetMax,
+                              getBudgetTerms(request)
                             )}
                           </span>
                         </div>
@@ -293,6 +328,14 @@ export default function RequestsPage() {
                           </div>
                         )}
 
+                        {/* Quote Deadline */}
+                        {request.quoteDeadline && (
+                          <div className="mb-3 text-sm text-gray-700">
+                            Quotes close: {formatDate(request.quoteDeadline)}
+                            {quoteDays !== null && quoteDays > 0 && ` (${quoteDays} days)`}
+                          </div>
+                        )}
+
                         {/* Footer */}
                         <div className="mt-4 flex items-center justify-between border-t pt-4 text-xs text-gray-500">
                           <span>
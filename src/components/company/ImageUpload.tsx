@@ -3,7 +3,7 @@
 import * as React from "react"
 import { Upload, X, Image as ImageIcon } from "lucide-react"
 import { cn } from "@/lib/utils/cn"
-import { validateImageFile, fileToBase64 } from "@/lib/utils/upload"
+import { validateImageFile, fileToBase64, uploadImage } from "@/lib/utils/upload"
 
 interface ImageUploadProps {
   value?: string
@@ -49,15 +49,14 @@ export function ImageUpload({
     try {
       setIsUploading(true)
 
-      // Convert to base64 for preview
+      // Show a local preview while uploading
       const base64 = await fileToBase64(file)
       setPreview(base64)
 
-      // TODO: Upload to cloud storage
-      // For now, just use the base64 as the URL
-      // In production, upload to a real storage service
-      onChange(base64)
+      const url = await uploadImage(file)
+      onChange(url)
     } catch (err) {
+      setPreview(value)
       setError(err instanceof Error ? err.message : "アップロードに失敗しました")
     } finally {
       setIsUploading(false)
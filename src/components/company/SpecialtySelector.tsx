@@ -17,6 +17,7 @@ interface SpecialtySelectorProps {
   label?: string
   description?: string
   maxSelections?: number
+  required?: boolean
   className?: string
 }
 
@@ -26,6 +27,7 @@ export function SpecialtySelector({
   label,
   description,
   maxSelections = 10,
+  required = true,
   className,
 }: SpecialtySelectorProps) {
   const [specialties, setSpecialties] = React.useState<Specialty[]>([])
@@ -171,7 +173,7 @@ export function SpecialtySelector({
       {/* Info text */}
       <p className="text-xs text-gray-500">
         {value.length} / {maxSelections} 選択済み
-        {value.length === 0 && " (最低1つ必須)"}
+        {required && value.length === 0 && " (最低1つ必須)"}
       </p>
     </div>
   )
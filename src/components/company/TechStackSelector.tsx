@@ -10,6 +10,7 @@ interface TechStack {
   slug: string
   category: string
   icon?: string | null
+  aliases?: string[]
 }
 
 interface TechStackSelectorProps {
@@ -18,6 +19,7 @@ interface TechStackSelectorProps {
   label?: string
   description?: string
   maxSelections?: number
+  required?: boolean
   className?: string
 }
 
@@ -27,6 +29,7 @@ export function TechStackSelector({
   label,
   description,
   maxSelections = 20,
+  required = true,
   className,
 }: TechStackSelectorProps) {
   const [techStacks, setTechStacks] = React.useState<TechStack[]>([])
@@ -68,7 +71,8 @@ export function TechStackSelector({
     return availableTechStacks.filter(
       (ts) =>
         ts.name.toLowerCase().includes(searchLower) ||
-        ts.category.toLowerCase().includes(searchLower)
+        ts.category.toLowerCase().includes(searchLower) ||
+        ts.aliases?.some((alias) => alias.toLowerCase().includes(searchLower))
     )
   }, [availableTechStacks, search])
 
@@ -189,7 +193,7 @@ export function TechStackSelector({
       {/* Info text */}
       <p className="text-xs text-gray-500">
         {value.length} / {maxSelections} 選択済み
-        {value.length === 0 && " (最低1つ必須)"}
+        {required && value.length === 0 && " (最低1つ必須)"}
       </p>
     </div>
   )
@@ -3,8 +3,17 @@
 import Link from "next/link"
 import { Building2, FileText, HelpCircle } from "lucide-react"
 import { useOnboarding } from "@/contexts/OnboardingContext"
+import { NotificationInbox } from "@/components/notifications/NotificationInbox"
+import { MessageThreads } from "./MessageThreads"
+import { RecommendedRequests } from "./RecommendedRequests"
+import { SavedSearches } from "./SavedSearches"
 
-export function Dashboard() {
+interface DashboardProps {
+  /** Companies the signed-in user belongs to */
+  companies?: { id: string; name: string }[]
+}
+
+export function Dashboard({ companies = [] }: DashboardProps) {
   const { startOnboarding, isCompleted } = useOnboarding()
 
   return (
@@ -60,6 +69,24 @@ export function Dashboard() {
           </Link>
         </div>
 
+        {/* Inbox and proposal conversations */}
+        <div className="mb-8 space-y-6">
+          <NotificationInbox />
+          <MessageThreads />
+        </div>
+
+        {/* Recommended requests and saved searches for company members */}
+        {companies.length > 0 && (
+          <div className="mb-8 space-y-6">
+            {companies.map((company) => (
+              <div key={company.id} className="space-y-6">
+                <RecommendedRequests companyId={company.id} companyName={company.name} />
+                <SavedSearches companyId={company.id} companyName={company.name} />
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Onboarding Trigger */}
         {isCompleted && (
           <div className="text-center">
@@ -0,0 +1,117 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { ProposalMessageSender } from "@prisma/client"
+import { formatDistanceToNow } from "date-fns"
+import { MessageSquare } from "lucide-react"
+
+interface MessageThread {
+  proposalId: string
+  sender: ProposalMessageSender
+  request: { id: string; title: string }
+  company: { id: string; name: string }
+  lastMessage: { sender: ProposalMessageSender; body: string; createdAt: string } | null
+  lastMessageAt: string
+  unreadCount: number
+}
+
+interface MessageThreadsProps {
+  limit?: number
+}
+
+/**
+ * Proposal conversations of the signed-in user, latest message first, with
+ * unread counts. Opening a thread marks it as read.
+ */
+export function MessageThreads({ limit = 5 }: MessageThreadsProps) {
+  const [threads, setThreads] = React.useState<MessageThread[]>([])
+  const [unreadCount, setUnreadCount] = React.useState(0)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | undefined>()
+
+  React.useEffect(() => {
+    const fetchThreads = async () => {
+      try {
+        const response = await fetch(`/api/messages?limit=${limit}`)
+        if (!response.ok) {
+          throw new Error("Failed to fetch messages")
+        }
+        const data = await response.json()
+        setThreads(data.threads)
+        setUnreadCount(data.unreadCount)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "メッセージの読み込みに失敗しました")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchThreads()
+  }, [limit])
+
+  // Nothing to show until a conversation has started
+  if (!isLoading && !error && threads.length === 0) return null
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-lg">
+      <div className="mb-4 flex items-center gap-3">
+        <div className="rounded-full bg-green-100 p-2">
+          <MessageSquare className="h-5 w-5 text-green-600" />
+        </div>
+        <h2 className="text-xl font-bold text-gray-900">メッセージ</h2>
+        {unreadCount > 0 && (
+          <span className="rounded-full bg-red-500 px-2 py-0.5 text-xs font-semibold text-white">
+            {unreadCount}
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex h-24 items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-green-600" />
+        </div>
+      ) : error ? (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-600">
+          {error}
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {threads.map((thread) => (
+            <li key={thread.proposalId}>
+              <Link
+                href={`/proposals/${thread.proposalId}#messages`}
+                className="flex items-start gap-3 py-3 hover:text-blue-600"
+              >
+                <div className="min-w-0 flex-1">
+                  <p
+                    className={`truncate text-sm ${
+                      thread.unreadCount > 0 ? "font-semibold text-gray-900" : "text-gray-700"
+                    }`}
+                  >
+                    {thread.sender === "BUYER" ? thread.company.name : "発注者"} ·{" "}
+                    {thread.request.title}
+                  </p>
+                  {thread.lastMessage && (
+                    <p className="truncate text-xs text-gray-500">
+                      {thread.lastMessage.sender === thread.sender && "あなた: "}
+                      {thread.lastMessage.body}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-400">
+                    {formatDistanceToNow(new Date(thread.lastMessageAt), { addSuffix: true })}
+                  </p>
+                </div>
+                {thread.unreadCount > 0 && (
+                  <span className="flex-shrink-0 rounded-full bg-blue-600 px-2 py-0.5 text-xs font-semibold text-white">
+                    {thread.unreadCount}
+                  </span>
+                )}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { Currency, MoneyUnit, ProjectType } from "@prisma/client"
+import { Sparkles } from "lucide-react"
+import { MatchScoreBadge } from "@/components/matching/MatchScoreBadge"
+import {
+  formatBudgetRange,
+  formatDate,
+  getBudgetTerms,
+  projectTypeLabels,
+} from "@/lib/utils/request"
+import { MatchScore } from "@/types/matching"
+
+interface Recommendation {
+  request: {
+    id: string
+    title: string
+    projectType: ProjectType
+    budgetMin: number | null
+    budgetMax: number | null
+    budgetCurrency: Currency
+    budgetTaxIncluded: boolean
+    budgetUnit: MoneyUnit
+    deadline: string | null
+    publishedAt: string | null
+  }
+  matchScore: MatchScore
+  invited: boolean
+}
+
+interface RecommendedRequestsProps {
+  companyId: string
+  companyName: string
+  maxResults?: number
+}
+
+/**
+ * "Recommended for you" feed: published requests ranked for a company
+ */
+export function RecommendedRequests({
+  companyId,
+  companyName,
+  maxResults = 5,
+}: RecommendedRequestsProps) {
+  const [recommendations, setRecommendations] = React.useState<Recommendation[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | undefined>()
+
+  React.useEffect(() => {
+    const fetchRecommendations = async () => {
+      try {
+        const response = await fetch(
+          `/api/companies/${companyId}/recommended-requests?maxResults=${maxResults}`
+        )
+        if (!response.ok) {
+          throw new Error("Failed to fetch recommended requests")
+        }
+        const data = await response.json()
+        setRecommendations(data.recommendations)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "おすすめ案件の読み込みに失敗しました")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchRecommendations()
+  }, [companyId, maxResults])
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-lg">
+      <div className="mb-4 flex items-center gap-3">
+        <div className="rounded-full bg-yellow-100 p-2">
+          <Sparkles className="h-5 w-5 text-yellow-600" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Recommended for you</h2>
+          <p className="text-sm text-gray-600">
+            {companyName}の技術スタック・専門分野に合う公開中の見積依頼
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex h-24 items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600" />
+        </div>
+      ) : error ? (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-600">
+          {error}
+        </div>
+      ) : recommendations.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500">
+          現在おすすめできる見積依頼はありません
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {recommendations.map(({ request, matchScore, invited }) => (
+            <li key={request.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <Link
+                  href={`/requests/${request.id}`}
+                  className="block truncate font-medium text-gray-900 hover:text-blue-600"
+                >
+                  {request.title}
+                </Link>
+                <p className="text-xs text-gray-500">
+                  {projectTypeLabels[request.projectType]} ·{" "}
+                  {formatBudgetRange(request.budgetMin, request.budgetMax, getBudgetTerms(request))}
+                  {request.deadline && ` · 納期 ${formatDate(request.deadline)}`}
+                </p>
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-2">
+                {invited && (
+                  <span className="rounded-full bg-blue-100 px-2 py-1 text-xs font-semibold text-blue-700">
+                    招待済み
+                  </span>
+                )}
+                <MatchScoreBadge score={matchScore.total} showLabel={false} size="sm" />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,302 @@
+"use client"
+
+import * as React from "react"
+import { ProjectType } from "@prisma/client"
+import { BellRing, Trash2 } from "lucide-react"
+import { TechStackSelector } from "@/components/company/TechStackSelector"
+import { describeSavedSearch } from "@/lib/requests/searches"
+import { projectTypeLabels } from "@/lib/utils/request"
+
+interface SavedSearchItem {
+  id: string
+  name: string
+  projectTypes: ProjectType[]
+  budgetMin: number | null
+  budgetMax: number | null
+  keywords: string[]
+  techStackIds: string[]
+  alertsEnabled: boolean
+  emailDigest: boolean
+  _count: { matches: number }
+}
+
+interface SavedSearchesProps {
+  companyId: string
+  companyName: string
+}
+
+const EMPTY_FORM = {
+  name: "",
+  projectTypes: [] as ProjectType[],
+  budgetMin: "",
+  budgetMax: "",
+  keywords: "",
+  techStackIds: [] as string[],
+}
+
+/**
+ * Saved searches of the signed-in member for a company
+ * New requests matching a search are sent to the inbox and the email digest.
+ */
+export function SavedSearches({ companyId, companyName }: SavedSearchesProps) {
+  const [savedSearches, setSavedSearches] = React.useState<SavedSearchItem[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [isFormOpen, setIsFormOpen] = React.useState(false)
+  const [form, setForm] = React.useState(EMPTY_FORM)
+  const [error, setError] = React.useState<string | undefined>()
+
+  const baseUrl = `/api/companies/${companyId}/saved-searches`
+
+  React.useEffect(() => {
+    const fetchSavedSearches = async () => {
+      try {
+        const response = await fetch(baseUrl)
+        if (!response.ok) {
+          throw new Error("Failed to fetch saved searches")
+        }
+        const data = await response.json()
+        setSavedSearches(data.savedSearches)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "保存した検索条件の読み込みに失敗しました")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchSavedSearches()
+  }, [baseUrl])
+
+  const toggleProjectType = (type: ProjectType) => {
+    setForm((prev) => ({
+      ...prev,
+      projectTypes: prev.projectTypes.includes(type)
+        ? prev.projectTypes.filter((t) => t !== type)
+        : [...prev.projectTypes, type],
+    }))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(undefined)
+
+    try {
+      const response = await fetch(baseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          projectTypes: form.projectTypes,
+          budgetMin: form.budgetMin ? parseInt(form.budgetMin) : null,
+          budgetMax: form.budgetMax ? parseInt(form.budgetMax) : null,
+          keywords: form.keywords
+            .split(/[,、]/)
+            .map((keyword) => keyword.trim())
+            .filter(Boolean),
+          techStackIds: form.techStackIds,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to save search")
+      }
+
+      const savedSearch = await response.json()
+      setSavedSearches((prev) => [...prev, { ...savedSearch, _count: { matches: 0 } }])
+      setForm(EMPTY_FORM)
+      setIsFormOpen(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "検索条件の保存に失敗しました")
+    }
+  }
+
+  const handleUpdate = async (
+    id: string,
+    changes: Pick<Partial<SavedSearchItem>, "alertsEnabled" | "emailDigest">
+  ) => {
+    const response = await fetch(`${baseUrl}/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    })
+    if (response.ok) {
+      setSavedSearches((prev) => prev.map((s) => (s.id === id ? { ...s, ...changes } : s)))
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("この検索条件を削除しますか?")) return
+
+    const response = await fetch(`${baseUrl}/${id}`, { method: "DELETE" })
+    if (response.ok) {
+      setSavedSearches((prev) => prev.filter((s) => s.id !== id))
+    }
+  }
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-lg">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="rounded-full bg-green-100 p-2">
+            <BellRing className="h-5 w-5 text-green-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">保存した検索条件</h2>
+            <p className="text-sm text-gray-600">
+              {companyName}向けの新着見積依頼をお知らせとメールで受け取れます
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setIsFormOpen((open) => !open)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {isFormOpen ? "キャンセル" : "検索条件を追加"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      {isFormOpen && (
+        <form onSubmit={handleCreate} className="mb-6 space-y-4 rounded-lg bg-gray-50 p-4">
+          <div>
+            <label htmlFor={`search-name-${companyId}`} className="text-sm font-medium">
+              名前
+            </label>
+            <input
+              id={`search-name-${companyId}`}
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              required
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              placeholder="例: ECサイト案件"
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium">プロジェクト種別</p>
+            <div className="mt-1 flex flex-wrap gap-3">
+              {Object.entries(projectTypeLabels).map(([key, label]) => (
+                <label key={key} className="flex items-center gap-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.projectTypes.includes(key as ProjectType)}
+                    onChange={() => toggleProjectType(key as ProjectType)}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor={`search-budget-min-${companyId}`} className="text-sm font-medium">
+                最低予算 (¥, 税別)
+              </label>
+              <input
+                id={`search-budget-min-${companyId}`}
+                type="number"
+                value={form.budgetMin}
+                onChange={(e) => setForm({ ...form, budgetMin: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor={`search-budget-max-${companyId}`} className="text-sm font-medium">
+                最高予算 (¥, 税別)
+              </label>
+              <input
+                id={`search-budget-max-${companyId}`}
+                type="number"
+                value={form.budgetMax}
+                onChange={(e) => setForm({ ...form, budgetMax: e.target.value })}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor={`search-keywords-${companyId}`} className="text-sm font-medium">
+              キーワード (カンマ区切り)
+            </label>
+            <input
+              id={`search-keywords-${companyId}`}
+              value={form.keywords}
+              onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              placeholder="例: EC, 決済"
+            />
+          </div>
+
+          <TechStackSelector
+            value={form.techStackIds}
+            onChange={(techStackIds) => setForm({ ...form, techStackIds })}
+            label="技術スタック"
+            required={false}
+          />
+
+          <button
+            type="submit"
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            保存
+          </button>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex h-24 items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600" />
+        </div>
+      ) : savedSearches.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500">保存した検索条件はありません</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {savedSearches.map((search) => (
+            <li key={search.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <p className="truncate font-medium text-gray-900">{search.name}</p>
+                <p className="truncate text-xs text-gray-500">
+                  {describeSavedSearch(search)} · {search._count.matches}件通知済み
+                </p>
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-3 text-xs text-gray-700">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={search.alertsEnabled}
+                    onChange={(e) => handleUpdate(search.id, { alertsEnabled: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                  />
+                  通知
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={search.emailDigest}
+                    onChange={(e) => handleUpdate(search.id, { emailDigest: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                  />
+                  メール
+                </label>
+                <button
+                  onClick={() => handleDelete(search.id)}
+                  aria-label="削除"
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
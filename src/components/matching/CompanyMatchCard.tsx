@@ -1,37 +1,77 @@
 /**
  * Company Match Card Component
  *
- * Displays a matched company with matching score and action to submit proposal
+ * Displays a matched company with matching score and action to submit proposal.
+ * Request owners can select the card to invite the company to quote.
  */
 
 'use client';
 
 import Link from 'next/link';
-import { MatchedCompany } from '@/types/matching';
+import { RequestCompanyStatus } from '@prisma/client';
+import { AvailabilityStatus, MatchedCompany, MatchReasonLocale } from '@/types/matching';
 import { MatchScoreBadge } from './MatchScoreBadge';
+import { MatchReasons } from './MatchReasons';
 
 interface CompanyMatchCardProps {
   match: MatchedCompany;
   onSubmitProposal?: (companyId: string) => void;
   showActions?: boolean;
+  invitationStatus?: RequestCompanyStatus | null;
+  selectable?: boolean;
+  selected?: boolean;
+  onToggleSelect?: (companyId: string) => void;
+  reasonLocale?: MatchReasonLocale;
   className?: string;
 }
 
+const invitationStatusConfig: Record<RequestCompanyStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Invited', className: 'bg-gray-100 text-gray-700' },
+  RESPONDED: { label: 'Quote received', className: 'bg-blue-100 text-blue-700' },
+  SELECTED: { label: 'Selected', className: 'bg-green-100 text-green-700' },
+  REJECTED: { label: 'Not selected', className: 'bg-red-100 text-red-700' },
+  EXPIRED: { label: 'No response', className: 'bg-gray-50 text-gray-500' },
+};
+
+const availabilityConfig: Record<AvailabilityStatus, { label: string; className: string }> = {
+  available: { label: 'Available', className: 'text-green-700' },
+  limited: { label: 'Limited availability', className: 'text-yellow-700' },
+  at_capacity: { label: 'At capacity', className: 'text-red-700' },
+};
+
 export function CompanyMatchCard({
   match,
   onSubmitProposal,
   showActions = true,
+  invitationStatus,
+  selectable = false,
+  selected = false,
+  onToggleSelect,
+  reasonLocale = 'en',
   className = '',
 }: CompanyMatchCardProps) {
-  const { company, matchScore } = match;
+  const { company, matchScore, availability } = match;
+  const invitation = invitationStatus ? invitationStatusConfig[invitationStatus] : null;
 
   return (
     <div
-      className={`bg-white rounded-lg border border-gray-200 hover:border-blue-300 transition-all shadow-sm hover:shadow-md ${className}`}
+      className={`bg-white rounded-lg border ${
+        selected ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'
+      } hover:border-blue-300 transition-all shadow-sm hover:shadow-md ${className}`}
     >
       <div className="p-6">
         {/* Header: Company Info */}
         <div className="flex items-start gap-4 mb-4">
+          {selectable && (
+            <input
+              type="checkbox"
+              aria-label={`Select ${company.name}`}
+              checked={selected}
+              disabled={!!invitation}
+              onChange={() => onToggleSelect?.(company.id)}
+              className="mt-1 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 disabled:opacity-50"
+            />
+          )}
           {company.logo ? (
             <img
               src={company.logo}
@@ -77,6 +117,18 @@ export function CompanyMatchCard({
               <span>•</span>
               <span>{company.projectCount} projects</span>
             </div>
+            {availability && (
+              <div className={`text-xs font-medium ${availabilityConfig[availability.status].className}`}>
+                ● {availabilityConfig[availability.status].label}
+                {availability.maxConcurrentProjects !== null && (
+                  <span className="text-gray-500 font-normal">
+                    {' '}
+                    ({availability.activeProjects + availability.pendingInvitations}/
+                    {availability.maxConcurrentProjects} projects)
+                  </span>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
@@ -88,8 +140,15 @@ export function CompanyMatchCard({
         )}
 
         {/* Match Score */}
-        <div className="mb-4">
+        <div className="mb-4 flex items-center justify-between gap-2">
           <MatchScoreBadge score={matchScore.total} size="lg" />
+          {invitation && (
+            <span
+              className={`px-2 py-1 text-xs font-semibold rounded-full ${invitation.className}`}
+            >
+              {invitation.label}
+            </span>
+          )}
         </div>
 
         {/* Match Details */}
@@ -104,6 +163,18 @@ export function CompanyMatchCard({
             </div>
           )}
 
+          {/* Related Tech Stack Match (aliases / hierarchy) */}
+          {matchScore.relatedTechStacks && matchScore.relatedTechStacks.length > 0 && (
+            <div className="text-sm">
+              <span className="text-gray-600 font-medium">Related: </span>
+              <span className="text-gray-700">
+                {matchScore.relatedTechStacks
+                  .map((related) => `${related.requested} (via ${related.matchedBy})`)
+                  .join(', ')}
+              </span>
+            </div>
+          )}
+
           {/* Specialty Match */}
           {matchScore.matchedSpecialties.length > 0 && (
             <div className="text-sm">
@@ -123,6 +194,8 @@ export function CompanyMatchCard({
                   ? 'text-green-600'
                   : matchScore.budgetCompatibility === 'good'
                   ? 'text-blue-600'
+                  : matchScore.budgetCompatibility === 'mismatch'
+                  ? 'text-red-600'
                   : 'text-yellow-600'
               }`}
             >
@@ -133,6 +206,14 @@ export function CompanyMatchCard({
           </div>
         </div>
 
+        {/* Why this company ranked here */}
+        <MatchReasons
+          matchScore={matchScore}
+          company={company}
+          locale={reasonLocale}
+          className="mb-4"
+        />
+
         {/* Actions */}
         {showActions && (
           <div className="flex gap-3 pt-4 border-t border-gray-200">
@@ -0,0 +1,52 @@
+/**
+ * Match Reasons Component
+ *
+ * Lists the generated reasons behind a match score as short bullets
+ */
+
+'use client';
+
+import { explainMatchScore } from '@/lib/matching/explanations';
+import { MatchReason, MatchReasonLocale, MatchScore } from '@/types/matching';
+
+interface MatchReasonsProps {
+  matchScore: MatchScore;
+  company: {
+    averageRating: number;
+    reviewCount: number;
+  };
+  locale?: MatchReasonLocale;
+  className?: string;
+}
+
+const toneConfig: Record<MatchReason['tone'], { icon: string; className: string }> = {
+  positive: { icon: '✓', className: 'text-green-600' },
+  neutral: { icon: '•', className: 'text-gray-400' },
+  negative: { icon: '✕', className: 'text-red-500' },
+};
+
+export function MatchReasons({
+  matchScore,
+  company,
+  locale = 'en',
+  className = '',
+}: MatchReasonsProps) {
+  const reasons = explainMatchScore(matchScore, company, locale);
+
+  if (reasons.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={`space-y-1 text-sm ${className}`}>
+      {reasons.map((reason, index) => (
+        <li key={`${reason.factor}-${index}`} className="flex items-start gap-2">
+          <span className={`flex-shrink-0 font-semibold ${toneConfig[reason.tone].className}`}>
+            {toneConfig[reason.tone].icon}
+          </span>
+          <span className="text-gray-700">{reason.text}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
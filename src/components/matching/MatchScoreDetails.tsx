@@ -6,7 +6,13 @@
 
 'use client';
 
-import { MatchScore } from '@/types/matching';
+import { MatchScore, RelatedTechStack } from '@/types/matching';
+
+const relationLabels: Record<RelatedTechStack['relation'], string> = {
+  implies: 'implies',
+  parent: 'parent technology',
+  sibling: 'related technology',
+};
 
 interface MatchScoreDetailsProps {
   matchScore: MatchScore;
@@ -14,20 +20,30 @@ interface MatchScoreDetailsProps {
 }
 
 export function MatchScoreDetails({ matchScore, className = '' }: MatchScoreDetailsProps) {
-  const scoreItems = [
+  const relatedTechStacks = matchScore.relatedTechStacks ?? [];
+
+  const scoreItems: {
+    label: string;
+    score: number;
+    maxScore: number;
+    color: string;
+    details: string;
+    related?: RelatedTechStack[];
+  }[] = [
     {
       label: 'Tech Stack Match',
       score: matchScore.techStackScore,
-      maxScore: 40,
+      maxScore: Math.round(matchScore.weights.techStackWeight * 100),
       color: 'blue',
       details: matchScore.matchedTechStacks.length > 0
         ? `Matched: ${matchScore.matchedTechStacks.join(', ')}`
         : 'No tech stack requirements',
+      related: relatedTechStacks,
     },
     {
       label: 'Specialty Alignment',
       score: matchScore.specialtyScore,
-      maxScore: 30,
+      maxScore: Math.round(matchScore.weights.specialtyWeight * 100),
       color: 'purple',
       details: matchScore.matchedSpecialties.length > 0
         ? `Matched: ${matchScore.matchedSpecialties.join(', ')}`
@@ -36,14 +52,14 @@ export function MatchScoreDetails({ matchScore, className = '' }: MatchScoreDeta
     {
       label: 'Budget Compatibility',
       score: matchScore.budgetScore,
-      maxScore: 20,
+      maxScore: Math.round(matchScore.weights.budgetWeight * 100),
       color: 'green',
       details: `Status: ${matchScore.budgetCompatibility}`,
     },
     {
       label: 'Company Rating',
       score: matchScore.ratingScore,
-      maxScore: 10,
+      maxScore: Math.round(matchScore.weights.ratingWeight * 100),
       color: 'yellow',
       details: 'Based on reviews and ratings',
     },
@@ -65,7 +81,7 @@ export function MatchScoreDetails({ matchScore, className = '' }: MatchScoreDeta
 
       <div className="space-y-3">
         {scoreItems.map((item) => {
-          const percentage = (item.score / item.maxScore) * 100;
+          const percentage = item.maxScore > 0 ? (item.score / item.maxScore) * 100 : 0;
 
           return (
             <div key={item.label} className="space-y-1">
@@ -84,6 +100,16 @@ export function MatchScoreDetails({ matchScore, className = '' }: MatchScoreDeta
               {item.details && (
                 <p className="text-xs text-gray-500 italic">{item.details}</p>
               )}
+              {item.related && item.related.length > 0 && (
+                <ul className="text-xs text-gray-500 space-y-0.5">
+                  {item.related.map((related) => (
+                    <li key={`${related.requested}-${related.matchedBy}`}>
+                      Related: {related.matchedBy} → {related.requested} (
+                      {relationLabels[related.relation]})
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           );
         })}
@@ -10,6 +10,8 @@ import Link from 'next/link';
 import { ProposalWithDetails } from '@/types/matching';
 import { MatchScoreBadge } from './MatchScoreBadge';
 import { RequestCompanyStatus } from '@prisma/client';
+import { formatMoney } from '@/lib/utils/money';
+import { getEstimateTerms } from '@/lib/utils/request';
 
 interface ProposalCardProps {
   proposal: ProposalWithDetails;
@@ -34,20 +36,11 @@ export function ProposalCard({
     RESPONDED: { label: 'Submitted', color: 'text-blue-700', bgColor: 'bg-blue-100' },
     SELECTED: { label: 'Selected', color: 'text-green-700', bgColor: 'bg-green-100' },
     REJECTED: { label: 'Rejected', color: 'text-red-700', bgColor: 'bg-red-100' },
+    EXPIRED: { label: 'Expired', color: 'text-gray-500', bgColor: 'bg-gray-50' },
   };
 
   const status = statusConfig[proposal.status];
 
-  const formatCurrency = (amount: number | null) => {
-    if (!amount) return 'N/A';
-    return new Intl.NumberFormat('ja-JP', {
-      style: 'currency',
-      currency: 'JPY',
-      notation: 'compact',
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
-
   return (
     <div
       className={`bg-white rounded-lg border border-gray-200 hover:border-blue-300 transition-all shadow-sm hover:shadow-md ${className}`}
@@ -99,11 +92,18 @@ export function ProposalCard({
               </div>
             </div>
           </div>
-          <span
-            className={`px-3 py-1 text-xs font-semibold rounded-full ${status.color} ${status.bgColor}`}
-          >
-            {status.label}
-          </span>
+          <div className="flex flex-col items-end gap-1">
+            <span
+              className={`px-3 py-1 text-xs font-semibold rounded-full ${status.color} ${status.bgColor}`}
+            >
+              {status.label}
+            </span>
+            {proposal.isOutdated && (
+              <span className="px-3 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                Outdated (v{proposal.requestVersion})
+              </span>
+            )}
+          </div>
         </div>
 
         {/* Match Score */}
@@ -118,7 +118,9 @@ export function ProposalCard({
           <div>
             <p className="text-xs text-gray-500 mb-1">Estimated Cost</p>
             <p className="text-xl font-bold text-gray-900">
-              {formatCurrency(proposal.estimatedCost)}
+              {proposal.estimatedCost
+                ? formatMoney(proposal.estimatedCost, getEstimateTerms(proposal))
+                : 'N/A'}
             </p>
           </div>
           <div>
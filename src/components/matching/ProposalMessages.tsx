@@ -0,0 +1,206 @@
+/**
+ * Proposal Messages Component
+ *
+ * Conversation between the buyer and the proposing company on a submitted
+ * proposal, with attachments and read receipts. Opening the thread marks it
+ * as read.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ProposalMessageSender } from '@prisma/client';
+import { formatDistanceToNow } from 'date-fns';
+import { FileUpload } from '@/components/request/FileUpload';
+
+export interface ProposalMessageEntry {
+  id: string;
+  sender: ProposalMessageSender;
+  author: { id: string; name: string | null } | null;
+  body: string;
+  attachments: string[];
+  createdAt: string;
+  isOwn: boolean;
+  isRead: boolean;
+}
+
+interface ThreadResponse {
+  sender: ProposalMessageSender;
+  hasThread: boolean;
+  canSend: boolean;
+  unreadCount: number;
+  messages: ProposalMessageEntry[];
+}
+
+interface ProposalMessagesProps {
+  proposalId: string;
+  companyName: string;
+  className?: string;
+}
+
+export function ProposalMessages({
+  proposalId,
+  companyName,
+  className = '',
+}: ProposalMessagesProps) {
+  const [thread, setThread] = useState<ThreadResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [body, setBody] = useState('');
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [uploadKey, setUploadKey] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    const fetchThread = async () => {
+      try {
+        const response = await fetch(`/api/proposals/${proposalId}/messages`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to fetch messages');
+        }
+
+        const data: ThreadResponse = await response.json();
+        setThread(data);
+
+        if (data.unreadCount > 0) {
+          await fetch(`/api/proposals/${proposalId}/messages`, { method: 'PATCH' });
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch messages');
+      }
+    };
+
+    fetchThread();
+  }, [proposalId]);
+
+  if (!thread) {
+    return error ? <p className={`text-sm text-red-600 ${className}`}>{error}</p> : null;
+  }
+  if (!thread.hasThread) return null;
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setError(null);
+    setIsSending(true);
+    try {
+      const response = await fetch(`/api/proposals/${proposalId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: body.trim(), attachments }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to send message');
+      }
+
+      const message: ProposalMessageEntry = await response.json();
+      setThread({ ...thread, messages: [...thread.messages, message] });
+      setBody('');
+      setAttachments([]);
+      setUploadKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const authorLabel = (message: ProposalMessageEntry) => {
+    if (message.isOwn) return 'You';
+    if (message.sender === 'BUYER') return message.author?.name ?? 'Buyer';
+    return message.author?.name ? `${message.author.name} (${companyName})` : companyName;
+  };
+
+  return (
+    <div
+      id="messages"
+      className={`bg-white rounded-lg shadow-sm border border-gray-200 p-6 ${className}`}
+    >
+      <h2 className="text-xl font-bold text-gray-900 mb-4">Messages</h2>
+
+      {thread.messages.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">
+          No messages yet. Ask a question or discuss the details of this proposal.
+        </p>
+      ) : (
+        <ol className="space-y-4 mb-6">
+          {thread.messages.map((message) => {
+            const fromViewerSide = message.sender === thread.sender;
+
+            return (
+              <li
+                key={message.id}
+                className={`flex flex-col ${fromViewerSide ? 'items-end' : 'items-start'}`}
+              >
+                <p className="text-xs text-gray-500 mb-1">
+                  {authorLabel(message)} ·{' '}
+                  {formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}
+                </p>
+                <div
+                  className={`max-w-[80%] rounded-lg px-4 py-2 text-sm whitespace-pre-wrap ${
+                    fromViewerSide ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+                  }`}
+                >
+                  {message.body}
+                </div>
+                {message.attachments.length > 0 && (
+                  <ul className="mt-1 space-y-1 text-sm">
+                    {message.attachments.map((url, index) => (
+                      <li key={index}>
+                        <a
+                          href={url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline"
+                        >
+                          Attachment {index + 1}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {fromViewerSide && (
+                  <p className="text-xs text-gray-400 mt-1">{message.isRead ? 'Read' : 'Sent'}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {thread.canSend ? (
+        <form onSubmit={handleSend} className="space-y-3 border-t pt-4">
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={3}
+            maxLength={4000}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Write a message"
+          />
+          <FileUpload
+            key={uploadKey}
+            value={attachments}
+            onChange={setAttachments}
+            purpose="message"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !body.trim()}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+          >
+            {isSending ? 'Sending...' : 'Send Message'}
+          </button>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-500 border-t pt-4">
+          This conversation is closed because the proposal was not selected.
+        </p>
+      )}
+    </div>
+  );
+}
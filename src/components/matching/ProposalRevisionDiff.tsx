@@ -0,0 +1,151 @@
+/**
+ * Proposal Revision Diff Component
+ *
+ * Side-by-side comparison of two revisions of a proposal: cost, duration and
+ * schedule span, and the proposal text line by line
+ */
+
+'use client';
+
+import {
+  compareProposalRevisions,
+  ProposalSnapshot,
+  proposalRevisionFieldLabels,
+} from '@/lib/requests/revisions';
+import { getMilestones, getScheduleSpan } from '@/lib/requests/schedule';
+import { formatMoney } from '@/lib/utils/money';
+import { getEstimateTerms } from '@/lib/utils/request';
+import { DiffLine } from '@/lib/utils/diff';
+
+interface RevisionSide {
+  revision: number;
+  snapshot: ProposalSnapshot;
+}
+
+interface ProposalRevisionDiffProps {
+  from: RevisionSide;
+  to: RevisionSide;
+  className?: string;
+}
+
+/** Fields shown in their own rows */
+const comparedFields = [
+  'estimatedCost',
+  'estimatedCurrency',
+  'estimatedTaxIncluded',
+  'estimatedUnit',
+  'estimatedDuration',
+  'durationValue',
+  'durationUnit',
+  'schedule',
+  'proposal',
+];
+
+const lineClassNames: Record<DiffLine['type'], string> = {
+  unchanged: 'text-gray-700',
+  removed: 'bg-red-50 text-red-800',
+  added: 'bg-green-50 text-green-800',
+};
+
+function formatCost(snapshot: ProposalSnapshot): string {
+  return snapshot.estimatedCost !== null
+    ? formatMoney(snapshot.estimatedCost, getEstimateTerms(snapshot))
+    : '—';
+}
+
+function formatSchedule(snapshot: ProposalSnapshot): string | null {
+  const span = getScheduleSpan(getMilestones(snapshot.schedule));
+  return span ? `${span.start} – ${span.end}` : null;
+}
+
+function formatDifference(value: number | null, format: (value: number) => string) {
+  if (value === null || value === 0) return null;
+  return (
+    <span className={value > 0 ? 'text-red-600' : 'text-green-600'}>
+      {value > 0 ? '+' : '−'}
+      {format(Math.abs(value))}
+    </span>
+  );
+}
+
+export function ProposalRevisionDiff({ from, to, className = '' }: ProposalRevisionDiffProps) {
+  const comparison = compareProposalRevisions(from.snapshot, to.snapshot);
+  const otherChanges = [
+    ...new Set(
+      comparison.changes
+        .filter((change) => !comparedFields.includes(change.field))
+        .map((change) => proposalRevisionFieldLabels[change.field] ?? change.field)
+    ),
+  ];
+  const textChanged = comparison.text.some((row) => row.left?.type !== 'unchanged');
+  const fromSchedule = formatSchedule(from.snapshot);
+  const toSchedule = formatSchedule(to.snapshot);
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 ${className}`}>
+      <div className="grid grid-cols-[8rem_1fr_1fr] gap-4 px-6 py-3 border-b border-gray-200 text-sm font-medium text-gray-500">
+        <span />
+        <span>Revision {from.revision}</span>
+        <span>Revision {to.revision}</span>
+      </div>
+
+      <dl className="divide-y divide-gray-100 text-sm">
+        <div className="grid grid-cols-[8rem_1fr_1fr] gap-4 px-6 py-3">
+          <dt className="font-medium text-gray-900">Cost</dt>
+          <dd className="text-gray-700">{formatCost(from.snapshot)}</dd>
+          <dd className="text-gray-900">
+            {formatCost(to.snapshot)}{' '}
+            {formatDifference(comparison.cost.difference, (value) =>
+              formatMoney(value, getEstimateTerms(to.snapshot))
+            )}
+          </dd>
+        </div>
+
+        <div className="grid grid-cols-[8rem_1fr_1fr] gap-4 px-6 py-3">
+          <dt className="font-medium text-gray-900">Duration</dt>
+          <dd className="text-gray-700">
+            {comparison.duration.from ?? '—'}
+            {fromSchedule && <p className="text-xs text-gray-500">{fromSchedule}</p>}
+          </dd>
+          <dd className="text-gray-900">
+            {comparison.duration.to ?? '—'}{' '}
+            {formatDifference(comparison.duration.difference, (value) => `${value} days`)}
+            {toSchedule && <p className="text-xs text-gray-500">{toSchedule}</p>}
+          </dd>
+        </div>
+
+        <div className="px-6 py-3">
+          <dt className="font-medium text-gray-900 mb-2">
+            Proposal{!textChanged && <span className="ml-2 text-gray-500">(unchanged)</span>}
+          </dt>
+          <dd className="grid grid-cols-2 gap-x-4 font-mono text-xs">
+            {comparison.text.map((row, index) => (
+              <div key={index} className="contents">
+                <span
+                  className={`whitespace-pre-wrap px-2 py-0.5 ${
+                    row.left ? lineClassNames[row.left.type] : 'bg-gray-50'
+                  }`}
+                >
+                  {row.left?.text}
+                </span>
+                <span
+                  className={`whitespace-pre-wrap px-2 py-0.5 ${
+                    row.right ? lineClassNames[row.right.type] : 'bg-gray-50'
+                  }`}
+                >
+                  {row.right?.text}
+                </span>
+              </div>
+            ))}
+          </dd>
+        </div>
+      </dl>
+
+      {otherChanges.length > 0 && (
+        <p className="px-6 py-3 border-t border-gray-200 text-sm text-gray-500">
+          Also changed: {otherChanges.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
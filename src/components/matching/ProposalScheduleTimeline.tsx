@@ -0,0 +1,101 @@
+/**
+ * Proposal Schedule Timeline Component
+ *
+ * Gantt-style timeline of the compared proposals' milestone schedules on a
+ * shared date axis, with the request's preferred start and deadline marked
+ */
+
+'use client';
+
+import { Milestone } from '@/lib/validations/request';
+import { buildScheduleTimeline, ScheduleWindow } from '@/lib/requests/schedule';
+
+interface ProposalScheduleTimelineProps {
+  proposals: {
+    id: string;
+    company: { name: string };
+    estimatedDuration: string | null;
+    schedule?: Milestone[] | null;
+  }[];
+  dates: ScheduleWindow;
+  className?: string;
+}
+
+const barColors = ['bg-blue-500', 'bg-indigo-500', 'bg-purple-500', 'bg-teal-500', 'bg-sky-500'];
+
+export function ProposalScheduleTimeline({
+  proposals,
+  dates,
+  className = '',
+}: ProposalScheduleTimelineProps) {
+  const timeline = buildScheduleTimeline(proposals, dates);
+  if (!timeline) {
+    return null;
+  }
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 p-6 ${className}`}>
+      <div className="flex justify-between mb-2 text-xs text-gray-500">
+        <span>{timeline.start}</span>
+        <span>{timeline.days} days</span>
+        <span>{timeline.end}</span>
+      </div>
+
+      <div className="space-y-4">
+        {proposals.map((proposal) => {
+          const bars = timeline.bars[proposal.id] ?? [];
+
+          return (
+            <div key={proposal.id} className="grid grid-cols-[10rem_1fr] gap-4 items-start">
+              <div>
+                <p className="font-medium text-gray-900 text-sm">{proposal.company.name}</p>
+                {proposal.estimatedDuration && (
+                  <p className="text-xs text-gray-500">{proposal.estimatedDuration}</p>
+                )}
+              </div>
+              <div className="relative border-l border-r border-gray-200">
+                {timeline.markers.map((marker) => (
+                  <div
+                    key={marker.label}
+                    className="absolute top-0 bottom-0 border-l-2 border-dashed border-red-300"
+                    style={{ left: `${marker.offset}%` }}
+                    title={`${marker.label}: ${marker.date}`}
+                  />
+                ))}
+                {bars.length === 0 ? (
+                  <p className="px-2 py-1 text-xs text-gray-400">No schedule</p>
+                ) : (
+                  bars.map(({ milestone, offset, width }, index) => (
+                    <div key={milestone.id} className="relative h-7 my-1">
+                      <div
+                        className={`absolute h-full rounded ${
+                          barColors[index % barColors.length]
+                        } text-white text-xs px-2 flex items-center overflow-hidden whitespace-nowrap`}
+                        style={{ left: `${offset}%`, width: `${Math.max(width, 1)}%` }}
+                        title={`${milestone.title}: ${milestone.startDate} – ${milestone.endDate} (${milestone.paymentPercent}% payment)`}
+                      >
+                        {milestone.title}
+                        {milestone.paymentPercent > 0 && ` · ${milestone.paymentPercent}%`}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {timeline.markers.length > 0 && (
+        <div className="mt-4 flex gap-4 text-xs text-gray-500">
+          {timeline.markers.map((marker) => (
+            <span key={marker.label} className="flex items-center gap-1">
+              <span className="inline-block w-3 border-t-2 border-dashed border-red-300" />
+              {marker.label} ({marker.date})
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
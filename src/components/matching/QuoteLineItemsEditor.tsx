@@ -0,0 +1,192 @@
+/**
+ * Quote Line Items Editor Component
+ * Editable line items of a structured quote (phase, role, person-days × daily
+ * rate, fixed fee, optional) with a live preview of the totals. The server
+ * recomputes the totals on submission.
+ */
+
+'use client';
+
+import { Currency } from '@prisma/client';
+import { QuoteLineItem } from '@/lib/validations/request';
+import {
+  calculateQuoteTotals,
+  getLineItemAmount,
+  newQuoteLineItem,
+  QUOTE_PHASE_SUGGESTIONS,
+} from '@/lib/requests/quotes';
+import { formatMoney } from '@/lib/utils/money';
+
+interface QuoteLineItemsEditorProps {
+  value: QuoteLineItem[];
+  onChange: (value: QuoteLineItem[]) => void;
+  taxRate: number;
+  onTaxRateChange: (taxRate: number) => void;
+  currency: Currency;
+  maxItems?: number;
+  className?: string;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+export function QuoteLineItemsEditor({
+  value,
+  onChange,
+  taxRate,
+  onTaxRateChange,
+  currency,
+  maxItems = 100,
+  className = '',
+}: QuoteLineItemsEditorProps) {
+  const totals = calculateQuoteTotals(value, taxRate);
+  const format = (amount: number) => formatMoney(amount, { currency });
+
+  const updateItem = (id: string, changes: Partial<QuoteLineItem>) => {
+    onChange(value.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (id: string) => {
+    onChange(value.filter((item) => item.id !== id));
+  };
+
+  return (
+    <div className={className}>
+      <datalist id="quote-phase-suggestions">
+        {QUOTE_PHASE_SUGGESTIONS.map((phase) => (
+          <option key={phase} value={phase} />
+        ))}
+      </datalist>
+
+      <div className="space-y-3">
+        {value.map((item) => (
+          <div key={item.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <input
+                type="text"
+                list="quote-phase-suggestions"
+                value={item.phase}
+                onChange={(e) => updateItem(item.id, { phase: e.target.value })}
+                className={inputClassName}
+                placeholder="Phase, e.g. Development"
+              />
+              <input
+                type="text"
+                value={item.role ?? ''}
+                onChange={(e) => updateItem(item.id, { role: e.target.value || undefined })}
+                className={inputClassName}
+                placeholder="Role (optional), e.g. Backend engineer"
+              />
+            </div>
+            <div className="mt-3 grid gap-3 sm:grid-cols-3">
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={item.personDays ?? ''}
+                onChange={(e) => updateItem(item.id, { personDays: toNumber(e.target.value) })}
+                className={inputClassName}
+                placeholder="Person-days"
+              />
+              <input
+                type="number"
+                min="0"
+                step="1000"
+                value={item.unitRate ?? ''}
+                onChange={(e) => updateItem(item.id, { unitRate: toNumber(e.target.value) })}
+                className={inputClassName}
+                placeholder="Daily rate"
+              />
+              <input
+                type="number"
+                min="0"
+                step="1000"
+                value={item.fixedFee ?? ''}
+                onChange={(e) => updateItem(item.id, { fixedFee: toNumber(e.target.value) })}
+                className={inputClassName}
+                placeholder="Fixed fee (licenses, travel…)"
+              />
+            </div>
+            <input
+              type="text"
+              value={item.description ?? ''}
+              onChange={(e) => updateItem(item.id, { description: e.target.value || undefined })}
+              className={`mt-3 ${inputClassName}`}
+              placeholder="Description (optional)"
+            />
+            <div className="mt-3 flex items-center justify-between text-sm">
+              <label className="flex items-center text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={item.optional}
+                  onChange={(e) => updateItem(item.id, { optional: e.target.checked })}
+                  className="mr-2 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Optional (not included in the total)
+              </label>
+              <div className="flex items-center gap-4">
+                <span className="font-medium text-gray-900">{format(getLineItemAmount(item))}</span>
+                <button
+                  type="button"
+                  onClick={() => removeItem(item.id)}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        disabled={value.length >= maxItems}
+        onClick={() => onChange([...value, newQuoteLineItem(value[value.length - 1]?.phase)])}
+        className="mt-3 text-blue-600 hover:text-blue-700 disabled:text-gray-400 font-medium text-sm"
+      >
+        + Add Line Item
+      </button>
+
+      <div className="mt-4 border-t border-gray-200 pt-4 text-sm">
+        <div className="flex items-center justify-between mb-2">
+          <label htmlFor="quoteTaxRate" className="text-gray-700">
+            Tax rate (%)
+          </label>
+          <input
+            type="number"
+            id="quoteTaxRate"
+            min="0"
+            max="100"
+            step="1"
+            value={Math.round(taxRate * 1000) / 10}
+            onChange={(e) => onTaxRateChange(Number(e.target.value || 0) / 100)}
+            className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-right"
+          />
+        </div>
+        <dl className="space-y-1">
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Subtotal ({totals.personDays} person-days)</dt>
+            <dd className="text-gray-900">{format(totals.subtotal)}</dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-600">Tax</dt>
+            <dd className="text-gray-900">{format(totals.tax)}</dd>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <dt className="text-gray-900">Total</dt>
+            <dd className="text-gray-900">{format(totals.total)}</dd>
+          </div>
+          {totals.optionalTotal > 0 && (
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Optional items</dt>
+              <dd className="text-gray-900">+{format(totals.optionalTotal)}</dd>
+            </div>
+          )}
+        </dl>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Quote Phase Comparison Component
+ *
+ * Phase-by-phase costs of the compared proposals that were quoted as line
+ * items, with subtotal, tax and total rows. Amounts are without tax.
+ */
+
+'use client';
+
+import { Currency, MoneyUnit } from '@prisma/client';
+import { buildQuotePhaseComparison, Quote } from '@/lib/requests/quotes';
+import { formatMoney } from '@/lib/utils/money';
+
+interface QuotePhaseComparisonProps {
+  proposals: {
+    id: string;
+    company: { name: string };
+    estimatedCurrency: Currency;
+    estimatedUnit: MoneyUnit;
+    quote?: Quote | null;
+  }[];
+  className?: string;
+}
+
+export function QuotePhaseComparison({ proposals, className = '' }: QuotePhaseComparisonProps) {
+  const quoted = proposals.flatMap((proposal) =>
+    proposal.quote ? [{ ...proposal, quote: proposal.quote }] : []
+  );
+  if (quoted.length === 0) {
+    return null;
+  }
+
+  const rows = buildQuotePhaseComparison(quoted);
+  const unquotedCount = proposals.length - quoted.length;
+  const format = (proposal: (typeof quoted)[number], amount: number) =>
+    formatMoney(amount, {
+      currency: proposal.estimatedCurrency,
+      unit: proposal.estimatedUnit,
+    });
+
+  return (
+    <div
+      className={`bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden ${className}`}
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Phase</th>
+              {quoted.map((proposal) => (
+                <th
+                  key={proposal.id}
+                  className="px-6 py-4 text-right text-sm font-semibold text-gray-900"
+                >
+                  {proposal.company.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.map((row) => (
+              <tr key={row.phase}>
+                <td className="px-6 py-3 font-medium text-gray-900">{row.phase}</td>
+                {quoted.map((proposal) => {
+                  const phase = row.amounts[proposal.id];
+
+                  if (!phase) {
+                    return (
+                      <td key={proposal.id} className="px-6 py-3 text-right text-sm text-gray-400">
+                        —
+                      </td>
+                    );
+                  }
+
+                  return (
+                    <td key={proposal.id} className="px-6 py-3 text-right text-sm">
+                      <span className="font-semibold text-gray-900">
+                        {format(proposal, phase.subtotal)}
+                      </span>
+                      {phase.personDays > 0 && (
+                        <span className="block text-xs text-gray-500">
+                          {phase.personDays} person-days
+                        </span>
+                      )}
+                      {phase.optionalTotal > 0 && (
+                        <span className="block text-xs text-gray-500">
+                          Optional +{format(proposal, phase.optionalTotal)}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-gray-50 border-t border-gray-200 text-sm">
+            <tr>
+              <td className="px-6 py-2 text-gray-600">Subtotal</td>
+              {quoted.map((proposal) => (
+                <td key={proposal.id} className="px-6 py-2 text-right text-gray-900">
+                  {format(proposal, proposal.quote.totals.subtotal)}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td className="px-6 py-2 text-gray-600">Tax</td>
+              {quoted.map((proposal) => (
+                <td key={proposal.id} className="px-6 py-2 text-right text-gray-900">
+                  {format(proposal, proposal.quote.totals.tax)}
+                  <span className="block text-xs text-gray-500">
+                    {Math.round(proposal.quote.taxRate * 1000) / 10}%
+                  </span>
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td className="px-6 py-2 font-semibold text-gray-900">Total</td>
+              {quoted.map((proposal) => (
+                <td key={proposal.id} className="px-6 py-2 text-right font-semibold text-gray-900">
+                  {format(proposal, proposal.quote.totals.total)}
+                </td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+      {unquotedCount > 0 && (
+        <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">
+          {unquotedCount === 1
+            ? '1 proposal was quoted as a single amount and is not shown.'
+            : `${unquotedCount} proposals were quoted as a single amount and are not shown.`}
+        </p>
+      )}
+    </div>
+  );
+}
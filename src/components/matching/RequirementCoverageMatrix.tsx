@@ -0,0 +1,153 @@
+/**
+ * Requirement Coverage Matrix Component
+ *
+ * Requirement-by-requirement answers of the compared proposals, with a
+ * per-proposal summary (MUST items covered, total cost impact)
+ */
+
+'use client';
+
+import { RequirementItem, RequirementResponse } from '@/lib/validations/request';
+import {
+  buildRequirementCoverageMatrix,
+  requirementPriorityLabels,
+  requirementSupportLabels,
+} from '@/lib/requests/coverage';
+
+interface RequirementCoverageMatrixProps {
+  items: RequirementItem[];
+  proposals: {
+    id: string;
+    company: { name: string };
+    requirementResponses?: RequirementResponse[] | null;
+  }[];
+  className?: string;
+}
+
+const supportConfig: Record<RequirementResponse['support'], { icon: string; className: string }> = {
+  SUPPORTED: { icon: '✓', className: 'text-green-600' },
+  PARTIAL: { icon: '△', className: 'text-yellow-600' },
+  NOT_SUPPORTED: { icon: '✕', className: 'text-red-500' },
+};
+
+const formatCostImpact = (amount: number) =>
+  `${amount > 0 ? '+' : ''}${new Intl.NumberFormat('ja-JP', {
+    style: 'currency',
+    currency: 'JPY',
+    notation: 'compact',
+    maximumFractionDigits: 0,
+  }).format(amount)}`;
+
+export function RequirementCoverageMatrix({
+  items,
+  proposals,
+  className = '',
+}: RequirementCoverageMatrixProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  const matrix = buildRequirementCoverageMatrix(items, proposals);
+
+  return (
+    <div
+      className={`bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden ${className}`}
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">
+                Requirement
+              </th>
+              {proposals.map((proposal) => (
+                <th
+                  key={proposal.id}
+                  className="px-6 py-4 text-left text-sm font-semibold text-gray-900"
+                >
+                  {proposal.company.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {matrix.rows.map(({ item, responses }) => (
+              <tr key={item.id}>
+                <td className="px-6 py-3">
+                  <p className="font-medium text-gray-900">{item.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {requirementPriorityLabels[item.priority]}
+                  </p>
+                </td>
+                {proposals.map((proposal) => {
+                  const response = responses[proposal.id];
+
+                  if (item.priority === 'WONT') {
+                    return (
+                      <td key={proposal.id} className="px-6 py-3 text-sm text-gray-400">
+                        Out of scope
+                      </td>
+                    );
+                  }
+
+                  if (!response) {
+                    return (
+                      <td key={proposal.id} className="px-6 py-3 text-sm text-gray-400">
+                        No answer
+                      </td>
+                    );
+                  }
+
+                  const config = supportConfig[response.support];
+                  return (
+                    <td key={proposal.id} className="px-6 py-3 text-sm" title={response.note}>
+                      <span className={`font-semibold ${config.className}`}>
+                        {config.icon} {requirementSupportLabels[response.support]}
+                      </span>
+                      {response.costImpact ? (
+                        <span className="block text-xs text-gray-500">
+                          {formatCostImpact(response.costImpact)}
+                        </span>
+                      ) : null}
+                      {response.note && (
+                        <span className="block text-xs text-gray-500">{response.note}</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-gray-50 border-t border-gray-200">
+            <tr>
+              <td className="px-6 py-3 text-sm font-semibold text-gray-900">Summary</td>
+              {proposals.map((proposal) => {
+                const summary = matrix.summaries[proposal.id];
+                return (
+                  <td key={proposal.id} className="px-6 py-3 text-sm">
+                    <p
+                      className={`font-semibold ${
+                        summary.mustCovered ? 'text-green-600' : 'text-red-500'
+                      }`}
+                    >
+                      {summary.mustCovered ? 'All MUST covered' : 'MUST gaps'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {summary.supported} supported · {summary.partial} partial ·{' '}
+                      {summary.notSupported + summary.unanswered} missing
+                    </p>
+                    {summary.costImpact !== 0 && (
+                      <p className="text-xs text-gray-500">
+                        Cost impact {formatCostImpact(summary.costImpact)}
+                      </p>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Schedule Milestones Editor Component
+ * Editable milestone schedule of a proposal (title, start and end date,
+ * payment percentage), checked against the request's preferred start and
+ * deadline as you type. The server checks it again on submission.
+ */
+
+'use client';
+
+import { Milestone } from '@/lib/validations/request';
+import { newMilestone, ScheduleWindow, validateSchedule } from '@/lib/requests/schedule';
+
+interface ScheduleMilestonesEditorProps {
+  value: Milestone[];
+  onChange: (value: Milestone[]) => void;
+  dates?: ScheduleWindow;
+  maxItems?: number;
+  className?: string;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export function ScheduleMilestonesEditor({
+  value,
+  onChange,
+  dates = {},
+  maxItems = 30,
+  className = '',
+}: ScheduleMilestonesEditorProps) {
+  const paymentTotal = value.reduce((sum, milestone) => sum + milestone.paymentPercent, 0);
+  const complete = value.every((milestone) => milestone.startDate && milestone.endDate);
+  const validation = complete ? validateSchedule(value, dates) : { valid: true };
+
+  const updateMilestone = (id: string, changes: Partial<Milestone>) => {
+    onChange(
+      value.map((milestone) => (milestone.id === id ? { ...milestone, ...changes } : milestone))
+    );
+  };
+
+  const removeMilestone = (id: string) => {
+    onChange(value.filter((milestone) => milestone.id !== id));
+  };
+
+  const addMilestone = () => {
+    // Continue where the previous milestone ends
+    const previous = value[value.length - 1];
+    onChange([...value, newMilestone(previous?.endDate)]);
+  };
+
+  return (
+    <div className={className}>
+      <div className="space-y-3">
+        {value.map((milestone, index) => (
+          <div key={milestone.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-gray-500">{index + 1}.</span>
+              <input
+                type="text"
+                value={milestone.title}
+                onChange={(e) => updateMilestone(milestone.id, { title: e.target.value })}
+                className={inputClassName}
+                placeholder="Milestone, e.g. Design approved"
+              />
+              <button
+                type="button"
+                onClick={() => removeMilestone(milestone.id)}
+                className="text-red-600 hover:text-red-700 text-sm"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="mt-3 grid gap-3 sm:grid-cols-3">
+              <label className="text-xs text-gray-500">
+                Start
+                <input
+                  type="date"
+                  value={milestone.startDate}
+                  onChange={(e) => updateMilestone(milestone.id, { startDate: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="text-xs text-gray-500">
+                End
+                <input
+                  type="date"
+                  value={milestone.endDate}
+                  min={milestone.startDate || undefined}
+                  onChange={(e) => updateMilestone(milestone.id, { endDate: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="text-xs text-gray-500">
+                Payment (%)
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={milestone.paymentPercent}
+                  onChange={(e) =>
+                    updateMilestone(milestone.id, { paymentPercent: Number(e.target.value || 0) })
+                  }
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        disabled={value.length >= maxItems}
+        onClick={addMilestone}
+        className="mt-3 text-blue-600 hover:text-blue-700 disabled:text-gray-400 font-medium text-sm"
+      >
+        + Add Milestone
+      </button>
+
+      {value.length > 0 && (
+        <div className="mt-3 space-y-1 text-sm">
+          <p className={Math.abs(paymentTotal - 100) < 0.01 ? 'text-gray-500' : 'text-red-600'}>
+            Payments add up to {paymentTotal}% (must be 100%)
+          </p>
+          {!validation.valid && <p className="text-red-600">{validation.error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,5 +6,13 @@
 
 export { MatchScoreBadge } from './MatchScoreBadge';
 export { MatchScoreDetails } from './MatchScoreDetails';
+export { MatchReasons } from './MatchReasons';
 export { ProposalCard } from './ProposalCard';
 export { CompanyMatchCard } from './CompanyMatchCard';
+export { RequirementCoverageMatrix } from './RequirementCoverageMatrix';
+export { QuotePhaseComparison } from './QuotePhaseComparison';
+export { QuoteLineItemsEditor } from './QuoteLineItemsEditor';
+export { ProposalScheduleTimeline } from './ProposalScheduleTimeline';
+export { ScheduleMilestonesEditor } from './ScheduleMilestonesEditor';
+export { ProposalRevisionDiff } from './ProposalRevisionDiff';
+export { ProposalMessages } from './ProposalMessages';
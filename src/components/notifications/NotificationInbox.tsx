@@ -0,0 +1,158 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { NotificationType } from "@prisma/client"
+import { formatDistanceToNow } from "date-fns"
+import { Bell } from "lucide-react"
+
+interface NotificationItem {
+  id: string
+  type: NotificationType
+  title: string
+  body: string | null
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+interface NotificationInboxProps {
+  limit?: number
+}
+
+/**
+ * In-app inbox: the signed-in user's latest notifications
+ * Opening a notification marks it as read.
+ */
+export function NotificationInbox({ limit = 10 }: NotificationInboxProps) {
+  const [notifications, setNotifications] = React.useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = React.useState(0)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | undefined>()
+
+  React.useEffect(() => {
+    const fetchNotifications = async () => {
+      try {
+        const response = await fetch(`/api/notifications?limit=${limit}`)
+        if (!response.ok) {
+          throw new Error("Failed to fetch notifications")
+        }
+        const data = await response.json()
+        setNotifications(data.notifications)
+        setUnreadCount(data.unreadCount)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "通知の読み込みに失敗しました")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchNotifications()
+  }, [limit])
+
+  const markAsRead = async (ids?: string[]) => {
+    try {
+      const response = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids }),
+      })
+      if (!response.ok) return
+
+      const data = await response.json()
+      const readAt = new Date().toISOString()
+      setUnreadCount(data.unreadCount)
+      setNotifications((prev) =>
+        prev.map((n) => (!ids || ids.includes(n.id) ? { ...n, readAt: n.readAt ?? readAt } : n))
+      )
+    } catch (err) {
+      console.error("Error marking notifications as read:", err)
+    }
+  }
+
+  return (
+    <section className="rounded-2xl bg-white p-6 shadow-lg">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="rounded-full bg-blue-100 p-2">
+            <Bell className="h-5 w-5 text-blue-600" />
+          </div>
+          <h2 className="text-xl font-bold text-gray-900">お知らせ</h2>
+          {unreadCount > 0 && (
+            <span className="rounded-full bg-red-500 px-2 py-0.5 text-xs font-semibold text-white">
+              {unreadCount}
+            </span>
+          )}
+        </div>
+        {unreadCount > 0 && (
+          <button
+            onClick={() => markAsRead()}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            すべて既読にする
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex h-24 items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-300 border-t-blue-600" />
+        </div>
+      ) : error ? (
+        <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-600">
+          {error}
+        </div>
+      ) : notifications.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500">お知らせはありません</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {notifications.map((notification) => {
+            const content = (
+              <>
+                <p
+                  className={`truncate text-sm ${
+                    notification.readAt ? "text-gray-700" : "font-semibold text-gray-900"
+                  }`}
+                >
+                  {notification.title}
+                </p>
+                {notification.body && (
+                  <p className="truncate text-xs text-gray-500">{notification.body}</p>
+                )}
+                <p className="text-xs text-gray-400">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </p>
+              </>
+            )
+
+            return (
+              <li key={notification.id} className="flex items-start gap-3 py-3">
+                <span
+                  className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${
+                    notification.readAt ? "bg-transparent" : "bg-blue-600"
+                  }`}
+                />
+                {notification.link ? (
+                  <Link
+                    href={notification.link}
+                    onClick={() => !notification.readAt && markAsRead([notification.id])}
+                    className="min-w-0 flex-1 hover:text-blue-600"
+                  >
+                    {content}
+                  </Link>
+                ) : (
+                  <button
+                    onClick={() => !notification.readAt && markAsRead([notification.id])}
+                    className="min-w-0 flex-1 text-left"
+                  >
+                    {content}
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
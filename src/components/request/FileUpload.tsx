@@ -1,7 +1,7 @@
 /**
  * File Upload Component
  * Handles file uploads with drag-and-drop support
- * Max 10MB per file
+ * Files are stored through /api/upload; max 10MB per file
  */
 
 'use client';
@@ -17,6 +17,8 @@ interface FileUploadProps {
   maxSizeMB?: number;
   accept?: string;
   disabled?: boolean;
+  /** Upload purpose: request, proposal or proposal message attachments */
+  purpose?: 'request' | 'proposal' | 'message';
 }
 
 interface UploadedFile {
@@ -32,32 +34,34 @@ export function FileUpload({
   maxSizeMB = 10,
   accept = '*/*',
   disabled = false,
+  purpose = 'request',
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [files, setFiles] = useState<UploadedFile[]>([]);
 
-  // Convert file to base64 for demo purposes
-  // In production, use a proper file upload service like Vercel Blob
   const uploadFile = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      // Check file size
-      if (file.size > maxSizeMB * 1024 * 1024) {
-        reject(new Error(`File size exceeds ${maxSizeMB}MB`));
-        return;
-      }
+    // Check file size
+    if (file.size > maxSizeMB * 1024 * 1024) {
+      throw new Error(`File size exceeds ${maxSizeMB}MB`);
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('purpose', purpose);
 
-      // For demo: return a placeholder URL
-      // In production: upload to cloud storage
-      const reader = new FileReader();
-      reader.onload = () => {
-        // Create a mock URL - in production, this would be your storage URL
-        const mockUrl = `https://storage.example.com/${Date.now()}-${file.name}`;
-        resolve(mockUrl);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
+    const response = await fetch('/api/upload', {
+      method: 'POST',
+      body: formData,
     });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `Failed to upload ${file.name}`);
+    }
+
+    const data = await response.json();
+    return data.url;
   };
 
   const handleFiles = useCallback(
@@ -93,7 +97,7 @@ export function FileUpload({
         setUploading(false);
       }
     },
-    [files, maxFiles, onChange, disabled, maxSizeMB]
+    [files, maxFiles, onChange, disabled, maxSizeMB, purpose]
   );
 
   const handleDrop = useCallback(
@@ -132,6 +136,13 @@ export function FileUpload({
       const newFiles = files.filter((_, i) => i !== index);
       setFiles(newFiles);
       onChange?.(newFiles.map((f) => f.url));
+
+      // Files already part of submitted content are kept by the server
+      fetch('/api/upload', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: files[index].url }),
+      }).catch((error) => console.error('Error deleting file:', error));
     },
     [files, onChange]
   );
@@ -0,0 +1,129 @@
+/**
+ * Request Amendments Component
+ * Lists the amendments made to a published request with the changed fields
+ * Highlights changes made after the viewer's proposal
+ */
+
+'use client';
+
+import React from 'react';
+import { Currency, MoneyUnit } from '@prisma/client';
+import { formatDate } from '@/lib/utils/request';
+import { currencyLabels, moneyUnitLabels } from '@/lib/utils/money';
+import { RequestFieldChange, requestVersionFieldLabels } from '@/lib/requests/versions';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+
+export interface RequestVersionEntry {
+  id: string;
+  version: number;
+  changes: RequestFieldChange[];
+  note: string | null;
+  createdAt: string;
+}
+
+interface RequestAmendmentsProps {
+  versions: RequestVersionEntry[];
+  currentVersion: number;
+  /** Version the viewing company's proposal was written against */
+  proposalVersion?: number | null;
+  labels?: {
+    techStacks: Array<{ id: string; name: string }>;
+    specialties: Array<{ id: string; name: string }>;
+  };
+  className?: string;
+}
+
+const dateFields = ['preferredStart', 'deadline', 'quoteDeadline'];
+const budgetFields = ['budgetMin', 'budgetMax'];
+
+export function RequestAmendments({
+  versions,
+  currentVersion,
+  proposalVersion,
+  labels,
+  className,
+}: RequestAmendmentsProps) {
+  const amendments = versions.filter((entry) => entry.version > 1).reverse();
+  if (amendments.length === 0) return null;
+
+  const names = new Map(
+    [...(labels?.techStacks ?? []), ...(labels?.specialties ?? [])].map((item) => [
+      item.id,
+      item.name,
+    ])
+  );
+
+  const formatValue = (field: string, value: RequestFieldChange['from']): string => {
+    if (value === null || value === '') return '—';
+    if (dateFields.includes(field) && typeof value === 'string') return formatDate(value);
+    if (budgetFields.includes(field) && typeof value === 'number') {
+      return value.toLocaleString();
+    }
+    if (field === 'budgetCurrency') return currencyLabels[value as Currency] ?? String(value);
+    if (field === 'budgetUnit') return moneyUnitLabels[value as MoneyUnit] ?? String(value);
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (Array.isArray(value)) {
+      if (value.length === 0) return '—';
+      return value
+        .map((item) => {
+          // Requirement items are objects; show their titles
+          if (item && typeof item === 'object' && 'title' in item) return String(item.title);
+          return names.get(String(item)) ?? String(item);
+        })
+        .join(', ');
+    }
+    return String(value);
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Amendments</CardTitle>
+        {proposalVersion && proposalVersion < currentVersion && (
+          <p className="text-sm text-yellow-800">
+            Your proposal was written against version {proposalVersion}. Changes made since then are
+            highlighted.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-6">
+          {amendments.map((entry) => {
+            const isNew = !!proposalVersion && entry.version > proposalVersion;
+
+            return (
+              <li
+                key={entry.id}
+                className={isNew ? 'rounded-lg border border-yellow-200 bg-yellow-50 p-3' : ''}
+              >
+                <div className="mb-2 flex items-center gap-2">
+                  <Badge variant="secondary">v{entry.version}</Badge>
+                  <span className="text-xs text-gray-500">{formatDate(entry.createdAt)}</span>
+                </div>
+                {entry.note && <p className="mb-2 text-sm text-gray-700">{entry.note}</p>}
+                <dl className="space-y-2 text-sm">
+                  {entry.changes.map((change) => (
+                    <div key={change.field}>
+                      <dt className="font-medium text-gray-900">
+                        {requestVersionFieldLabels[change.field] ?? change.field}
+                      </dt>
+                      <dd className="mt-1 grid gap-1 sm:grid-cols-2">
+                        <span className="whitespace-pre-wrap text-gray-500 line-through">
+                          {formatValue(change.field, change.from)}
+                        </span>
+                        <span className="whitespace-pre-wrap text-gray-900">
+                          {formatValue(change.field, change.to)}
+                        </span>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * Request Questions Component
+ * Clarification Q&A of a request: invited companies ask, the buyer answers
+ * privately or publicly. Companies see their own questions and the public
+ * answers of other companies as an anonymized FAQ.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { QuestionVisibility } from '@prisma/client';
+import { formatDate } from '@/lib/utils/request';
+import { questionVisibilityLabels } from '@/lib/requests/questions';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+export interface RequestQuestionEntry {
+  id: string;
+  question: string;
+  answer: string | null;
+  visibility: QuestionVisibility;
+  answeredAt: string | null;
+  createdAt: string;
+  isOwn: boolean;
+  company: { id: string; name: string } | null;
+}
+
+interface RequestQuestionsProps {
+  requestId: string;
+  questions: RequestQuestionEntry[];
+  canAsk: boolean;
+  canAnswer: boolean;
+  /** Called after a question was asked or answered */
+  onChange: () => void;
+  className?: string;
+}
+
+interface AnswerDraft {
+  answer: string;
+  visibility: QuestionVisibility;
+}
+
+export function RequestQuestions({
+  requestId,
+  questions,
+  canAsk,
+  canAnswer,
+  onChange,
+  className,
+}: RequestQuestionsProps) {
+  const [question, setQuestion] = useState('');
+  const [drafts, setDrafts] = useState<Record<string, AnswerDraft>>({});
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (questions.length === 0 && !canAsk) return null;
+
+  // Unanswered questions first for the buyer
+  const sorted = canAnswer
+    ? [...questions].sort((a, b) => Number(!!a.answeredAt) - Number(!!b.answeredAt))
+    : questions;
+
+  const send = async (key: string, url: string, method: string, body: unknown) => {
+    setError(null);
+    setPendingId(key);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save');
+      }
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+      return false;
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+
+    if (await send('ask', `/api/requests/${requestId}/questions`, 'POST', { question })) {
+      setQuestion('');
+      onChange();
+    }
+  };
+
+  const handleAnswer = async (id: string) => {
+    const draft = drafts[id];
+    if (!draft?.answer.trim()) return;
+
+    if (await send(id, `/api/requests/${requestId}/questions/${id}`, 'PATCH', draft)) {
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      onChange();
+    }
+  };
+
+  const updateDraft = (id: string, changes: Partial<AnswerDraft>) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [id]: { ...(prev[id] ?? { answer: '', visibility: 'PRIVATE' }), ...changes },
+    }));
+  };
+
+  return (
+    <Card id="questions" className={className}>
+      <CardHeader>
+        <CardTitle>Questions & Answers</CardTitle>
+        <p className="text-sm text-gray-500">
+          {canAnswer
+            ? 'Public answers are shared with every invited company without the name of the company that asked.'
+            : 'Public answers are shared with every invited company without your company name.'}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        {sorted.length === 0 ? (
+          <p className="text-sm text-gray-500">No questions yet</p>
+        ) : (
+          <ol className="space-y-6">
+            {sorted.map((entry) => {
+              const draft = drafts[entry.id] ?? { answer: '', visibility: 'PRIVATE' };
+
+              return (
+                <li key={entry.id}>
+                  <div className="mb-1 flex flex-wrap items-center gap-2">
+                    {entry.company && <Badge variant="secondary">{entry.company.name}</Badge>}
+                    {entry.isOwn && <Badge variant="info">Your question</Badge>}
+                    {entry.answeredAt ? (
+                      <Badge variant={entry.visibility === 'PUBLIC' ? 'success' : 'outline'}>
+                        {questionVisibilityLabels[entry.visibility]}
+                      </Badge>
+                    ) : (
+                      <Badge variant="warning">Awaiting answer</Badge>
+                    )}
+                    <span className="text-xs text-gray-500">{formatDate(entry.createdAt)}</span>
+                  </div>
+                  <p className="whitespace-pre-wrap font-medium text-gray-900">
+                    Q. {entry.question}
+                  </p>
+
+                  {entry.answer && (
+                    <p className="mt-2 whitespace-pre-wrap border-l-4 border-blue-200 pl-3 text-gray-700">
+                      A. {entry.answer}
+                    </p>
+                  )}
+
+                  {canAnswer && !entry.answeredAt && (
+                    <div className="mt-3 space-y-2">
+                      <Textarea
+                        value={draft.answer}
+                        onChange={(e) => updateDraft(entry.id, { answer: e.target.value })}
+                        maxLength={4000}
+                        placeholder="Your answer"
+                      />
+                      <div className="flex flex-wrap items-center gap-4 text-sm">
+                        {(['PRIVATE', 'PUBLIC'] as const).map((visibility) => (
+                          <label key={visibility} className="flex items-center gap-1">
+                            <input
+                              type="radio"
+                              name={`visibility-${entry.id}`}
+                              checked={draft.visibility === visibility}
+                              onChange={() => updateDraft(entry.id, { visibility })}
+                            />
+                            {questionVisibilityLabels[visibility]}
+                          </label>
+                        ))}
+                        <Button
+                          size="sm"
+                          disabled={pendingId === entry.id || !draft.answer.trim()}
+                          onClick={() => handleAnswer(entry.id)}
+                        >
+                          {pendingId === entry.id ? 'Sending...' : 'Answer'}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {canAsk && (
+          <form onSubmit={handleAsk} className="mt-6 space-y-2 border-t pt-4">
+            <Textarea
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              maxLength={2000}
+              placeholder="Ask the buyer a question about this request"
+            />
+            <Button type="submit" size="sm" disabled={pendingId === 'ask' || !question.trim()}>
+              {pendingId === 'ask' ? 'Sending...' : 'Ask Question'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * Requirement Items Editor Component
+ * Editable list of structured requirement items (title, MoSCoW priority,
+ * description, acceptance notes) for the request wizard
+ */
+
+'use client';
+
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { RequirementItem, RequirementPriority } from '@/lib/validations/request';
+import { newRequirementItem, requirementPriorityLabels } from '@/lib/requests/coverage';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface RequirementItemsEditorProps {
+  value: RequirementItem[];
+  onChange: (value: RequirementItem[]) => void;
+  maxItems?: number;
+  className?: string;
+}
+
+export function RequirementItemsEditor({
+  value,
+  onChange,
+  maxItems = 50,
+  className,
+}: RequirementItemsEditorProps) {
+  const updateItem = (id: string, changes: Partial<RequirementItem>) => {
+    onChange(value.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (id: string) => {
+    onChange(value.filter((item) => item.id !== id));
+  };
+
+  return (
+    <div className={className}>
+      <div className="space-y-4">
+        {value.map((item, index) => (
+          <div key={item.id} className="rounded-lg border p-4">
+            <div className="flex items-start gap-3">
+              <span className="mt-2 text-sm text-gray-500">{index + 1}.</span>
+              <div className="flex-1 space-y-3">
+                <div className="flex gap-3">
+                  <div className="flex-1">
+                    <Label htmlFor={`${item.id}-title`}>要件名</Label>
+                    <Input
+                      id={`${item.id}-title`}
+                      placeholder="例: 会員登録・ログイン"
+                      value={item.title}
+                      onChange={(e) => updateItem(item.id, { title: e.target.value })}
+                    />
+                  </div>
+                  <div className="w-40">
+                    <Label>優先度</Label>
+                    <Select
+                      value={item.priority}
+                      onValueChange={(priority) =>
+                        updateItem(item.id, { priority: priority as RequirementPriority })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(requirementPriorityLabels).map(([priority, label]) => (
+                          <SelectItem key={priority} value={priority}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor={`${item.id}-description`}>説明 (任意)</Label>
+                  <Textarea
+                    id={`${item.id}-description`}
+                    rows={2}
+                    value={item.description ?? ''}
+                    onChange={(e) =>
+                      updateItem(item.id, { description: e.target.value || undefined })
+                    }
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor={`${item.id}-acceptance`}>受入条件 (任意)</Label>
+                  <Textarea
+                    id={`${item.id}-acceptance`}
+                    rows={2}
+                    placeholder="完了とみなす条件を記入してください"
+                    value={item.acceptanceNotes ?? ''}
+                    onChange={(e) =>
+                      updateItem(item.id, { acceptanceNotes: e.target.value || undefined })
+                    }
+                  />
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => removeItem(item.id)}
+                className="mt-2 text-gray-400 hover:text-red-600"
+                aria-label="要件を削除"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500">
+          要件を追加すると、各社の提案で対応可否を比較できます
+        </p>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="mt-4"
+        disabled={value.length >= maxItems}
+        onClick={() => onChange([...value, newRequirementItem()])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        要件を追加
+      </Button>
+    </div>
+  );
+}
@@ -10,7 +10,8 @@ import { BadgeCheck, Pencil, Trash2 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import { ProjectType } from "@prisma/client";
+import { Currency, MoneyUnit, ProjectType } from "@prisma/client";
+import { formatMoney } from "@/lib/utils/money";
 
 interface ReviewCardProps {
   review: {
@@ -21,6 +22,10 @@ interface ReviewCardProps {
     projectType?: ProjectType | null;
     projectDuration?: string | null;
     projectCost?: string | null;
+    projectCostAmount?: number | null;
+    projectCostCurrency?: Currency;
+    projectCostTaxIncluded?: boolean;
+    projectCostUnit?: MoneyUnit;
     isVerified: boolean;
     createdAt: string;
     user: {
@@ -180,7 +185,14 @@ export function ReviewCard({
           )}
           {review.projectCost && (
             <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-700">
-              Cost: {review.projectCost}
+              Cost:{" "}
+              {review.projectCostAmount
+                ? formatMoney(review.projectCostAmount, {
+                    currency: review.projectCostCurrency,
+                    taxIncluded: review.projectCostTaxIncluded,
+                    unit: review.projectCostUnit,
+                  })
+                : review.projectCost}
             </span>
           )}
         </div>
@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+import { afterAll, describe, expect, it } from "@jest/globals"
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { LocalMailAdapter, toMimeMessage } from "../local"
+
+const root = mkdtempSync(path.join(tmpdir(), "mail-test-"))
+const message = {
+  to: "member@example.com",
+  subject: "新着の見積依頼",
+  text: "Hello",
+  html: "<p>Hello</p>",
+}
+
+afterAll(() => rmSync(root, { recursive: true, force: true }))
+
+describe("Local Mail", () => {
+  describe("toMimeMessage", () => {
+    it("should encode non-ASCII headers and both bodies", () => {
+      const mime = toMimeMessage(message, "noreply@example.com", new Date("2026-10-19T10:00:00Z"))
+
+      expect(mime).toContain("To: member@example.com")
+      expect(mime).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from("新着の見積依頼").toString("base64")}?=`
+      )
+      expect(mime).toContain("Content-Type: text/plain; charset=UTF-8")
+      expect(mime).toContain(Buffer.from("<p>Hello</p>").toString("base64"))
+    })
+  })
+
+  describe("LocalMailAdapter", () => {
+    it("should write each message as an .eml file", async () => {
+      await new LocalMailAdapter(root, "noreply@example.com").send(message)
+
+      const files = readdirSync(root)
+      expect(files).toHaveLength(1)
+      expect(files[0]).toMatch(/\.eml$/)
+      expect(readFileSync(path.join(root, files[0]), "utf8")).toContain("From: noreply@example.com")
+    })
+  })
+})
@@ -0,0 +1,23 @@
+/**
+ * Mail Adapter
+ *
+ * How outgoing email is delivered. Callers render the message (subject, text
+ * and HTML bodies); adapters only deliver it. The local adapter, which writes
+ * messages to disk, is the default; an SMTP or API-based adapter can
+ * implement the same interface.
+ */
+
+/**
+ * Rendered email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailAdapter {
+  /** Deliver a message */
+  send(message: MailMessage): Promise<void>;
+}
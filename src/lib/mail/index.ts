@@ -0,0 +1,29 @@
+/**
+ * Mail
+ *
+ * Adapter selection (MAIL_DRIVER) for outgoing email.
+ */
+
+import path from 'path';
+import { MailAdapter } from '@/lib/mail/adapter';
+import { LocalMailAdapter } from '@/lib/mail/local';
+
+let adapter: MailAdapter | undefined;
+
+/**
+ * Mail adapter configured by MAIL_DRIVER (default: local)
+ */
+export function getMailAdapter(): MailAdapter {
+  if (adapter) return adapter;
+
+  const driver = process.env.MAIL_DRIVER || 'local';
+  if (driver !== 'local') {
+    throw new Error(`Unsupported MAIL_DRIVER: ${driver}`);
+  }
+
+  adapter = new LocalMailAdapter(
+    path.resolve(process.env.MAIL_LOCAL_ROOT || 'mail'),
+    process.env.EMAIL_FROM || 'みつもりくん <noreply@localhost>'
+  );
+  return adapter;
+}
@@ -0,0 +1,76 @@
+/**
+ * Local Mail
+ *
+ * Writes each message as an .eml file under a directory on the server
+ * (MAIL_LOCAL_ROOT, default `./mail`) instead of sending it, so emails can be
+ * opened in a mail client during development.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { MailAdapter, MailMessage } from '@/lib/mail/adapter';
+
+/**
+ * Encode a header value that may contain non-ASCII text (RFC 2047)
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Base64 body wrapped at 76 characters
+ */
+function encodeBody(value: string): string {
+  return (
+    Buffer.from(value, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+}
+
+/**
+ * Message as a multipart/alternative MIME document
+ */
+export function toMimeMessage(message: MailMessage, from: string, date: Date = new Date()): string {
+  const boundary = `mitsumorikun-${randomUUID()}`;
+  return [
+    `From: ${encodeHeader(from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+export class LocalMailAdapter implements MailAdapter {
+  constructor(
+    private readonly root: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const now = new Date();
+    const fileName = `${now.toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+
+    await mkdir(this.root, { recursive: true });
+    await writeFile(path.join(this.root, fileName), toMimeMessage(message, this.from, now));
+  }
+}
@@ -0,0 +1,401 @@
+import { describe, expect, it } from "@jest/globals"
+import {
+  calculateBudgetScore,
+  calculateMatchScore,
+  calculateSpecialtyScore,
+  calculateTechStackScore,
+  findMatchingCompanies,
+  findMatchingRequests,
+  resolveMatchingWeights,
+  validateMatchingWeights,
+} from "../algorithm"
+import { buildTechStackTaxonomy } from "../taxonomy"
+import { CompanyWithRelations, RequestWithRequirements } from "@/types/matching"
+
+const taxonomy = buildTechStackTaxonomy([
+  { id: "js", name: "JavaScript", slug: "javascript", aliases: ["JS"], parentId: null },
+  { id: "react", name: "React", slug: "react", aliases: [], parentId: "js" },
+  { id: "nextjs", name: "Next.js", slug: "nextjs", aliases: ["NextJS"], parentId: "react" },
+  { id: "remix", name: "Remix", slug: "remix", aliases: [], parentId: "react" },
+  { id: "pg", name: "PostgreSQL", slug: "postgresql", aliases: ["Postgres"], parentId: null },
+])
+
+function makeCompany(overrides: Partial<CompanyWithRelations> = {}): CompanyWithRelations {
+  return {
+    id: "company-1",
+    name: "Acme Inc.",
+    nameKana: null,
+    slug: "acme",
+    logo: null,
+    coverImage: null,
+    description: null,
+    foundedYear: null,
+    employeeCount: null,
+    capital: null,
+    address: null,
+    phone: null,
+    email: null,
+    website: null,
+    isVerified: true,
+    verifiedAt: null,
+    averageRating: 4,
+    reviewCount: 10,
+    projectCount: 0,
+    autoReply: false,
+    acceptsNewProjects: true,
+    maxConcurrentProjects: null,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    techStacks: [
+      { techStack: { id: "ts-1", name: "React", slug: "react", category: "FRAMEWORK" } },
+      { techStack: { id: "ts-2", name: "TypeScript", slug: "typescript", category: "LANGUAGE" } },
+    ],
+    specialties: [
+      { specialty: { id: "sp-1", name: "Web Development", slug: "web-development" } },
+    ],
+    ...overrides,
+  }
+}
+
+function makeRequest(overrides: Partial<RequestWithRequirements> = {}): RequestWithRequirements {
+  return {
+    id: "request-1",
+    userId: "user-1",
+    title: "Corporate website",
+    description: "Renewal of our corporate website",
+    projectType: "WEB_DEVELOPMENT",
+    visibility: "PUBLIC",
+    buyerIndustry: null,
+    buyerSize: null,
+    budget: null,
+    budgetMin: 1000000,
+    budgetMax: 1500000,
+    budgetCurrency: "JPY",
+    budgetTaxIncluded: false,
+    budgetUnit: "ONE_OFF",
+    deadline: null,
+    preferredStart: null,
+    quoteDeadline: null,
+    requirements: { version: 2, techStackIds: ["ts-1", "ts-2"], specialtyIds: [] },
+    attachments: [],
+    status: "PUBLISHED",
+    publishedAt: null,
+    closedAt: null,
+    version: 1,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    ...overrides,
+  }
+}
+
+describe("Matching Algorithm", () => {
+  describe("resolveMatchingWeights", () => {
+    it("should return default weights when no overrides are given", () => {
+      expect(resolveMatchingWeights()).toEqual({
+        techStackWeight: 0.4,
+        specialtyWeight: 0.3,
+        budgetWeight: 0.2,
+        ratingWeight: 0.1,
+      })
+    })
+
+    it("should merge overrides with defaults", () => {
+      const weights = resolveMatchingWeights({ techStackWeight: 0.3, budgetWeight: 0.3 })
+      expect(weights.techStackWeight).toBe(0.3)
+      expect(weights.budgetWeight).toBe(0.3)
+      expect(weights.specialtyWeight).toBe(0.3)
+    })
+  })
+
+  describe("validateMatchingWeights", () => {
+    it("should accept weights that add up to 1", () => {
+      const result = validateMatchingWeights({
+        techStackWeight: 0.1,
+        specialtyWeight: 0.2,
+        budgetWeight: 0.6,
+        ratingWeight: 0.1,
+      })
+      expect(result.valid).toBe(true)
+    })
+
+    it("should reject weights that do not add up to 1", () => {
+      const result = validateMatchingWeights({
+        techStackWeight: 0.4,
+        specialtyWeight: 0.3,
+        budgetWeight: 0.6,
+        ratingWeight: 0.1,
+      })
+      expect(result.valid).toBe(false)
+      expect(result.error).toContain("add up to 1")
+    })
+
+    it("should reject negative weights", () => {
+      const result = validateMatchingWeights({
+        techStackWeight: -0.2,
+        specialtyWeight: 0.5,
+        budgetWeight: 0.6,
+        ratingWeight: 0.1,
+      })
+      expect(result.valid).toBe(false)
+    })
+  })
+
+  describe("calculateTechStackScore", () => {
+    it("should give full marks when there are no requirements", () => {
+      expect(calculateTechStackScore(["React"], []).score).toBe(40)
+    })
+
+    it("should match names case-insensitively without a taxonomy", () => {
+      const result = calculateTechStackScore(["react", "PostgreSQL"], ["React", "PostgreSQL"])
+      expect(result.score).toBe(40)
+      expect(result.matched).toEqual(["React", "PostgreSQL"])
+    })
+
+    it("should treat aliases as exact matches", () => {
+      const result = calculateTechStackScore(["Postgres"], ["PostgreSQL"], taxonomy)
+      expect(result.score).toBe(40)
+      expect(result.matched).toEqual(["PostgreSQL"])
+      expect(result.related).toEqual([])
+    })
+
+    it("should give full credit when a company technology implies the requested one", () => {
+      const result = calculateTechStackScore(["Next.js"], ["React"], taxonomy)
+      expect(result.score).toBe(40)
+      expect(result.related).toEqual([
+        { requested: "React", matchedBy: "Next.js", relation: "implies" },
+      ])
+    })
+
+    it("should give partial credit for parent and sibling technologies", () => {
+      const parent = calculateTechStackScore(["React"], ["Next.js"], taxonomy)
+      const sibling = calculateTechStackScore(["Remix"], ["Next.js"], taxonomy)
+      const unrelated = calculateTechStackScore(["PostgreSQL"], ["Next.js"], taxonomy)
+
+      expect(parent.score).toBe(20)
+      expect(parent.related[0].relation).toBe("parent")
+      expect(sibling.score).toBe(10)
+      expect(sibling.related[0].relation).toBe("sibling")
+      expect(unrelated.score).toBe(0)
+      expect(unrelated.missing).toEqual(["Next.js"])
+    })
+
+    it("should prefer the closest relation when several company technologies apply", () => {
+      const result = calculateTechStackScore(["React", "Remix", "NextJS"], ["Next.js"], taxonomy)
+      expect(result.matched).toEqual(["Next.js"])
+      expect(result.related).toEqual([])
+    })
+  })
+
+  describe("calculateSpecialtyScore", () => {
+    const specialties = [
+      { id: "sp-1", name: "Web Development" },
+      { id: "sp-2", name: "UI/UX Design" },
+    ]
+
+    it("should match requested specialties by ID", () => {
+      const result = calculateSpecialtyScore(specialties, "WEB_DEVELOPMENT", ["sp-2"])
+      expect(result.score).toBe(30)
+      expect(result.matched).toContain("UI/UX Design")
+    })
+
+    it("should give no secondary credit for unknown specialty IDs", () => {
+      const result = calculateSpecialtyScore(specialties, "WEB_DEVELOPMENT", ["sp-9"])
+      expect(result.score).toBe(15)
+    })
+  })
+
+  describe("calculateBudgetScore", () => {
+    const profile = { typicalMin: 1000000, typicalMax: 2000000, median: 1500000, sampleSize: 4 }
+
+    it("should return a neutral score without a budget", () => {
+      expect(calculateBudgetScore(undefined, undefined, profile)).toEqual({
+        score: 15,
+        compatibility: "acceptable",
+        basis: "none",
+      })
+    })
+
+    it("should be perfect when the budget covers the company's typical range", () => {
+      const result = calculateBudgetScore(800000, 2500000, profile)
+      expect(result.score).toBe(20)
+      expect(result.compatibility).toBe("perfect")
+      expect(result.basis).toBe("priceProfile")
+    })
+
+    it("should scale with partial overlap", () => {
+      const result = calculateBudgetScore(1500000, 3000000, profile)
+      expect(result.compatibility).toBe("good")
+      expect(result.score).toBeLessThan(15)
+    })
+
+    it("should report a mismatch when the company prices clearly above the budget", () => {
+      const result = calculateBudgetScore(200000, 500000, profile)
+      expect(result.compatibility).toBe("mismatch")
+      expect(result.score).toBeLessThan(5)
+    })
+
+    it("should report a mismatch when the company prices clearly below the budget", () => {
+      const result = calculateBudgetScore(10000000, 20000000, profile)
+      expect(result.compatibility).toBe("mismatch")
+    })
+
+    it("should treat a small gap as a near miss", () => {
+      const result = calculateBudgetScore(500000, 900000, profile)
+      expect(result.compatibility).toBe("acceptable")
+    })
+
+    it("should support one-sided budgets when history is available", () => {
+      expect(calculateBudgetScore(undefined, 3000000, profile).compatibility).toBe("perfect")
+      expect(calculateBudgetScore(undefined, 300000, profile).compatibility).toBe("mismatch")
+    })
+
+    it("should fall back to the range heuristic without history", () => {
+      const result = calculateBudgetScore(1000000, 1300000)
+      expect(result.compatibility).toBe("perfect")
+      expect(result.score).toBe(18)
+      expect(result.basis).toBe("budgetRange")
+    })
+  })
+
+  describe("calculateMatchScore", () => {
+    it("should score the TechStack IDs from the requirements", () => {
+      const score = calculateMatchScore(makeCompany(), makeRequest())
+      expect(score.techStackScore).toBe(40)
+      expect(score.matchedTechStacks).toEqual(["React", "TypeScript"])
+
+      const partial = calculateMatchScore(
+        makeCompany(),
+        makeRequest({ requirements: { version: 2, techStackIds: ["ts-1", "ts-9"], specialtyIds: [] } })
+      )
+      expect(partial.techStackScore).toBeLessThan(40)
+      expect(partial.matchedTechStacks).toEqual(["React"])
+    })
+
+    it("should keep the total on a 0-100 scale with default weights", () => {
+      const score = calculateMatchScore(makeCompany(), makeRequest())
+      expect(score.total).toBeGreaterThanOrEqual(0)
+      expect(score.total).toBeLessThanOrEqual(100)
+      expect(score.weights.techStackWeight).toBe(0.4)
+    })
+
+    it("should give full marks when every factor is at its maximum", () => {
+      const weights = {
+        techStackWeight: 0.25,
+        specialtyWeight: 0.25,
+        budgetWeight: 0.25,
+        ratingWeight: 0.25,
+      }
+      const score = calculateMatchScore(
+        makeCompany({ averageRating: 5, reviewCount: 50 }),
+        makeRequest({ requirements: null, budgetMin: null, budgetMax: null }),
+        weights
+      )
+      expect(score.techStackScore).toBe(25)
+      expect(score.ratingScore).toBe(25)
+      expect(score.total).toBeLessThanOrEqual(100)
+    })
+
+    it("should let weights change the ranking", () => {
+      const strongTech = makeCompany({ id: "tech", averageRating: 2, reviewCount: 1 })
+      const strongRating = makeCompany({
+        id: "rating",
+        averageRating: 5,
+        reviewCount: 60,
+        techStacks: [],
+      })
+      const request = makeRequest()
+
+      const techFirst = { techStackWeight: 0.7, specialtyWeight: 0.1, budgetWeight: 0.1, ratingWeight: 0.1 }
+      const ratingFirst = { techStackWeight: 0.1, specialtyWeight: 0.1, budgetWeight: 0.1, ratingWeight: 0.7 }
+
+      expect(calculateMatchScore(strongTech, request, techFirst).total).toBeGreaterThan(
+        calculateMatchScore(strongRating, request, techFirst).total
+      )
+      expect(calculateMatchScore(strongRating, request, ratingFirst).total).toBeGreaterThan(
+        calculateMatchScore(strongTech, request, ratingFirst).total
+      )
+    })
+
+    it("should throw when weights do not add up to 1", () => {
+      expect(() =>
+        calculateMatchScore(makeCompany(), makeRequest(), { budgetWeight: 0.9 })
+      ).toThrow()
+    })
+  })
+
+  describe("findMatchingCompanies", () => {
+    it("should rank companies by weighted score", () => {
+      const results = findMatchingCompanies(
+        [makeCompany({ id: "a", techStacks: [] }), makeCompany({ id: "b" })],
+        makeRequest(),
+        undefined,
+        { minScore: 0 }
+      )
+      expect(results.map((r) => r.company.id)).toEqual(["b", "a"])
+    })
+
+    it("should rank companies at capacity last by default", () => {
+      const full = makeCompany({
+        id: "full",
+        maxConcurrentProjects: 2,
+        workload: { activeProjects: 1, pendingInvitations: 1 },
+      })
+      const weaker = makeCompany({ id: "weaker", techStacks: [] })
+
+      const results = findMatchingCompanies([full, weaker], makeRequest(), undefined, {
+        minScore: 0,
+      })
+
+      expect(results.map((r) => r.company.id)).toEqual(["weaker", "full"])
+      expect(results[1].availability?.status).toBe("at_capacity")
+    })
+
+    it("should leave out companies at capacity with the exclude policy", () => {
+      const full = makeCompany({
+        id: "full",
+        maxConcurrentProjects: 1,
+        workload: { activeProjects: 1, pendingInvitations: 0 },
+      })
+
+      const results = findMatchingCompanies(
+        [full, makeCompany({ id: "open" })],
+        makeRequest(),
+        undefined,
+        { minScore: 0, capacityPolicy: "exclude" }
+      )
+
+      expect(results.map((r) => r.company.id)).toEqual(["open"])
+    })
+  })
+
+  describe("findMatchingRequests", () => {
+    it("should rank requests for a company and drop those below the minimum score", () => {
+      const fit = makeRequest({ id: "fit" })
+      const partial = makeRequest({
+        id: "partial",
+        requirements: { version: 2, techStackIds: ["ts-1", "ts-9"], specialtyIds: [] },
+      })
+      const unrelated = makeRequest({
+        id: "unrelated",
+        projectType: "AI_ML",
+        budgetMin: 100000000,
+        budgetMax: 200000000,
+        requirements: { version: 2, techStackIds: ["ts-8", "ts-9"], specialtyIds: [] },
+      })
+
+      const results = findMatchingRequests(makeCompany(), [unrelated, partial, fit], {
+        minScore: 50,
+      })
+
+      expect(results.map((r) => r.request.id)).toEqual(["fit", "partial"])
+      expect(results[0].matchScore.total).toBe(
+        calculateMatchScore(makeCompany(), fit).total
+      )
+    })
+
+    it("should respect maxResults", () => {
+      const requests = [makeRequest({ id: "a" }), makeRequest({ id: "b" })]
+      expect(findMatchingRequests(makeCompany(), requests, { maxResults: 1 })).toHaveLength(1)
+    })
+  })
+})
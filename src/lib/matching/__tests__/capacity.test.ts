@@ -0,0 +1,43 @@
+import { describe, expect, it } from "@jest/globals"
+import { getCompanyAvailability } from "../capacity"
+
+describe("getCompanyAvailability", () => {
+  it("should treat companies without a capacity as available", () => {
+    expect(
+      getCompanyAvailability({
+        maxConcurrentProjects: null,
+        workload: { activeProjects: 12, pendingInvitations: 4 },
+      })
+    ).toEqual({
+      status: "available",
+      activeProjects: 12,
+      pendingInvitations: 4,
+      maxConcurrentProjects: null,
+      remainingCapacity: null,
+    })
+  })
+
+  it("should count pending invitations against capacity", () => {
+    const availability = getCompanyAvailability({
+      maxConcurrentProjects: 4,
+      workload: { activeProjects: 1, pendingInvitations: 2 },
+    })
+    expect(availability.status).toBe("limited")
+    expect(availability.remainingCapacity).toBe(1)
+  })
+
+  it("should report companies with no remaining capacity as at capacity", () => {
+    const availability = getCompanyAvailability({
+      maxConcurrentProjects: 2,
+      workload: { activeProjects: 3, pendingInvitations: 0 },
+    })
+    expect(availability.status).toBe("at_capacity")
+    expect(availability.remainingCapacity).toBe(0)
+  })
+
+  it("should treat a missing workload as idle", () => {
+    const availability = getCompanyAvailability({ maxConcurrentProjects: 3 })
+    expect(availability.status).toBe("available")
+    expect(availability.remainingCapacity).toBe(3)
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { compareMatchingConfigs, evaluateMatchingConfig, renderEvaluationMarkdown } from "../evaluation"
+import {
+  CompanyWithRelations,
+  MatchingEvaluationCase,
+  RequestWithRequirements,
+} from "@/types/matching"
+
+jest.mock("@/lib/prisma", () => ({ prisma: {} }))
+
+function makeCompany(overrides: Partial<CompanyWithRelations> = {}): CompanyWithRelations {
+  return {
+    id: "company-1",
+    name: "Acme Inc.",
+    nameKana: null,
+    slug: "acme",
+    logo: null,
+    coverImage: null,
+    description: null,
+    foundedYear: null,
+    employeeCount: null,
+    capital: null,
+    address: null,
+    phone: null,
+    email: null,
+    website: null,
+    isVerified: true,
+    verifiedAt: null,
+    averageRating: 3,
+    reviewCount: 5,
+    projectCount: 0,
+    autoReply: false,
+    acceptsNewProjects: true,
+    maxConcurrentProjects: null,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    techStacks: [
+      { techStack: { id: "ts-1", name: "React", slug: "react", category: "FRAMEWORK" } },
+    ],
+    specialties: [],
+    ...overrides,
+  }
+}
+
+function makeRequest(id: string): RequestWithRequirements {
+  return {
+    id,
+    userId: "user-1",
+    title: "Corporate website",
+    description: "Renewal of our corporate website",
+    projectType: "WEB_DEVELOPMENT",
+    visibility: "PUBLIC",
+    buyerIndustry: null,
+    buyerSize: null,
+    budget: null,
+    budgetMin: 1000000,
+    budgetMax: 1500000,
+    budgetCurrency: "JPY",
+    budgetTaxIncluded: false,
+    budgetUnit: "ONE_OFF",
+    deadline: null,
+    preferredStart: null,
+    quoteDeadline: null,
+    requirements: { version: 2, techStackIds: ["ts-1"], specialtyIds: [] },
+    attachments: [],
+    status: "CLOSED",
+    publishedAt: null,
+    closedAt: null,
+    version: 1,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+  }
+}
+
+// "react" knows the requested technology, "rated" has the better reviews
+const companies = [
+  makeCompany({ id: "react" }),
+  makeCompany({ id: "rated", techStacks: [], averageRating: 5, reviewCount: 60 }),
+]
+
+const cases: MatchingEvaluationCase[] = [
+  { request: makeRequest("r1"), selectedCompanyId: "react", companies },
+  { request: makeRequest("r2"), selectedCompanyId: "rated", companies },
+]
+
+const ratingOnly = { techStackWeight: 0, specialtyWeight: 0, budgetWeight: 0, ratingWeight: 1 }
+
+describe("Matching Evaluation", () => {
+  describe("evaluateMatchingConfig", () => {
+    it("should compute hit@k and MRR from the rank of the selected company", () => {
+      const result = evaluateMatchingConfig("default", cases, {}, [1, 2])
+
+      expect(result.cases.map((c) => c.rank)).toEqual([1, 2])
+      expect(result.hitAtK).toEqual({ 1: 0.5, 2: 1 })
+      expect(result.mrr).toBe(0.75)
+      expect(result.misses).toBe(0)
+    })
+
+    it("should rank with the given weights", () => {
+      const result = evaluateMatchingConfig("rating", cases, ratingOnly, [1])
+
+      expect(result.weights).toEqual(ratingOnly)
+      expect(result.cases.map((c) => c.rank)).toEqual([2, 1])
+    })
+
+    it("should count companies cut off by the config as misses", () => {
+      const result = evaluateMatchingConfig("top-1", cases, { maxResults: 1 }, [1])
+
+      expect(result.cases.map((c) => c.rank)).toEqual([1, null])
+      expect(result.misses).toBe(1)
+      expect(result.mrr).toBe(0.5)
+    })
+
+    it("should report zeros without cases", () => {
+      const result = evaluateMatchingConfig("empty", [], {}, [1])
+      expect(result.hitAtK).toEqual({ 1: 0 })
+      expect(result.mrr).toBe(0)
+    })
+  })
+
+  describe("renderEvaluationMarkdown", () => {
+    it("should render one table row per config", () => {
+      const report = compareMatchingConfigs(cases, { default: {}, rating: ratingOnly }, [1, 2])
+      const markdown = renderEvaluationMarkdown(report)
+
+      expect(report.caseCount).toBe(2)
+      expect(markdown).toContain("| Config | Weights (tech/specialty/budget/rating) | hit@1 | hit@2 | MRR | Not ranked |")
+      expect(markdown).toContain("| default | 0.4 / 0.3 / 0.2 / 0.1 | 50.0% | 100.0% | 0.750 | 0 |")
+      expect(markdown).toContain("| rating | 0 / 0 / 0 / 1 |")
+    })
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "@jest/globals"
+import { explainMatchScore } from "../explanations"
+import { MatchScore } from "@/types/matching"
+
+function makeScore(overrides: Partial<MatchScore> = {}): MatchScore {
+  return {
+    total: 72,
+    techStackScore: 32,
+    specialtyScore: 25,
+    budgetScore: 15,
+    ratingScore: 0,
+    matchedTechStacks: ["React", "TypeScript", "PostgreSQL"],
+    relatedTechStacks: [{ requested: "Node.js", matchedBy: "NestJS", relation: "implies" }],
+    missingTechStacks: ["Kubernetes"],
+    matchedSpecialties: ["Web Development"],
+    budgetCompatibility: "good",
+    budgetBasis: "priceProfile",
+    weights: {
+      techStackWeight: 0.4,
+      specialtyWeight: 0.3,
+      budgetWeight: 0.2,
+      ratingWeight: 0.1,
+    },
+    ...overrides,
+  }
+}
+
+const newCompany = { averageRating: 0, reviewCount: 0 }
+
+describe("Match Explanations", () => {
+  it("should explain tech coverage with the missing technologies", () => {
+    const reasons = explainMatchScore(makeScore(), newCompany, "en")
+
+    expect(reasons[0]).toEqual({
+      factor: "techStack",
+      tone: "positive",
+      text: "Covers 4 of 5 requested technologies; missing Kubernetes",
+    })
+    expect(reasons[1].text).toBe("NestJS experience counts as Node.js")
+  })
+
+  it("should localize reasons in Japanese", () => {
+    const reasons = explainMatchScore(makeScore(), newCompany, "ja")
+
+    expect(reasons[0].text).toBe("希望技術5件中4件に対応（不足: Kubernetes）")
+    expect(reasons.map((r) => r.text)).toContain("レビューなし — 評価スコアは中立")
+  })
+
+  it("should call out companies without reviews as neutral", () => {
+    const rating = explainMatchScore(makeScore(), newCompany, "en").find(
+      (r) => r.factor === "rating"
+    )
+
+    expect(rating).toEqual({
+      factor: "rating",
+      tone: "neutral",
+      text: "No reviews yet — neutral rating score",
+    })
+  })
+
+  it("should order reasons by weight and skip factors with zero weight", () => {
+    const reasons = explainMatchScore(
+      makeScore({
+        weights: { techStackWeight: 0.2, specialtyWeight: 0, budgetWeight: 0.5, ratingWeight: 0.3 },
+      }),
+      { averageRating: 4.5, reviewCount: 12 },
+      "en"
+    )
+
+    expect(reasons.map((r) => r.factor)).toEqual(["budget", "rating", "techStack", "techStack"])
+    expect(reasons[1].text).toBe("Rated 4.5 from 12 reviews")
+  })
+
+  it("should mark budget mismatches as negative", () => {
+    const budget = explainMatchScore(
+      makeScore({ budgetScore: 0, budgetCompatibility: "mismatch" }),
+      newCompany,
+      "en"
+    ).find((r) => r.factor === "budget")
+
+    expect(budget?.tone).toBe("negative")
+    expect(budget?.text).toBe("Past quotes are outside the budget")
+  })
+
+  it("should not mention past quotes when the budget score is a heuristic", () => {
+    const reasons = explainMatchScore(
+      makeScore({ budgetScore: 18, budgetCompatibility: "perfect", budgetBasis: "budgetRange" }),
+      newCompany,
+      "en"
+    )
+
+    expect(reasons.find((r) => r.factor === "budget")?.text).toBe(
+      "No past quotes; the budget range is easy to match"
+    )
+  })
+
+  it("should explain a neutral budget score when there is nothing to compare", () => {
+    const budget = explainMatchScore(
+      makeScore({ budgetCompatibility: "acceptable", budgetBasis: "none" }),
+      newCompany,
+      "en"
+    ).find((r) => r.factor === "budget")
+
+    expect(budget).toEqual({
+      factor: "budget",
+      tone: "neutral",
+      text: "Nothing to compare the budget with — neutral budget score",
+    })
+  })
+
+  it("should not assume past quotes for snapshots without a budget basis", () => {
+    const budget = explainMatchScore(
+      makeScore({ budgetCompatibility: "mismatch", budgetBasis: undefined }),
+      newCompany,
+      "en"
+    ).find((r) => r.factor === "budget")
+
+    expect(budget?.text).toBe("Outside the budget")
+  })
+
+  it("should handle requests without tech requirements", () => {
+    const reasons = explainMatchScore(
+      makeScore({ matchedTechStacks: [], relatedTechStacks: [], missingTechStacks: [] }),
+      newCompany,
+      "en"
+    )
+
+    expect(reasons[0].text).toBe("No technologies requested")
+  })
+
+  it("should fall back to a coverage count for snapshots without missing technologies", () => {
+    const reasons = explainMatchScore(
+      makeScore({ relatedTechStacks: undefined, missingTechStacks: undefined }),
+      newCompany,
+      "en"
+    )
+
+    expect(reasons[0].text).toBe("Covers 3 requested technologies")
+  })
+})
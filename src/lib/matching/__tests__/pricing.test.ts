@@ -0,0 +1,122 @@
+import { describe, expect, it } from "@jest/globals"
+import {
+  buildPriceProfile,
+  getComparableBudget,
+  getQuotePrice,
+  getReviewPrice,
+  parseCostString,
+  withPriceProfile,
+} from "../pricing"
+
+describe("Pricing Utilities", () => {
+  describe("parseCostString", () => {
+    it("should parse man-yen amounts", () => {
+      expect(parseCostString("300万円")).toBe(3000000)
+    })
+
+    it("should parse plain amounts with separators and symbols", () => {
+      expect(parseCostString("¥1,500,000")).toBe(1500000)
+      expect(parseCostString("2000000円")).toBe(2000000)
+    })
+
+    it("should parse oku-yen and decimal amounts", () => {
+      expect(parseCostString("1.2億円")).toBe(120000000)
+    })
+
+    it("should parse full-width digits", () => {
+      expect(parseCostString("５００万円")).toBe(5000000)
+    })
+
+    it("should return the midpoint of a range", () => {
+      expect(parseCostString("300〜500万円")).toBe(4000000)
+      expect(parseCostString("約100万-200万")).toBe(1500000)
+    })
+
+    it("should return null for unparseable values", () => {
+      expect(parseCostString("応相談")).toBeNull()
+      expect(parseCostString("")).toBeNull()
+      expect(parseCostString(null)).toBeNull()
+    })
+  })
+
+  describe("getQuotePrice", () => {
+    it("should compare quotes without tax", () => {
+      expect(getQuotePrice({ estimatedCost: 1100000, estimatedTaxIncluded: true })).toBe(1000000)
+      expect(getQuotePrice({ estimatedCost: null })).toBeNull()
+    })
+
+    it("should skip quotes in another currency or billing unit", () => {
+      expect(getQuotePrice({ estimatedCost: 10000, estimatedCurrency: "USD" })).toBeNull()
+      expect(getQuotePrice({ estimatedCost: 500000, estimatedUnit: "MONTHLY" })).toBeNull()
+    })
+  })
+
+  describe("getReviewPrice", () => {
+    it("should prefer the structured amount", () => {
+      expect(
+        getReviewPrice({
+          projectCost: "約100万円",
+          projectCostAmount: 2200000,
+          projectCostTaxIncluded: true,
+        })
+      ).toBe(2000000)
+    })
+
+    it("should parse the text of older reviews", () => {
+      expect(getReviewPrice({ projectCost: "120万円" })).toBe(1200000)
+    })
+  })
+
+  describe("getComparableBudget", () => {
+    it("should convert the budget to amounts without tax", () => {
+      expect(
+        getComparableBudget({ budgetMin: 1100000, budgetMax: 2200000, budgetTaxIncluded: true })
+      ).toEqual({ min: 1000000, max: 2000000 })
+    })
+
+    it("should treat budgets in other terms as unspecified", () => {
+      expect(
+        getComparableBudget({ budgetMin: 1000, budgetMax: 2000, budgetCurrency: "USD" })
+      ).toEqual({ min: undefined, max: undefined })
+    })
+  })
+
+  describe("buildPriceProfile", () => {
+    it("should return null without history", () => {
+      expect(buildPriceProfile([], [])).toBeNull()
+      expect(buildPriceProfile([null], ["応相談"])).toBeNull()
+    })
+
+    it("should use the full range for few samples", () => {
+      const profile = buildPriceProfile([1000000, 3000000], ["200万円"])
+      expect(profile).toEqual({
+        typicalMin: 1000000,
+        typicalMax: 3000000,
+        median: 2000000,
+        sampleSize: 3,
+      })
+    })
+
+    it("should trim outliers once there are enough samples", () => {
+      const profile = buildPriceProfile([
+        100000, 1000000, 1200000, 1400000, 1600000, 1800000, 50000000,
+      ])
+      expect(profile?.typicalMin).toBeGreaterThan(100000)
+      expect(profile?.typicalMax).toBeLessThan(50000000)
+      expect(profile?.sampleSize).toBe(7)
+    })
+  })
+
+  describe("withPriceProfile", () => {
+    it("should attach a profile built from quotes and reviews", () => {
+      const company = withPriceProfile({
+        id: "company-1",
+        requestCompanies: [{ estimatedCost: 800000 }],
+        reviews: [{ projectCost: "120万円" }],
+      })
+      expect(company.id).toBe("company-1")
+      expect(company.priceProfile?.typicalMin).toBe(800000)
+      expect(company.priceProfile?.typicalMax).toBe(1200000)
+    })
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { diffMatchRankings } from "../snapshots"
+
+jest.mock("@/lib/prisma", () => ({ prisma: {} }))
+
+describe("Match Snapshots", () => {
+  describe("diffMatchRankings", () => {
+    it("should report moved, unchanged, new and dropped companies", () => {
+      const previous = [
+        { companyId: "a", rank: 1, totalScore: 80 },
+        { companyId: "b", rank: 2, totalScore: 70 },
+        { companyId: "c", rank: 3, totalScore: 60 },
+      ]
+      const current = [
+        { companyId: "b", rank: 1, totalScore: 82 },
+        { companyId: "a", rank: 2, totalScore: 78 },
+        { companyId: "c", rank: 3, totalScore: 60 },
+        { companyId: "d", rank: 4, totalScore: 55 },
+      ]
+
+      expect(diffMatchRankings(previous, current)).toEqual([
+        { companyId: "b", previousRank: 2, currentRank: 1, scoreDelta: 12, status: "moved" },
+        { companyId: "a", previousRank: 1, currentRank: 2, scoreDelta: -2, status: "moved" },
+        { companyId: "c", previousRank: 3, currentRank: 3, scoreDelta: 0, status: "unchanged" },
+        { companyId: "d", previousRank: null, currentRank: 4, scoreDelta: null, status: "new" },
+      ])
+    })
+
+    it("should list dropped companies last", () => {
+      const changes = diffMatchRankings(
+        [
+          { companyId: "a", rank: 1, totalScore: 80 },
+          { companyId: "b", rank: 2, totalScore: 70 },
+        ],
+        [{ companyId: "b", rank: 1, totalScore: 70 }]
+      )
+
+      expect(changes[changes.length - 1]).toEqual({
+        companyId: "a",
+        previousRank: 1,
+        currentRank: null,
+        scoreDelta: null,
+        status: "dropped",
+      })
+    })
+
+    it("should return an empty list for two empty rankings", () => {
+      expect(diffMatchRankings([], [])).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "@jest/globals"
+import {
+  buildTechStackTaxonomy,
+  getTechStackRelation,
+  normalizeTechName,
+  resolveTechStack,
+} from "../taxonomy"
+
+const taxonomy = buildTechStackTaxonomy([
+  { id: "js", name: "JavaScript", slug: "javascript", aliases: ["JS"], parentId: null },
+  { id: "react", name: "React", slug: "react", aliases: [], parentId: "js" },
+  { id: "nextjs", name: "Next.js", slug: "nextjs", aliases: ["NextJS"], parentId: "react" },
+  { id: "remix", name: "Remix", slug: "remix", aliases: [], parentId: "react" },
+  { id: "vue", name: "Vue.js", slug: "vuejs", aliases: ["Vue"], parentId: "js" },
+])
+
+function node(id: string) {
+  const found = taxonomy.byId.get(id)
+  if (!found) throw new Error(`Unknown tech stack ${id}`)
+  return found
+}
+
+describe("Tech Stack Taxonomy", () => {
+  describe("normalizeTechName", () => {
+    it("should ignore case, whitespace and punctuation", () => {
+      expect(normalizeTechName("Next.js")).toBe("nextjs")
+      expect(normalizeTechName("next js")).toBe("nextjs")
+      expect(normalizeTechName("NEXT_JS")).toBe("nextjs")
+    })
+  })
+
+  describe("resolveTechStack", () => {
+    it("should resolve IDs, names, slugs and aliases", () => {
+      expect(resolveTechStack(taxonomy, "nextjs")?.id).toBe("nextjs")
+      expect(resolveTechStack(taxonomy, "Next.js")?.id).toBe("nextjs")
+      expect(resolveTechStack(taxonomy, "NextJS")?.id).toBe("nextjs")
+      expect(resolveTechStack(taxonomy, "vue")?.id).toBe("vue")
+      expect(resolveTechStack(taxonomy, "js")?.id).toBe("js")
+    })
+
+    it("should return undefined for unknown technologies", () => {
+      expect(resolveTechStack(taxonomy, "Elixir")).toBeUndefined()
+    })
+  })
+
+  describe("getTechStackRelation", () => {
+    it("should classify exact, implies, parent and sibling relations", () => {
+      expect(getTechStackRelation(taxonomy, node("react"), node("react"))).toBe("exact")
+      expect(getTechStackRelation(taxonomy, node("react"), node("nextjs"))).toBe("implies")
+      expect(getTechStackRelation(taxonomy, node("js"), node("nextjs"))).toBe("implies")
+      expect(getTechStackRelation(taxonomy, node("nextjs"), node("react"))).toBe("parent")
+      expect(getTechStackRelation(taxonomy, node("nextjs"), node("remix"))).toBe("sibling")
+    })
+
+    it("should return null for unrelated technologies", () => {
+      expect(getTechStackRelation(taxonomy, node("nextjs"), node("vue"))).toBeNull()
+    })
+
+    it("should not loop forever on cyclic parents", () => {
+      const cyclic = buildTechStackTaxonomy([
+        { id: "a", name: "A", slug: "a", aliases: [], parentId: "b" },
+        { id: "b", name: "B", slug: "b", aliases: [], parentId: "a" },
+        { id: "c", name: "C", slug: "c", aliases: [], parentId: null },
+      ])
+      const c = cyclic.byId.get("c")!
+      const a = cyclic.byId.get("a")!
+      expect(getTechStackRelation(cyclic, c, a)).toBeNull()
+    })
+  })
+})
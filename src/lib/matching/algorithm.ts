@@ -2,88 +2,235 @@
  * Intelligent Matching Algorithm
  *
  * Matches companies with quote requests based on:
- * - Tech stack compatibility (40 points)
- * - Specialty alignment (30 points)
- * - Budget compatibility (20 points)
- * - Company rating (10 points)
+ * - Tech stack compatibility (default weight 0.4)
+ * - Specialty alignment (default weight 0.3)
+ * - Budget compatibility (default weight 0.2)
+ * - Company rating (default weight 0.1)
  *
- * Total score: 0-100 points
+ * Each factor is normalized to 0-1 and multiplied by its weight.
+ * Weights must add up to 1, so the total score stays on a 0-100 scale.
  */
 
 import {
   MatchScore,
   MatchedCompany,
+  MatchedRequest,
   CompanyWithRelations,
   RequestWithRequirements,
   MatchingConfig,
   MatchingFilters,
+  MatchingWeights,
+  CompanyPriceProfile,
+  BudgetBasis,
+  BudgetCompatibility,
+  RelatedTechStack,
+  TechStackNode,
+  TechStackRelation,
+  TechStackTaxonomy,
 } from '@/types/matching';
+import {
+  buildTechStackTaxonomy,
+  getTechStackRelation,
+  normalizeTechName,
+  resolveTechStack,
+} from './taxonomy';
+import { getCompanyAvailability } from './capacity';
+import { getComparableBudget } from './pricing';
+
+/**
+ * Version of the scoring rules, stored with persisted match snapshots
+ *
+ * Bump whenever a change alters the scores produced for the same input.
+ */
+export const MATCHING_ALGORITHM_VERSION = '1.5.0';
 
 /**
  * Default matching configuration
  */
-const DEFAULT_CONFIG: Required<MatchingConfig> = {
+const DEFAULT_CONFIG: Required<Omit<MatchingConfig, 'techStackTaxonomy'>> = {
   techStackWeight: 0.4,
   specialtyWeight: 0.3,
   budgetWeight: 0.2,
   ratingWeight: 0.1,
   minScore: 30,
   maxResults: 20,
+  capacityPolicy: 'demote',
 };
 
+/**
+ * Maximum raw points awarded by each factor before weighting
+ */
+export const FACTOR_MAX_POINTS = {
+  techStack: 40,
+  specialty: 30,
+  budget: 20,
+  rating: 10,
+} as const;
+
+/**
+ * Allowed deviation from 1 when summing weights (absorbs float rounding)
+ */
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+/**
+ * Merge weight overrides with the default weights
+ */
+export function resolveMatchingWeights(config: MatchingConfig = {}): MatchingWeights {
+  return {
+    techStackWeight: config.techStackWeight ?? DEFAULT_CONFIG.techStackWeight,
+    specialtyWeight: config.specialtyWeight ?? DEFAULT_CONFIG.specialtyWeight,
+    budgetWeight: config.budgetWeight ?? DEFAULT_CONFIG.budgetWeight,
+    ratingWeight: config.ratingWeight ?? DEFAULT_CONFIG.ratingWeight,
+  };
+}
+
+/**
+ * Validate a weight set
+ *
+ * Every weight must be within 0-1 and the weights must add up to 1.
+ */
+export function validateMatchingWeights(weights: MatchingWeights): {
+  valid: boolean;
+  error?: string;
+} {
+  const values = Object.values(weights);
+
+  if (values.some((w) => !Number.isFinite(w) || w < 0 || w > 1)) {
+    return { valid: false, error: 'Each weight must be a number between 0 and 1' };
+  }
+
+  const sum = values.reduce((acc, w) => acc + w, 0);
+  if (Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+    return {
+      valid: false,
+      error: `Weights must add up to 1 (got ${Math.round(sum * 1000) / 1000})`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Credit per requested technology, by how the company's stack covers it
+ */
+const TECH_RELATION_CREDIT: Record<TechStackRelation, number> = {
+  exact: 1,
+  implies: 1,
+  parent: 0.5,
+  sibling: 0.25,
+};
+
+/**
+ * Preference order when several company technologies cover the same request
+ */
+const TECH_RELATION_PRIORITY: TechStackRelation[] = ['exact', 'implies', 'parent', 'sibling'];
+
 /**
  * Calculate tech stack matching score (0-40 points)
  *
  * Compares company's tech stacks with request requirements.
- * Uses Jaccard similarity coefficient for matching.
+ * Uses Jaccard similarity coefficient, with partial credit for related
+ * technologies when a taxonomy (aliases and parent/child relations) is given.
+ * Values may be TechStack IDs, names, slugs or aliases; names are compared
+ * ignoring case and punctuation ("Next.js" = "NextJS").
  */
 export function calculateTechStackScore(
   companyTechStacks: string[],
-  requestedTechStacks: string[]
-): { score: number; matched: string[] } {
+  requestedTechStacks: string[],
+  taxonomy?: TechStackTaxonomy
+): { score: number; matched: string[]; related: RelatedTechStack[]; missing: string[] } {
   if (!requestedTechStacks || requestedTechStacks.length === 0) {
-    return { score: 40, matched: [] }; // No requirements = perfect match
+    return { score: 40, matched: [], related: [], missing: [] }; // No requirements = perfect match
   }
 
-  if (companyTechStacks.length === 0) {
-    return { score: 0, matched: [] };
+  const lookup = taxonomy ?? buildTechStackTaxonomy([]);
+
+  // Unknown technologies become standalone entries keyed by their normalized name
+  const resolve = (value: string): TechStackNode =>
+    resolveTechStack(lookup, value) ?? {
+      id: `name:${normalizeTechName(value)}`,
+      name: value,
+      aliases: [],
+      parentId: null,
+    };
+  const uniqueNodes = (values: string[]) => [
+    ...new Map(values.map(resolve).map((node) => [node.id, node])).values(),
+  ];
+
+  const companyNodes = uniqueNodes(companyTechStacks);
+  const requestedNodes = uniqueNodes(requestedTechStacks);
+
+  if (companyNodes.length === 0) {
+    return { score: 0, matched: [], related: [], missing: requestedNodes.map((node) => node.name) };
   }
 
-  // Normalize to lowercase for case-insensitive matching
-  const companySet = new Set(companyTechStacks.map((t) => t.toLowerCase()));
-  const requestSet = new Set(requestedTechStacks.map((t) => t.toLowerCase()));
-
-  // Find intersection and union
-  const intersection = [...requestSet].filter((tech) => companySet.has(tech));
-  const union = new Set([...companySet, ...requestSet]);
+  const matched: string[] = [];
+  const related: RelatedTechStack[] = [];
+  const missing: string[] = [];
+  let credit = 0;
+
+  for (const requested of requestedNodes) {
+    let best: { relation: TechStackRelation; company: TechStackNode } | null = null;
+
+    for (const company of companyNodes) {
+      const relation = getTechStackRelation(lookup, requested, company);
+      if (
+        relation &&
+        (!best ||
+          TECH_RELATION_PRIORITY.indexOf(relation) < TECH_RELATION_PRIORITY.indexOf(best.relation))
+      ) {
+        best = { relation, company };
+      }
+    }
+
+    if (!best) {
+      missing.push(requested.name);
+      continue;
+    }
+
+    credit += TECH_RELATION_CREDIT[best.relation];
+    if (best.relation === 'exact') {
+      matched.push(requested.name);
+    } else {
+      related.push({
+        requested: requested.name,
+        matchedBy: best.company.name,
+        relation: best.relation,
+      });
+    }
+  }
 
-  // Jaccard similarity: |intersection| / |union|
-  const similarity = intersection.length / union.size;
+  // Jaccard similarity: covered technologies count once in the union
+  const unionSize = companyNodes.length + requestedNodes.length - matched.length - related.length;
+  const similarity = credit / unionSize;
 
   // Scale to 40 points
   const score = Math.round(similarity * 40);
 
   return {
     score,
-    matched: intersection,
+    matched,
+    related,
+    missing,
   };
 }
 
 /**
  * Calculate specialty matching score (0-30 points)
  *
- * Matches company specialties with project type and requested specialties.
+ * Matches company specialties with project type (by name keywords) and
+ * requested specialties (by Specialty ID).
  */
 export function calculateSpecialtyScore(
-  companySpecialties: string[],
+  companySpecialties: { id: string; name: string }[],
   projectType: string,
-  requestedSpecialties?: string[]
+  requestedSpecialtyIds?: string[]
 ): { score: number; matched: string[] } {
   if (companySpecialties.length === 0) {
     return { score: 0, matched: [] };
   }
 
-  const companySet = new Set(companySpecialties.map((s) => s.toLowerCase()));
+  const companySet = new Set(companySpecialties.map((s) => s.name.toLowerCase()));
   const matched: string[] = [];
 
   let score = 0;
@@ -110,15 +257,12 @@ export function calculateSpecialtyScore(
   }
 
   // Secondary match: Requested specialties (15 points)
-  if (requestedSpecialties && requestedSpecialties.length > 0) {
-    const requestSet = new Set(requestedSpecialties.map((s) => s.toLowerCase()));
-    const intersection = [...requestSet].filter((spec) => {
-      const match = [...companySet].some((cs) => cs.includes(spec) || spec.includes(cs));
-      if (match) matched.push(spec);
-      return match;
-    });
+  if (requestedSpecialtyIds && requestedSpecialtyIds.length > 0) {
+    const requestSet = new Set(requestedSpecialtyIds);
+    const intersection = companySpecialties.filter((spec) => requestSet.has(spec.id));
+    matched.push(...intersection.map((spec) => spec.name));
 
-    const specialtyScore = Math.round((intersection.length / requestedSpecialties.length) * 15);
+    const specialtyScore = Math.round((intersection.length / requestSet.size) * 15);
     score += specialtyScore;
   } else {
     // If no specific specialties requested, give partial credit
@@ -128,20 +272,99 @@ export function calculateSpecialtyScore(
   return { score: Math.min(score, 30), matched };
 }
 
+/**
+ * Gap between budget and price profile (relative to the budget) that still
+ * counts as a near miss rather than a mismatch
+ */
+const NEAR_MISS_GAP_RATIO = 0.2;
+
 /**
  * Calculate budget compatibility score (0-20 points)
  *
- * Evaluates if company's typical project range matches the request budget.
+ * Compares the request budget with the company's price profile built from
+ * past quotes and reviews (see pricing.ts). Companies without any history
+ * fall back to a heuristic based on the width of the budget range. `basis`
+ * tells which of the two was used.
  */
 export function calculateBudgetScore(
   requestBudgetMin?: number,
-  requestBudgetMax?: number
-): { score: number; compatibility: 'perfect' | 'good' | 'acceptable' | 'mismatch' } {
-  if (!requestBudgetMin || !requestBudgetMax) {
+  requestBudgetMax?: number,
+  priceProfile?: CompanyPriceProfile | null
+): { score: number; compatibility: BudgetCompatibility; basis: BudgetBasis } {
+  if (!requestBudgetMin && !requestBudgetMax) {
     // No budget specified = neutral score
-    return { score: 15, compatibility: 'acceptable' };
+    return { score: 15, compatibility: 'acceptable', basis: 'none' };
+  }
+
+  if (priceProfile) {
+    return {
+      ...scoreBudgetAgainstProfile(
+        requestBudgetMin || 0,
+        requestBudgetMax || Infinity,
+        priceProfile
+      ),
+      basis: 'priceProfile',
+    };
+  }
+
+  if (!requestBudgetMin || !requestBudgetMax) {
+    // One-sided budget and no history to compare with = neutral score
+    return { score: 15, compatibility: 'acceptable', basis: 'none' };
+  }
+
+  return { ...scoreBudgetRange(requestBudgetMin, requestBudgetMax), basis: 'budgetRange' };
+}
+
+/**
+ * Score how much of the company's typical price range falls within the budget
+ *
+ * Overlapping ranges score 5-20 points depending on the overlap ratio.
+ * Disjoint ranges score 0-5 points depending on how far apart they are;
+ * a company pricing clearly outside the budget is a mismatch.
+ */
+function scoreBudgetAgainstProfile(
+  budgetMin: number,
+  budgetMax: number,
+  profile: CompanyPriceProfile
+): { score: number; compatibility: BudgetCompatibility } {
+  const overlap =
+    Math.min(budgetMax, profile.typicalMax) - Math.max(budgetMin, profile.typicalMin);
+  const profileWidth = profile.typicalMax - profile.typicalMin;
+
+  if (overlap >= 0) {
+    // Share of the company's typical range covered by the budget
+    const ratio = profileWidth > 0 ? overlap / profileWidth : 1;
+    const score = 5 + Math.round(15 * ratio);
+
+    if (score >= 15) return { score, compatibility: 'perfect' };
+    if (score >= 10) return { score, compatibility: 'good' };
+    return { score, compatibility: 'acceptable' };
   }
 
+  // No overlap: measure the gap relative to the nearest budget bound
+  const companyTooExpensive = profile.typicalMin > budgetMax;
+  const reference = companyTooExpensive ? budgetMax : budgetMin;
+  const gapRatio = -overlap / reference;
+
+  if (gapRatio <= NEAR_MISS_GAP_RATIO) {
+    return { score: 5, compatibility: 'acceptable' };
+  }
+
+  return {
+    score: Math.max(0, Math.round(4 * (1 - gapRatio))),
+    compatibility: 'mismatch',
+  };
+}
+
+/**
+ * Heuristic budget score from the width of the request's own budget range
+ *
+ * Used for companies without price history.
+ */
+function scoreBudgetRange(
+  requestBudgetMin: number,
+  requestBudgetMax: number
+): { score: number; compatibility: BudgetCompatibility } {
   const budgetMid = (requestBudgetMin + requestBudgetMax) / 2;
 
   // Budget range evaluation
@@ -150,13 +373,11 @@ export function calculateBudgetScore(
   // Acceptable: 5-9 points
   // Mismatch: 0-4 points
 
-  // For now, we use a simple heuristic based on budget range
-  // In production, you'd compare with company's historical project costs
   const budgetRange = requestBudgetMax - requestBudgetMin;
   const rangeRatio = budgetRange / budgetMid;
 
   let score = 20;
-  let compatibility: 'perfect' | 'good' | 'acceptable' | 'mismatch' = 'perfect';
+  let compatibility: BudgetCompatibility = 'perfect';
 
   if (rangeRatio < 0.2) {
     // Very narrow budget = harder to match
@@ -218,51 +439,89 @@ export function calculateRatingScore(
 
 /**
  * Calculate complete matching score for a company
+ *
+ * Throws if the configured weights do not add up to 1.
  */
 export function calculateMatchScore(
   company: CompanyWithRelations,
   request: RequestWithRequirements,
   config: MatchingConfig = {}
 ): MatchScore {
-  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const weights = resolveMatchingWeights(config);
+  const validation = validateMatchingWeights(weights);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
 
   // Extract company data
-  const companyTechStacks = company.techStacks.map((ct) => ct.techStack.name);
-  const companySpecialties = company.specialties.map((cs) => cs.specialty.name);
-
-  // Extract request requirements
-  const requestedTechStacks = request.requirements?.techStacks || [];
-  const requestedSpecialties = request.requirements?.specialties || [];
+  const companyTechStacks = company.techStacks.map((ct) => ct.techStack.id);
+  const companySpecialties = company.specialties.map((cs) => cs.specialty);
+
+  // Extract request requirements (TechStack / Specialty IDs)
+  const requestedTechStacks = request.requirements?.techStackIds || [];
+  const requestedSpecialties = request.requirements?.specialtyIds || [];
+
+  // Without a taxonomy, IDs still resolve to names through the company's own tech stacks
+  const taxonomy =
+    config.techStackTaxonomy ??
+    buildTechStackTaxonomy(
+      company.techStacks.map(({ techStack }) => ({
+        id: techStack.id,
+        name: techStack.name,
+        slug: techStack.slug,
+        aliases: [],
+        parentId: null,
+      }))
+    );
 
   // Calculate individual scores
-  const techStackResult = calculateTechStackScore(companyTechStacks, requestedTechStacks);
+  const techStackResult = calculateTechStackScore(
+    companyTechStacks,
+    requestedTechStacks,
+    taxonomy
+  );
   const specialtyResult = calculateSpecialtyScore(
     companySpecialties,
     request.projectType,
     requestedSpecialties
   );
-  const budgetResult = calculateBudgetScore(request.budgetMin ?? undefined, request.budgetMax ?? undefined);
+  const budget = getComparableBudget(request);
+  const budgetResult = calculateBudgetScore(budget.min, budget.max, company.priceProfile);
   const ratingScore = calculateRatingScore(company.averageRating, company.reviewCount);
 
+  // Normalize each factor to 0-1, then scale by its weight to 0-100 points
+  const techStackScore =
+    (techStackResult.score / FACTOR_MAX_POINTS.techStack) * weights.techStackWeight * 100;
+  const specialtyScore =
+    (specialtyResult.score / FACTOR_MAX_POINTS.specialty) * weights.specialtyWeight * 100;
+  const budgetScore =
+    (budgetResult.score / FACTOR_MAX_POINTS.budget) * weights.budgetWeight * 100;
+  const weightedRatingScore =
+    (ratingScore / FACTOR_MAX_POINTS.rating) * weights.ratingWeight * 100;
+
   // Calculate total score
-  const total = Math.round(
-    techStackResult.score + specialtyResult.score + budgetResult.score + ratingScore
-  );
+  const total = Math.round(techStackScore + specialtyScore + budgetScore + weightedRatingScore);
 
   return {
     total,
-    techStackScore: techStackResult.score,
-    specialtyScore: specialtyResult.score,
-    budgetScore: budgetResult.score,
-    ratingScore,
+    techStackScore: Math.round(techStackScore),
+    specialtyScore: Math.round(specialtyScore),
+    budgetScore: Math.round(budgetScore),
+    ratingScore: Math.round(weightedRatingScore),
     matchedTechStacks: techStackResult.matched,
+    relatedTechStacks: techStackResult.related,
+    missingTechStacks: techStackResult.missing,
     matchedSpecialties: specialtyResult.matched,
     budgetCompatibility: budgetResult.compatibility,
+    budgetBasis: budgetResult.basis,
+    weights,
   };
 }
 
 /**
  * Find and rank matching companies for a request
+ *
+ * Companies at capacity are ranked last or left out (see capacityPolicy).
  */
 export function findMatchingCompanies(
   companies: CompanyWithRelations[],
@@ -300,20 +559,49 @@ export function findMatchingCompanies(
   const matchedCompanies: MatchedCompany[] = filteredCompanies.map((company) => ({
     company,
     matchScore: calculateMatchScore(company, request, config),
+    availability: getCompanyAvailability(company),
   }));
 
-  // Filter by minimum score
+  // Filter by minimum score (and capacity when excluding full companies)
   const qualifiedMatches = matchedCompanies.filter(
-    (mc) => mc.matchScore.total >= cfg.minScore
+    (mc) =>
+      mc.matchScore.total >= cfg.minScore &&
+      !(cfg.capacityPolicy === 'exclude' && mc.availability?.status === 'at_capacity')
   );
 
-  // Sort by score (descending)
-  qualifiedMatches.sort((a, b) => b.matchScore.total - a.matchScore.total);
+  // Sort by score (descending), companies at capacity last
+  const atCapacity = (mc: MatchedCompany) => (mc.availability?.status === 'at_capacity' ? 1 : 0);
+  qualifiedMatches.sort(
+    (a, b) => atCapacity(a) - atCapacity(b) || b.matchScore.total - a.matchScore.total
+  );
 
   // Limit results
   return qualifiedMatches.slice(0, cfg.maxResults);
 }
 
+/**
+ * Rank requests for a company (reverse matching)
+ *
+ * Uses the same scoring as findMatchingCompanies, so a request scores the
+ * same here as the company scores in that request's ranking.
+ */
+export function findMatchingRequests<T extends RequestWithRequirements>(
+  company: CompanyWithRelations,
+  requests: T[],
+  config?: MatchingConfig
+): MatchedRequest<T>[] {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+
+  return requests
+    .map((request) => ({
+      request,
+      matchScore: calculateMatchScore(company, request, config),
+    }))
+    .filter((mr) => mr.matchScore.total >= cfg.minScore)
+    .sort((a, b) => b.matchScore.total - a.matchScore.total)
+    .slice(0, cfg.maxResults);
+}
+
 /**
  * Get match score tier for display
  */
@@ -0,0 +1,55 @@
+/**
+ * Company Capacity
+ *
+ * Compares a company's declared maxConcurrentProjects with its current load
+ * (active projects plus outstanding invitations) to decide whether it can
+ * take on another project.
+ */
+
+import { CompanyAvailability, CompanyWorkload } from '@/types/matching';
+
+/**
+ * Share of capacity in use from which a company is shown as "limited"
+ */
+export const LIMITED_CAPACITY_RATIO = 0.75;
+
+/**
+ * Derive the availability of a company from its capacity and workload
+ *
+ * Pending invitations count against capacity because each one may turn
+ * into a project. Companies without maxConcurrentProjects are always available.
+ */
+export function getCompanyAvailability(company: {
+  maxConcurrentProjects: number | null;
+  workload?: CompanyWorkload;
+}): CompanyAvailability {
+  const activeProjects = company.workload?.activeProjects ?? 0;
+  const pendingInvitations = company.workload?.pendingInvitations ?? 0;
+  const { maxConcurrentProjects } = company;
+
+  if (maxConcurrentProjects === null) {
+    return {
+      status: 'available',
+      activeProjects,
+      pendingInvitations,
+      maxConcurrentProjects: null,
+      remainingCapacity: null,
+    };
+  }
+
+  const load = activeProjects + pendingInvitations;
+  const remainingCapacity = Math.max(0, maxConcurrentProjects - load);
+
+  return {
+    status:
+      remainingCapacity === 0
+        ? 'at_capacity'
+        : load / maxConcurrentProjects >= LIMITED_CAPACITY_RATIO
+          ? 'limited'
+          : 'available',
+    activeProjects,
+    pendingInvitations,
+    maxConcurrentProjects,
+    remainingCapacity,
+  };
+}
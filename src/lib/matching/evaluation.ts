@@ -0,0 +1,207 @@
+/**
+ * Matching Evaluation
+ *
+ * Replays historical requests through findMatchingCompanies and measures how
+ * highly the company the buyer eventually SELECTED was ranked:
+ * - hit@k: share of requests whose selected company is in the top k
+ * - MRR: mean of 1 / rank (0 when the company is not ranked)
+ *
+ * Several MatchingConfig values can be compared on the same cases.
+ *
+ * Price profiles are rebuilt per request from quotes and reviews created
+ * before the request was published, so a request's own quotes never leak
+ * into its budget score. Ratings and tech stacks are the current values.
+ */
+
+import { prisma } from '@/lib/prisma';
+import {
+  findMatchingCompanies,
+  MATCHING_ALGORITHM_VERSION,
+  resolveMatchingWeights,
+} from './algorithm';
+import {
+  buildPriceProfile,
+  getQuotePrice,
+  getReviewPrice,
+  priceHistoryInclude,
+} from './pricing';
+import { matchedCompanyInclude } from './snapshots';
+import {
+  CompanyWithRelations,
+  MatchingConfig,
+  MatchingEvaluationCase,
+  MatchingEvaluationReport,
+  MatchingEvaluationResult,
+  RequestWithRequirements,
+} from '@/types/matching';
+
+/**
+ * Default cut-offs for hit@k
+ */
+export const DEFAULT_EVALUATION_KS = [1, 3, 5, 10];
+
+/**
+ * Load requests with a SELECTED company as evaluation cases, newest first
+ *
+ * Every company is a candidate (including those no longer accepting
+ * projects), since their current settings may differ from back then.
+ */
+export async function loadEvaluationCases(
+  options: { limit?: number } = {}
+): Promise<MatchingEvaluationCase[]> {
+  const [requests, companies] = await Promise.all([
+    prisma.request.findMany({
+      where: { requestCompanies: { some: { status: 'SELECTED' } } },
+      include: {
+        requestCompanies: {
+          where: { status: 'SELECTED' },
+          select: { companyId: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit,
+    }),
+    prisma.company.findMany({
+      include: {
+        ...matchedCompanyInclude,
+        requestCompanies: {
+          where: { estimatedCost: { not: null } },
+          select: { ...priceHistoryInclude.requestCompanies.select, createdAt: true },
+        },
+        reviews: {
+          where: { isPublished: true, projectCost: { not: null } },
+          select: { ...priceHistoryInclude.reviews.select, createdAt: true },
+        },
+      },
+    }),
+  ]);
+
+  return requests.map(({ requestCompanies, ...request }) => {
+    const publishedAt = request.publishedAt ?? request.createdAt;
+
+    return {
+      request: request as RequestWithRequirements,
+      selectedCompanyId: requestCompanies[0].companyId,
+      companies: companies.map(
+        ({ requestCompanies: quotes, reviews, ...company }): CompanyWithRelations => ({
+          ...company,
+          priceProfile: buildPriceProfile([
+            ...quotes.filter((q) => q.createdAt < publishedAt).map(getQuotePrice),
+            ...reviews.filter((r) => r.createdAt < publishedAt).map(getReviewPrice),
+          ]),
+        })
+      ),
+    };
+  });
+}
+
+/**
+ * Evaluate one matching configuration
+ *
+ * Unless the config sets them, every company is ranked (minScore 0, no
+ * maxResults cut-off) so the rank of the selected company is always known.
+ */
+export function evaluateMatchingConfig(
+  name: string,
+  cases: MatchingEvaluationCase[],
+  config: MatchingConfig = {},
+  ks: number[] = DEFAULT_EVALUATION_KS
+): MatchingEvaluationResult {
+  const ranked = cases.map((evaluationCase) => {
+    const matches = findMatchingCompanies(
+      evaluationCase.companies,
+      evaluationCase.request,
+      undefined,
+      {
+        minScore: 0,
+        maxResults: evaluationCase.companies.length,
+        ...config,
+      }
+    );
+    const index = matches.findIndex((m) => m.company.id === evaluationCase.selectedCompanyId);
+
+    return {
+      requestId: evaluationCase.request.id,
+      selectedCompanyId: evaluationCase.selectedCompanyId,
+      rank: index === -1 ? null : index + 1,
+    };
+  });
+
+  const share = (count: number) => (cases.length > 0 ? count / cases.length : 0);
+
+  return {
+    name,
+    weights: resolveMatchingWeights(config),
+    hitAtK: Object.fromEntries(
+      ks.map((k) => [k, share(ranked.filter((c) => c.rank !== null && c.rank <= k).length)])
+    ),
+    mrr: share(ranked.reduce((sum, c) => sum + (c.rank ? 1 / c.rank : 0), 0)),
+    misses: ranked.filter((c) => c.rank === null).length,
+    cases: ranked,
+  };
+}
+
+/**
+ * Evaluate several named configurations on the same cases
+ */
+export function compareMatchingConfigs(
+  cases: MatchingEvaluationCase[],
+  configs: Record<string, MatchingConfig>,
+  ks: number[] = DEFAULT_EVALUATION_KS
+): MatchingEvaluationReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    algorithmVersion: MATCHING_ALGORITHM_VERSION,
+    caseCount: cases.length,
+    ks,
+    results: Object.entries(configs).map(([name, config]) =>
+      evaluateMatchingConfig(name, cases, config, ks)
+    ),
+  };
+}
+
+/**
+ * Format a 0-1 ratio as a percentage with one decimal
+ */
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Render an evaluation report as a Markdown summary table
+ */
+export function renderEvaluationMarkdown(report: MatchingEvaluationReport): string {
+  const header = [
+    'Config',
+    'Weights (tech/specialty/budget/rating)',
+    ...report.ks.map((k) => `hit@${k}`),
+    'MRR',
+    'Not ranked',
+  ];
+
+  const rows = report.results.map((result) => [
+    result.name,
+    [
+      result.weights.techStackWeight,
+      result.weights.specialtyWeight,
+      result.weights.budgetWeight,
+      result.weights.ratingWeight,
+    ].join(' / '),
+    ...report.ks.map((k) => formatPercent(result.hitAtK[k] ?? 0)),
+    result.mrr.toFixed(3),
+    String(result.misses),
+  ]);
+
+  return [
+    '# Matching Evaluation',
+    '',
+    `- Generated: ${report.generatedAt}`,
+    `- Algorithm version: ${report.algorithmVersion}`,
+    `- Requests with a selected company: ${report.caseCount}`,
+    '',
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.join(' | ')} |`),
+    '',
+  ].join('\n');
+}
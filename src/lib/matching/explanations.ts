@@ -0,0 +1,274 @@
+/**
+ * Match Explanations
+ *
+ * Turns a MatchScore into short, deterministic reason bullets so buyers can
+ * see why a company ranked where it did, e.g.
+ * "Covers 4 of 5 requested technologies; missing Kubernetes".
+ * Reasons are ordered by factor weight (most influential first).
+ */
+
+import {
+  BudgetBasis,
+  BudgetCompatibility,
+  MatchFactor,
+  MatchReason,
+  MatchReasonLocale,
+  MatchScore,
+  RelatedTechStack,
+} from '@/types/matching';
+
+/**
+ * Language names for explanation language pickers
+ */
+export const matchReasonLocaleLabels: Record<MatchReasonLocale, string> = {
+  en: 'English',
+  ja: '日本語',
+};
+
+/**
+ * Share of a factor's maximum at or above which the reason counts as positive
+ */
+const POSITIVE_RATIO = 0.7;
+
+/**
+ * Share of a factor's maximum below which the reason counts as negative
+ */
+const NEGATIVE_RATIO = 0.4;
+
+/**
+ * Company fields needed to explain the rating factor
+ */
+interface ExplainedCompany {
+  averageRating: number;
+  reviewCount: number;
+}
+
+/**
+ * Localized reason templates
+ */
+const messages: Record<
+  MatchReasonLocale,
+  {
+    noTechRequirements: string;
+    allTechCovered: (total: number) => string;
+    someTechCovered: (covered: number, total: number, missing: string[]) => string;
+    techCovered: (covered: number) => string;
+    noTechCovered: string;
+    relatedTech: (related: RelatedTechStack) => string;
+    specialtiesMatched: (specialties: string[]) => string;
+    noSpecialtyMatch: string;
+    /** Per basis; `unknown` for older snapshots that do not record it */
+    budget: Record<Exclude<BudgetBasis, 'none'> | 'unknown', Record<BudgetCompatibility, string>>;
+    noBudgetComparison: string;
+    noReviews: string;
+    rated: (rating: string, reviewCount: number) => string;
+  }
+> = {
+  ja: {
+    noTechRequirements: '技術要件の指定なし',
+    allTechCovered: (total) => `希望技術${total}件すべてに対応`,
+    someTechCovered: (covered, total, missing) =>
+      `希望技術${total}件中${covered}件に対応（不足: ${missing.join('、')}）`,
+    techCovered: (covered) => `希望技術のうち${covered}件に対応`,
+    noTechCovered: '希望技術に対応する実績なし',
+    relatedTech: (related) =>
+      related.relation === 'implies'
+        ? `${related.matchedBy}の実績を${related.requested}として評価`
+        : `${related.requested}の関連技術（${related.matchedBy}）の実績あり`,
+    specialtiesMatched: (specialties) => `専門分野が一致: ${specialties.join('、')}`,
+    noSpecialtyMatch: 'プロジェクトに合う専門分野なし',
+    budget: {
+      priceProfile: {
+        perfect: '過去の見積額が予算にぴったり',
+        good: '過去の見積額がおおむね予算内',
+        acceptable: '予算との適合は要確認',
+        mismatch: '過去の見積額が予算と合わない',
+      },
+      budgetRange: {
+        perfect: '見積実績なし — 予算幅は合わせやすい',
+        good: '見積実績なし — 予算幅はおおむね妥当',
+        acceptable: '見積実績なし — 予算との適合は要確認',
+        mismatch: '見積実績なし — 予算幅が合わせにくい',
+      },
+      unknown: {
+        perfect: '予算にぴったり',
+        good: 'おおむね予算内',
+        acceptable: '予算との適合は要確認',
+        mismatch: '予算と合わない',
+      },
+    },
+    noBudgetComparison: '予算を比較する材料なし — 予算スコアは中立',
+    noReviews: 'レビューなし — 評価スコアは中立',
+    rated: (rating, reviewCount) => `評価${rating}（レビュー${reviewCount}件）`,
+  },
+  en: {
+    noTechRequirements: 'No technologies requested',
+    allTechCovered: (total) => `Covers all ${total} requested technologies`,
+    someTechCovered: (covered, total, missing) =>
+      `Covers ${covered} of ${total} requested technologies; missing ${missing.join(', ')}`,
+    techCovered: (covered) => `Covers ${covered} requested technologies`,
+    noTechCovered: 'No experience with the requested technologies',
+    relatedTech: (related) =>
+      related.relation === 'implies'
+        ? `${related.matchedBy} experience counts as ${related.requested}`
+        : `Related experience for ${related.requested}: ${related.matchedBy}`,
+    specialtiesMatched: (specialties) => `Specialties match: ${specialties.join(', ')}`,
+    noSpecialtyMatch: 'No specialty matching this project',
+    budget: {
+      priceProfile: {
+        perfect: 'Past quotes fit the budget closely',
+        good: 'Past quotes are mostly within budget',
+        acceptable: 'Budget fit is uncertain',
+        mismatch: 'Past quotes are outside the budget',
+      },
+      budgetRange: {
+        perfect: 'No past quotes; the budget range is easy to match',
+        good: 'No past quotes; the budget range is workable',
+        acceptable: 'No past quotes; budget fit is uncertain',
+        mismatch: 'No past quotes; the budget range is hard to match',
+      },
+      unknown: {
+        perfect: 'Fits the budget closely',
+        good: 'Mostly within budget',
+        acceptable: 'Budget fit is uncertain',
+        mismatch: 'Outside the budget',
+      },
+    },
+    noBudgetComparison: 'Nothing to compare the budget with — neutral budget score',
+    noReviews: 'No reviews yet — neutral rating score',
+    rated: (rating, reviewCount) => `Rated ${rating} from ${reviewCount} reviews`,
+  },
+};
+
+/**
+ * Classify a factor score against its weighted maximum
+ */
+function toneFor(score: number, maxScore: number): MatchReason['tone'] {
+  if (maxScore <= 0) return 'neutral';
+  const ratio = score / maxScore;
+  if (ratio >= POSITIVE_RATIO) return 'positive';
+  if (ratio < NEGATIVE_RATIO) return 'negative';
+  return 'neutral';
+}
+
+function explainTechStack(matchScore: MatchScore, locale: MatchReasonLocale): MatchReason[] {
+  const t = messages[locale];
+  const related = matchScore.relatedTechStacks ?? [];
+  const covered = matchScore.matchedTechStacks.length + related.length;
+  const tone = toneFor(matchScore.techStackScore, matchScore.weights.techStackWeight * 100);
+
+  let text: string;
+  if (matchScore.missingTechStacks) {
+    const total = covered + matchScore.missingTechStacks.length;
+    if (total === 0) {
+      return [{ factor: 'techStack', tone: 'neutral', text: t.noTechRequirements }];
+    }
+    text =
+      matchScore.missingTechStacks.length === 0
+        ? t.allTechCovered(total)
+        : covered === 0
+          ? t.noTechCovered
+          : t.someTechCovered(covered, total, matchScore.missingTechStacks);
+  } else {
+    // Older snapshots do not record missing technologies
+    text = covered > 0 ? t.techCovered(covered) : t.noTechCovered;
+  }
+
+  return [
+    { factor: 'techStack', tone, text },
+    ...related.map((item) => ({
+      factor: 'techStack' as const,
+      tone: 'neutral' as const,
+      text: t.relatedTech(item),
+    })),
+  ];
+}
+
+function explainSpecialty(matchScore: MatchScore, locale: MatchReasonLocale): MatchReason[] {
+  const t = messages[locale];
+  const specialties = [...new Set(matchScore.matchedSpecialties)];
+
+  return [
+    {
+      factor: 'specialty',
+      tone: toneFor(matchScore.specialtyScore, matchScore.weights.specialtyWeight * 100),
+      text: specialties.length > 0 ? t.specialtiesMatched(specialties) : t.noSpecialtyMatch,
+    },
+  ];
+}
+
+function explainBudget(matchScore: MatchScore, locale: MatchReasonLocale): MatchReason[] {
+  const t = messages[locale];
+
+  if (matchScore.budgetBasis === 'none') {
+    return [{ factor: 'budget', tone: 'neutral', text: t.noBudgetComparison }];
+  }
+
+  return [
+    {
+      factor: 'budget',
+      tone: toneFor(matchScore.budgetScore, matchScore.weights.budgetWeight * 100),
+      text: t.budget[matchScore.budgetBasis ?? 'unknown'][matchScore.budgetCompatibility],
+    },
+  ];
+}
+
+function explainRating(
+  matchScore: MatchScore,
+  company: ExplainedCompany,
+  locale: MatchReasonLocale
+): MatchReason[] {
+  const t = messages[locale];
+
+  if (company.reviewCount === 0) {
+    return [{ factor: 'rating', tone: 'neutral', text: t.noReviews }];
+  }
+
+  return [
+    {
+      factor: 'rating',
+      tone: toneFor(matchScore.ratingScore, matchScore.weights.ratingWeight * 100),
+      text: t.rated(company.averageRating.toFixed(1), company.reviewCount),
+    },
+  ];
+}
+
+/**
+ * Explain a match score as localized reason bullets
+ *
+ * Factors with a weight of 0 did not influence the ranking and are omitted.
+ */
+export function explainMatchScore(
+  matchScore: MatchScore,
+  company: ExplainedCompany,
+  locale: MatchReasonLocale = 'ja'
+): MatchReason[] {
+  const factors: { factor: MatchFactor; weight: number; explain: () => MatchReason[] }[] = [
+    {
+      factor: 'techStack',
+      weight: matchScore.weights.techStackWeight,
+      explain: () => explainTechStack(matchScore, locale),
+    },
+    {
+      factor: 'specialty',
+      weight: matchScore.weights.specialtyWeight,
+      explain: () => explainSpecialty(matchScore, locale),
+    },
+    {
+      factor: 'budget',
+      weight: matchScore.weights.budgetWeight,
+      explain: () => explainBudget(matchScore, locale),
+    },
+    {
+      factor: 'rating',
+      weight: matchScore.weights.ratingWeight,
+      explain: () => explainRating(matchScore, company, locale),
+    },
+  ];
+
+  // Array.prototype.sort is stable, so equal weights keep the order above
+  return factors
+    .filter(({ weight }) => weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .flatMap(({ explain }) => explain());
+}
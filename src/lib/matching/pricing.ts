@@ -0,0 +1,188 @@
+/**
+ * Company Price Profiles
+ *
+ * Builds a company's typical price range from its history:
+ * - Past quotes (RequestCompany.estimatedCost)
+ * - Project costs reported in published reviews (Review.projectCost)
+ *
+ * Only one-off JPY amounts are comparable; they are used without tax (see
+ * src/lib/utils/money.ts). The profile is used by the budget factor of the
+ * matching algorithm.
+ */
+
+import { Currency, MoneyUnit, Prisma } from '@prisma/client';
+import { CompanyPriceProfile } from '@/types/matching';
+import { parseMoney, toComparableAmount } from '@/lib/utils/money';
+
+/**
+ * Minimum number of samples before trimming outliers from the typical range
+ */
+const MIN_SAMPLES_FOR_TRIM = 5;
+
+/**
+ * Prisma include fragment that loads the price history needed by buildPriceProfile
+ */
+export const priceHistoryInclude = {
+  requestCompanies: {
+    where: { estimatedCost: { not: null } },
+    select: {
+      estimatedCost: true,
+      estimatedCurrency: true,
+      estimatedTaxIncluded: true,
+      estimatedUnit: true,
+    },
+  },
+  reviews: {
+    where: { isPublished: true, projectCost: { not: null } },
+    select: {
+      projectCost: true,
+      projectCostAmount: true,
+      projectCostCurrency: true,
+      projectCostTaxIncluded: true,
+      projectCostUnit: true,
+    },
+  },
+} satisfies Prisma.CompanyInclude;
+
+/**
+ * Past quote with its price terms (terms default to one-off JPY excl. tax)
+ */
+export interface QuotePriceSource {
+  estimatedCost: number | null;
+  estimatedCurrency?: Currency;
+  estimatedTaxIncluded?: boolean;
+  estimatedUnit?: MoneyUnit;
+}
+
+/**
+ * Reviewed project cost, structured or as entered
+ */
+export interface ReviewPriceSource {
+  projectCost: string | null;
+  projectCostAmount?: number | null;
+  projectCostCurrency?: Currency;
+  projectCostTaxIncluded?: boolean;
+  projectCostUnit?: MoneyUnit;
+}
+
+/**
+ * Parse a free-text project cost (e.g. Review.projectCost) into a comparable
+ * JPY amount without tax
+ *
+ * See parseMoney for the accepted formats; ranges give their midpoint.
+ * Returns null when no amount can be found or the cost is in another
+ * currency or billing unit.
+ */
+export function parseCostString(value: string | null | undefined): number | null {
+  return toComparableAmount(parseMoney(value));
+}
+
+/**
+ * Comparable amount of a past quote
+ */
+export function getQuotePrice(quote: QuotePriceSource): number | null {
+  if (!quote.estimatedCost) return null;
+  return toComparableAmount({
+    amount: quote.estimatedCost,
+    currency: quote.estimatedCurrency ?? 'JPY',
+    taxIncluded: quote.estimatedTaxIncluded ?? false,
+    unit: quote.estimatedUnit ?? 'ONE_OFF',
+  });
+}
+
+/**
+ * Comparable amount of a reviewed project cost
+ * Falls back to parsing the text for reviews written before costs were structured.
+ */
+export function getReviewPrice(review: ReviewPriceSource): number | null {
+  if (!review.projectCostAmount) return parseCostString(review.projectCost);
+  return toComparableAmount({
+    amount: review.projectCostAmount,
+    currency: review.projectCostCurrency ?? 'JPY',
+    taxIncluded: review.projectCostTaxIncluded ?? false,
+    unit: review.projectCostUnit ?? 'ONE_OFF',
+  });
+}
+
+/**
+ * Request budget as comparable amounts
+ * Budgets in another currency or billing unit can't be compared with price
+ * profiles and are treated as unspecified.
+ */
+export function getComparableBudget(request: {
+  budgetMin: number | null;
+  budgetMax: number | null;
+  budgetCurrency?: Currency;
+  budgetTaxIncluded?: boolean;
+  budgetUnit?: MoneyUnit;
+}): { min?: number; max?: number } {
+  const toComparable = (amount: number | null) =>
+    amount
+      ? (toComparableAmount({
+          amount,
+          currency: request.budgetCurrency ?? 'JPY',
+          taxIncluded: request.budgetTaxIncluded ?? false,
+          unit: request.budgetUnit ?? 'ONE_OFF',
+        }) ?? undefined)
+      : undefined;
+
+  return { min: toComparable(request.budgetMin), max: toComparable(request.budgetMax) };
+}
+
+/**
+ * Linear-interpolated quantile of a sorted array
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const base = Math.floor(position);
+  const rest = position - base;
+  const next = sorted[base + 1];
+  return next !== undefined ? sorted[base] + rest * (next - sorted[base]) : sorted[base];
+}
+
+/**
+ * Build a price profile from past quotes and reviewed project costs
+ *
+ * The typical range is the 20th-80th percentile once there are enough
+ * samples, otherwise the full min-max range. Returns null without history.
+ */
+export function buildPriceProfile(
+  estimatedCosts: (number | null)[],
+  reviewCosts: (string | null)[] = []
+): CompanyPriceProfile | null {
+  const samples = [
+    ...estimatedCosts.filter((c): c is number => c !== null && c > 0),
+    ...reviewCosts.map(parseCostString).filter((c): c is number => c !== null),
+  ].sort((a, b) => a - b);
+
+  if (samples.length === 0) {
+    return null;
+  }
+
+  const trim = samples.length >= MIN_SAMPLES_FOR_TRIM;
+
+  return {
+    typicalMin: Math.round(trim ? quantile(samples, 0.2) : samples[0]),
+    typicalMax: Math.round(trim ? quantile(samples, 0.8) : samples[samples.length - 1]),
+    median: Math.round(quantile(samples, 0.5)),
+    sampleSize: samples.length,
+  };
+}
+
+/**
+ * Attach a price profile to a company loaded with priceHistoryInclude
+ */
+export function withPriceProfile<
+  T extends {
+    requestCompanies: QuotePriceSource[];
+    reviews: ReviewPriceSource[];
+  },
+>(company: T): T & { priceProfile: CompanyPriceProfile | null } {
+  return {
+    ...company,
+    priceProfile: buildPriceProfile([
+      ...company.requestCompanies.map(getQuotePrice),
+      ...company.reviews.map(getReviewPrice),
+    ]),
+  };
+}
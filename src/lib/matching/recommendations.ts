@@ -0,0 +1,81 @@
+/**
+ * Request Recommendations
+ *
+ * Reverse matching: ranks published requests for a company with the same
+ * scoring used to rank companies for a request.
+ */
+
+import { RequestCompanyStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { visibleToCompanyWhere } from '@/lib/requests/visibility';
+import { findMatchingRequests } from './algorithm';
+import { priceHistoryInclude, withPriceProfile } from './pricing';
+import { loadTechStackTaxonomy, matchedCompanyInclude } from './snapshots';
+import { MatchedRequest, MatchingConfig, RequestWithRequirements } from '@/types/matching';
+
+/**
+ * Most recently published requests considered for recommendations
+ */
+const RECOMMENDATION_CANDIDATE_LIMIT = 200;
+
+/**
+ * Candidate request with the company's invitation (if any)
+ */
+export type RecommendationCandidate = RequestWithRequirements & {
+  requestCompanies: { status: RequestCompanyStatus }[];
+};
+
+/**
+ * Rank published requests for a company
+ *
+ * Requests the company already quoted on (any status other than PENDING)
+ * are left out; pending invitations stay in the list.
+ * Returns null if the company does not exist.
+ */
+export async function getRecommendedRequests(
+  companyId: string,
+  config: Pick<MatchingConfig, 'minScore' | 'maxResults'> = {}
+): Promise<MatchedRequest<RecommendationCandidate>[] | null> {
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    include: {
+      ...matchedCompanyInclude,
+      ...priceHistoryInclude,
+    },
+  });
+
+  if (!company) {
+    return null;
+  }
+
+  const [requests, techStackTaxonomy] = await Promise.all([
+    prisma.request.findMany({
+      where: {
+        status: 'PUBLISHED',
+        requestCompanies: {
+          none: {
+            companyId,
+            status: { not: 'PENDING' },
+          },
+        },
+        // Never recommend invite-only requests the company wasn't invited to
+        ...visibleToCompanyWhere(companyId),
+      },
+      include: {
+        requestCompanies: {
+          where: { companyId },
+          select: { status: true },
+        },
+      },
+      orderBy: { publishedAt: 'desc' },
+      take: RECOMMENDATION_CANDIDATE_LIMIT,
+    }),
+    loadTechStackTaxonomy(),
+  ]);
+
+  return findMatchingRequests(
+    withPriceProfile(company),
+    requests as RecommendationCandidate[],
+    { ...config, techStackTaxonomy }
+  );
+}
@@ -0,0 +1,250 @@
+/**
+ * Match Snapshots
+ *
+ * Persists the ranking produced by the matching algorithm for a request
+ * (RequestMatch rows), so buyers see a stable list, companies can see why
+ * they were matched, and rankings can be compared across algorithm versions.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { findMatchingCompanies, MATCHING_ALGORITHM_VERSION } from './algorithm';
+import { priceHistoryInclude, withPriceProfile } from './pricing';
+import { buildTechStackTaxonomy } from './taxonomy';
+import { CompanyWorkload, MatchRankingChange, RequestWithRequirements } from '@/types/matching';
+
+/**
+ * Maximum number of companies stored per snapshot
+ */
+const SNAPSHOT_MAX_RESULTS = 100;
+
+/**
+ * Company relations displayed alongside a match
+ */
+export const matchedCompanyInclude = {
+  techStacks: {
+    include: {
+      techStack: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          category: true,
+        },
+      },
+    },
+  },
+  specialties: {
+    include: {
+      specialty: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.CompanyInclude;
+
+/**
+ * Load companies open to new projects, with everything the algorithm needs
+ */
+export async function loadMatchingCompanies(where: Prisma.CompanyWhereInput = {}) {
+  const companies = await prisma.company.findMany({
+    where: {
+      acceptsNewProjects: true,
+      ...where,
+    },
+    include: {
+      ...matchedCompanyInclude,
+      ...priceHistoryInclude,
+    },
+  });
+
+  const workloads = await loadCompanyWorkloads(companies.map((c) => c.id));
+
+  return companies.map((company) => ({
+    ...withPriceProfile(company),
+    workload: workloads.get(company.id),
+  }));
+}
+
+/**
+ * Count the current project load of each company
+ *
+ * - active projects: SELECTED proposals whose request is not cancelled and
+ *   whose deadline has not passed (selecting closes the request, so the
+ *   deadline marks the end of the project)
+ * - pending invitations: PENDING invitations on published requests
+ */
+export async function loadCompanyWorkloads(
+  companyIds: string[],
+  now: Date = new Date()
+): Promise<Map<string, CompanyWorkload>> {
+  const workloads = new Map<string, CompanyWorkload>(
+    companyIds.map((id) => [id, { activeProjects: 0, pendingInvitations: 0 }])
+  );
+  if (companyIds.length === 0) return workloads;
+
+  const counts = await prisma.requestCompany.groupBy({
+    by: ['companyId', 'status'],
+    where: {
+      companyId: { in: companyIds },
+      OR: [
+        {
+          status: 'SELECTED',
+          request: {
+            status: { not: 'CANCELLED' },
+            OR: [{ deadline: null }, { deadline: { gte: now } }],
+          },
+        },
+        {
+          status: 'PENDING',
+          request: { status: 'PUBLISHED' },
+        },
+      ],
+    },
+    _count: { _all: true },
+  });
+
+  for (const row of counts) {
+    const workload = workloads.get(row.companyId);
+    if (!workload) continue;
+    if (row.status === 'SELECTED') workload.activeProjects = row._count._all;
+    if (row.status === 'PENDING') workload.pendingInvitations = row._count._all;
+  }
+
+  return workloads;
+}
+
+/**
+ * Load tech stack aliases and hierarchy for the matching algorithm
+ */
+export async function loadTechStackTaxonomy() {
+  const techStacks = await prisma.techStack.findMany({
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      aliases: true,
+      parentId: true,
+    },
+  });
+
+  return buildTechStackTaxonomy(techStacks);
+}
+
+/**
+ * Get the stored ranking for a request, best match first
+ */
+export async function getRequestMatchSnapshot(
+  requestId: string,
+  algorithmVersion: string = MATCHING_ALGORITHM_VERSION
+) {
+  return prisma.requestMatch.findMany({
+    where: { requestId, algorithmVersion },
+    include: {
+      company: {
+        include: matchedCompanyInclude,
+      },
+    },
+    orderBy: { rank: 'asc' },
+  });
+}
+
+/**
+ * Recompute and store the ranking for a request with the current algorithm
+ *
+ * Replaces any earlier snapshot of the same algorithm version; snapshots of
+ * other versions are kept for comparison.
+ */
+export async function snapshotRequestMatches(requestId: string) {
+  const request = await prisma.request.findUniqueOrThrow({
+    where: { id: requestId },
+  });
+
+  const [companies, techStackTaxonomy] = await Promise.all([
+    loadMatchingCompanies(),
+    loadTechStackTaxonomy(),
+  ]);
+  const matches = findMatchingCompanies(
+    companies,
+    request as RequestWithRequirements,
+    undefined,
+    { maxResults: SNAPSHOT_MAX_RESULTS, techStackTaxonomy }
+  );
+
+  const computedAt = new Date();
+
+  await prisma.$transaction([
+    prisma.requestMatch.deleteMany({
+      where: { requestId, algorithmVersion: MATCHING_ALGORITHM_VERSION },
+    }),
+    prisma.requestMatch.createMany({
+      data: matches.map((match, index) => ({
+        requestId,
+        companyId: match.company.id,
+        rank: index + 1,
+        totalScore: match.matchScore.total,
+        matchScore: match.matchScore as unknown as Prisma.InputJsonValue,
+        algorithmVersion: MATCHING_ALGORITHM_VERSION,
+        computedAt,
+      })),
+    }),
+  ]);
+
+  return getRequestMatchSnapshot(requestId);
+}
+
+/**
+ * Compare two rankings of the same request
+ *
+ * Returns one entry per company present in either ranking, ordered by the
+ * current rank (dropped companies last).
+ */
+export function diffMatchRankings(
+  previous: { companyId: string; rank: number; totalScore: number }[],
+  current: { companyId: string; rank: number; totalScore: number }[]
+): MatchRankingChange[] {
+  const previousByCompany = new Map(previous.map((m) => [m.companyId, m]));
+  const currentIds = new Set(current.map((m) => m.companyId));
+
+  const changes: MatchRankingChange[] = current
+    .slice()
+    .sort((a, b) => a.rank - b.rank)
+    .map((match) => {
+      const before = previousByCompany.get(match.companyId);
+
+      if (!before) {
+        return {
+          companyId: match.companyId,
+          previousRank: null,
+          currentRank: match.rank,
+          scoreDelta: null,
+          status: 'new',
+        };
+      }
+
+      return {
+        companyId: match.companyId,
+        previousRank: before.rank,
+        currentRank: match.rank,
+        scoreDelta: match.totalScore - before.totalScore,
+        status: before.rank === match.rank ? 'unchanged' : 'moved',
+      };
+    });
+
+  const dropped: MatchRankingChange[] = previous
+    .filter((m) => !currentIds.has(m.companyId))
+    .sort((a, b) => a.rank - b.rank)
+    .map((match) => ({
+      companyId: match.companyId,
+      previousRank: match.rank,
+      currentRank: null,
+      scoreDelta: null,
+      status: 'dropped',
+    }));
+
+  return [...changes, ...dropped];
+}
@@ -0,0 +1,80 @@
+/**
+ * Tech Stack Taxonomy
+ *
+ * Resolves tech stack names, aliases and IDs to canonical TechStack entries
+ * and classifies how a company's technology relates to a requested one:
+ * - exact: same technology (including aliases, e.g. "Postgres" = "PostgreSQL")
+ * - implies: company uses a child of the requested technology (Next.js implies React)
+ * - parent: company uses the parent of the requested technology (React for Next.js)
+ * - sibling: both share a parent (Next.js and Remix)
+ */
+
+import { TechStackNode, TechStackRelation, TechStackTaxonomy } from '@/types/matching';
+
+/**
+ * Normalize a technology name for comparison
+ *
+ * Case, whitespace and punctuation are ignored, so "Next.js", "NextJS" and
+ * "next js" all normalize to "nextjs".
+ */
+export function normalizeTechName(name: string): string {
+  return name.toLowerCase().replace(/[\s._\-/]/g, '');
+}
+
+/**
+ * Build lookup tables from TechStack rows
+ */
+export function buildTechStackTaxonomy(nodes: TechStackNode[]): TechStackTaxonomy {
+  const byId = new Map<string, TechStackNode>();
+  const byKey = new Map<string, TechStackNode>();
+
+  for (const node of nodes) {
+    byId.set(node.id, node);
+    for (const key of [node.name, node.slug, ...node.aliases]) {
+      if (key) byKey.set(normalizeTechName(key), node);
+    }
+  }
+
+  return { byId, byKey };
+}
+
+/**
+ * Resolve a tech stack ID, name, slug or alias to its taxonomy entry
+ */
+export function resolveTechStack(
+  taxonomy: TechStackTaxonomy,
+  value: string
+): TechStackNode | undefined {
+  return taxonomy.byId.get(value) ?? taxonomy.byKey.get(normalizeTechName(value));
+}
+
+/**
+ * Check whether `ancestorId` is a (transitive) parent of `node`
+ */
+function isAncestor(taxonomy: TechStackTaxonomy, ancestorId: string, node: TechStackNode): boolean {
+  const visited = new Set<string>();
+  let parentId = node.parentId;
+
+  while (parentId && !visited.has(parentId)) {
+    if (parentId === ancestorId) return true;
+    visited.add(parentId);
+    parentId = taxonomy.byId.get(parentId)?.parentId ?? null;
+  }
+
+  return false;
+}
+
+/**
+ * Classify how a company technology relates to a requested technology
+ */
+export function getTechStackRelation(
+  taxonomy: TechStackTaxonomy,
+  requested: TechStackNode,
+  company: TechStackNode
+): TechStackRelation | null {
+  if (requested.id === company.id) return 'exact';
+  if (isAncestor(taxonomy, requested.id, company)) return 'implies';
+  if (isAncestor(taxonomy, company.id, requested)) return 'parent';
+  if (requested.parentId && requested.parentId === company.parentId) return 'sibling';
+  return null;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { DigestRequest, renderSavedSearchDigest } from "../digest"
+
+jest.mock("@/lib/prisma", () => ({ prisma: {} }))
+
+const request: DigestRequest = {
+  id: "req-1",
+  title: "ECサイト <リニューアル>",
+  projectType: "WEB_DEVELOPMENT",
+  budgetMin: 1000000,
+  budgetMax: 3000000,
+  budgetCurrency: "JPY",
+  budgetTaxIncluded: false,
+  budgetUnit: "ONE_OFF",
+  quoteDeadline: null,
+}
+
+describe("Saved Search Digest", () => {
+  describe("renderSavedSearchDigest", () => {
+    const message = renderSavedSearchDigest({
+      to: "member@example.com",
+      recipientName: "Hanako",
+      sections: [
+        { searchName: "EC案件", requests: [request] },
+        { searchName: "All web", requests: [{ ...request, id: "req-2", title: "Portal" }] },
+      ],
+      baseUrl: "https://example.com",
+    })
+
+    it("should count the requests in the subject", () => {
+      expect(message.to).toBe("member@example.com")
+      expect(message.subject).toBe("2 new requests match your saved searches")
+    })
+
+    it("should list requests by saved search with links", () => {
+      expect(message.text).toContain("■ EC案件")
+      expect(message.text).toContain("https://example.com/requests/req-1")
+      expect(message.text).toContain("Web Development · ¥1,000,000 - ¥3,000,000")
+    })
+
+    it("should escape HTML", () => {
+      expect(message.html).toContain("ECサイト &lt;リニューアル&gt;")
+      expect(message.html).not.toContain("<リニューアル>")
+    })
+  })
+})
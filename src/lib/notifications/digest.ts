@@ -0,0 +1,206 @@
+/**
+ * Saved Search Digest
+ *
+ * Emails each member the requests their saved searches matched since the
+ * last digest (SavedSearchMatch rows without emailedAt), one email per
+ * member. Searches with `emailDigest` off only alert in the inbox.
+ * Run by `npm run alerts:digest` or GET /api/cron/saved-search-digest.
+ */
+
+import { Currency, MoneyUnit, ProjectType } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getMailAdapter } from '@/lib/mail';
+import { MailMessage } from '@/lib/mail/adapter';
+import {
+  formatBudgetRange,
+  formatDate,
+  getBudgetTerms,
+  projectTypeLabels,
+} from '@/lib/utils/request';
+
+/**
+ * Request listed in a digest
+ */
+export interface DigestRequest {
+  id: string;
+  title: string;
+  projectType: ProjectType;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  budgetCurrency: Currency;
+  budgetTaxIncluded: boolean;
+  budgetUnit: MoneyUnit;
+  quoteDeadline: Date | null;
+}
+
+/**
+ * Requests matched by one saved search
+ */
+export interface DigestSection {
+  searchName: string;
+  requests: DigestRequest[];
+}
+
+/**
+ * Result of one digest run
+ */
+export interface DigestResult {
+  /** Emails sent */
+  sent: number;
+
+  /** Matches included in the emails */
+  matches: number;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function describeRequest(request: DigestRequest): string {
+  const parts = [
+    projectTypeLabels[request.projectType],
+    formatBudgetRange(request.budgetMin, request.budgetMax, getBudgetTerms(request)),
+  ];
+  if (request.quoteDeadline) {
+    parts.push(`Quotes until ${formatDate(request.quoteDeadline)}`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Render the digest email for one member
+ */
+export function renderSavedSearchDigest(input: {
+  to: string;
+  recipientName: string | null;
+  sections: DigestSection[];
+  baseUrl: string;
+}): MailMessage {
+  const total = input.sections.reduce((sum, section) => sum + section.requests.length, 0);
+  const subject =
+    total === 1
+      ? '1 new request matches your saved searches'
+      : `${total} new requests match your saved searches`;
+  const greeting = input.recipientName ? `Hello ${input.recipientName},` : 'Hello,';
+  const requestUrl = (id: string) => `${input.baseUrl}/requests/${id}`;
+
+  const text = [
+    greeting,
+    '',
+    `${subject}.`,
+    ...input.sections.flatMap((section) => [
+      '',
+      `■ ${section.searchName}`,
+      ...section.requests.flatMap((request) => [
+        `- ${request.title}`,
+        `  ${describeRequest(request)}`,
+        `  ${requestUrl(request.id)}`,
+      ]),
+    ]),
+    '',
+    `Manage your saved searches: ${input.baseUrl}/`,
+  ].join('\n');
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(subject)}.</p>`,
+    ...input.sections.map(
+      (section) =>
+        `<h3>${escapeHtml(section.searchName)}</h3><ul>${section.requests
+          .map(
+            (request) =>
+              `<li><a href="${escapeHtml(requestUrl(request.id))}">${escapeHtml(
+                request.title
+              )}</a><br><small>${escapeHtml(describeRequest(request))}</small></li>`
+          )
+          .join('')}</ul>`
+    ),
+    `<p><a href="${escapeHtml(input.baseUrl)}/">Manage your saved searches</a></p>`,
+  ].join('\n');
+
+  return { to: input.to, subject, text, html };
+}
+
+/**
+ * Email every member their pending saved search matches
+ *
+ * Matches are marked as emailed once the member's email was handed to the
+ * mail adapter. Matches of requests that are no longer open are dropped.
+ */
+export async function sendSavedSearchDigests(now: Date = new Date()): Promise<DigestResult> {
+  const pending = await prisma.savedSearchMatch.findMany({
+    where: { emailedAt: null, savedSearch: { emailDigest: true } },
+    include: {
+      savedSearch: {
+        select: {
+          name: true,
+          member: { select: { user: { select: { id: true, name: true, email: true } } } },
+        },
+      },
+      request: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          projectType: true,
+          budgetMin: true,
+          budgetMax: true,
+          budgetCurrency: true,
+          budgetTaxIncluded: true,
+          budgetUnit: true,
+          quoteDeadline: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const byUser = new Map<string, typeof pending>();
+  for (const match of pending) {
+    const userId = match.savedSearch.member.user.id;
+    byUser.set(userId, [...(byUser.get(userId) ?? []), match]);
+  }
+
+  const mail = getMailAdapter();
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const result: DigestResult = { sent: 0, matches: 0 };
+
+  for (const matches of byUser.values()) {
+    const { user } = matches[0].savedSearch.member;
+    const open = matches.filter((match) => match.request.status === 'PUBLISHED');
+
+    if (open.length > 0) {
+      const sections = new Map<string, DigestSection>();
+      for (const match of open) {
+        const section = sections.get(match.savedSearchId) ?? {
+          searchName: match.savedSearch.name,
+          requests: [],
+        };
+        section.requests.push(match.request);
+        sections.set(match.savedSearchId, section);
+      }
+
+      await mail.send(
+        renderSavedSearchDigest({
+          to: user.email,
+          recipientName: user.name,
+          sections: [...sections.values()],
+          baseUrl,
+        })
+      );
+      result.sent++;
+      result.matches += open.length;
+    }
+
+    await prisma.savedSearchMatch.updateMany({
+      where: { id: { in: matches.map((match) => match.id) } },
+      data: { emailedAt: now },
+    });
+  }
+
+  return result;
+}
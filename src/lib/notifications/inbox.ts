@@ -0,0 +1,36 @@
+/**
+ * Notification Inbox
+ *
+ * In-app notifications shown to a user (Notification rows).
+ */
+
+import { NotificationType, Prisma } from '@prisma/client';
+
+/**
+ * Notification to store for a user
+ */
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+}
+
+/**
+ * Add a notification to a user's inbox
+ *
+ * Accepts a transaction client so the notification is stored together with
+ * the change it reports.
+ */
+export function createNotification(tx: Prisma.TransactionClient, input: NotificationInput) {
+  return tx.notification.create({
+    data: {
+      userId: input.userId,
+      type: input.type,
+      title: input.title,
+      body: input.body ?? null,
+      link: input.link ?? null,
+    },
+  });
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "@jest/globals"
+import {
+  canSeeBuyerIdentity,
+  describeBuyer,
+  describeBuyerContact,
+  generateBuyerAlias,
+  presentBuyer,
+} from "../buyer"
+
+const request = {
+  id: "req-1",
+  userId: "u1",
+  visibility: "ANONYMOUS_BUYER" as const,
+  buyerIndustry: "RETAIL" as const,
+  buyerSize: "MEDIUM" as const,
+  user: { id: "u1", name: "Taro Yamada", image: null },
+}
+
+describe("Anonymous Buyers", () => {
+  describe("generateBuyerAlias", () => {
+    it("should be stable for a request", () => {
+      expect(generateBuyerAlias("req-1")).toBe(generateBuyerAlias("req-1"))
+      expect(generateBuyerAlias("req-1")).toMatch(/^[A-Z][a-z]+ [A-Z][a-z]+ \d{2}$/)
+    })
+
+    it("should differ between requests", () => {
+      const aliases = new Set(["a", "b", "c", "d", "e"].map((id) => generateBuyerAlias(id)))
+      expect(aliases.size).toBeGreaterThan(1)
+    })
+  })
+
+  describe("describeBuyer", () => {
+    it("should combine industry and size", () => {
+      expect(describeBuyer(request)).toBe("Retail, 101-300 employees")
+      expect(describeBuyer({ buyerIndustry: null, buyerSize: "STARTUP" })).toBe("1-20 employees")
+    })
+
+    it("should fall back when nothing is disclosed", () => {
+      expect(describeBuyer({ buyerIndustry: null, buyerSize: null })).toBe("Undisclosed buyer")
+    })
+  })
+
+  describe("describeBuyerContact", () => {
+    it("should include the name when known", () => {
+      expect(describeBuyerContact({ name: "Taro", email: "taro@example.com" })).toBe(
+        "Taro <taro@example.com>"
+      )
+      expect(describeBuyerContact({ name: null, email: "taro@example.com" })).toBe(
+        "taro@example.com"
+      )
+    })
+  })
+
+  describe("canSeeBuyerIdentity", () => {
+    const outsider = { isOwner: false, isSelected: false }
+
+    it("should reveal anonymous buyers to the owner and the selected company only", () => {
+      expect(canSeeBuyerIdentity(request, outsider)).toBe(false)
+      expect(canSeeBuyerIdentity(request, { isOwner: true, isSelected: false })).toBe(true)
+      expect(canSeeBuyerIdentity(request, { isOwner: false, isSelected: true })).toBe(true)
+    })
+
+    it("should always show other buyers", () => {
+      expect(canSeeBuyerIdentity({ visibility: "PUBLIC" }, outsider)).toBe(true)
+      expect(canSeeBuyerIdentity({ visibility: "INVITE_ONLY" }, outsider)).toBe(true)
+    })
+  })
+
+  describe("presentBuyer", () => {
+    it("should replace the user with the alias", () => {
+      const presented = presentBuyer(request, { isOwner: false, isSelected: false })
+
+      expect(presented.user).toBeNull()
+      expect(presented.userId).toBeNull()
+      expect(presented.buyer).toEqual({
+        alias: generateBuyerAlias("req-1"),
+        industry: "RETAIL",
+        size: "MEDIUM",
+        descriptor: "Retail, 101-300 employees",
+      })
+    })
+
+    it("should keep the user for viewers who may see it", () => {
+      const presented = presentBuyer(request, { isOwner: false, isSelected: true })
+
+      expect(presented.user).toEqual(request.user)
+      expect(presented.buyer).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "@jest/globals"
+import { RequirementItem, RequirementResponse } from "@/lib/validations/request"
+import {
+  buildRequirementCoverageMatrix,
+  featuresToRequirementItems,
+  getRequirementItems,
+  summarizeRequirementCoverage,
+  validateRequirementResponses,
+} from "../coverage"
+
+const items: RequirementItem[] = [
+  { id: "r1", title: "Login", priority: "SHOULD" },
+  { id: "r2", title: "Payments", priority: "MUST" },
+  { id: "r3", title: "Offline mode", priority: "WONT" },
+]
+
+const responses: RequirementResponse[] = [
+  { itemId: "r1", support: "PARTIAL", costImpact: 200000 },
+  { itemId: "r2", support: "SUPPORTED", costImpact: 500000 },
+]
+
+describe("Requirement Coverage", () => {
+  describe("getRequirementItems", () => {
+    it("should sort items by priority", () => {
+      expect(getRequirementItems({ items }).map((item) => item.id)).toEqual(["r2", "r1", "r3"])
+    })
+
+    it("should return no items for legacy requirements", () => {
+      expect(getRequirementItems({ features: ["Login"] })).toEqual([])
+      expect(getRequirementItems(null)).toEqual([])
+    })
+  })
+
+  describe("featuresToRequirementItems", () => {
+    it("should create items with unique IDs", () => {
+      const converted = featuresToRequirementItems(["Login", "Search"])
+
+      expect(converted.map((item) => item.title)).toEqual(["Login", "Search"])
+      expect(converted[0].priority).toBe("SHOULD")
+      expect(converted[0].id).not.toBe(converted[1].id)
+    })
+  })
+
+  describe("validateRequirementResponses", () => {
+    it("should accept answers to every in-scope item", () => {
+      expect(validateRequirementResponses(items, responses)).toEqual({ valid: true })
+    })
+
+    it("should reject missing answers", () => {
+      const result = validateRequirementResponses(items, responses.slice(1))
+
+      expect(result.valid).toBe(false)
+      expect(result.error).toContain("Login")
+    })
+
+    it("should reject unknown and duplicate items", () => {
+      expect(
+        validateRequirementResponses(items, [...responses, { itemId: "x", support: "SUPPORTED" }])
+          .valid
+      ).toBe(false)
+      expect(validateRequirementResponses(items, [...responses, responses[0]]).valid).toBe(false)
+    })
+  })
+
+  describe("summarizeRequirementCoverage", () => {
+    it("should count answers and sum cost impact", () => {
+      expect(summarizeRequirementCoverage(items, responses)).toEqual({
+        supported: 1,
+        partial: 1,
+        notSupported: 0,
+        unanswered: 0,
+        mustCovered: true,
+        costImpact: 700000,
+      })
+    })
+
+    it("should flag MUST items that are not fully supported", () => {
+      const summary = summarizeRequirementCoverage(items, [
+        { itemId: "r2", support: "PARTIAL" },
+      ])
+
+      expect(summary.mustCovered).toBe(false)
+      expect(summary.unanswered).toBe(1)
+    })
+  })
+
+  describe("buildRequirementCoverageMatrix", () => {
+    it("should build one row per item with each proposal's answer", () => {
+      const matrix = buildRequirementCoverageMatrix(items, [
+        { id: "p1", requirementResponses: responses },
+        { id: "p2", requirementResponses: null },
+      ])
+
+      expect(matrix.rows.map((row) => row.item.id)).toEqual(["r2", "r1", "r3"])
+      expect(matrix.rows[0].responses).toEqual({ p1: responses[1], p2: null })
+      expect(matrix.summaries.p2.mustCovered).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { Prisma } from "@prisma/client"
+import {
+  canDeleteRequest,
+  canTransitionRequest,
+  getAvailableTransitions,
+  RequestTransitionError,
+  transitionRequestStatus,
+  validateRequestTransition,
+} from "../lifecycle"
+
+function makeTx(updatedCount = 1) {
+  const updateMany = jest.fn(async (_args: unknown) => ({ count: updatedCount }))
+  const create = jest.fn(async (args: { data: Record<string, unknown> }) => ({
+    id: "history-1",
+    ...args.data,
+  }))
+
+  return {
+    tx: {
+      request: { updateMany },
+      requestStatusHistory: { create },
+    } as unknown as Prisma.TransactionClient,
+    updateMany,
+    create,
+  }
+}
+
+describe("Request Lifecycle", () => {
+  describe("canTransitionRequest", () => {
+    it("should follow DRAFT → PUBLISHED → CLOSED", () => {
+      expect(canTransitionRequest("DRAFT", "PUBLISH")).toBe(true)
+      expect(canTransitionRequest("PUBLISHED", "CLOSE")).toBe(true)
+      expect(canTransitionRequest("PUBLISHED", "EXPIRE")).toBe(true)
+      expect(canTransitionRequest("DRAFT", "CLOSE")).toBe(false)
+      expect(canTransitionRequest("PUBLISHED", "PUBLISH")).toBe(false)
+    })
+
+    it("should only reopen closed requests", () => {
+      expect(canTransitionRequest("CLOSED", "REOPEN")).toBe(true)
+      expect(canTransitionRequest("CANCELLED", "REOPEN")).toBe(false)
+      expect(canTransitionRequest("PUBLISHED", "REOPEN")).toBe(false)
+    })
+
+    it("should treat cancelled requests as final", () => {
+      expect(getAvailableTransitions("CANCELLED")).toEqual([])
+      expect(canDeleteRequest("CANCELLED")).toBe(true)
+      expect(canDeleteRequest("PUBLISHED")).toBe(false)
+    })
+  })
+
+  describe("validateRequestTransition", () => {
+    it("should explain rejected transitions", () => {
+      expect(validateRequestTransition("CLOSED", "CANCEL")).toEqual({
+        valid: false,
+        error: "Cannot cancel a request in CLOSED status",
+      })
+    })
+  })
+
+  describe("transitionRequestStatus", () => {
+    const now = new Date("2026-10-19T12:00:00Z")
+
+    it("should update the status and record the transition", async () => {
+      const { tx, updateMany, create } = makeTx()
+
+      await transitionRequestStatus(tx, { id: "r1", status: "PUBLISHED" }, "CLOSE", {
+        actorId: "u1",
+        reason: "Found a vendor",
+        now,
+      })
+
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: "r1", status: "PUBLISHED" },
+        data: { status: "CLOSED", closedAt: now },
+      })
+      expect(create).toHaveBeenCalledWith({
+        data: {
+          requestId: "r1",
+          fromStatus: "PUBLISHED",
+          toStatus: "CLOSED",
+          transition: "CLOSE",
+          actorId: "u1",
+          reason: "Found a vendor",
+          createdAt: now,
+        },
+      })
+    })
+
+    it("should clear closedAt when reopening", async () => {
+      const { tx, updateMany } = makeTx()
+
+      await transitionRequestStatus(tx, { id: "r1", status: "CLOSED" }, "REOPEN", {
+        actorId: "u1",
+        now,
+      })
+
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: "r1", status: "CLOSED" },
+        data: { status: "PUBLISHED", closedAt: null },
+      })
+    })
+
+    it("should reject transitions that are not allowed", async () => {
+      const { tx, updateMany } = makeTx()
+
+      await expect(
+        transitionRequestStatus(tx, { id: "r1", status: "DRAFT" }, "EXPIRE", { actorId: null })
+      ).rejects.toThrow(RequestTransitionError)
+      expect(updateMany).not.toHaveBeenCalled()
+    })
+
+    it("should fail when the status changed concurrently", async () => {
+      const { tx, create } = makeTx(0)
+
+      await expect(
+        transitionRequestStatus(tx, { id: "r1", status: "PUBLISHED" }, "CANCEL", {
+          actorId: "u1",
+        })
+      ).rejects.toThrow("Request status was changed by another action")
+      expect(create).not.toHaveBeenCalled()
+    })
+  })
+})
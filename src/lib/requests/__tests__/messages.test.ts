@@ -0,0 +1,196 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { Prisma } from "@prisma/client"
+import {
+  canSendMessage,
+  getMessageSender,
+  getReadUpTo,
+  getUnreadMessagesWhere,
+  hasMessageThread,
+  presentMessage,
+  sendProposalMessage,
+} from "../messages"
+
+const now = new Date("2026-10-19T12:00:00Z")
+const earlier = new Date("2026-10-19T09:00:00Z")
+
+const proposal = { id: "p1", companyId: "c1", company: { name: "Acme" } }
+const request = { title: "Inventory system", userId: "buyer" }
+
+const message = {
+  id: "m1",
+  sender: "BUYER" as const,
+  authorId: "buyer",
+  author: { id: "buyer", name: "Taro" },
+  body: "Can you start in November?",
+  attachments: [],
+  createdAt: earlier,
+}
+
+function makeTx() {
+  const create = jest.fn(async (args: { data: Record<string, unknown> }) => ({
+    id: "m2",
+    ...args.data,
+  }))
+  const update = jest.fn(async (_args: unknown) => ({}))
+  const upsert = jest.fn(async (_args: unknown) => ({}))
+  const findMany = jest.fn(async (_args: unknown) => [
+    { userId: "u1" },
+    { userId: "u2" },
+    { userId: "buyer" },
+  ])
+  const notify = jest.fn(async (args: { data: Record<string, unknown> }) => args.data)
+
+  return {
+    tx: {
+      proposalMessage: { create },
+      requestCompany: { update },
+      proposalThreadRead: { upsert },
+      companyUser: { findMany },
+      notification: { create: notify },
+    } as unknown as Prisma.TransactionClient,
+    create,
+    update,
+    upsert,
+    notify,
+  }
+}
+
+describe("Proposal messages", () => {
+  describe("thread statuses", () => {
+    it("should open the thread once the proposal is submitted", () => {
+      expect(hasMessageThread("PENDING")).toBe(false)
+      expect(hasMessageThread("RESPONDED")).toBe(true)
+      expect(canSendMessage("SELECTED")).toBe(true)
+    })
+
+    it("should keep the thread of a rejected proposal read-only", () => {
+      expect(hasMessageThread("REJECTED")).toBe(true)
+      expect(canSendMessage("REJECTED")).toBe(false)
+    })
+  })
+
+  describe("getMessageSender", () => {
+    it("should let a request owner speak as the buyer", () => {
+      expect(getMessageSender({ isRequestOwner: true, isCompanyMember: true })).toBe("BUYER")
+      expect(getMessageSender({ isRequestOwner: false, isCompanyMember: true })).toBe("COMPANY")
+      expect(getMessageSender({ isRequestOwner: false, isCompanyMember: false })).toBeNull()
+    })
+  })
+
+  describe("getUnreadMessagesWhere", () => {
+    it("should count the other side's messages after the read position", () => {
+      expect(getUnreadMessagesWhere("p1", "BUYER", earlier)).toEqual({
+        requestCompanyId: "p1",
+        sender: "COMPANY",
+        createdAt: { gt: earlier },
+      })
+      expect(getUnreadMessagesWhere("p1", "COMPANY", null)).toEqual({
+        requestCompanyId: "p1",
+        sender: "BUYER",
+      })
+    })
+  })
+
+  describe("presentMessage", () => {
+    const viewer = { userId: "buyer", sender: "BUYER" as const, showBuyer: true }
+
+    it("should mark own side messages as read once the other side has read them", () => {
+      expect(presentMessage(message, viewer, null).isRead).toBe(false)
+      expect(presentMessage(message, viewer, getReadUpTo([{ lastReadAt: now }])).isRead).toBe(true)
+      expect(presentMessage(message, viewer, null).isOwn).toBe(true)
+    })
+
+    it("should hide the buyer of an anonymous request", () => {
+      const view = presentMessage(
+        message,
+        { userId: "u1", sender: "COMPANY", showBuyer: false },
+        null
+      )
+
+      expect(view.author).toBeNull()
+      expect(view.isOwn).toBe(false)
+      expect(view.isRead).toBe(true)
+    })
+  })
+
+  describe("getReadUpTo", () => {
+    it("should use the furthest read position", () => {
+      expect(getReadUpTo([])).toBeNull()
+      expect(getReadUpTo([{ lastReadAt: earlier }, { lastReadAt: now }])).toEqual(now)
+    })
+  })
+
+  describe("sendProposalMessage", () => {
+    it("should store the message and mark the thread read for the author", async () => {
+      const { tx, create, update, upsert } = makeTx()
+
+      await sendProposalMessage(
+        tx,
+        proposal,
+        request,
+        { sender: "BUYER", authorId: "buyer", body: message.body, attachments: [] },
+        { now }
+      )
+
+      expect(create).toHaveBeenCalledWith({
+        data: {
+          requestCompanyId: "p1",
+          sender: "BUYER",
+          authorId: "buyer",
+          body: message.body,
+          attachments: [],
+          createdAt: now,
+        },
+      })
+      expect(update).toHaveBeenCalledWith({ where: { id: "p1" }, data: { lastMessageAt: now } })
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { requestCompanyId_userId: { requestCompanyId: "p1", userId: "buyer" } },
+          update: { lastReadAt: now },
+        })
+      )
+    })
+
+    it("should notify every company member of buyer messages except the author", async () => {
+      const { tx, notify } = makeTx()
+
+      await sendProposalMessage(
+        tx,
+        proposal,
+        request,
+        { sender: "BUYER", authorId: "buyer", body: message.body, attachments: [] },
+        { now }
+      )
+
+      expect(notify).toHaveBeenCalledTimes(2)
+      expect(notify).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: "u1",
+          type: "PROPOSAL_MESSAGE",
+          title: "New message from the buyer: Inventory system",
+          link: "/proposals/p1#messages",
+        }),
+      })
+    })
+
+    it("should notify the buyer of company messages", async () => {
+      const { tx, notify } = makeTx()
+
+      await sendProposalMessage(
+        tx,
+        proposal,
+        request,
+        { sender: "COMPANY", authorId: "u1", body: "Yes, from November 4.", attachments: [] },
+        { now }
+      )
+
+      expect(notify).toHaveBeenCalledTimes(1)
+      expect(notify).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: "buyer",
+          title: "New message from Acme: Inventory system",
+        }),
+      })
+    })
+  })
+})
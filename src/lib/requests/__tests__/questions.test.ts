@@ -0,0 +1,227 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { Prisma } from "@prisma/client"
+import { requestAnswerSchema } from "@/lib/validations/request"
+import {
+  answerQuestion,
+  askQuestion,
+  canAskQuestions,
+  findQuestionInvitation,
+  getVisibleQuestionsWhere,
+  presentQuestion,
+  RequestQuestionError,
+} from "../questions"
+
+const now = new Date("2026-10-19T12:00:00Z")
+
+const request = {
+  id: "r1",
+  title: "Inventory system",
+  userId: "buyer",
+  status: "PUBLISHED" as const,
+  quoteDeadline: new Date("2026-11-01T00:00:00Z"),
+  deadline: null,
+}
+
+const question = {
+  id: "q1",
+  companyId: "c1",
+  question: "Is the barcode scanner already purchased?",
+  answer: null,
+  visibility: "PRIVATE" as const,
+  answeredAt: null,
+  createdAt: now,
+  company: { id: "c1", name: "Acme" },
+}
+
+function makeTx({ updatedCount = 1 } = {}) {
+  const create = jest.fn(async (args: { data: Record<string, unknown> }) => ({
+    id: "q2",
+    ...args.data,
+  }))
+  const updateMany = jest.fn(async (_args: unknown) => ({ count: updatedCount }))
+  const findMany = jest.fn(async (_args: unknown) => [
+    { userId: "u1", companyId: "c2" },
+    { userId: "u1", companyId: "c1" },
+    { userId: "u2", companyId: "c2" },
+  ])
+  const notify = jest.fn(async (args: { data: Record<string, unknown> }) => args.data)
+
+  return {
+    tx: {
+      requestQuestion: { create, updateMany },
+      companyUser: { findMany },
+      notification: { create: notify },
+    } as unknown as Prisma.TransactionClient,
+    create,
+    updateMany,
+    findMany,
+    notify,
+  }
+}
+
+describe("Request Q&A", () => {
+  describe("canAskQuestions", () => {
+    it("should let invited companies ask while the quote window is open", () => {
+      expect(canAskQuestions(request, { status: "PENDING" }, now)).toBe(true)
+      expect(canAskQuestions(request, { status: "RESPONDED" }, now)).toBe(true)
+    })
+
+    it("should reject uninvited, rejected and late companies", () => {
+      expect(canAskQuestions(request, null, now)).toBe(false)
+      expect(canAskQuestions(request, { status: "REJECTED" }, now)).toBe(false)
+      expect(canAskQuestions(request, { status: "PENDING" }, new Date("2026-11-02"))).toBe(false)
+      expect(canAskQuestions({ ...request, status: "CLOSED" }, { status: "PENDING" }, now)).toBe(
+        false
+      )
+    })
+  })
+
+  describe("findQuestionInvitation", () => {
+    function makeInvitationTx(invitations: { companyId: string; status: string }[]) {
+      const findMany = jest.fn(async (_args: unknown) =>
+        invitations.map((invitation) => ({
+          ...invitation,
+          company: { id: invitation.companyId, name: invitation.companyId },
+        }))
+      )
+      return {
+        tx: { requestCompany: { findMany } } as unknown as Prisma.TransactionClient,
+        findMany,
+      }
+    }
+
+    it("should let a selected company read its questions and the FAQ", async () => {
+      const { tx } = makeInvitationTx([{ companyId: "c1", status: "SELECTED" }])
+
+      const invitation = await findQuestionInvitation(tx, "r1", "member@example.com")
+
+      expect(invitation?.companyId).toBe("c1")
+      expect(canAskQuestions(request, invitation, now)).toBe(false)
+      expect(getVisibleQuestionsWhere("r1", { isOwner: false, companyId: "c1" })).toEqual({
+        requestId: "r1",
+        OR: [{ companyId: "c1" }, { visibility: "PUBLIC", answeredAt: { not: null } }],
+      })
+    })
+
+    it("should prefer a company that can still ask", async () => {
+      const { tx } = makeInvitationTx([
+        { companyId: "c1", status: "REJECTED" },
+        { companyId: "c2", status: "RESPONDED" },
+      ])
+
+      const invitation = await findQuestionInvitation(tx, "r1", "member@example.com")
+
+      expect(invitation?.companyId).toBe("c2")
+      expect(canAskQuestions(request, invitation, now)).toBe(true)
+    })
+
+    it("should return null for users without an invitation", async () => {
+      const { tx } = makeInvitationTx([])
+
+      expect(await findQuestionInvitation(tx, "r1", "member@example.com")).toBeNull()
+    })
+  })
+
+  describe("getVisibleQuestionsWhere", () => {
+    it("should show every question to the buyer", () => {
+      expect(getVisibleQuestionsWhere("r1", { isOwner: true, companyId: null })).toEqual({
+        requestId: "r1",
+      })
+    })
+
+    it("should show companies their own questions and the public FAQ", () => {
+      expect(getVisibleQuestionsWhere("r1", { isOwner: false, companyId: "c2" })).toEqual({
+        requestId: "r1",
+        OR: [{ companyId: "c2" }, { visibility: "PUBLIC", answeredAt: { not: null } }],
+      })
+    })
+  })
+
+  describe("presentQuestion", () => {
+    it("should hide the asking company from other companies", () => {
+      expect(presentQuestion(question, { isOwner: true, companyId: null }).company).toEqual({
+        id: "c1",
+        name: "Acme",
+      })
+      expect(presentQuestion(question, { isOwner: false, companyId: "c1" })).toEqual(
+        expect.objectContaining({ isOwn: true, company: null })
+      )
+      expect(presentQuestion(question, { isOwner: false, companyId: "c2" })).toEqual(
+        expect.objectContaining({ isOwn: false, company: null })
+      )
+    })
+  })
+
+  describe("askQuestion", () => {
+    it("should store the question and notify the buyer", async () => {
+      const { tx, create, notify } = makeTx()
+
+      await askQuestion(tx, request, { id: "c1", name: "Acme" }, question.question, {
+        authorId: "u1",
+        now,
+      })
+
+      expect(create).toHaveBeenCalledWith({
+        data: {
+          requestId: "r1",
+          companyId: "c1",
+          authorId: "u1",
+          question: question.question,
+          createdAt: now,
+        },
+      })
+      expect(notify).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: "buyer", type: "REQUEST_QUESTION_ASKED" }),
+      })
+    })
+  })
+
+  describe("answerQuestion", () => {
+    it("should notify only the asking company of private answers", async () => {
+      const { tx, updateMany, findMany } = makeTx()
+
+      await answerQuestion(tx, question, request, { answer: "Yes", visibility: "PRIVATE" }, { now })
+
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: "q1", requestId: "r1", answeredAt: null },
+        data: { answer: "Yes", visibility: "PRIVATE", answeredAt: now },
+      })
+      expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { companyId: "c1" } }))
+    })
+
+    it("should notify every invited company of public answers once per user", async () => {
+      const { tx, notify } = makeTx()
+
+      await answerQuestion(tx, question, request, { answer: "Yes", visibility: "PUBLIC" }, { now })
+
+      expect(notify).toHaveBeenCalledTimes(2)
+      expect(notify).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: "u1",
+          title: "Your question was answered: Inventory system",
+        }),
+      })
+      expect(notify).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: "u2", title: "New FAQ answer: Inventory system" }),
+      })
+    })
+
+    it("should answer a question once", async () => {
+      const { tx, notify } = makeTx({ updatedCount: 0 })
+
+      await expect(
+        answerQuestion(tx, question, request, { answer: "Again", visibility: "PRIVATE" })
+      ).rejects.toThrow(RequestQuestionError)
+      expect(notify).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("requestAnswerSchema", () => {
+    it("should default answers to private", () => {
+      expect(requestAnswerSchema.parse({ answer: " Yes " })).toEqual({
+        answer: "Yes",
+        visibility: "PRIVATE",
+      })
+    })
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "@jest/globals"
+import { quoteInputSchema, QuoteLineItem } from "@/lib/validations/request"
+import {
+  buildQuote,
+  buildQuotePhaseComparison,
+  calculateQuoteTotals,
+  getLineItemAmount,
+  getQuote,
+} from "../quotes"
+
+const line = (overrides: Partial<QuoteLineItem>): QuoteLineItem => ({
+  id: "line-1",
+  phase: "Development",
+  optional: false,
+  ...overrides,
+})
+
+const lineItems = [
+  line({ id: "a", phase: "Design", personDays: 10, unitRate: 50000 }),
+  line({ id: "b", phase: "Development", role: "Backend", personDays: 20, unitRate: 60000 }),
+  line({ id: "c", phase: "development ", role: "Frontend", personDays: 10, unitRate: 55000 }),
+  line({ id: "d", phase: "Development", fixedFee: 100000, description: "Licenses" }),
+  line({ id: "e", phase: "Testing", personDays: 5, unitRate: 50000, optional: true }),
+]
+
+describe("Line-item Quotes", () => {
+  describe("getLineItemAmount", () => {
+    it("should add person-days × rate and the fixed fee", () => {
+      expect(getLineItemAmount(line({ personDays: 2.5, unitRate: 40000 }))).toBe(100000)
+      expect(getLineItemAmount(line({ fixedFee: 30000 }))).toBe(30000)
+      expect(getLineItemAmount(line({ personDays: 1, unitRate: 40000, fixedFee: 5000 }))).toBe(
+        45000
+      )
+    })
+  })
+
+  describe("calculateQuoteTotals", () => {
+    it("should leave optional lines out of the total", () => {
+      const totals = calculateQuoteTotals(lineItems, 0.1)
+
+      expect(totals.subtotal).toBe(500000 + 1200000 + 550000 + 100000)
+      expect(totals.optionalTotal).toBe(250000)
+      expect(totals.tax).toBe(235000)
+      expect(totals.total).toBe(2585000)
+      expect(totals.personDays).toBe(40)
+    })
+
+    it("should group phases by name in order of appearance", () => {
+      const { phases } = calculateQuoteTotals(lineItems, 0.1)
+
+      expect(phases.map((phase) => phase.phase)).toEqual(["Design", "Development", "Testing"])
+      expect(phases[1]).toEqual({
+        phase: "Development",
+        personDays: 30,
+        subtotal: 1850000,
+        optionalTotal: 0,
+      })
+      expect(phases[2]).toEqual({
+        phase: "Testing",
+        personDays: 0,
+        subtotal: 0,
+        optionalTotal: 250000,
+      })
+    })
+
+    it("should round the tax down", () => {
+      expect(calculateQuoteTotals([line({ fixedFee: 12345 })], 0.1).tax).toBe(1234)
+    })
+  })
+
+  describe("getQuote", () => {
+    it("should recompute the totals of a stored quote", () => {
+      const stored = {
+        ...buildQuote({ lineItems, taxRate: 0.1 }),
+        totals: { subtotal: 1 },
+      }
+
+      expect(getQuote(stored)?.totals.subtotal).toBe(2350000)
+    })
+
+    it("should return null for single-amount proposals", () => {
+      expect(getQuote(null)).toBeNull()
+      expect(getQuote({ foo: "bar" })).toBeNull()
+    })
+  })
+
+  describe("buildQuotePhaseComparison", () => {
+    it("should line up phases across proposals", () => {
+      const rows = buildQuotePhaseComparison([
+        { id: "p1", quote: buildQuote({ lineItems, taxRate: 0.1 }) },
+        {
+          id: "p2",
+          quote: buildQuote({
+            lineItems: [
+              line({ phase: "DEVELOPMENT", fixedFee: 2000000 }),
+              line({ id: "x", phase: "Maintenance", fixedFee: 300000 }),
+            ],
+            taxRate: 0.1,
+          }),
+        },
+        { id: "p3", quote: null },
+      ])
+
+      expect(rows.map((row) => row.phase)).toEqual([
+        "Design",
+        "Development",
+        "Testing",
+        "Maintenance",
+      ])
+      expect(rows[1].amounts.p1?.subtotal).toBe(1850000)
+      expect(rows[1].amounts.p2?.subtotal).toBe(2000000)
+      expect(rows[1].amounts.p3).toBeNull()
+      expect(rows[3].amounts.p1).toBeNull()
+    })
+  })
+
+  describe("quoteInputSchema", () => {
+    it("should default the tax rate to consumption tax", () => {
+      expect(quoteInputSchema.parse({ lineItems: [line({ fixedFee: 1000 })] }).taxRate).toBe(0.1)
+    })
+
+    it("should require person-days and rate together, or a fixed fee", () => {
+      expect(quoteInputSchema.safeParse({ lineItems: [line({ personDays: 3 })] }).success).toBe(
+        false
+      )
+      expect(quoteInputSchema.safeParse({ lineItems: [line({})] }).success).toBe(false)
+      expect(
+        quoteInputSchema.safeParse({ lineItems: [line({ personDays: 3, unitRate: 50000 })] })
+          .success
+      ).toBe(true)
+    })
+
+    it("should require at least one line", () => {
+      expect(quoteInputSchema.safeParse({ lineItems: [] }).success).toBe(false)
+    })
+  })
+})
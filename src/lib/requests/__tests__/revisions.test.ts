@@ -0,0 +1,227 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { Prisma } from "@prisma/client"
+import {
+  canReviseProposal,
+  compareProposalRevisions,
+  diffProposalSnapshots,
+  ProposalRevisionError,
+  recordProposalRevision,
+  requestProposalRevision,
+  toProposalSnapshot,
+} from "../revisions"
+
+const now = new Date("2026-10-19T12:00:00Z")
+
+const first = toProposalSnapshot({
+  estimatedCost: 2000000,
+  estimatedDuration: "3 months",
+  durationValue: 3,
+  durationUnit: "MONTHS",
+  proposal: "Phase 1: design\nPhase 2: build\nPhase 3: test",
+  requestVersion: 1,
+})
+
+const second = toProposalSnapshot({
+  ...first,
+  estimatedCost: 1800000,
+  estimatedDuration: "10 weeks",
+  durationValue: 10,
+  durationUnit: "WEEKS",
+  proposal: "Phase 1: design\nPhase 2: build and test",
+})
+
+function makeTx({ updatedCount = 1, openRequest = false } = {}) {
+  const updateMany = jest.fn(async (_args: unknown) => ({ count: updatedCount }))
+  const findUnique = jest.fn(async (_args: unknown) => ({ snapshot: first }))
+  const create = jest.fn(async (args: { data: Record<string, unknown> }) => ({
+    id: "revision-2",
+    ...args.data,
+  }))
+  const resolve = jest.fn(async (_args: unknown) => ({ count: openRequest ? 1 : 0 }))
+  const findFirst = jest.fn(async (_args: unknown) => (openRequest ? { id: "rr1" } : null))
+  const createRequest = jest.fn(async (args: { data: Record<string, unknown> }) => ({
+    id: "rr2",
+    ...args.data,
+  }))
+  const findMany = jest.fn(async (_args: unknown) => [{ userId: "cu1" }, { userId: "cu2" }])
+  const notify = jest.fn(async (args: { data: Record<string, unknown> }) => args.data)
+
+  return {
+    tx: {
+      requestCompany: { updateMany },
+      proposalRevision: { findUnique, create },
+      proposalRevisionRequest: { updateMany: resolve, findFirst, create: createRequest },
+      companyUser: { findMany },
+      notification: { create: notify },
+    } as unknown as Prisma.TransactionClient,
+    updateMany,
+    create,
+    resolve,
+    createRequest,
+    notify,
+  }
+}
+
+describe("Proposal Revisions", () => {
+  describe("diffProposalSnapshots", () => {
+    it("should list changed fields only", () => {
+      expect(diffProposalSnapshots(first, second).map((change) => change.field)).toEqual([
+        "estimatedCost",
+        "estimatedDuration",
+        "durationValue",
+        "durationUnit",
+        "proposal",
+      ])
+      expect(diffProposalSnapshots(first, { ...first })).toEqual([])
+    })
+  })
+
+  describe("compareProposalRevisions", () => {
+    it("should compare cost, duration and text", () => {
+      const comparison = compareProposalRevisions(first, second)
+
+      expect(comparison.cost).toEqual({ from: 2000000, to: 1800000, difference: -200000 })
+      expect(comparison.duration).toEqual(
+        expect.objectContaining({ fromDays: 90, toDays: 70, difference: -20 })
+      )
+      expect(comparison.text[1]).toEqual({
+        left: { type: "removed", text: "Phase 2: build" },
+        right: { type: "added", text: "Phase 2: build and test" },
+      })
+    })
+
+    it("should not subtract costs quoted in different terms", () => {
+      const monthly = { ...second, estimatedUnit: "MONTHLY" as const }
+
+      expect(compareProposalRevisions(first, monthly).cost.difference).toBeNull()
+    })
+  })
+
+  describe("canReviseProposal", () => {
+    it("should need a revision request or an amended request", () => {
+      const options = { hasOpenRevisionRequest: false, isOutdated: false }
+
+      expect(canReviseProposal({ status: "RESPONDED" }, options)).toBe(false)
+      expect(
+        canReviseProposal({ status: "RESPONDED" }, { ...options, hasOpenRevisionRequest: true })
+      ).toBe(true)
+      expect(
+        canReviseProposal({ status: "SELECTED" }, { ...options, hasOpenRevisionRequest: true })
+      ).toBe(false)
+    })
+  })
+
+  describe("recordProposalRevision", () => {
+    const request = { title: "Inventory system", userId: "buyer" }
+
+    it("should store the first submission without changes or notification", async () => {
+      const { tx, create, notify } = makeTx()
+
+      await recordProposalRevision(
+        tx,
+        { id: "p1", revision: 0, companyName: "Acme" },
+        request,
+        first,
+        { authorId: "cu1", now }
+      )
+
+      expect(create).toHaveBeenCalledWith({
+        data: {
+          requestCompanyId: "p1",
+          revision: 1,
+          snapshot: first,
+          changes: Prisma.JsonNull,
+          note: null,
+          authorId: "cu1",
+          createdAt: now,
+        },
+      })
+      expect(notify).not.toHaveBeenCalled()
+    })
+
+    it("should store the changes, resolve revision requests and notify the buyer", async () => {
+      const { tx, updateMany, create, resolve, notify } = makeTx({ openRequest: true })
+
+      await recordProposalRevision(
+        tx,
+        { id: "p1", revision: 1, companyName: "Acme" },
+        request,
+        second,
+        { authorId: "cu1", note: "Cheaper", now }
+      )
+
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: "p1", revision: 1 },
+        data: { revision: 2 },
+      })
+      expect(create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          revision: 2,
+          changes: diffProposalSnapshots(first, second),
+          note: "Cheaper",
+        }),
+      })
+      expect(resolve).toHaveBeenCalledWith({
+        where: { requestCompanyId: "p1", resolvedAt: null },
+        data: { resolvedRevision: 2, resolvedAt: now },
+      })
+      expect(notify).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: "buyer",
+          type: "PROPOSAL_REVISED",
+          body: "Acme submitted revision 2 in response to your revision request (Estimated cost, Duration, Duration unit, Proposal changed).",
+        }),
+      })
+    })
+
+    it("should fail when the proposal changed concurrently", async () => {
+      const { tx, create } = makeTx({ updatedCount: 0 })
+
+      await expect(
+        recordProposalRevision(
+          tx,
+          { id: "p1", revision: 1, companyName: "Acme" },
+          request,
+          second,
+          { authorId: "cu1" }
+        )
+      ).rejects.toThrow(ProposalRevisionError)
+      expect(create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("requestProposalRevision", () => {
+    const proposal = { id: "p1", revision: 1, companyId: "c1" }
+
+    it("should store the comment and notify company members", async () => {
+      const { tx, createRequest, notify } = makeTx()
+
+      await requestProposalRevision(tx, proposal, { title: "Inventory system" }, "Lower the cost", {
+        authorId: "buyer",
+        now,
+      })
+
+      expect(createRequest).toHaveBeenCalledWith({
+        data: {
+          requestCompanyId: "p1",
+          revision: 1,
+          comment: "Lower the cost",
+          authorId: "buyer",
+          createdAt: now,
+        },
+      })
+      expect(notify).toHaveBeenCalledTimes(2)
+    })
+
+    it("should allow one open revision request at a time", async () => {
+      const { tx, createRequest } = makeTx({ openRequest: true })
+
+      await expect(
+        requestProposalRevision(tx, proposal, { title: "Inventory system" }, "Again", {
+          authorId: "buyer",
+        })
+      ).rejects.toThrow(ProposalRevisionError)
+      expect(createRequest).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "@jest/globals"
+import { Milestone, scheduleSchema } from "@/lib/validations/request"
+import {
+  buildScheduleTimeline,
+  formatDuration,
+  getAverageDurationDays,
+  getDurationDays,
+  getMilestones,
+  parseDurationDays,
+  validateSchedule,
+} from "../schedule"
+
+const milestone = (overrides: Partial<Milestone>): Milestone => ({
+  id: "ms-1",
+  title: "Design",
+  startDate: "2026-01-05",
+  endDate: "2026-01-30",
+  paymentPercent: 30,
+  ...overrides,
+})
+
+const schedule = [
+  milestone({
+    id: "b",
+    title: "Build",
+    startDate: "2026-02-01",
+    endDate: "2026-03-31",
+    paymentPercent: 50,
+  }),
+  milestone({ id: "a" }),
+  milestone({
+    id: "c",
+    title: "Launch",
+    startDate: "2026-04-01",
+    endDate: "2026-04-10",
+    paymentPercent: 20,
+  }),
+]
+
+describe("Proposal Schedules", () => {
+  describe("formatDuration", () => {
+    it("should pluralize the unit", () => {
+      expect(formatDuration(3, "MONTHS")).toBe("3 months")
+      expect(formatDuration(1, "WEEKS")).toBe("1 week")
+    })
+  })
+
+  describe("parseDurationDays", () => {
+    it("should parse English and Japanese durations", () => {
+      expect(parseDurationDays("3 months")).toBe(90)
+      expect(parseDurationDays("12 weeks")).toBe(84)
+      expect(parseDurationDays("約３ヶ月")).toBe(90)
+      expect(parseDurationDays("2週間")).toBe(14)
+      expect(parseDurationDays("45 days")).toBe(45)
+    })
+
+    it("should take the upper bound of ranges", () => {
+      expect(parseDurationDays("2-3 months")).toBe(90)
+    })
+
+    it("should return null when no duration can be found", () => {
+      expect(parseDurationDays("ASAP")).toBeNull()
+      expect(parseDurationDays(null)).toBeNull()
+    })
+  })
+
+  describe("getDurationDays", () => {
+    it("should prefer the structured duration", () => {
+      expect(
+        getDurationDays({ durationValue: 2, durationUnit: "WEEKS", estimatedDuration: "3 months" })
+      ).toBe(14)
+      expect(getDurationDays({ estimatedDuration: "3 months" })).toBe(90)
+    })
+
+    it("should average the known durations", () => {
+      expect(
+        getAverageDurationDays([
+          { durationValue: 2, durationUnit: "MONTHS" },
+          { estimatedDuration: "30 days" },
+          { estimatedDuration: "TBD" },
+        ])
+      ).toBe(45)
+      expect(getAverageDurationDays([{ estimatedDuration: "TBD" }])).toBeNull()
+    })
+  })
+
+  describe("getMilestones", () => {
+    it("should sort milestones by start date", () => {
+      expect(getMilestones(schedule).map((m) => m.id)).toEqual(["a", "b", "c"])
+      expect(getMilestones(null)).toEqual([])
+    })
+  })
+
+  describe("validateSchedule", () => {
+    it("should accept schedules inside the request's window", () => {
+      expect(
+        validateSchedule(schedule, {
+          preferredStart: new Date("2026-01-05T00:00:00.000Z"),
+          deadline: "2026-04-10T00:00:00.000Z",
+        })
+      ).toEqual({ valid: true })
+      expect(validateSchedule(schedule, {})).toEqual({ valid: true })
+    })
+
+    it("should reject schedules starting before the preferred start", () => {
+      const result = validateSchedule(schedule, { preferredStart: "2026-01-06T00:00:00.000Z" })
+
+      expect(result.valid).toBe(false)
+      expect(result.error).toContain("before the preferred start (2026-01-06)")
+    })
+
+    it("should reject schedules ending after the deadline", () => {
+      const result = validateSchedule(schedule, { deadline: "2026-03-31T00:00:00.000Z" })
+
+      expect(result.valid).toBe(false)
+      expect(result.error).toContain("after the deadline (2026-03-31)")
+    })
+  })
+
+  describe("scheduleSchema", () => {
+    it("should require payments adding up to 100%", () => {
+      expect(scheduleSchema.safeParse(schedule).success).toBe(true)
+      expect(scheduleSchema.safeParse([milestone({ paymentPercent: 90 })]).success).toBe(false)
+    })
+
+    it("should reject milestones ending before they start", () => {
+      expect(
+        scheduleSchema.safeParse([
+          milestone({ startDate: "2026-02-01", endDate: "2026-01-01", paymentPercent: 100 }),
+        ]).success
+      ).toBe(false)
+    })
+  })
+
+  describe("buildScheduleTimeline", () => {
+    it("should put all schedules and the request's dates on one axis", () => {
+      const timeline = buildScheduleTimeline(
+        [
+          { id: "p1", schedule },
+          { id: "p2", schedule: [milestone({ startDate: "2026-01-01", endDate: "2026-01-10" })] },
+          { id: "p3", schedule: null },
+        ],
+        { deadline: "2026-04-10T00:00:00.000Z" }
+      )
+
+      expect(timeline?.start).toBe("2026-01-01")
+      expect(timeline?.end).toBe("2026-04-10")
+      expect(timeline?.days).toBe(100)
+      expect(timeline?.markers).toEqual([{ label: "Deadline", date: "2026-04-10", offset: 99 }])
+      expect(timeline?.bars.p2).toEqual([expect.objectContaining({ offset: 0, width: 10 })])
+      expect(timeline?.bars.p1.map((bar) => bar.milestone.id)).toEqual(["a", "b", "c"])
+      expect(timeline?.bars.p3).toEqual([])
+    })
+
+    it("should return null without schedules", () => {
+      expect(buildScheduleTimeline([{ id: "p1", schedule: [] }], {})).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "@jest/globals"
+import { describeSavedSearch, matchesSavedSearch, SavedSearchCriteria } from "../searches"
+
+const anything: SavedSearchCriteria = {
+  projectTypes: [],
+  budgetMin: null,
+  budgetMax: null,
+  keywords: [],
+  techStackIds: [],
+}
+
+const request = {
+  title: "ECサイトのリニューアル",
+  description: "Stripe決済と在庫管理の連携が必要です",
+  projectType: "WEB_DEVELOPMENT" as const,
+  budgetMin: 2000000,
+  budgetMax: 4000000,
+  requirements: { techStackIds: ["ts-next", "ts-stripe"] },
+}
+
+describe("Saved Searches", () => {
+  describe("matchesSavedSearch", () => {
+    it("should match everything without filters", () => {
+      expect(matchesSavedSearch(anything, request)).toBe(true)
+    })
+
+    it("should filter by project type", () => {
+      expect(matchesSavedSearch({ ...anything, projectTypes: ["WEB_DEVELOPMENT"] }, request)).toBe(
+        true
+      )
+      expect(matchesSavedSearch({ ...anything, projectTypes: ["MOBILE_APP"] }, request)).toBe(false)
+    })
+
+    it("should require the budgets to overlap", () => {
+      expect(matchesSavedSearch({ ...anything, budgetMin: 3000000 }, request)).toBe(true)
+      expect(matchesSavedSearch({ ...anything, budgetMin: 5000000 }, request)).toBe(false)
+      expect(matchesSavedSearch({ ...anything, budgetMax: 1000000 }, request)).toBe(false)
+    })
+
+    it("should keep requests without a comparable budget", () => {
+      const unspecified = { ...request, budgetMin: null, budgetMax: null }
+      const inDollars = { ...request, budgetCurrency: "USD" as const }
+
+      expect(matchesSavedSearch({ ...anything, budgetMin: 5000000 }, unspecified)).toBe(true)
+      expect(matchesSavedSearch({ ...anything, budgetMin: 5000000 }, inDollars)).toBe(true)
+    })
+
+    it("should match any keyword in the title or description", () => {
+      expect(matchesSavedSearch({ ...anything, keywords: ["stripe", "Shopify"] }, request)).toBe(
+        true
+      )
+      expect(matchesSavedSearch({ ...anything, keywords: ["Shopify"] }, request)).toBe(false)
+    })
+
+    it("should match any requested tech stack", () => {
+      expect(matchesSavedSearch({ ...anything, techStackIds: ["ts-stripe"] }, request)).toBe(true)
+      expect(matchesSavedSearch({ ...anything, techStackIds: ["ts-rails"] }, request)).toBe(false)
+      expect(
+        matchesSavedSearch(
+          { ...anything, techStackIds: ["ts-stripe"] },
+          { ...request, requirements: null }
+        )
+      ).toBe(false)
+    })
+  })
+
+  describe("describeSavedSearch", () => {
+    it("should summarize the filters", () => {
+      expect(
+        describeSavedSearch({
+          ...anything,
+          projectTypes: ["WEB_DEVELOPMENT"],
+          budgetMin: 1000000,
+          keywords: ["EC"],
+        })
+      ).toBe('Web Development · ¥1,000,000+ · "EC"')
+      expect(describeSavedSearch(anything)).toBe("All requests")
+    })
+  })
+})
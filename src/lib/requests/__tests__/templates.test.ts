@@ -0,0 +1,106 @@
+import { describe, expect, it } from "@jest/globals"
+import { Prisma } from "@prisma/client"
+import {
+  canManageRequestTemplate,
+  DUPLICATE_TITLE_SUFFIX,
+  toDuplicateRequestData,
+  toRequestTemplateValues,
+} from "../templates"
+
+const request = {
+  userId: "u1",
+  title: "Corporate website",
+  description: "Renewal of our corporate website",
+  projectType: "WEB_DEVELOPMENT" as const,
+  visibility: "INVITE_ONLY" as const,
+  buyerIndustry: null,
+  buyerSize: null,
+  budget: null,
+  budgetMin: 1000000,
+  budgetMax: 3000000,
+  budgetCurrency: "JPY" as const,
+  budgetTaxIncluded: true,
+  budgetUnit: "ONE_OFF" as const,
+  requirements: { version: 2, techStackIds: ["ts1"], specialtyIds: [] },
+  attachments: ["https://example.com/spec.pdf"],
+}
+
+describe("Request Templates", () => {
+  describe("canManageRequestTemplate", () => {
+    it("should let owners manage their own templates", () => {
+      expect(canManageRequestTemplate({ ownerId: "u1" }, { id: "u1", role: "USER" })).toBe(true)
+      expect(canManageRequestTemplate({ ownerId: "u1" }, { id: "u2", role: "USER" })).toBe(false)
+    })
+
+    it("should reserve shared templates for system admins", () => {
+      expect(canManageRequestTemplate({ ownerId: null }, { id: "u1", role: "USER" })).toBe(false)
+      expect(
+        canManageRequestTemplate({ ownerId: null }, { id: "a1", role: "SYSTEM_ADMIN" })
+      ).toBe(true)
+    })
+  })
+
+  describe("toRequestTemplateValues", () => {
+    it("should map template fields to wizard values", () => {
+      expect(
+        toRequestTemplateValues({
+          projectType: "MOBILE_APP",
+          descriptionScaffold: "Background:",
+          features: ["Login"],
+          integrations: ["Firebase"],
+          budgetMin: null,
+          budgetMax: 5000000,
+        })
+      ).toEqual({
+        projectType: "MOBILE_APP",
+        description: "Background:",
+        budgetMin: null,
+        budgetMax: 5000000,
+        requirements: {
+          items: [{ id: expect.any(String), title: "Login", priority: "SHOULD" }],
+          integrations: ["Firebase"],
+        },
+      })
+    })
+  })
+
+  describe("toDuplicateRequestData", () => {
+    it("should copy the content into a new draft", () => {
+      const data = toDuplicateRequestData(request)
+
+      expect(data).toMatchObject({
+        userId: "u1",
+        title: `Corporate website${DUPLICATE_TITLE_SUFFIX}`,
+        description: request.description,
+        visibility: "INVITE_ONLY",
+        budgetMax: 3000000,
+        requirements: request.requirements,
+        attachments: request.attachments,
+        status: "DRAFT",
+      })
+      expect(data).not.toHaveProperty("deadline")
+    })
+
+    it("should drop uploaded files, which stay linked to the original request", () => {
+      const data = toDuplicateRequestData({
+        ...request,
+        attachments: ["/api/files/clfile1", "https://example.com/spec.pdf"],
+      })
+
+      expect(data.attachments).toEqual(["https://example.com/spec.pdf"])
+    })
+
+    it("should keep the title within 100 characters", () => {
+      const data = toDuplicateRequestData({ ...request, title: "a".repeat(100) })
+
+      expect(data.title).toHaveLength(100)
+      expect(data.title.endsWith(DUPLICATE_TITLE_SUFFIX)).toBe(true)
+    })
+
+    it("should store missing requirements as JSON null", () => {
+      expect(toDuplicateRequestData({ ...request, requirements: null }).requirements).toBe(
+        Prisma.JsonNull
+      )
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import { Prisma } from "@prisma/client"
+import {
+  amendRequest,
+  buildRequestAmendment,
+  isProposalOutdated,
+  RequestAmendmentError,
+  validateRequestSnapshot,
+} from "../versions"
+
+const now = new Date("2026-10-19T12:00:00Z")
+
+const request = {
+  id: "r1",
+  version: 1,
+  title: "Inventory system",
+  description: "Replace the spreadsheet based inventory workflow",
+  budgetMin: 1000000,
+  budgetMax: 3000000,
+  preferredStart: null,
+  deadline: new Date("2026-12-31T00:00:00Z"),
+  quoteDeadline: new Date("2026-11-01T00:00:00Z"),
+  requirements: { version: 2, techStackIds: ["ts1"], specialtyIds: [], features: ["Barcode scan"] },
+  attachments: [],
+}
+
+function makeTx(updatedCount = 1) {
+  const updateMany = jest.fn(async (_args: unknown) => ({ count: updatedCount }))
+  const create = jest.fn(async (args: { data: Record<string, unknown> }) => ({
+    id: "version-2",
+    ...args.data,
+  }))
+  const findMany = jest.fn(async (_args: unknown) => [{ userId: "cu1" }, { userId: "cu2" }])
+  const notify = jest.fn(async (args: { data: Record<string, unknown> }) => args.data)
+
+  return {
+    tx: {
+      request: { updateMany },
+      requestVersion: { create },
+      companyUser: { findMany },
+      notification: { create: notify },
+    } as unknown as Prisma.TransactionClient,
+    updateMany,
+    create,
+    notify,
+  }
+}
+
+describe("Request Versions", () => {
+  describe("buildRequestAmendment", () => {
+    it("should list changed fields only", () => {
+      const { changes } = buildRequestAmendment(request, {
+        budgetMax: 4000000,
+        deadline: "2026-12-31T00:00:00.000Z",
+      })
+
+      expect(changes).toEqual([{ field: "budgetMax", from: 3000000, to: 4000000 }])
+    })
+
+    it("should compare requirement keys individually", () => {
+      const { snapshot, changes } = buildRequestAmendment(request, {
+        requirements: {
+          ...request.requirements,
+          features: ["Barcode scan", "Stock alerts"],
+        },
+      })
+
+      expect(changes).toEqual([
+        {
+          field: "requirements.features",
+          from: ["Barcode scan"],
+          to: ["Barcode scan", "Stock alerts"],
+        },
+      ])
+      expect(snapshot.title).toBe(request.title)
+    })
+
+    it("should report no changes for an identical amendment", () => {
+      expect(buildRequestAmendment(request, { title: request.title }).changes).toEqual([])
+    })
+  })
+
+  describe("validateRequestSnapshot", () => {
+    it("should check the amended content as a whole", () => {
+      const { snapshot } = buildRequestAmendment(request, {
+        deadline: "2026-10-25T00:00:00.000Z",
+      })
+
+      expect(validateRequestSnapshot(snapshot, now)).toEqual({
+        valid: false,
+        error: "Quote deadline must be on or before the deadline",
+      })
+    })
+
+    it("should reject a quote deadline in the past", () => {
+      const { snapshot } = buildRequestAmendment(request, {
+        quoteDeadline: "2026-10-18T00:00:00.000Z",
+      })
+
+      expect(validateRequestSnapshot(snapshot, now).valid).toBe(false)
+    })
+  })
+
+  describe("isProposalOutdated", () => {
+    it("should flag proposals written against an earlier version", () => {
+      expect(isProposalOutdated({ requestVersion: 1 }, { version: 2 })).toBe(true)
+      expect(isProposalOutdated({ requestVersion: 2 }, { version: 2 })).toBe(false)
+      expect(isProposalOutdated({ requestVersion: null }, { version: 2 })).toBe(false)
+    })
+  })
+
+  describe("amendRequest", () => {
+    it("should bump the version, store the changes and notify companies", async () => {
+      const { tx, updateMany, create, notify } = makeTx()
+      const amendment = buildRequestAmendment(request, { budgetMax: 4000000 })
+
+      await amendRequest(tx, request, amendment, { authorId: "u1", note: "Bigger scope", now })
+
+      expect(updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: "r1", version: 1, status: "PUBLISHED" },
+          data: expect.objectContaining({ budgetMax: 4000000, version: 2 }),
+        })
+      )
+      expect(create).toHaveBeenCalledWith({
+        data: {
+          requestId: "r1",
+          version: 2,
+          snapshot: amendment.snapshot,
+          changes: amendment.changes,
+          note: "Bigger scope",
+          authorId: "u1",
+          createdAt: now,
+        },
+      })
+      expect(notify).toHaveBeenCalledTimes(2)
+    })
+
+    it("should fail when the request changed concurrently", async () => {
+      const { tx, create } = makeTx(0)
+      const amendment = buildRequestAmendment(request, { budgetMax: 4000000 })
+
+      await expect(amendRequest(tx, request, amendment, { authorId: "u1" })).rejects.toThrow(
+        RequestAmendmentError
+      )
+      expect(create).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "@jest/globals"
+import {
+  canViewRequest,
+  hidesBuyerIdentity,
+  isListedVisibility,
+  visibleRequestsWhere,
+  visibleToCompanyWhere,
+} from "../visibility"
+
+describe("Request Visibility", () => {
+  describe("isListedVisibility", () => {
+    it("should list public and anonymous-buyer requests only", () => {
+      expect(isListedVisibility("PUBLIC")).toBe(true)
+      expect(isListedVisibility("ANONYMOUS_BUYER")).toBe(true)
+      expect(isListedVisibility("INVITE_ONLY")).toBe(false)
+    })
+  })
+
+  describe("canViewRequest", () => {
+    const outsider = { isOwner: false, isInvited: false }
+
+    it("should hide invite-only requests from everyone but the owner and invited companies", () => {
+      const request = { visibility: "INVITE_ONLY" as const }
+
+      expect(canViewRequest(request, outsider)).toBe(false)
+      expect(canViewRequest(request, { isOwner: true, isInvited: false })).toBe(true)
+      expect(canViewRequest(request, { isOwner: false, isInvited: true })).toBe(true)
+    })
+
+    it("should show listed requests to anyone", () => {
+      expect(canViewRequest({ visibility: "PUBLIC" }, outsider)).toBe(true)
+      expect(canViewRequest({ visibility: "ANONYMOUS_BUYER" }, outsider)).toBe(true)
+    })
+  })
+
+  describe("visibleRequestsWhere", () => {
+    it("should restrict anonymous viewers to listed requests", () => {
+      expect(visibleRequestsWhere(null)).toEqual({
+        visibility: { in: ["PUBLIC", "ANONYMOUS_BUYER"] },
+      })
+    })
+
+    it("should add the viewer's own and invited requests", () => {
+      const where = visibleRequestsWhere("buyer@example.com")
+
+      expect(where.OR).toHaveLength(3)
+      expect(where.OR).toContainEqual({ user: { email: "buyer@example.com" } })
+    })
+  })
+
+  describe("visibleToCompanyWhere", () => {
+    it("should add requests the company was invited to", () => {
+      expect(visibleToCompanyWhere("c1").OR).toContainEqual({
+        requestCompanies: { some: { companyId: "c1" } },
+      })
+    })
+  })
+
+  describe("hidesBuyerIdentity", () => {
+    it("should hide the buyer of anonymous-buyer requests only", () => {
+      expect(hidesBuyerIdentity("ANONYMOUS_BUYER")).toBe(true)
+      expect(hidesBuyerIdentity("INVITE_ONLY")).toBe(false)
+      expect(hidesBuyerIdentity("PUBLIC")).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * Saved Search Alerts
+ *
+ * When a request is published, every saved search it matches gets a
+ * SavedSearchMatch row and its owner an in-app notification; pending matches
+ * are later sent in an email digest (src/lib/notifications/digest.ts).
+ * Invite-only requests only alert members of invited companies; companies are
+ * invited after publishing, so their searches are alerted with the invitation.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { createNotification } from '@/lib/notifications/inbox';
+import { matchesSavedSearch } from './searches';
+import { isListedVisibility } from './visibility';
+
+/**
+ * Alert the saved searches a newly published request matches
+ * Called on publish, and again when an invite-only request invites companies.
+ *
+ * Each search is alerted about a request at most once; members with several
+ * matching searches get a single notification. Returns the number of new
+ * matches.
+ */
+export async function alertSavedSearches(requestId: string): Promise<number> {
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+    include: { requestCompanies: { select: { companyId: true } } },
+  });
+
+  if (!request || request.status !== 'PUBLISHED') {
+    return 0;
+  }
+
+  const searches = await prisma.savedSearch.findMany({
+    where: {
+      alertsEnabled: true,
+      // The buyer's own searches never alert about their request
+      userId: { not: request.userId },
+      ...(!isListedVisibility(request.visibility) && {
+        companyId: { in: request.requestCompanies.map((rc) => rc.companyId) },
+      }),
+      matches: { none: { requestId } },
+    },
+  });
+
+  const matched = searches.filter((search) => matchesSavedSearch(search, request));
+  if (matched.length === 0) {
+    return 0;
+  }
+
+  const searchNamesByUser = new Map<string, string[]>();
+  for (const search of matched) {
+    searchNamesByUser.set(search.userId, [
+      ...(searchNamesByUser.get(search.userId) ?? []),
+      search.name,
+    ]);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.savedSearchMatch.createMany({
+      data: matched.map((search) => ({ savedSearchId: search.id, requestId })),
+      skipDuplicates: true,
+    });
+
+    for (const [userId, names] of searchNamesByUser) {
+      await createNotification(tx, {
+        userId,
+        type: 'SAVED_SEARCH_MATCH',
+        title: `New request: ${request.title}`,
+        body: `Matches your saved search ${names.map((name) => `"${name}"`).join(', ')}`,
+        link: `/requests/${requestId}`,
+      });
+    }
+  });
+
+  return matched.length;
+}
@@ -0,0 +1,171 @@
+/**
+ * Anonymous Buyers
+ *
+ * ANONYMOUS_BUYER requests show the buyer as a generated alias plus an
+ * industry/size descriptor. The real name and contact details are kept for the
+ * owner and revealed to the company whose proposal was selected.
+ */
+
+import { BuyerIndustry, BuyerSize, RequestVisibility } from '@prisma/client';
+import { hidesBuyerIdentity } from './visibility';
+
+/**
+ * Industry labels for display
+ */
+export const buyerIndustryLabels: Record<BuyerIndustry, string> = {
+  MANUFACTURING: 'Manufacturing',
+  RETAIL: 'Retail',
+  FINANCE: 'Finance',
+  HEALTHCARE: 'Healthcare',
+  IT_SERVICES: 'IT services',
+  REAL_ESTATE: 'Real estate',
+  LOGISTICS: 'Logistics',
+  EDUCATION: 'Education',
+  PUBLIC_SECTOR: 'Public sector',
+  OTHER: 'Other industry',
+};
+
+/**
+ * Company size labels for display
+ */
+export const buyerSizeLabels: Record<BuyerSize, string> = {
+  STARTUP: '1-20 employees',
+  SMALL: '21-100 employees',
+  MEDIUM: '101-300 employees',
+  LARGE: '301-1,000 employees',
+  ENTERPRISE: '1,000+ employees',
+};
+
+const ALIAS_ADJECTIVES = [
+  'Amber',
+  'Azure',
+  'Cedar',
+  'Coral',
+  'Crimson',
+  'Golden',
+  'Indigo',
+  'Ivory',
+  'Jade',
+  'Silver',
+  'Slate',
+  'Violet',
+];
+
+const ALIAS_NOUNS = [
+  'Falcon',
+  'Harbor',
+  'Heron',
+  'Lantern',
+  'Maple',
+  'Meadow',
+  'Orchid',
+  'Otter',
+  'Summit',
+  'Willow',
+];
+
+/**
+ * Buyer shown in place of the owner of an anonymous request
+ */
+export interface AnonymousBuyer {
+  alias: string;
+  industry: BuyerIndustry | null;
+  size: BuyerSize | null;
+  descriptor: string;
+}
+
+/**
+ * Alias for the buyer of a request
+ * Derived from the request ID, so it is stable per request but different
+ * across requests of the same buyer.
+ */
+export function generateBuyerAlias(requestId: string): string {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < requestId.length; i++) {
+    hash ^= requestId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  const adjective = ALIAS_ADJECTIVES[hash % ALIAS_ADJECTIVES.length];
+  const noun = ALIAS_NOUNS[Math.floor(hash / ALIAS_ADJECTIVES.length) % ALIAS_NOUNS.length];
+  const number = Math.floor(hash / (ALIAS_ADJECTIVES.length * ALIAS_NOUNS.length)) % 100;
+  return `${adjective} ${noun} ${String(number).padStart(2, '0')}`;
+}
+
+/**
+ * Industry/size descriptor, e.g. "Retail, 101-300 employees"
+ */
+export function describeBuyer(buyer: {
+  buyerIndustry: BuyerIndustry | null;
+  buyerSize: BuyerSize | null;
+}): string {
+  const parts = [
+    buyer.buyerIndustry ? buyerIndustryLabels[buyer.buyerIndustry] : null,
+    buyer.buyerSize ? buyerSizeLabels[buyer.buyerSize] : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'Undisclosed buyer';
+}
+
+/**
+ * Anonymous buyer of a request
+ */
+export function toAnonymousBuyer(request: {
+  id: string;
+  buyerIndustry: BuyerIndustry | null;
+  buyerSize: BuyerSize | null;
+}): AnonymousBuyer {
+  return {
+    alias: generateBuyerAlias(request.id),
+    industry: request.buyerIndustry,
+    size: request.buyerSize,
+    descriptor: describeBuyer(request),
+  };
+}
+
+/**
+ * Buyer contact line shared with the selected company, e.g. "Taro <taro@example.com>"
+ */
+export function describeBuyerContact(user: { name: string | null; email: string }): string {
+  return user.name ? `${user.name} <${user.email}>` : user.email;
+}
+
+/**
+ * Check if a viewer gets the buyer's real identity
+ * @param viewer - Whether the viewer owns the request / belongs to the selected company
+ */
+export function canSeeBuyerIdentity(
+  request: { visibility: RequestVisibility },
+  viewer: { isOwner: boolean; isSelected: boolean }
+): boolean {
+  return !hidesBuyerIdentity(request.visibility) || viewer.isOwner || viewer.isSelected;
+}
+
+/**
+ * Replace the buyer of an anonymous request with its alias for viewers that
+ * may not see who it is
+ *
+ * The result has `user: null` and `buyer` set in that case, and `buyer: null`
+ * otherwise.
+ */
+export function presentBuyer<
+  T extends {
+    id: string;
+    userId: string;
+    visibility: RequestVisibility;
+    buyerIndustry: BuyerIndustry | null;
+    buyerSize: BuyerSize | null;
+    user: unknown;
+  },
+>(request: T, viewer: { isOwner: boolean; isSelected: boolean }) {
+  if (canSeeBuyerIdentity(request, viewer)) {
+    return { ...request, buyer: null };
+  }
+
+  return {
+    ...request,
+    userId: null,
+    user: null,
+    buyer: toAnonymousBuyer(request),
+  };
+}
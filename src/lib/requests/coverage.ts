@@ -0,0 +1,201 @@
+/**
+ * Requirement Coverage
+ *
+ * Structured requirement items (Request.requirements.items) carry a MoSCoW
+ * priority; companies answer each item in their proposal
+ * (RequestCompany.requirementResponses). The compare page shows the answers
+ * as a requirement-by-requirement coverage matrix.
+ */
+
+import {
+  RequirementItem,
+  RequirementPriority,
+  RequirementResponse,
+} from '@/lib/validations/request';
+
+/**
+ * Priority labels, in MoSCoW order
+ */
+export const requirementPriorityLabels: Record<RequirementPriority, string> = {
+  MUST: 'Must have',
+  SHOULD: 'Should have',
+  COULD: 'Could have',
+  WONT: "Won't have",
+};
+
+/**
+ * Support level labels for proposal answers
+ */
+export const requirementSupportLabels: Record<RequirementResponse['support'], string> = {
+  SUPPORTED: 'Supported',
+  PARTIAL: 'Partial',
+  NOT_SUPPORTED: 'Not supported',
+};
+
+const PRIORITY_ORDER: RequirementPriority[] = ['MUST', 'SHOULD', 'COULD', 'WONT'];
+
+/**
+ * Coverage of the requirement items by one proposal
+ */
+export interface RequirementCoverageSummary {
+  supported: number;
+  partial: number;
+  notSupported: number;
+  unanswered: number;
+
+  /** Every MUST item is fully supported */
+  mustCovered: boolean;
+
+  /** Sum of the answers' cost impact (JPY) */
+  costImpact: number;
+}
+
+/**
+ * Requirement-by-requirement answers of several proposals
+ */
+export interface RequirementCoverageMatrix {
+  rows: {
+    item: RequirementItem;
+    responses: Record<string, RequirementResponse | null>;
+  }[];
+  summaries: Record<string, RequirementCoverageSummary>;
+}
+
+/**
+ * New empty requirement item with a locally unique ID
+ */
+export function newRequirementItem(
+  title = '',
+  priority: RequirementPriority = 'SHOULD'
+): RequirementItem {
+  const id = `req_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  return { id, title, priority };
+}
+
+/**
+ * Turn plain feature strings (legacy requirements, templates) into items
+ */
+export function featuresToRequirementItems(
+  features: string[],
+  priority: RequirementPriority = 'SHOULD'
+): RequirementItem[] {
+  return features.map((feature) => newRequirementItem(feature, priority));
+}
+
+/**
+ * Structured items of a request, sorted by priority (MUST first)
+ */
+export function getRequirementItems(requirements: unknown): RequirementItem[] {
+  const items = (requirements as { items?: RequirementItem[] } | null)?.items;
+  if (!Array.isArray(items)) return [];
+
+  return [...items].sort(
+    (a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority)
+  );
+}
+
+/**
+ * Items a proposal has to answer (WONT items are out of scope)
+ */
+export function getAnswerableItems(items: RequirementItem[]): RequirementItem[] {
+  return items.filter((item) => item.priority !== 'WONT');
+}
+
+/**
+ * Validate proposal answers against the request's items, with an error
+ * message for API responses
+ */
+export function validateRequirementResponses(
+  items: RequirementItem[],
+  responses: RequirementResponse[]
+): { valid: boolean; error?: string } {
+  const itemIds = new Set(items.map((item) => item.id));
+  const answered = new Set<string>();
+
+  for (const response of responses) {
+    if (!itemIds.has(response.itemId)) {
+      return { valid: false, error: `Unknown requirement item: ${response.itemId}` };
+    }
+    if (answered.has(response.itemId)) {
+      return { valid: false, error: `Requirement item answered twice: ${response.itemId}` };
+    }
+    answered.add(response.itemId);
+  }
+
+  const missing = getAnswerableItems(items).filter((item) => !answered.has(item.id));
+  if (missing.length > 0) {
+    return {
+      valid: false,
+      error: `Answer every requirement item (missing: ${missing.map((item) => item.title).join(', ')})`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Summarize one proposal's answers
+ */
+export function summarizeRequirementCoverage(
+  items: RequirementItem[],
+  responses: RequirementResponse[] | null | undefined
+): RequirementCoverageSummary {
+  const byItem = new Map((responses ?? []).map((response) => [response.itemId, response]));
+  const summary: RequirementCoverageSummary = {
+    supported: 0,
+    partial: 0,
+    notSupported: 0,
+    unanswered: 0,
+    mustCovered: true,
+    costImpact: 0,
+  };
+
+  for (const item of getAnswerableItems(items)) {
+    const response = byItem.get(item.id);
+
+    if (!response) summary.unanswered++;
+    else if (response.support === 'SUPPORTED') summary.supported++;
+    else if (response.support === 'PARTIAL') summary.partial++;
+    else summary.notSupported++;
+
+    if (item.priority === 'MUST' && response?.support !== 'SUPPORTED') {
+      summary.mustCovered = false;
+    }
+    summary.costImpact += response?.costImpact ?? 0;
+  }
+
+  return summary;
+}
+
+/**
+ * Build the coverage matrix for the compare page
+ */
+export function buildRequirementCoverageMatrix(
+  items: RequirementItem[],
+  proposals: { id: string; requirementResponses?: RequirementResponse[] | null }[]
+): RequirementCoverageMatrix {
+  const responsesByProposal = new Map(
+    proposals.map((proposal) => [
+      proposal.id,
+      new Map((proposal.requirementResponses ?? []).map((response) => [response.itemId, response])),
+    ])
+  );
+
+  return {
+    rows: getRequirementItems({ items }).map((item) => ({
+      item,
+      responses: Object.fromEntries(
+        proposals.map((proposal) => [
+          proposal.id,
+          responsesByProposal.get(proposal.id)?.get(item.id) ?? null,
+        ])
+      ),
+    })),
+    summaries: Object.fromEntries(
+      proposals.map((proposal) => [
+        proposal.id,
+        summarizeRequirementCoverage(items, proposal.requirementResponses),
+      ])
+    ),
+  };
+}
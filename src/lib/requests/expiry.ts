@@ -0,0 +1,102 @@
+/**
+ * Request Expiry
+ *
+ * Closes published requests whose quote window has ended (see
+ * getQuoteWindowEnd): the request moves to CLOSED via the EXPIRE transition,
+ * unanswered PENDING invitations become EXPIRED and the owner is notified.
+ * Run by `npm run requests:expire` or GET /api/cron/expire-requests.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { createNotification } from '@/lib/notifications/inbox';
+import { RequestTransitionError, transitionRequestStatus } from './lifecycle';
+
+/**
+ * Result of one expiry run
+ */
+export interface RequestExpiryResult {
+  expired: { requestId: string; expiredInvitations: number }[];
+
+  /** Requests whose status changed while the job was running */
+  skipped: string[];
+
+  /** Requests that could not be expired; retried on the next run */
+  failed: { requestId: string; error: string }[];
+}
+
+/**
+ * Find published requests whose quote window ended at or before `now`
+ */
+export function findExpiredRequests(now: Date = new Date()) {
+  return prisma.request.findMany({
+    where: {
+      status: 'PUBLISHED',
+      OR: [
+        { quoteDeadline: { lte: now } },
+        { quoteDeadline: null, deadline: { lte: now } },
+      ],
+    },
+    select: {
+      id: true,
+      userId: true,
+      title: true,
+      status: true,
+    },
+    orderBy: { quoteDeadline: 'asc' },
+  });
+}
+
+/**
+ * Expire every published request whose quote window has ended
+ *
+ * Each request is handled in its own transaction, so one failure does not
+ * roll back the others; failures are reported in `failed` and the run goes on
+ * with the next request.
+ */
+export async function expireRequests(now: Date = new Date()): Promise<RequestExpiryResult> {
+  const requests = await findExpiredRequests(now);
+  const result: RequestExpiryResult = { expired: [], skipped: [], failed: [] };
+
+  for (const request of requests) {
+    try {
+      const expiredInvitations = await prisma.$transaction(async (tx) => {
+        await transitionRequestStatus(tx, request, 'EXPIRE', {
+          actorId: null,
+          reason: 'Quote window ended',
+          now,
+        });
+
+        const { count } = await tx.requestCompany.updateMany({
+          where: { requestId: request.id, status: 'PENDING' },
+          data: { status: 'EXPIRED' },
+        });
+
+        await createNotification(tx, {
+          userId: request.userId,
+          type: 'REQUEST_EXPIRED',
+          title: `Quote window closed: ${request.title}`,
+          body:
+            count > 0
+              ? `The request was closed. ${count} invited companies did not respond.`
+              : 'The request was closed. Review the proposals you received.',
+          link: `/requests/${request.id}/proposals`,
+        });
+
+        return count;
+      });
+
+      result.expired.push({ requestId: request.id, expiredInvitations });
+    } catch (error) {
+      if (error instanceof RequestTransitionError) {
+        result.skipped.push(request.id);
+      } else {
+        result.failed.push({
+          requestId: request.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return result;
+}
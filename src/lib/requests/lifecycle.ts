@@ -0,0 +1,174 @@
+/**
+ * Request Lifecycle
+ *
+ * State machine for Request.status. Every status change goes through
+ * transitionRequestStatus, which applies the transition and records it in
+ * RequestStatusHistory:
+ *
+ * - publish: DRAFT → PUBLISHED
+ * - close / expire: PUBLISHED → CLOSED
+ * - cancel: DRAFT / PUBLISHED → CANCELLED
+ * - reopen: CLOSED → PUBLISHED
+ */
+
+import { Prisma, RequestStatus, RequestTransition } from '@prisma/client';
+
+/**
+ * Allowed source statuses and target status of each transition
+ */
+export const requestTransitions: Record<
+  RequestTransition,
+  { from: RequestStatus[]; to: RequestStatus }
+> = {
+  PUBLISH: { from: ['DRAFT'], to: 'PUBLISHED' },
+  CLOSE: { from: ['PUBLISHED'], to: 'CLOSED' },
+  CANCEL: { from: ['DRAFT', 'PUBLISHED'], to: 'CANCELLED' },
+  REOPEN: { from: ['CLOSED'], to: 'PUBLISHED' },
+  EXPIRE: { from: ['PUBLISHED'], to: 'CLOSED' },
+};
+
+/**
+ * Transitions a request owner can trigger directly (see POST /api/requests/[id]/status).
+ * Publishing has its own route with content checks; expiry is run by the system.
+ */
+export const MANUAL_REQUEST_TRANSITIONS = ['CLOSE', 'CANCEL', 'REOPEN'] as const;
+
+/**
+ * Transition labels for the status history
+ */
+export const requestTransitionLabels: Record<RequestTransition, string> = {
+  PUBLISH: 'Published',
+  CLOSE: 'Closed',
+  CANCEL: 'Cancelled',
+  REOPEN: 'Reopened',
+  EXPIRE: 'Expired',
+};
+
+/**
+ * Thrown when a transition is not allowed or the status changed concurrently
+ */
+export class RequestTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestTransitionError';
+  }
+}
+
+/**
+ * Check whether a transition is allowed from the given status
+ */
+export function canTransitionRequest(
+  status: RequestStatus,
+  transition: RequestTransition
+): boolean {
+  return requestTransitions[transition].from.includes(status);
+}
+
+/**
+ * Validate a transition, with an error message for API responses
+ */
+export function validateRequestTransition(
+  status: RequestStatus,
+  transition: RequestTransition
+): { valid: boolean; error?: string } {
+  if (!canTransitionRequest(status, transition)) {
+    return {
+      valid: false,
+      error: `Cannot ${transition.toLowerCase()} a request in ${status} status`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Transitions allowed from the given status
+ */
+export function getAvailableTransitions(status: RequestStatus): RequestTransition[] {
+  return (Object.keys(requestTransitions) as RequestTransition[]).filter((transition) =>
+    canTransitionRequest(status, transition)
+  );
+}
+
+/**
+ * Check if request content can be edited
+ */
+export function canEditRequest(status: RequestStatus): boolean {
+  return status === 'DRAFT';
+}
+
+/**
+ * Check if a published request can be amended (see src/lib/requests/versions.ts)
+ */
+export function canAmendRequest(status: RequestStatus): boolean {
+  return status === 'PUBLISHED';
+}
+
+/**
+ * Check if request can be deleted
+ */
+export function canDeleteRequest(status: RequestStatus): boolean {
+  return status === 'DRAFT' || status === 'CANCELLED';
+}
+
+/**
+ * Check if request accepts matches, invitations, proposals and selections
+ */
+export function isRequestOpen(status: RequestStatus): boolean {
+  return status === 'PUBLISHED';
+}
+
+/**
+ * Apply a transition and record it in the status history
+ *
+ * Must run inside a transaction. The update only matches while the request
+ * still has `request.status`, so concurrent changes fail instead of being
+ * overwritten. Sets publishedAt / closedAt to match the new status; `data`
+ * updates other fields in the same write (e.g. quoteDeadline).
+ */
+export async function transitionRequestStatus(
+  tx: Prisma.TransactionClient,
+  request: { id: string; status: RequestStatus },
+  transition: RequestTransition,
+  options: {
+    actorId: string | null;
+    reason?: string | null;
+    now?: Date;
+    data?: Omit<Prisma.RequestUpdateManyMutationInput, 'status' | 'publishedAt' | 'closedAt'>;
+  }
+) {
+  const validation = validateRequestTransition(request.status, transition);
+  if (!validation.valid) {
+    throw new RequestTransitionError(validation.error!);
+  }
+
+  const now = options.now ?? new Date();
+  const { to } = requestTransitions[transition];
+
+  const { count } = await tx.request.updateMany({
+    where: { id: request.id, status: request.status },
+    data: {
+      ...options.data,
+      status: to,
+      ...(transition === 'PUBLISH' && { publishedAt: now }),
+      ...(to === 'CLOSED' || to === 'CANCELLED' ? { closedAt: now } : {}),
+      ...(transition === 'REOPEN' && { closedAt: null }),
+    },
+  });
+
+  if (count === 0) {
+    throw new RequestTransitionError('Request status was changed by another action');
+  }
+
+  return tx.requestStatusHistory.create({
+    data: {
+      requestId: request.id,
+      fromStatus: request.status,
+      toStatus: to,
+      transition,
+      actorId: options.actorId,
+      reason: options.reason ?? null,
+      createdAt: now,
+    },
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Proposal Messages
+ *
+ * Once a proposal is submitted, the buyer and the members of the proposing
+ * company talk in a conversation thread on it (ProposalMessage). Each
+ * participant's read position is kept per thread (ProposalThreadRead): it
+ * gives the unread counts and the read receipts of the other side.
+ */
+
+import { Prisma, ProposalMessageSender, RequestCompanyStatus } from '@prisma/client';
+import { createNotification } from '@/lib/notifications/inbox';
+
+/**
+ * Proposal statuses that have a conversation
+ */
+export const MESSAGE_THREAD_STATUSES: RequestCompanyStatus[] = [
+  'RESPONDED',
+  'SELECTED',
+  'REJECTED',
+];
+
+/**
+ * Proposal statuses whose conversation takes new messages; the thread of a
+ * rejected proposal stays readable
+ */
+export const OPEN_MESSAGE_THREAD_STATUSES: RequestCompanyStatus[] = ['RESPONDED', 'SELECTED'];
+
+/**
+ * Message as shown to a participant
+ * `author` is null for deleted users and for the buyer of an anonymous
+ * request; `isRead` tells whether the other side has read it.
+ */
+export interface ProposalMessageView {
+  id: string;
+  sender: ProposalMessageSender;
+  author: { id: string; name: string | null } | null;
+  body: string;
+  attachments: string[];
+  createdAt: Date;
+  isOwn: boolean;
+  isRead: boolean;
+}
+
+/**
+ * Check if a proposal has a conversation
+ */
+export function hasMessageThread(status: RequestCompanyStatus): boolean {
+  return MESSAGE_THREAD_STATUSES.includes(status);
+}
+
+/**
+ * Check if messages can be sent on a proposal
+ */
+export function canSendMessage(status: RequestCompanyStatus): boolean {
+  return OPEN_MESSAGE_THREAD_STATUSES.includes(status);
+}
+
+/**
+ * Side a viewer takes in a proposal's conversation, or null for outsiders
+ * A request owner who also belongs to the company speaks as the buyer.
+ */
+export function getMessageSender(viewer: {
+  isRequestOwner: boolean;
+  isCompanyMember: boolean;
+}): ProposalMessageSender | null {
+  if (viewer.isRequestOwner) return 'BUYER';
+  if (viewer.isCompanyMember) return 'COMPANY';
+  return null;
+}
+
+/**
+ * Unread messages of a thread for a participant: messages of the other side
+ * created after the participant's read position
+ */
+export function getUnreadMessagesWhere(
+  requestCompanyId: string,
+  sender: ProposalMessageSender,
+  lastReadAt: Date | null
+): Prisma.ProposalMessageWhereInput {
+  return {
+    requestCompanyId,
+    sender: sender === 'BUYER' ? 'COMPANY' : 'BUYER',
+    ...(lastReadAt && { createdAt: { gt: lastReadAt } }),
+  };
+}
+
+/**
+ * Furthest read position among the given participants, or null if none of
+ * them has opened the thread
+ */
+export function getReadUpTo(reads: { lastReadAt: Date }[]): Date | null {
+  return reads.reduce<Date | null>(
+    (latest, { lastReadAt }) => (!latest || lastReadAt > latest ? lastReadAt : latest),
+    null
+  );
+}
+
+/**
+ * Present a message to a participant
+ *
+ * @param viewer - Signed-in user, their side and whether they may see who the buyer is
+ * @param otherSideReadUpTo - Read position of the other side, see getReadUpTo
+ */
+export function presentMessage(
+  message: {
+    id: string;
+    sender: ProposalMessageSender;
+    authorId: string | null;
+    author: { id: string; name: string | null } | null;
+    body: string;
+    attachments: string[];
+    createdAt: Date;
+  },
+  viewer: { userId: string; sender: ProposalMessageSender; showBuyer: boolean },
+  otherSideReadUpTo: Date | null
+): ProposalMessageView {
+  const fromViewerSide = message.sender === viewer.sender;
+
+  return {
+    id: message.id,
+    sender: message.sender,
+    author: message.sender === 'BUYER' && !viewer.showBuyer ? null : message.author,
+    body: message.body,
+    attachments: message.attachments,
+    createdAt: message.createdAt,
+    isOwn: message.authorId === viewer.userId,
+    isRead:
+      !fromViewerSide || (otherSideReadUpTo !== null && message.createdAt <= otherSideReadUpTo),
+  };
+}
+
+/**
+ * Move a participant's read position to `now`
+ */
+export function markThreadRead(
+  tx: Prisma.TransactionClient,
+  requestCompanyId: string,
+  userId: string,
+  now: Date = new Date()
+) {
+  return tx.proposalThreadRead.upsert({
+    where: { requestCompanyId_userId: { requestCompanyId, userId } },
+    create: { requestCompanyId, userId, lastReadAt: now },
+    update: { lastReadAt: now },
+  });
+}
+
+/**
+ * Store a message and notify the other side
+ *
+ * Must run inside a transaction. The author's thread counts as read. The buyer
+ * is notified of company messages and every member of the company of the
+ * buyer's messages; the author is never notified.
+ */
+export async function sendProposalMessage(
+  tx: Prisma.TransactionClient,
+  proposal: { id: string; companyId: string; company: { name: string } },
+  request: { title: string; userId: string },
+  message: {
+    sender: ProposalMessageSender;
+    authorId: string;
+    body: string;
+    attachments: string[];
+  },
+  options: { now?: Date } = {}
+) {
+  const now = options.now ?? new Date();
+
+  const entry = await tx.proposalMessage.create({
+    data: {
+      requestCompanyId: proposal.id,
+      sender: message.sender,
+      authorId: message.authorId,
+      body: message.body,
+      attachments: message.attachments,
+      createdAt: now,
+    },
+  });
+
+  await tx.requestCompany.update({
+    where: { id: proposal.id },
+    data: { lastMessageAt: now },
+  });
+  await markThreadRead(tx, proposal.id, message.authorId, now);
+
+  const recipients =
+    message.sender === 'BUYER'
+      ? (
+          await tx.companyUser.findMany({
+            where: { companyId: proposal.companyId },
+            select: { userId: true },
+          })
+        ).map(({ userId }) => userId)
+      : [request.userId];
+
+  for (const userId of new Set(recipients)) {
+    if (userId === message.authorId) continue;
+
+    await createNotification(tx, {
+      userId,
+      type: 'PROPOSAL_MESSAGE',
+      title:
+        message.sender === 'BUYER'
+          ? `New message from the buyer: ${request.title}`
+          : `New message from ${proposal.company.name}: ${request.title}`,
+      body: message.body,
+      link: `/proposals/${proposal.id}#messages`,
+    });
+  }
+
+  return entry;
+}
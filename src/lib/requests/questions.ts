@@ -0,0 +1,265 @@
+/**
+ * Request Q&A
+ *
+ * Invited companies ask clarification questions on a request
+ * (RequestQuestion); the buyer answers each one privately, for the asking
+ * company only, or publicly. Public answers form the request's FAQ, shared
+ * with every invited company without revealing which company asked.
+ */
+
+import { Prisma, QuestionVisibility, RequestCompanyStatus, RequestStatus } from '@prisma/client';
+import { createNotification } from '@/lib/notifications/inbox';
+import { isQuoteWindowOpen } from '@/lib/utils/request';
+import { isRequestOpen } from './lifecycle';
+
+/**
+ * Answer visibility labels for UI display
+ */
+export const questionVisibilityLabels: Record<QuestionVisibility, string> = {
+  PRIVATE: 'Private',
+  PUBLIC: 'Public (FAQ)',
+};
+
+/**
+ * Invitation statuses of companies that can ask questions and are notified of
+ * new FAQ answers; every invited company can read its questions and the FAQ
+ */
+export const QUESTION_COMPANY_STATUSES: RequestCompanyStatus[] = ['PENDING', 'RESPONDED'];
+
+/**
+ * Who is looking at the questions: the buyer, or a member of an invited
+ * company
+ */
+export interface QuestionViewer {
+  isOwner: boolean;
+  companyId: string | null;
+}
+
+/**
+ * Question as shown to a viewer
+ * `company` is only set for the buyer; companies see their own questions as
+ * `isOwn` and other companies' public questions anonymously.
+ */
+export interface RequestQuestionView {
+  id: string;
+  question: string;
+  answer: string | null;
+  visibility: QuestionVisibility;
+  answeredAt: Date | null;
+  createdAt: Date;
+  isOwn: boolean;
+  company: { id: string; name: string } | null;
+}
+
+/**
+ * Thrown when a question can't be answered
+ */
+export class RequestQuestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestQuestionError';
+  }
+}
+
+/**
+ * Check if an invited company can ask questions: the request takes proposals
+ * and the company has not been selected or rejected
+ */
+export function canAskQuestions(
+  request: {
+    status: RequestStatus;
+    quoteDeadline?: Date | string | null;
+    deadline?: Date | string | null;
+  },
+  invitation: { status: RequestCompanyStatus } | null,
+  now: Date = new Date()
+): boolean {
+  return (
+    !!invitation &&
+    QUESTION_COMPANY_STATUSES.includes(invitation.status) &&
+    isRequestOpen(request.status) &&
+    isQuoteWindowOpen(request, now)
+  );
+}
+
+/**
+ * Invitation a user takes part in the Q&A with, or null if none of the user's
+ * companies is linked to the request
+ *
+ * Any invitation can read the questions, whatever its status. A user in
+ * several invited companies acts for the first one that can still ask
+ * (see QUESTION_COMPANY_STATUSES), so a rejected company does not shadow an
+ * active one.
+ */
+export async function findQuestionInvitation(
+  tx: Prisma.TransactionClient,
+  requestId: string,
+  userEmail: string
+) {
+  const invitations = await tx.requestCompany.findMany({
+    where: {
+      requestId,
+      company: {
+        companyUsers: { some: { user: { email: userEmail } } },
+      },
+    },
+    select: {
+      companyId: true,
+      status: true,
+      company: {
+        select: { id: true, name: true },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return (
+    invitations.find((invitation) => QUESTION_COMPANY_STATUSES.includes(invitation.status)) ??
+    invitations[0] ??
+    null
+  );
+}
+
+/**
+ * Questions a viewer may see: all for the buyer; a company's own questions
+ * and every answered public question for companies
+ */
+export function getVisibleQuestionsWhere(
+  requestId: string,
+  viewer: QuestionViewer
+): Prisma.RequestQuestionWhereInput {
+  if (viewer.isOwner) return { requestId };
+
+  return {
+    requestId,
+    OR: [
+      ...(viewer.companyId ? [{ companyId: viewer.companyId }] : []),
+      { visibility: 'PUBLIC', answeredAt: { not: null } },
+    ],
+  };
+}
+
+/**
+ * Present a question to a viewer, hiding the asking company from other
+ * companies
+ */
+export function presentQuestion(
+  question: {
+    id: string;
+    companyId: string;
+    question: string;
+    answer: string | null;
+    visibility: QuestionVisibility;
+    answeredAt: Date | null;
+    createdAt: Date;
+    company: { id: string; name: string };
+  },
+  viewer: QuestionViewer
+): RequestQuestionView {
+  return {
+    id: question.id,
+    question: question.question,
+    answer: question.answer,
+    visibility: question.visibility,
+    answeredAt: question.answeredAt,
+    createdAt: question.createdAt,
+    isOwn: question.companyId === viewer.companyId,
+    company: viewer.isOwner ? question.company : null,
+  };
+}
+
+/**
+ * Store a company's question and notify the buyer
+ * Must run inside a transaction.
+ */
+export async function askQuestion(
+  tx: Prisma.TransactionClient,
+  request: { id: string; title: string; userId: string },
+  company: { id: string; name: string },
+  question: string,
+  options: { authorId: string; now?: Date }
+) {
+  const entry = await tx.requestQuestion.create({
+    data: {
+      requestId: request.id,
+      companyId: company.id,
+      authorId: options.authorId,
+      question,
+      createdAt: options.now ?? new Date(),
+    },
+  });
+
+  await createNotification(tx, {
+    userId: request.userId,
+    type: 'REQUEST_QUESTION_ASKED',
+    title: `New question from ${company.name}: ${request.title}`,
+    body: question,
+    link: `/requests/${request.id}#questions`,
+  });
+
+  return entry;
+}
+
+/**
+ * Store the buyer's answer and notify the companies that can see it
+ *
+ * Must run inside a transaction. A question is answered once; the update only
+ * matches unanswered questions, so a second answer fails. Members of the
+ * asking company are notified, and for public answers also the members of
+ * every other invited company.
+ */
+export async function answerQuestion(
+  tx: Prisma.TransactionClient,
+  question: { id: string; companyId: string },
+  request: { id: string; title: string },
+  answer: { answer: string; visibility: QuestionVisibility },
+  options: { now?: Date } = {}
+) {
+  const now = options.now ?? new Date();
+
+  const { count } = await tx.requestQuestion.updateMany({
+    where: { id: question.id, requestId: request.id, answeredAt: null },
+    data: { answer: answer.answer, visibility: answer.visibility, answeredAt: now },
+  });
+
+  if (count === 0) {
+    throw new RequestQuestionError('Question has already been answered');
+  }
+
+  const members = await tx.companyUser.findMany({
+    where:
+      answer.visibility === 'PUBLIC'
+        ? {
+            OR: [
+              { companyId: question.companyId },
+              {
+                company: {
+                  requestCompanies: {
+                    some: { requestId: request.id, status: { in: QUESTION_COMPANY_STATUSES } },
+                  },
+                },
+              },
+            ],
+          }
+        : { companyId: question.companyId },
+    select: { userId: true, companyId: true },
+  });
+
+  // A user in several companies is notified once, as the asker if possible
+  const recipients = new Map<string, boolean>();
+  for (const { userId, companyId } of members) {
+    recipients.set(userId, recipients.get(userId) || companyId === question.companyId);
+  }
+
+  for (const [userId, isAsker] of recipients) {
+    await createNotification(tx, {
+      userId,
+      type: 'REQUEST_QUESTION_ANSWERED',
+      title: isAsker
+        ? `Your question was answered: ${request.title}`
+        : `New FAQ answer: ${request.title}`,
+      body: answer.answer,
+      link: `/requests/${request.id}#questions`,
+    });
+  }
+}
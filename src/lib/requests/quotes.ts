@@ -0,0 +1,202 @@
+/**
+ * Line-item Quotes
+ *
+ * A proposal can be quoted as line items (phase, role, person-days × daily
+ * rate, fixed fees, optional items) instead of a single amount
+ * (RequestCompany.quote). Totals are always computed here on the server;
+ * the proposal's estimatedCost is set to the subtotal without tax so quotes
+ * stay comparable with single-amount proposals. The compare page lines up
+ * the phase subtotals of the compared proposals.
+ */
+
+import { QuoteInput, QuoteLineItem } from '@/lib/validations/request';
+
+/**
+ * Phases suggested in the quote editor (companies may use their own)
+ */
+export const QUOTE_PHASE_SUGGESTIONS = [
+  'Requirements',
+  'Design',
+  'Development',
+  'Testing',
+  'Deployment',
+  'Project management',
+  'Maintenance',
+];
+
+/**
+ * Totals of one phase
+ */
+export interface QuotePhaseTotal {
+  phase: string;
+
+  /** Person-days of the required lines */
+  personDays: number;
+
+  /** Required lines */
+  subtotal: number;
+
+  /** Optional lines */
+  optionalTotal: number;
+}
+
+/**
+ * Totals of a quote
+ */
+export interface QuoteTotals {
+  /** Required lines, without tax */
+  subtotal: number;
+
+  /** Optional lines, without tax (not part of the total) */
+  optionalTotal: number;
+
+  /** Tax on the subtotal */
+  tax: number;
+
+  /** Subtotal plus tax */
+  total: number;
+
+  /** Person-days of the required lines */
+  personDays: number;
+
+  /** Per-phase totals, in the order the phases first appear */
+  phases: QuotePhaseTotal[];
+}
+
+/**
+ * Quote stored on a proposal
+ */
+export interface Quote {
+  lineItems: QuoteLineItem[];
+  taxRate: number;
+  totals: QuoteTotals;
+}
+
+/**
+ * Phase row of the compare page
+ */
+export interface QuotePhaseComparisonRow {
+  phase: string;
+
+  /** Phase totals by proposal ID (null when the proposal has no such phase) */
+  amounts: Record<string, QuotePhaseTotal | null>;
+}
+
+/**
+ * New empty line item with a locally unique ID
+ */
+export function newQuoteLineItem(phase = ''): QuoteLineItem {
+  const id = `line_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  return { id, phase, optional: false };
+}
+
+/**
+ * Key used to match phases across proposals ("Testing " = "testing")
+ */
+export function normalizePhase(phase: string): string {
+  return phase.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Amount of one line: person-days × daily rate plus the fixed fee
+ */
+export function getLineItemAmount(item: QuoteLineItem): number {
+  const labor =
+    item.personDays !== undefined && item.unitRate !== undefined
+      ? Math.round(item.personDays * item.unitRate)
+      : 0;
+  return labor + (item.fixedFee ?? 0);
+}
+
+/**
+ * Compute the totals of a quote
+ * Tax is charged on the required lines only and rounded down, as on
+ * Japanese invoices.
+ */
+export function calculateQuoteTotals(lineItems: QuoteLineItem[], taxRate: number): QuoteTotals {
+  const phases = new Map<string, QuotePhaseTotal>();
+  let subtotal = 0;
+  let optionalTotal = 0;
+  let personDays = 0;
+
+  for (const item of lineItems) {
+    const key = normalizePhase(item.phase);
+    const phase = phases.get(key) ?? {
+      phase: item.phase.trim(),
+      personDays: 0,
+      subtotal: 0,
+      optionalTotal: 0,
+    };
+    const amount = getLineItemAmount(item);
+
+    if (item.optional) {
+      phase.optionalTotal += amount;
+      optionalTotal += amount;
+    } else {
+      phase.subtotal += amount;
+      phase.personDays += item.personDays ?? 0;
+      subtotal += amount;
+      personDays += item.personDays ?? 0;
+    }
+    phases.set(key, phase);
+  }
+
+  const tax = Math.floor(subtotal * taxRate);
+  return {
+    subtotal,
+    optionalTotal,
+    tax,
+    total: subtotal + tax,
+    personDays,
+    phases: [...phases.values()],
+  };
+}
+
+/**
+ * Build the stored quote from a validated submission
+ */
+export function buildQuote(input: QuoteInput): Quote {
+  return {
+    lineItems: input.lineItems,
+    taxRate: input.taxRate,
+    totals: calculateQuoteTotals(input.lineItems, input.taxRate),
+  };
+}
+
+/**
+ * Quote of a proposal (RequestCompany.quote), or null for single-amount proposals
+ */
+export function getQuote(quote: unknown): Quote | null {
+  const value = quote as Partial<Quote> | null;
+  if (!value || !Array.isArray(value.lineItems) || typeof value.taxRate !== 'number') {
+    return null;
+  }
+
+  // Totals are recomputed so they always agree with the lines
+  return buildQuote({ lineItems: value.lineItems, taxRate: value.taxRate });
+}
+
+/**
+ * Line up the phase totals of the compared proposals
+ * Phases are matched by name (case and spacing ignored) and listed in the
+ * order they first appear.
+ */
+export function buildQuotePhaseComparison(
+  proposals: { id: string; quote?: Quote | null }[]
+): QuotePhaseComparisonRow[] {
+  const rows = new Map<string, QuotePhaseComparisonRow>();
+
+  for (const proposal of proposals) {
+    for (const phase of proposal.quote?.totals.phases ?? []) {
+      const key = normalizePhase(phase.phase);
+      const row = rows.get(key) ?? {
+        phase: phase.phase,
+        amounts: Object.fromEntries(proposals.map(({ id }) => [id, null])),
+      };
+      row.amounts[proposal.id] = phase;
+      rows.set(key, row);
+    }
+  }
+
+  return [...rows.values()];
+}
@@ -0,0 +1,74 @@
+/**
+ * Request Requirements
+ *
+ * Helpers for the versioned Request.requirements JSON. Technologies and
+ * specialties are stored as TechStack / Specialty IDs (see requirementsSchema).
+ */
+
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Catalog entry referenced from requirements
+ */
+export interface RequirementLabel {
+  id: string;
+  name: string;
+}
+
+/**
+ * Check that every referenced TechStack / Specialty exists
+ */
+export async function validateRequirementIds(
+  requirements: { techStackIds?: string[]; specialtyIds?: string[] } | null | undefined
+): Promise<{ valid: boolean; error?: string }> {
+  const techStackIds = [...new Set(requirements?.techStackIds ?? [])];
+  const specialtyIds = [...new Set(requirements?.specialtyIds ?? [])];
+
+  const [techStackCount, specialtyCount] = await Promise.all([
+    techStackIds.length > 0
+      ? prisma.techStack.count({ where: { id: { in: techStackIds } } })
+      : 0,
+    specialtyIds.length > 0
+      ? prisma.specialty.count({ where: { id: { in: specialtyIds } } })
+      : 0,
+  ]);
+
+  if (techStackCount !== techStackIds.length) {
+    return { valid: false, error: 'Unknown tech stack in requirements' };
+  }
+
+  if (specialtyCount !== specialtyIds.length) {
+    return { valid: false, error: 'Unknown specialty in requirements' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Resolve requirement IDs to names for display
+ */
+export async function loadRequirementLabels(
+  requirements: { techStackIds?: string[]; specialtyIds?: string[] } | null | undefined
+): Promise<{ techStacks: RequirementLabel[]; specialties: RequirementLabel[] }> {
+  const techStackIds = requirements?.techStackIds ?? [];
+  const specialtyIds = requirements?.specialtyIds ?? [];
+
+  const [techStacks, specialties] = await Promise.all([
+    techStackIds.length > 0
+      ? prisma.techStack.findMany({
+          where: { id: { in: techStackIds } },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        })
+      : [],
+    specialtyIds.length > 0
+      ? prisma.specialty.findMany({
+          where: { id: { in: specialtyIds } },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        })
+      : [],
+  ]);
+
+  return { techStacks, specialties };
+}
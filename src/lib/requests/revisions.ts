@@ -0,0 +1,351 @@
+/**
+ * Proposal Revisions
+ *
+ * Every submission of a proposal is stored as an immutable ProposalRevision
+ * (revision 1 = first submission) with the fields changed since the previous
+ * one; RequestCompany holds the latest revision. The buyer can ask for a
+ * revision with a comment (ProposalRevisionRequest), which the company's next
+ * submission answers. The proposal page compares any two revisions side by
+ * side.
+ */
+
+import { Currency, DurationUnit, MoneyUnit, Prisma } from '@prisma/client';
+import { createNotification } from '@/lib/notifications/inbox';
+import { DEFAULT_MONEY_TERMS } from '@/lib/utils/money';
+import { diffLines, SideBySideRow, toSideBySide } from '@/lib/utils/diff';
+import { getDurationDays } from './schedule';
+
+/**
+ * Fields stored with each revision
+ */
+export const PROPOSAL_REVISION_FIELDS = [
+  'estimatedCost',
+  'estimatedCurrency',
+  'estimatedTaxIncluded',
+  'estimatedUnit',
+  'estimatedDuration',
+  'durationValue',
+  'durationUnit',
+  'schedule',
+  'quote',
+  'proposal',
+  'attachments',
+  'requirementResponses',
+  'requestVersion',
+] as const;
+
+/**
+ * Proposal content as submitted
+ */
+export type ProposalSnapshot = {
+  estimatedCost: number | null;
+  estimatedCurrency: Currency;
+  estimatedTaxIncluded: boolean;
+  estimatedUnit: MoneyUnit;
+  estimatedDuration: string | null;
+  durationValue: number | null;
+  durationUnit: DurationUnit | null;
+  schedule: Prisma.JsonValue | null;
+  quote: Prisma.JsonValue | null;
+  proposal: string | null;
+  attachments: string[];
+  requirementResponses: Prisma.JsonValue | null;
+  requestVersion: number | null;
+};
+
+/**
+ * One changed field between two revisions
+ */
+export type ProposalFieldChange = {
+  field: string;
+  from: Prisma.JsonValue | null;
+  to: Prisma.JsonValue | null;
+};
+
+/**
+ * Field labels for revision diffs
+ */
+export const proposalRevisionFieldLabels: Record<string, string> = {
+  estimatedCost: 'Estimated cost',
+  estimatedCurrency: 'Currency',
+  estimatedTaxIncluded: 'Cost includes tax',
+  estimatedUnit: 'Billing unit',
+  estimatedDuration: 'Duration',
+  durationValue: 'Duration',
+  durationUnit: 'Duration unit',
+  schedule: 'Schedule',
+  quote: 'Line-item quote',
+  proposal: 'Proposal',
+  attachments: 'Attachments',
+  requirementResponses: 'Requirement responses',
+  requestVersion: 'Request version',
+};
+
+/**
+ * Side-by-side comparison of two revisions
+ * Cost and duration differences are null when either side has no value, and
+ * the cost difference also when the revisions quote in different terms.
+ */
+export interface ProposalRevisionComparison {
+  cost: { from: number | null; to: number | null; difference: number | null };
+  duration: {
+    from: string | null;
+    to: string | null;
+    fromDays: number | null;
+    toDays: number | null;
+    difference: number | null;
+  };
+  text: SideBySideRow[];
+  changes: ProposalFieldChange[];
+}
+
+/**
+ * Thrown when a revision can't be stored or requested
+ */
+export class ProposalRevisionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProposalRevisionError';
+  }
+}
+
+/**
+ * Proposal fields a snapshot is built from
+ */
+type ProposalSnapshotSource = {
+  estimatedCost?: number | null;
+  estimatedCurrency?: Currency;
+  estimatedTaxIncluded?: boolean;
+  estimatedUnit?: MoneyUnit;
+  estimatedDuration?: string | null;
+  durationValue?: number | null;
+  durationUnit?: DurationUnit | null;
+  schedule?: unknown;
+  quote?: unknown;
+  proposal?: string | null;
+  attachments?: string[];
+  requirementResponses?: unknown;
+  requestVersion?: number | null;
+};
+
+function toJsonValue(value: unknown): Prisma.JsonValue | null {
+  return (value ?? null) as Prisma.JsonValue | null;
+}
+
+/**
+ * Normalize proposal content into a snapshot
+ */
+export function toProposalSnapshot(proposal: ProposalSnapshotSource): ProposalSnapshot {
+  return {
+    estimatedCost: proposal.estimatedCost ?? null,
+    estimatedCurrency: proposal.estimatedCurrency ?? DEFAULT_MONEY_TERMS.currency,
+    estimatedTaxIncluded: proposal.estimatedTaxIncluded ?? DEFAULT_MONEY_TERMS.taxIncluded,
+    estimatedUnit: proposal.estimatedUnit ?? DEFAULT_MONEY_TERMS.unit,
+    estimatedDuration: proposal.estimatedDuration ?? null,
+    durationValue: proposal.durationValue ?? null,
+    durationUnit: proposal.durationUnit ?? null,
+    schedule: toJsonValue(proposal.schedule),
+    quote: toJsonValue(proposal.quote),
+    proposal: proposal.proposal ?? null,
+    attachments: proposal.attachments ?? [],
+    requirementResponses: toJsonValue(proposal.requirementResponses),
+    requestVersion: proposal.requestVersion ?? null,
+  };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Fields that differ between two snapshots, in PROPOSAL_REVISION_FIELDS order
+ */
+export function diffProposalSnapshots(
+  previous: ProposalSnapshot,
+  next: ProposalSnapshot
+): ProposalFieldChange[] {
+  return PROPOSAL_REVISION_FIELDS.filter((field) => !isSameValue(previous[field], next[field])).map(
+    (field) => ({ field, from: previous[field], to: next[field] })
+  );
+}
+
+/**
+ * Compare two revisions: cost, duration and the proposal text line by line
+ */
+export function compareProposalRevisions(
+  from: ProposalSnapshot,
+  to: ProposalSnapshot
+): ProposalRevisionComparison {
+  const fromDays = getDurationDays(from);
+  const toDays = getDurationDays(to);
+  const sameTerms =
+    from.estimatedCurrency === to.estimatedCurrency &&
+    from.estimatedTaxIncluded === to.estimatedTaxIncluded &&
+    from.estimatedUnit === to.estimatedUnit;
+
+  return {
+    cost: {
+      from: from.estimatedCost,
+      to: to.estimatedCost,
+      difference:
+        sameTerms && from.estimatedCost !== null && to.estimatedCost !== null
+          ? to.estimatedCost - from.estimatedCost
+          : null,
+    },
+    duration: {
+      from: from.estimatedDuration,
+      to: to.estimatedDuration,
+      fromDays,
+      toDays,
+      difference: fromDays !== null && toDays !== null ? toDays - fromDays : null,
+    },
+    text: toSideBySide(diffLines(from.proposal, to.proposal)),
+    changes: diffProposalSnapshots(from, to),
+  };
+}
+
+/**
+ * Check if the company may submit a new revision: the proposal was submitted
+ * and either the buyer asked for a revision or the request was amended since
+ */
+export function canReviseProposal(
+  proposal: { status: string },
+  options: { hasOpenRevisionRequest: boolean; isOutdated: boolean }
+): boolean {
+  return proposal.status === 'RESPONDED' && (options.hasOpenRevisionRequest || options.isOutdated);
+}
+
+/**
+ * Store the submitted content as the proposal's next revision
+ *
+ * Must run inside the submission transaction, after the proposal was saved.
+ * The revision counter only advances from `proposal.revision`, so concurrent
+ * submissions fail instead of skipping a revision. Open revision requests are
+ * resolved by the new revision, and the buyer gets a PROPOSAL_REVISED
+ * notification for every revision after the first.
+ */
+export async function recordProposalRevision(
+  tx: Prisma.TransactionClient,
+  proposal: { id: string; revision: number; companyName: string },
+  request: { title: string; userId: string },
+  snapshot: ProposalSnapshot,
+  options: { authorId: string; note?: string | null; now?: Date }
+) {
+  const now = options.now ?? new Date();
+  const revision = proposal.revision + 1;
+
+  const { count } = await tx.requestCompany.updateMany({
+    where: { id: proposal.id, revision: proposal.revision },
+    data: { revision },
+  });
+
+  if (count === 0) {
+    throw new ProposalRevisionError('Proposal was changed by another submission');
+  }
+
+  const previous =
+    proposal.revision > 0
+      ? await tx.proposalRevision.findUnique({
+          where: {
+            requestCompanyId_revision: {
+              requestCompanyId: proposal.id,
+              revision: proposal.revision,
+            },
+          },
+        })
+      : null;
+  const changes = previous
+    ? diffProposalSnapshots(
+        toProposalSnapshot(previous.snapshot as ProposalSnapshotSource),
+        snapshot
+      )
+    : null;
+
+  const entry = await tx.proposalRevision.create({
+    data: {
+      requestCompanyId: proposal.id,
+      revision,
+      snapshot,
+      changes: changes ?? Prisma.JsonNull,
+      note: options.note ?? null,
+      authorId: options.authorId,
+      createdAt: now,
+    },
+  });
+
+  const { count: resolved } = await tx.proposalRevisionRequest.updateMany({
+    where: { requestCompanyId: proposal.id, resolvedAt: null },
+    data: { resolvedRevision: revision, resolvedAt: now },
+  });
+
+  if (revision > 1) {
+    const changedFields = [
+      ...new Set(
+        (changes ?? []).map((change) => proposalRevisionFieldLabels[change.field] ?? change.field)
+      ),
+    ];
+    await createNotification(tx, {
+      userId: request.userId,
+      type: 'PROPOSAL_REVISED',
+      title: `Proposal revised: ${request.title}`,
+      body: [
+        `${proposal.companyName} submitted revision ${revision}`,
+        resolved > 0 ? ' in response to your revision request' : '',
+        changedFields.length > 0 ? ` (${changedFields.join(', ')} changed).` : '.',
+      ].join(''),
+      link: `/proposals/${proposal.id}`,
+    });
+  }
+
+  return entry;
+}
+
+/**
+ * Ask a company to revise its proposal and notify the company's members
+ *
+ * Must run inside a transaction. Only one revision request can be open per
+ * proposal; the next revision resolves it.
+ */
+export async function requestProposalRevision(
+  tx: Prisma.TransactionClient,
+  proposal: { id: string; revision: number; companyId: string },
+  request: { title: string },
+  comment: string,
+  options: { authorId: string; now?: Date }
+) {
+  const open = await tx.proposalRevisionRequest.findFirst({
+    where: { requestCompanyId: proposal.id, resolvedAt: null },
+    select: { id: true },
+  });
+
+  if (open) {
+    throw new ProposalRevisionError('A revision has already been requested for this proposal');
+  }
+
+  const entry = await tx.proposalRevisionRequest.create({
+    data: {
+      requestCompanyId: proposal.id,
+      revision: proposal.revision,
+      comment,
+      authorId: options.authorId,
+      createdAt: options.now ?? new Date(),
+    },
+  });
+
+  const members = await tx.companyUser.findMany({
+    where: { companyId: proposal.companyId },
+    select: { userId: true },
+  });
+
+  for (const { userId } of members) {
+    await createNotification(tx, {
+      userId,
+      type: 'PROPOSAL_REVISION_REQUESTED',
+      title: `Revision requested: ${request.title}`,
+      body: comment,
+      link: `/proposals/${proposal.id}`,
+    });
+  }
+
+  return entry;
+}
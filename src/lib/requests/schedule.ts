@@ -0,0 +1,264 @@
+/**
+ * Proposal Durations & Schedules
+ *
+ * Proposals carry a structured duration (durationValue + durationUnit) and a
+ * milestone schedule with payment percentages (RequestCompany.schedule). The
+ * proposals API checks the schedule against the request's preferred start and
+ * deadline; the compare page draws the schedules as a Gantt-style timeline.
+ */
+
+import { DurationUnit } from '@prisma/client';
+import { Milestone } from '@/lib/validations/request';
+
+/**
+ * Duration unit labels for UI display
+ */
+export const durationUnitLabels: Record<DurationUnit, string> = {
+  DAYS: 'Days',
+  WEEKS: 'Weeks',
+  MONTHS: 'Months',
+};
+
+/**
+ * Days per duration unit (a month counts as 30 days)
+ */
+export const DAYS_PER_DURATION_UNIT: Record<DurationUnit, number> = {
+  DAYS: 1,
+  WEEKS: 7,
+  MONTHS: 30,
+};
+
+const DURATION_UNIT_NAMES: Record<DurationUnit, string> = {
+  DAYS: 'day',
+  WEEKS: 'week',
+  MONTHS: 'month',
+};
+
+/**
+ * Units written in free-text durations, longest unit first
+ */
+const DURATION_PATTERNS: [RegExp, DurationUnit][] = [
+  [/(\d+(?:\.\d+)?)\s*(?:months?|ヶ月|か月|カ月|ヵ月|ケ月)/i, 'MONTHS'],
+  [/(\d+(?:\.\d+)?)\s*(?:weeks?|週間?)/i, 'WEEKS'],
+  [/(\d+(?:\.\d+)?)\s*(?:days?|日間?)/i, 'DAYS'],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Milestone bar of the timeline (offset and width in % of the axis)
+ */
+export interface ScheduleTimelineBar {
+  milestone: Milestone;
+  offset: number;
+  width: number;
+}
+
+/**
+ * Date marked on the timeline (offset in % of the axis)
+ */
+export interface ScheduleTimelineMarker {
+  label: string;
+  date: string;
+  offset: number;
+}
+
+/**
+ * Gantt-style timeline of the compared proposals
+ * The axis runs from the earliest to the latest date of all schedules and the
+ * request's preferred start / deadline.
+ */
+export interface ScheduleTimeline {
+  start: string;
+  end: string;
+
+  /** Days on the axis, both ends included */
+  days: number;
+
+  markers: ScheduleTimelineMarker[];
+
+  /** Bars by proposal ID (empty for proposals without a schedule) */
+  bars: Record<string, ScheduleTimelineBar[]>;
+}
+
+/**
+ * Request dates a schedule is checked against
+ */
+export interface ScheduleWindow {
+  preferredStart?: Date | string | null;
+  deadline?: Date | string | null;
+}
+
+/**
+ * New milestone with a locally unique ID
+ */
+export function newMilestone(startDate = '', endDate = ''): Milestone {
+  const id = `ms_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  return { id, title: '', startDate, endDate, paymentPercent: 0 };
+}
+
+/**
+ * Calendar date (YYYY-MM-DD, UTC) of a date or ISO string
+ */
+export function toDateKey(value: Date | string): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Format a duration, e.g. "3 months"
+ */
+export function formatDuration(value: number, unit: DurationUnit): string {
+  return `${value} ${DURATION_UNIT_NAMES[unit]}${value === 1 ? '' : 's'}`;
+}
+
+/**
+ * Parse a free-text duration such as "3 months", "12 weeks" or "3ヶ月" into
+ * days, for proposals written before durations were structured
+ * Ranges ("2-3 months") count with their upper bound.
+ */
+export function parseDurationDays(value: string | null | undefined): number | null {
+  if (!value) return null;
+
+  const normalized = value.replace(/[０-９．]/g, (c) =>
+    String.fromCharCode(c.charCodeAt(0) - 0xfee0)
+  );
+  for (const [pattern, unit] of DURATION_PATTERNS) {
+    const match = normalized.match(pattern);
+    if (match) {
+      const days = parseFloat(match[1]) * DAYS_PER_DURATION_UNIT[unit];
+      return days > 0 ? Math.round(days) : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Duration of a proposal in days: the structured duration, or the parsed
+ * free-text duration of older proposals
+ */
+export function getDurationDays(proposal: {
+  durationValue?: number | null;
+  durationUnit?: DurationUnit | null;
+  estimatedDuration?: string | null;
+}): number | null {
+  if (proposal.durationValue && proposal.durationUnit) {
+    return proposal.durationValue * DAYS_PER_DURATION_UNIT[proposal.durationUnit];
+  }
+  return parseDurationDays(proposal.estimatedDuration);
+}
+
+/**
+ * Average duration in days of the proposals with a known duration
+ */
+export function getAverageDurationDays(
+  proposals: Parameters<typeof getDurationDays>[0][]
+): number | null {
+  const days = proposals.map(getDurationDays).filter((value): value is number => value !== null);
+  return days.length > 0 ? days.reduce((a, b) => a + b, 0) / days.length : null;
+}
+
+/**
+ * Milestones of a proposal (RequestCompany.schedule), sorted by start date
+ */
+export function getMilestones(schedule: unknown): Milestone[] {
+  if (!Array.isArray(schedule)) return [];
+  return [...(schedule as Milestone[])].sort(
+    (a, b) => a.startDate.localeCompare(b.startDate) || a.endDate.localeCompare(b.endDate)
+  );
+}
+
+/**
+ * First and last day of a schedule
+ */
+export function getScheduleSpan(milestones: Milestone[]): { start: string; end: string } | null {
+  if (milestones.length === 0) return null;
+  return {
+    start: milestones.map((m) => m.startDate).reduce((a, b) => (a < b ? a : b)),
+    end: milestones.map((m) => m.endDate).reduce((a, b) => (a > b ? a : b)),
+  };
+}
+
+/**
+ * Check a schedule against the request's preferred start and deadline, with
+ * an error message for API responses
+ */
+export function validateSchedule(
+  milestones: Milestone[],
+  request: ScheduleWindow
+): { valid: boolean; error?: string } {
+  const span = getScheduleSpan(milestones);
+  if (!span) return { valid: true };
+
+  if (request.preferredStart) {
+    const preferredStart = toDateKey(request.preferredStart);
+    if (span.start < preferredStart) {
+      return {
+        valid: false,
+        error: `Schedule starts on ${span.start}, before the preferred start (${preferredStart})`,
+      };
+    }
+  }
+
+  if (request.deadline) {
+    const deadline = toDateKey(request.deadline);
+    if (span.end > deadline) {
+      return {
+        valid: false,
+        error: `Schedule ends on ${span.end}, after the deadline (${deadline})`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Build the timeline for the compare page, or null when no proposal has a
+ * schedule
+ */
+export function buildScheduleTimeline(
+  proposals: { id: string; schedule?: Milestone[] | null }[],
+  request: ScheduleWindow
+): ScheduleTimeline | null {
+  const milestones = proposals.flatMap((proposal) => proposal.schedule ?? []);
+  if (milestones.length === 0) return null;
+
+  const requestDates = [
+    { label: 'Preferred start', value: request.preferredStart },
+    { label: 'Deadline', value: request.deadline },
+  ].flatMap(({ label, value }) => (value ? [{ label, date: toDateKey(value) }] : []));
+
+  const dates = [
+    ...milestones.flatMap((milestone) => [milestone.startDate, milestone.endDate]),
+    ...requestDates.map(({ date }) => date),
+  ].sort();
+  const start = dates[0];
+  const end = dates[dates.length - 1];
+  const days = daysBetween(start, end) + 1;
+  const toPercent = (value: number) => (value / days) * 100;
+
+  return {
+    start,
+    end,
+    days,
+    markers: requestDates.map(({ label, date }) => ({
+      label,
+      date,
+      offset: toPercent(daysBetween(start, date)),
+    })),
+    bars: Object.fromEntries(
+      proposals.map((proposal) => [
+        proposal.id,
+        getMilestones(proposal.schedule).map((milestone) => ({
+          milestone,
+          offset: toPercent(daysBetween(start, milestone.startDate)),
+          width: toPercent(daysBetween(milestone.startDate, milestone.endDate) + 1),
+        })),
+      ])
+    ),
+  };
+}
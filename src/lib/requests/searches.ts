@@ -0,0 +1,93 @@
+/**
+ * Saved Searches
+ *
+ * Request filters saved by company members (project types, budget range,
+ * keywords, tech stacks). Newly published requests are matched against them
+ * by alertSavedSearches (./alerts.ts).
+ */
+
+import { Currency, MoneyUnit, ProjectType } from '@prisma/client';
+import { getComparableBudget } from '@/lib/matching/pricing';
+import { projectTypeLabels } from '@/lib/utils/request';
+import { formatMoneyRange } from '@/lib/utils/money';
+import { Requirements } from '@/lib/validations/request';
+
+/**
+ * Filter stored on a SavedSearch
+ * Empty lists match everything; the budget is in one-off JPY without tax.
+ */
+export interface SavedSearchCriteria {
+  projectTypes: ProjectType[];
+  budgetMin: number | null;
+  budgetMax: number | null;
+  keywords: string[];
+  techStackIds: string[];
+}
+
+/**
+ * Request fields a saved search is matched against
+ */
+export interface SavedSearchCandidate {
+  title: string;
+  description: string;
+  projectType: ProjectType;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  budgetCurrency?: Currency;
+  budgetTaxIncluded?: boolean;
+  budgetUnit?: MoneyUnit;
+  requirements: unknown;
+}
+
+/**
+ * Check if a request matches a saved search
+ *
+ * - Project type: one of the selected types
+ * - Budget: the request's budget overlaps the range; requests without a
+ *   comparable budget are not filtered out
+ * - Keywords: any keyword appears in the title or description (case-insensitive)
+ * - Tech stacks: the request asks for any of the selected tech stacks
+ */
+export function matchesSavedSearch(
+  criteria: SavedSearchCriteria,
+  request: SavedSearchCandidate
+): boolean {
+  if (criteria.projectTypes.length > 0 && !criteria.projectTypes.includes(request.projectType)) {
+    return false;
+  }
+
+  const budget = getComparableBudget(request);
+  if (criteria.budgetMin && budget.max && budget.max < criteria.budgetMin) return false;
+  if (criteria.budgetMax && budget.min && budget.min > criteria.budgetMax) return false;
+
+  if (criteria.keywords.length > 0) {
+    const text = `${request.title}\n${request.description}`.toLowerCase();
+    if (!criteria.keywords.some((keyword) => text.includes(keyword.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  if (criteria.techStackIds.length > 0) {
+    const requested = (request.requirements as Requirements | null)?.techStackIds ?? [];
+    if (!criteria.techStackIds.some((id) => requested.includes(id))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Short summary of a saved search, e.g. `Web Development · ¥1,000,000+ · "Stripe"`
+ */
+export function describeSavedSearch(criteria: SavedSearchCriteria): string {
+  const parts = [
+    criteria.projectTypes.map((type) => projectTypeLabels[type]).join(' / '),
+    criteria.budgetMin || criteria.budgetMax
+      ? formatMoneyRange(criteria.budgetMin, criteria.budgetMax)
+      : '',
+    criteria.keywords.map((keyword) => `"${keyword}"`).join(', '),
+    criteria.techStackIds.length > 0 ? `${criteria.techStackIds.length} tech stacks` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All requests';
+}
@@ -0,0 +1,110 @@
+/**
+ * Request Templates
+ *
+ * Prefills for the new request wizard, keyed by ProjectType. Shared templates
+ * (ownerId null) are managed by admins and visible to everyone; users can save
+ * their own. Also builds draft copies for "duplicate this request".
+ */
+
+import { Prisma, Request, RequestTemplate, UserRole } from '@prisma/client';
+import { featuresToRequirementItems } from '@/lib/requests/coverage';
+import { getAttachmentIdFromUrl } from '@/lib/storage/files';
+
+/**
+ * Appended to the title of a duplicated request
+ */
+export const DUPLICATE_TITLE_SUFFIX = '（コピー）';
+
+const MAX_TITLE_LENGTH = 100;
+
+/**
+ * Templates a user can see: shared ones and their own
+ */
+export function visibleRequestTemplatesWhere(userId: string): Prisma.RequestTemplateWhereInput {
+  return { OR: [{ ownerId: null }, { ownerId: userId }] };
+}
+
+/**
+ * Check if a user can change or delete a template
+ * Shared templates are managed by system admins.
+ */
+export function canManageRequestTemplate(
+  template: Pick<RequestTemplate, 'ownerId'>,
+  user: { id: string; role: UserRole }
+): boolean {
+  if (template.ownerId === null) return user.role === 'SYSTEM_ADMIN';
+  return template.ownerId === user.id;
+}
+
+/**
+ * Wizard values prefilled by a template
+ */
+export function toRequestTemplateValues(
+  template: Pick<
+    RequestTemplate,
+    'projectType' | 'descriptionScaffold' | 'features' | 'integrations' | 'budgetMin' | 'budgetMax'
+  >
+) {
+  return {
+    projectType: template.projectType,
+    description: template.descriptionScaffold,
+    budgetMin: template.budgetMin,
+    budgetMax: template.budgetMax,
+    requirements: {
+      items: featuresToRequirementItems(template.features),
+      integrations: template.integrations,
+    },
+  };
+}
+
+/**
+ * Draft copy of a past request
+ *
+ * Content is copied; dates, status and proposals are not, because the copy is
+ * published as a new request. Uploaded files stay linked to the original
+ * request and would not be accessible through the copy, so only external
+ * attachment URLs are kept.
+ */
+export function toDuplicateRequestData(
+  request: Pick<
+    Request,
+    | 'userId'
+    | 'title'
+    | 'description'
+    | 'projectType'
+    | 'visibility'
+    | 'buyerIndustry'
+    | 'buyerSize'
+    | 'budget'
+    | 'budgetMin'
+    | 'budgetMax'
+    | 'budgetCurrency'
+    | 'budgetTaxIncluded'
+    | 'budgetUnit'
+    | 'requirements'
+    | 'attachments'
+  >
+): Prisma.RequestUncheckedCreateInput {
+  const title =
+    request.title.slice(0, MAX_TITLE_LENGTH - DUPLICATE_TITLE_SUFFIX.length) +
+    DUPLICATE_TITLE_SUFFIX;
+
+  return {
+    userId: request.userId,
+    title,
+    description: request.description,
+    projectType: request.projectType,
+    visibility: request.visibility,
+    buyerIndustry: request.buyerIndustry,
+    buyerSize: request.buyerSize,
+    budget: request.budget,
+    budgetMin: request.budgetMin,
+    budgetMax: request.budgetMax,
+    budgetCurrency: request.budgetCurrency,
+    budgetTaxIncluded: request.budgetTaxIncluded,
+    budgetUnit: request.budgetUnit,
+    requirements: (request.requirements as Prisma.InputJsonValue | null) ?? Prisma.JsonNull,
+    attachments: request.attachments.filter((url) => getAttachmentIdFromUrl(url) === null),
+    status: 'DRAFT',
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * Request Versions
+ *
+ * Published requests are amended instead of edited. Each amendment bumps
+ * Request.version and stores the amendable fields as a RequestVersion
+ * (version 1 = as published) together with the changed fields, so invited
+ * companies can see what changed. Proposals record the version they were
+ * written against (RequestCompany.requestVersion).
+ */
+
+import { Currency, MoneyUnit, Prisma } from '@prisma/client';
+import { createNotification } from '@/lib/notifications/inbox';
+import { DEFAULT_MONEY_TERMS } from '@/lib/utils/money';
+
+/**
+ * Fields a buyer can amend after publishing (the project type is fixed
+ * because matching depends on it)
+ */
+export const REQUEST_VERSION_FIELDS = [
+  'title',
+  'description',
+  'budgetMin',
+  'budgetMax',
+  'budgetCurrency',
+  'budgetTaxIncluded',
+  'budgetUnit',
+  'preferredStart',
+  'deadline',
+  'quoteDeadline',
+  'requirements',
+  'attachments',
+] as const;
+
+/**
+ * Amendable request content
+ * Dates are ISO strings so snapshots round-trip through JSON unchanged.
+ */
+export type RequestSnapshot = {
+  title: string;
+  description: string;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  budgetCurrency: Currency;
+  budgetTaxIncluded: boolean;
+  budgetUnit: MoneyUnit;
+  preferredStart: string | null;
+  deadline: string | null;
+  quoteDeadline: string | null;
+  requirements: Prisma.JsonValue | null;
+  attachments: string[];
+};
+
+/**
+ * One changed field between two versions
+ * Requirement keys are compared individually, e.g. `requirements.features`.
+ */
+export type RequestFieldChange = {
+  field: string;
+  from: Prisma.JsonValue | null;
+  to: Prisma.JsonValue | null;
+};
+
+/**
+ * Field labels for amendment diffs
+ */
+export const requestVersionFieldLabels: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  budgetMin: 'Minimum budget',
+  budgetMax: 'Maximum budget',
+  budgetCurrency: 'Budget currency',
+  budgetTaxIncluded: 'Budget includes tax',
+  budgetUnit: 'Budget unit',
+  preferredStart: 'Preferred start',
+  deadline: 'Deadline',
+  quoteDeadline: 'Quote deadline',
+  attachments: 'Attachments',
+  'requirements.techStackIds': 'Technologies',
+  'requirements.specialtyIds': 'Specialties',
+  'requirements.otherTechnologies': 'Other technologies',
+  'requirements.otherSpecialties': 'Other specialties',
+  'requirements.location': 'Location',
+  'requirements.features': 'Features',
+  'requirements.items': 'Requirement items',
+  'requirements.designRequirements': 'Design requirements',
+  'requirements.targetAudience': 'Target audience',
+  'requirements.integrations': 'Integrations',
+  'requirements.additionalNotes': 'Additional notes',
+};
+
+/**
+ * Thrown when the request changed while an amendment was being stored
+ */
+export class RequestAmendmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestAmendmentError';
+  }
+}
+
+/**
+ * Request fields a snapshot is built from (Date or ISO string dates)
+ */
+type RequestSnapshotSource = {
+  title: string;
+  description: string;
+  budgetMin?: number | null;
+  budgetMax?: number | null;
+  budgetCurrency?: Currency;
+  budgetTaxIncluded?: boolean;
+  budgetUnit?: MoneyUnit;
+  preferredStart?: Date | string | null;
+  deadline?: Date | string | null;
+  quoteDeadline?: Date | string | null;
+  requirements?: unknown;
+  attachments?: string[];
+};
+
+function toIsoString(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  return (typeof value === 'string' ? new Date(value) : value).toISOString();
+}
+
+function toDate(value: string | null): Date | null {
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Normalize request content into a snapshot
+ */
+export function toRequestSnapshot(request: RequestSnapshotSource): RequestSnapshot {
+  return {
+    title: request.title,
+    description: request.description,
+    budgetMin: request.budgetMin ?? null,
+    budgetMax: request.budgetMax ?? null,
+    budgetCurrency: request.budgetCurrency ?? DEFAULT_MONEY_TERMS.currency,
+    budgetTaxIncluded: request.budgetTaxIncluded ?? DEFAULT_MONEY_TERMS.taxIncluded,
+    budgetUnit: request.budgetUnit ?? DEFAULT_MONEY_TERMS.unit,
+    preferredStart: toIsoString(request.preferredStart),
+    deadline: toIsoString(request.deadline),
+    quoteDeadline: toIsoString(request.quoteDeadline),
+    requirements: (request.requirements ?? null) as Prisma.JsonValue | null,
+    attachments: request.attachments ?? [],
+  };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function asJsonObject(value: Prisma.JsonValue | null): Prisma.JsonObject {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+/**
+ * Fields that differ between two snapshots, in REQUEST_VERSION_FIELDS order
+ */
+export function diffRequestSnapshots(
+  previous: RequestSnapshot,
+  next: RequestSnapshot
+): RequestFieldChange[] {
+  const changes: RequestFieldChange[] = [];
+
+  for (const field of REQUEST_VERSION_FIELDS) {
+    if (field === 'requirements') {
+      const before = asJsonObject(previous.requirements);
+      const after = asJsonObject(next.requirements);
+      const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+      // `version` is the requirements JSON shape, not content
+      for (const key of keys.filter((key) => key !== 'version')) {
+        if (!isSameValue(before[key], after[key])) {
+          changes.push({
+            field: `requirements.${key}`,
+            from: before[key] ?? null,
+            to: after[key] ?? null,
+          });
+        }
+      }
+      continue;
+    }
+
+    if (!isSameValue(previous[field], next[field])) {
+      changes.push({ field, from: previous[field], to: next[field] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Apply an amendment to the current request content
+ */
+export function buildRequestAmendment(
+  request: RequestSnapshotSource,
+  amendment: Partial<RequestSnapshotSource>
+): { snapshot: RequestSnapshot; changes: RequestFieldChange[] } {
+  const previous = toRequestSnapshot(request);
+  const defined = Object.fromEntries(
+    Object.entries(amendment).filter(([, value]) => value !== undefined)
+  );
+  const snapshot = toRequestSnapshot({ ...previous, ...defined });
+
+  return { snapshot, changes: diffRequestSnapshots(previous, snapshot) };
+}
+
+/**
+ * Validate amended content, with an error message for API responses
+ */
+export function validateRequestSnapshot(
+  snapshot: RequestSnapshot,
+  now: Date = new Date()
+): { valid: boolean; error?: string } {
+  if (snapshot.budgetMin && snapshot.budgetMax && snapshot.budgetMin >= snapshot.budgetMax) {
+    return { valid: false, error: 'Minimum budget must be less than maximum budget' };
+  }
+
+  if (
+    snapshot.preferredStart &&
+    snapshot.deadline &&
+    new Date(snapshot.preferredStart) >= new Date(snapshot.deadline)
+  ) {
+    return { valid: false, error: 'Preferred start must be before the deadline' };
+  }
+
+  if (snapshot.quoteDeadline) {
+    if (new Date(snapshot.quoteDeadline) <= now) {
+      return { valid: false, error: 'Quote deadline must be in the future' };
+    }
+    if (snapshot.deadline && new Date(snapshot.quoteDeadline) > new Date(snapshot.deadline)) {
+      return { valid: false, error: 'Quote deadline must be on or before the deadline' };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check if a proposal was written against an earlier version of the request
+ */
+export function isProposalOutdated(
+  proposal: { requestVersion: number | null },
+  request: { version: number }
+): boolean {
+  return proposal.requestVersion !== null && proposal.requestVersion < request.version;
+}
+
+/**
+ * Store version 1 (the request as published)
+ * Must run inside the publish transaction.
+ */
+export function createInitialRequestVersion(
+  tx: Prisma.TransactionClient,
+  request: RequestSnapshotSource & { id: string },
+  options: { authorId: string; now?: Date }
+) {
+  return tx.requestVersion.create({
+    data: {
+      requestId: request.id,
+      version: 1,
+      snapshot: toRequestSnapshot(request),
+      authorId: options.authorId,
+      createdAt: options.now ?? new Date(),
+    },
+  });
+}
+
+/**
+ * Store an amendment and notify invited companies
+ *
+ * Must run inside a transaction. The update only matches while the request
+ * is still published at `request.version`, so concurrent amendments fail
+ * instead of being overwritten. Members of companies with a pending
+ * invitation or a submitted proposal get a REQUEST_AMENDED notification.
+ */
+export async function amendRequest(
+  tx: Prisma.TransactionClient,
+  request: { id: string; title: string; version: number },
+  amendment: { snapshot: RequestSnapshot; changes: RequestFieldChange[] },
+  options: { authorId: string; note?: string | null; now?: Date }
+) {
+  const { snapshot, changes } = amendment;
+  const now = options.now ?? new Date();
+  const version = request.version + 1;
+
+  const { count } = await tx.request.updateMany({
+    where: { id: request.id, version: request.version, status: 'PUBLISHED' },
+    data: {
+      title: snapshot.title,
+      description: snapshot.description,
+      budgetMin: snapshot.budgetMin,
+      budgetMax: snapshot.budgetMax,
+      budgetCurrency: snapshot.budgetCurrency,
+      budgetTaxIncluded: snapshot.budgetTaxIncluded,
+      budgetUnit: snapshot.budgetUnit,
+      preferredStart: toDate(snapshot.preferredStart),
+      deadline: toDate(snapshot.deadline),
+      quoteDeadline: toDate(snapshot.quoteDeadline),
+      requirements: snapshot.requirements ?? Prisma.JsonNull,
+      attachments: snapshot.attachments,
+      version,
+    },
+  });
+
+  if (count === 0) {
+    throw new RequestAmendmentError('Request was changed by another action');
+  }
+
+  const entry = await tx.requestVersion.create({
+    data: {
+      requestId: request.id,
+      version,
+      snapshot,
+      changes,
+      note: options.note ?? null,
+      authorId: options.authorId,
+      createdAt: now,
+    },
+  });
+
+  const members = await tx.companyUser.findMany({
+    where: {
+      company: {
+        requestCompanies: {
+          some: { requestId: request.id, status: { in: ['PENDING', 'RESPONDED'] } },
+        },
+      },
+    },
+    select: { userId: true },
+    distinct: ['userId'],
+  });
+
+  const changedFields = changes.map(
+    (change) => requestVersionFieldLabels[change.field] ?? change.field
+  );
+  for (const { userId } of members) {
+    await createNotification(tx, {
+      userId,
+      type: 'REQUEST_AMENDED',
+      title: `Request amended: ${snapshot.title}`,
+      body: `Version ${version} changes ${changedFields.join(', ')}.`,
+      link: `/requests/${request.id}`,
+    });
+  }
+
+  return entry;
+}
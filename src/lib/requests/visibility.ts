@@ -0,0 +1,97 @@
+/**
+ * Request Visibility
+ *
+ * PUBLIC requests are listed to everyone. INVITE_ONLY requests are seen only
+ * by the owner and invited companies (companies with a RequestCompany row);
+ * they never show up in the list, search, recommendations or company match
+ * feeds of anyone else. ANONYMOUS_BUYER requests are listed like public ones
+ * but hide who the buyer is.
+ */
+
+import { Prisma, RequestVisibility } from '@prisma/client';
+
+/**
+ * Visibility labels for display
+ */
+export const requestVisibilityLabels: Record<RequestVisibility, string> = {
+  PUBLIC: 'Public',
+  INVITE_ONLY: 'Invite only',
+  ANONYMOUS_BUYER: 'Anonymous buyer',
+};
+
+/**
+ * Visibility descriptions for the request wizard
+ */
+export const requestVisibilityDescriptions: Record<RequestVisibility, string> = {
+  PUBLIC: 'Listed for all companies',
+  INVITE_ONLY: 'Only companies you invite can see and quote',
+  ANONYMOUS_BUYER: 'Listed for all companies without your name',
+};
+
+/**
+ * Visibilities that appear in the public list and search
+ */
+export const LISTED_VISIBILITIES: RequestVisibility[] = ['PUBLIC', 'ANONYMOUS_BUYER'];
+
+/**
+ * Check if requests with this visibility are listed to everyone
+ */
+export function isListedVisibility(visibility: RequestVisibility): boolean {
+  return LISTED_VISIBILITIES.includes(visibility);
+}
+
+/**
+ * Requests a viewer may see: listed ones, their own and those their
+ * companies were invited to
+ * Status filters are applied separately.
+ */
+export function visibleRequestsWhere(viewerEmail?: string | null): Prisma.RequestWhereInput {
+  const listed: Prisma.RequestWhereInput = { visibility: { in: LISTED_VISIBILITIES } };
+  if (!viewerEmail) return listed;
+
+  return {
+    OR: [
+      listed,
+      { user: { email: viewerEmail } },
+      {
+        requestCompanies: {
+          some: {
+            company: {
+              companyUsers: { some: { user: { email: viewerEmail } } },
+            },
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Requests a company may see: listed ones and those it was invited to
+ */
+export function visibleToCompanyWhere(companyId: string): Prisma.RequestWhereInput {
+  return {
+    OR: [
+      { visibility: { in: LISTED_VISIBILITIES } },
+      { requestCompanies: { some: { companyId } } },
+    ],
+  };
+}
+
+/**
+ * Check if a viewer may see a request
+ * @param viewer - Whether the viewer owns the request / belongs to an invited company
+ */
+export function canViewRequest(
+  request: { visibility: RequestVisibility },
+  viewer: { isOwner: boolean; isInvited: boolean }
+): boolean {
+  return viewer.isOwner || viewer.isInvited || isListedVisibility(request.visibility);
+}
+
+/**
+ * Check if the buyer's identity is hidden from companies
+ */
+export function hidesBuyerIdentity(visibility: RequestVisibility): boolean {
+  return visibility === 'ANONYMOUS_BUYER';
+}
@@ -0,0 +1,190 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from "@jest/globals"
+import {
+  buildStorageKey,
+  canAccessAttachment,
+  getAttachmentIdFromUrl,
+  isAttachmentInUse,
+  sniffMimeType,
+  MAX_UPLOAD_SIZE,
+  validateUpload,
+  validateUploadRequestSize,
+  validateUploadSize,
+} from "../files"
+
+const PDF = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37])
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00])
+const ZIP = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00])
+const WEBP = new Uint8Array([
+  0x52, 0x49, 0x46, 0x46, 0x24, 0x00, 0x00, 0x00, 0x57, 0x45, 0x42, 0x50,
+])
+
+describe("Uploaded Files", () => {
+  describe("sniffMimeType", () => {
+    it("should detect types from magic bytes", () => {
+      expect(sniffMimeType(PDF)).toBe("application/pdf")
+      expect(sniffMimeType(PNG)).toBe("image/png")
+      expect(sniffMimeType(WEBP)).toBe("image/webp")
+    })
+
+    it("should ignore the file name for signed formats", () => {
+      expect(sniffMimeType(PDF, "photo.png")).toBe("application/pdf")
+    })
+
+    it("should tell Office documents from plain ZIP archives by extension", () => {
+      expect(sniffMimeType(ZIP, "spec.docx")).toBe(
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+      )
+      expect(sniffMimeType(ZIP, "assets.zip")).toBe("application/zip")
+    })
+
+    it("should detect UTF-8 text and CSV", () => {
+      const text = new TextEncoder().encode("要件一覧\nログイン")
+
+      expect(sniffMimeType(text, "notes.txt")).toBe("text/plain")
+      expect(sniffMimeType(text, "items.csv")).toBe("text/csv")
+    })
+
+    it("should reject unknown binary content", () => {
+      expect(sniffMimeType(new Uint8Array([0x4d, 0x5a, 0x00, 0x90]), "setup.exe")).toBeNull()
+    })
+  })
+
+  describe("validateUpload", () => {
+    it("should accept documents for requests", () => {
+      expect(validateUpload({ name: "spec.pdf", size: PDF.length, data: PDF }, "REQUEST")).toEqual(
+        { valid: true, mimeType: "application/pdf" }
+      )
+    })
+
+    it("should only accept images for company images", () => {
+      const result = validateUpload({ name: "logo.pdf", size: PDF.length, data: PDF }, "COMPANY_IMAGE")
+
+      expect(result.valid).toBe(false)
+      expect(result.error).toContain("not allowed")
+    })
+
+    it("should enforce the size limit per purpose", () => {
+      const result = validateUpload(
+        { name: "logo.png", size: 6 * 1024 * 1024, data: PNG },
+        "COMPANY_IMAGE"
+      )
+
+      expect(result.valid).toBe(false)
+      expect(result.error).toContain("5MB")
+    })
+
+    it("should reject empty files", () => {
+      expect(
+        validateUpload({ name: "empty.txt", size: 0, data: new Uint8Array() }, "REQUEST").valid
+      ).toBe(false)
+    })
+  })
+
+  describe("validateUploadSize", () => {
+    it("should check the declared size against the purpose's limit", () => {
+      expect(validateUploadSize(4 * 1024 * 1024, "COMPANY_IMAGE")).toEqual({ valid: true })
+      expect(validateUploadSize(6 * 1024 * 1024, "COMPANY_IMAGE").valid).toBe(false)
+      expect(validateUploadSize(6 * 1024 * 1024, "REQUEST").valid).toBe(true)
+    })
+  })
+
+  describe("validateUploadRequestSize", () => {
+    it("should accept bodies that can hold the largest allowed file", () => {
+      expect(validateUploadRequestSize(String(MAX_UPLOAD_SIZE + 1024))).toEqual({ valid: true })
+    })
+
+    it("should reject oversized bodies before they are read", () => {
+      expect(validateUploadRequestSize(String(100 * 1024 * 1024))).toEqual(
+        expect.objectContaining({ valid: false, status: 413 })
+      )
+    })
+
+    it("should require a Content-Length", () => {
+      expect(validateUploadRequestSize(null).status).toBe(411)
+      expect(validateUploadRequestSize("abc").status).toBe(411)
+    })
+  })
+
+  describe("buildStorageKey", () => {
+    it("should build the key from purpose, owner and sniffed type", () => {
+      expect(buildStorageKey("COMPANY_IMAGE", "u1", "image/png", "abc")).toBe(
+        "company_image/u1/abc.png"
+      )
+    })
+  })
+
+  describe("getAttachmentIdFromUrl", () => {
+    it("should read IDs from relative and absolute file URLs", () => {
+      expect(getAttachmentIdFromUrl("/api/files/clx123")).toBe("clx123")
+      expect(getAttachmentIdFromUrl("https://mitsumorikun.com/api/files/clx123")).toBe("clx123")
+    })
+
+    it("should ignore external URLs", () => {
+      expect(getAttachmentIdFromUrl("https://example.com/spec.pdf")).toBeNull()
+    })
+  })
+
+  describe("canAccessAttachment", () => {
+    const requestFile = {
+      ownerId: "buyer",
+      purpose: "REQUEST" as const,
+      request: { userId: "buyer", companyIds: ["c1"] },
+      proposal: null,
+    }
+
+    it("should allow the request owner and invited companies", () => {
+      expect(canAccessAttachment(requestFile, { userId: "buyer", companyIds: [] })).toBe(true)
+      expect(canAccessAttachment(requestFile, { userId: "u2", companyIds: ["c1"] })).toBe(true)
+    })
+
+    it("should deny other users and anonymous viewers", () => {
+      expect(canAccessAttachment(requestFile, { userId: "u3", companyIds: ["c2"] })).toBe(false)
+      expect(canAccessAttachment(requestFile, null)).toBe(false)
+    })
+
+    it("should limit unlinked uploads to the uploader", () => {
+      const upload = { ...requestFile, request: null }
+
+      expect(canAccessAttachment(upload, { userId: "buyer", companyIds: [] })).toBe(true)
+      expect(canAccessAttachment(upload, { userId: "u2", companyIds: ["c1"] })).toBe(false)
+    })
+
+    it("should share proposal files between the buyer and the proposing company", () => {
+      const proposalFile = {
+        ownerId: "u2",
+        purpose: "PROPOSAL" as const,
+        request: null,
+        proposal: { requestUserId: "buyer", companyId: "c1" },
+      }
+
+      expect(canAccessAttachment(proposalFile, { userId: "buyer", companyIds: [] })).toBe(true)
+      expect(canAccessAttachment(proposalFile, { userId: "u4", companyIds: ["c1"] })).toBe(true)
+      expect(canAccessAttachment(proposalFile, { userId: "u5", companyIds: ["c9"] })).toBe(false)
+    })
+
+    it("should make company images public", () => {
+      expect(
+        canAccessAttachment(
+          { ownerId: "u2", purpose: "COMPANY_IMAGE", request: null, proposal: null },
+          null
+        )
+      ).toBe(true)
+    })
+  })
+
+  describe("isAttachmentInUse", () => {
+    it("should keep files of published requests and submitted proposals", () => {
+      expect(isAttachmentInUse({ request: { status: "PUBLISHED" }, requestCompany: null })).toBe(
+        true
+      )
+      expect(
+        isAttachmentInUse({ request: null, requestCompany: { status: "RESPONDED" } })
+      ).toBe(true)
+      expect(isAttachmentInUse({ request: { status: "DRAFT" }, requestCompany: null })).toBe(false)
+      expect(isAttachmentInUse({ request: null, requestCompany: null })).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import { afterAll, describe, expect, it } from "@jest/globals"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { LocalStorageAdapter, signStorageKey, verifyStorageSignature } from "../local"
+
+const root = mkdtempSync(path.join(tmpdir(), "storage-test-"))
+const storage = new LocalStorageAdapter(root, "secret")
+const now = new Date("2026-10-19T10:00:00Z")
+
+afterAll(() => rmSync(root, { recursive: true, force: true }))
+
+describe("Local Storage", () => {
+  describe("signed URLs", () => {
+    it("should verify a signature until it expires", () => {
+      const expires = now.getTime() / 1000 + 60
+      const signature = signStorageKey("request/u1/a.pdf", expires, "secret")
+      const params = { key: "request/u1/a.pdf", expires, signature }
+
+      expect(verifyStorageSignature(params, "secret", now)).toBe(true)
+      expect(verifyStorageSignature(params, "secret", new Date(now.getTime() + 61 * 1000))).toBe(
+        false
+      )
+    })
+
+    it("should reject a signature for another key or secret", () => {
+      const expires = now.getTime() / 1000 + 60
+      const signature = signStorageKey("request/u1/a.pdf", expires, "secret")
+
+      expect(
+        verifyStorageSignature({ key: "request/u1/b.pdf", expires, signature }, "secret", now)
+      ).toBe(false)
+      expect(
+        verifyStorageSignature({ key: "request/u1/a.pdf", expires, signature }, "other", now)
+      ).toBe(false)
+    })
+
+    it("should build download URLs the adapter accepts", async () => {
+      const url = await storage.getSignedUrl("request/u1/a.pdf", { expiresIn: 300, now })
+      const params = new URL(url, "http://localhost").searchParams
+
+      expect(url.startsWith("/api/files/download?")).toBe(true)
+      expect(
+        storage.verify(
+          {
+            key: params.get("key") ?? "",
+            expires: Number(params.get("expires")),
+            signature: params.get("signature") ?? "",
+          },
+          now
+        )
+      ).toBe(true)
+    })
+  })
+
+  describe("objects", () => {
+    it("should store, read and delete objects", async () => {
+      const data = new TextEncoder().encode("hello")
+      await storage.put("request/u1/hello.txt", data, "text/plain")
+
+      expect((await storage.read("request/u1/hello.txt")).toString()).toBe("hello")
+
+      await storage.delete("request/u1/hello.txt")
+      await expect(storage.read("request/u1/hello.txt")).rejects.toThrow()
+    })
+
+    it("should reject keys that leave the storage root", async () => {
+      await expect(
+        storage.put("../outside.txt", new Uint8Array([1]), "text/plain")
+      ).rejects.toThrow("Invalid storage key")
+    })
+  })
+})
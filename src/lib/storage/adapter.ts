@@ -0,0 +1,29 @@
+/**
+ * Storage Adapter
+ *
+ * Where the bytes of uploaded files live. Attachment rows (metadata, access)
+ * stay in the database; adapters only store and delete objects by key and
+ * hand out download URLs that expire. The local filesystem adapter is the
+ * default; an S3-compatible adapter can implement the same interface with
+ * presigned URLs.
+ */
+
+/**
+ * Options for a download URL
+ */
+export interface SignedUrlOptions {
+  /** Lifetime in seconds */
+  expiresIn: number;
+  now?: Date;
+}
+
+export interface StorageAdapter {
+  /** Store an object, replacing any object with the same key */
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+
+  /** Remove an object; missing objects are ignored */
+  delete(key: string): Promise<void>;
+
+  /** URL that downloads the object until it expires */
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
@@ -0,0 +1,305 @@
+/**
+ * Uploaded Files
+ *
+ * Upload validation (size limits, MIME sniffing), storage keys, file URLs and
+ * access rules for Attachment rows. The file type is sniffed from the content;
+ * the client's Content-Type and extension are only used to tell apart formats
+ * that share a signature (Office documents are ZIP archives, CSV is text).
+ *
+ * Kept free of the Prisma client and the storage adapter so it can be tested
+ * on its own.
+ */
+
+import { AttachmentPurpose, RequestCompanyStatus, RequestStatus } from '@prisma/client';
+
+/**
+ * Lifetime of signed download URLs (seconds)
+ */
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+/**
+ * Stable URL of an uploaded file, stored in `attachments` arrays
+ * GET on it checks access and redirects to a signed download URL.
+ */
+export const FILE_URL_PREFIX = '/api/files/';
+
+const MB = 1024 * 1024;
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+const DOCUMENT_TYPES = [
+  ...IMAGE_TYPES,
+  'application/pdf',
+  'application/zip',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'text/plain',
+  'text/csv',
+];
+
+/**
+ * Size limit and accepted types per purpose
+ */
+export const uploadLimits: Record<AttachmentPurpose, { maxSize: number; mimeTypes: string[] }> = {
+  REQUEST: { maxSize: 10 * MB, mimeTypes: DOCUMENT_TYPES },
+  PROPOSAL: { maxSize: 10 * MB, mimeTypes: DOCUMENT_TYPES },
+  MESSAGE: { maxSize: 10 * MB, mimeTypes: DOCUMENT_TYPES },
+  COMPANY_IMAGE: { maxSize: 5 * MB, mimeTypes: IMAGE_TYPES },
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': '.pptx',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+};
+
+/**
+ * Magic bytes, all parts must match
+ */
+const SIGNATURES: { mimeType: string; parts: { offset: number; bytes: number[] }[] }[] = [
+  { mimeType: 'application/pdf', parts: [{ offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }] },
+  {
+    mimeType: 'image/png',
+    parts: [{ offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }],
+  },
+  { mimeType: 'image/jpeg', parts: [{ offset: 0, bytes: [0xff, 0xd8, 0xff] }] },
+  { mimeType: 'image/gif', parts: [{ offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }] },
+  {
+    mimeType: 'image/webp',
+    parts: [
+      { offset: 0, bytes: [0x52, 0x49, 0x46, 0x46] },
+      { offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+    ],
+  },
+  { mimeType: 'application/zip', parts: [{ offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] }] },
+];
+
+/**
+ * Lowercase extension of a file name, including the dot
+ */
+function getExtension(fileName: string): string {
+  const index = fileName.lastIndexOf('.');
+  return index === -1 ? '' : fileName.slice(index).toLowerCase();
+}
+
+/**
+ * Text files have no signature: accept valid UTF-8 without NUL bytes
+ */
+function looksLikeText(data: Uint8Array): boolean {
+  const sample = data.subarray(0, 8192);
+  if (sample.includes(0)) return false;
+
+  try {
+    // Streaming mode: a multi-byte character cut at the end of the sample is fine
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect the MIME type of a file from its content
+ * Returns null for unknown formats.
+ */
+export function sniffMimeType(data: Uint8Array, fileName = ''): string | null {
+  const signature = SIGNATURES.find(({ parts }) =>
+    parts.every(({ offset, bytes }) => bytes.every((byte, i) => data[offset + i] === byte))
+  );
+  const extension = getExtension(fileName);
+
+  if (signature?.mimeType === 'application/zip') {
+    // Office Open XML documents are ZIP archives
+    const officeType = Object.entries(FILE_EXTENSIONS).find(
+      ([mimeType, ext]) => ext === extension && mimeType.includes('openxmlformats')
+    );
+    return officeType ? officeType[0] : 'application/zip';
+  }
+  if (signature) return signature.mimeType;
+
+  if (data.length > 0 && looksLikeText(data)) {
+    return extension === '.csv' ? 'text/csv' : 'text/plain';
+  }
+  return null;
+}
+
+/**
+ * Largest file accepted for any purpose
+ */
+export const MAX_UPLOAD_SIZE = Math.max(
+  ...Object.values(uploadLimits).map((limits) => limits.maxSize)
+);
+
+/**
+ * Room for multipart boundaries, part headers and form fields around the file
+ */
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+/**
+ * Check the Content-Length of an upload request before its body is read
+ * The purpose is only known once the form is parsed, so the largest limit of
+ * any purpose applies here; validateUploadSize checks the purpose's own limit.
+ */
+export function validateUploadRequestSize(
+  contentLength: string | null
+): { valid: boolean; error?: string; status?: number } {
+  const length = Number(contentLength);
+  if (!contentLength || !Number.isInteger(length) || length < 0) {
+    return { valid: false, error: 'Content-Length is required', status: 411 };
+  }
+
+  if (length > MAX_UPLOAD_SIZE + MULTIPART_OVERHEAD) {
+    return {
+      valid: false,
+      error: `File size must be less than ${MAX_UPLOAD_SIZE / MB}MB`,
+      status: 413,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check a file's size against the limit of its purpose
+ * Run on the declared size before reading the file, and again on the data.
+ */
+export function validateUploadSize(
+  size: number,
+  purpose: AttachmentPurpose
+): { valid: boolean; error?: string } {
+  const limits = uploadLimits[purpose];
+
+  if (size === 0) {
+    return { valid: false, error: 'File is empty' };
+  }
+
+  if (size > limits.maxSize) {
+    return {
+      valid: false,
+      error: `File size must be less than ${limits.maxSize / MB}MB`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate an upload for a purpose
+ * @returns Validation result with the sniffed MIME type, or an error message
+ */
+export function validateUpload(
+  file: { name: string; size: number; data: Uint8Array },
+  purpose: AttachmentPurpose
+): { valid: boolean; error?: string; mimeType?: string } {
+  const limits = uploadLimits[purpose];
+
+  const sizeValidation = validateUploadSize(file.size, purpose);
+  if (!sizeValidation.valid) {
+    return sizeValidation;
+  }
+
+  const mimeType = sniffMimeType(file.data, file.name);
+  if (!mimeType || !limits.mimeTypes.includes(mimeType)) {
+    return { valid: false, error: 'This file type is not allowed' };
+  }
+
+  return { valid: true, mimeType };
+}
+
+/**
+ * Storage key for a new upload: `<purpose>/<owner>/<random><ext>`
+ * The client's file name is kept in the database only.
+ */
+export function buildStorageKey(
+  purpose: AttachmentPurpose,
+  ownerId: string,
+  mimeType: string,
+  random: string
+): string {
+  return `${purpose.toLowerCase()}/${ownerId}/${random}${FILE_EXTENSIONS[mimeType] ?? ''}`;
+}
+
+/**
+ * Stable URL of an attachment
+ */
+export function getFileUrl(attachmentId: string): string {
+  return `${FILE_URL_PREFIX}${attachmentId}`;
+}
+
+/**
+ * Attachment ID referenced by a file URL (relative or absolute)
+ * Returns null for external URLs.
+ */
+export function getAttachmentIdFromUrl(url: string): string | null {
+  let pathname: string;
+  try {
+    pathname = new URL(url, 'http://localhost').pathname;
+  } catch {
+    return null;
+  }
+
+  const match = pathname.match(/^\/api\/files\/([a-z0-9]+)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Attachment with the parties of the request / proposal it belongs to
+ */
+export interface AttachmentAccessContext {
+  ownerId: string;
+  purpose: AttachmentPurpose;
+
+  /** Request owner and invited (linked) companies */
+  request: { userId: string; companyIds: string[] } | null;
+
+  /** Owner of the proposal's request and the proposing company */
+  proposal: { requestUserId: string; companyId: string } | null;
+}
+
+/**
+ * Check if a viewer may download an attachment
+ * @param viewer - Signed-in user with their company memberships, or null
+ */
+export function canAccessAttachment(
+  attachment: AttachmentAccessContext,
+  viewer: { userId: string; companyIds: string[] } | null
+): boolean {
+  if (attachment.purpose === 'COMPANY_IMAGE') return true;
+  if (!viewer) return false;
+  if (attachment.ownerId === viewer.userId) return true;
+
+  const { request, proposal } = attachment;
+  if (request) {
+    if (request.userId === viewer.userId) return true;
+    if (request.companyIds.some((id) => viewer.companyIds.includes(id))) return true;
+  }
+  if (proposal) {
+    if (proposal.requestUserId === viewer.userId) return true;
+    if (viewer.companyIds.includes(proposal.companyId)) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Check if an attachment is part of submitted content
+ * Files of published requests and submitted proposals are kept, since
+ * versions and other parties reference them.
+ */
+export function isAttachmentInUse(attachment: {
+  request: { status: RequestStatus } | null;
+  requestCompany: { status: RequestCompanyStatus } | null;
+}): boolean {
+  if (attachment.request && attachment.request.status !== 'DRAFT') return true;
+  if (attachment.requestCompany && attachment.requestCompany.status !== 'PENDING') return true;
+  return false;
+}
@@ -0,0 +1,80 @@
+/**
+ * Storage
+ *
+ * Adapter selection (STORAGE_DRIVER) and linking of uploaded files to the
+ * requests and proposals that reference them.
+ */
+
+import path from 'path';
+import { AttachmentPurpose, Prisma } from '@prisma/client';
+import { StorageAdapter } from '@/lib/storage/adapter';
+import { LocalStorageAdapter } from '@/lib/storage/local';
+import { getAttachmentIdFromUrl } from '@/lib/storage/files';
+
+let adapter: StorageAdapter | undefined;
+
+/**
+ * Secret for signed download URLs
+ */
+function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET is not configured');
+  }
+  return secret;
+}
+
+/**
+ * Storage adapter configured by STORAGE_DRIVER (default: local)
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (adapter) return adapter;
+
+  const driver = process.env.STORAGE_DRIVER || 'local';
+  if (driver !== 'local') {
+    throw new Error(`Unsupported STORAGE_DRIVER: ${driver}`);
+  }
+
+  adapter = new LocalStorageAdapter(
+    path.resolve(process.env.STORAGE_LOCAL_ROOT || 'storage'),
+    getSigningSecret()
+  );
+  return adapter;
+}
+
+/**
+ * Link the uploaded files referenced by `urls` to a request or proposal
+ * (message attachments are linked to the proposal of their conversation)
+ *
+ * Only the user's own, not yet linked uploads of the given purpose are
+ * linked; external URLs are left alone. Linking is what grants the request's
+ * or proposal's parties access to a file.
+ */
+export function linkAttachments(
+  tx: Prisma.TransactionClient,
+  input: {
+    ownerId: string;
+    urls: string[];
+    purpose: AttachmentPurpose;
+    requestId?: string;
+    requestCompanyId?: string;
+  }
+) {
+  const ids = input.urls
+    .map((url) => getAttachmentIdFromUrl(url))
+    .filter((id): id is string => id !== null);
+
+  return tx.attachment.updateMany({
+    where: {
+      id: { in: ids },
+      ownerId: input.ownerId,
+      purpose: input.purpose,
+      requestId: null,
+      requestCompanyId: null,
+    },
+    data: {
+      requestId: input.requestId ?? null,
+      requestCompanyId: input.requestCompanyId ?? null,
+    },
+  });
+}
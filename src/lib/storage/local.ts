@@ -0,0 +1,96 @@
+/**
+ * Local Filesystem Storage
+ *
+ * Stores uploads under a directory on the server (STORAGE_LOCAL_ROOT, default
+ * `./storage`). Downloads go through `/api/files/download`, which serves a
+ * file only with a valid, unexpired HMAC signature over its key.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { SignedUrlOptions, StorageAdapter } from '@/lib/storage/adapter';
+
+/**
+ * Route serving signed local downloads
+ */
+export const LOCAL_DOWNLOAD_PATH = '/api/files/download';
+
+const KEY_PATTERN = /^[a-z0-9_-]+(\/[a-zA-Z0-9_-]+)*(\.[a-z0-9]+)?$/;
+
+/**
+ * Signature over a key and its expiry (Unix seconds)
+ */
+export function signStorageKey(key: string, expires: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${key}:${expires}`).digest('base64url');
+}
+
+/**
+ * Check a signed download URL's parameters
+ */
+export function verifyStorageSignature(
+  params: { key: string; expires: number; signature: string },
+  secret: string,
+  now: Date = new Date()
+): boolean {
+  if (!Number.isFinite(params.expires) || params.expires * 1000 < now.getTime()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signStorageKey(params.key, params.expires, secret));
+  const actual = Buffer.from(params.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(
+    private readonly root: string,
+    private readonly secret: string
+  ) {}
+
+  /**
+   * Absolute path of a key; rejects keys that could leave the root
+   */
+  private resolve(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.root, key);
+  }
+
+  // The content type is recorded on the Attachment row
+  async put(key: string, data: Uint8Array, _contentType?: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const now = options.now ?? new Date();
+    const expires = Math.floor(now.getTime() / 1000) + options.expiresIn;
+    const params = new URLSearchParams({
+      key,
+      expires: String(expires),
+      signature: signStorageKey(key, expires, this.secret),
+    });
+    return `${LOCAL_DOWNLOAD_PATH}?${params}`;
+  }
+
+  /**
+   * Read an object for the download route
+   */
+  read(key: string): Promise<Buffer> {
+    return readFile(this.resolve(key));
+  }
+
+  /**
+   * Check a download URL's parameters against this adapter's secret
+   */
+  verify(params: { key: string; expires: number; signature: string }, now?: Date): boolean {
+    return verifyStorageSignature(params, this.secret, now);
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "@jest/globals"
+import { diffLines, toSideBySide } from "../diff"
+
+describe("Text Diffs", () => {
+  describe("diffLines", () => {
+    it("should keep common lines and mark the rest", () => {
+      expect(diffLines("a\nb\nc", "a\nx\nc\nd")).toEqual([
+        { type: "unchanged", text: "a" },
+        { type: "removed", text: "b" },
+        { type: "added", text: "x" },
+        { type: "unchanged", text: "c" },
+        { type: "added", text: "d" },
+      ])
+    })
+
+    it("should treat missing text as no lines", () => {
+      expect(diffLines(null, "a")).toEqual([{ type: "added", text: "a" }])
+      expect(diffLines("a\r\nb", "a\nb").every((line) => line.type === "unchanged")).toBe(true)
+    })
+  })
+
+  describe("toSideBySide", () => {
+    it("should pair removed lines with their replacements", () => {
+      const rows = toSideBySide(diffLines("a\nb\nc\nd", "a\nx\nd"))
+
+      expect(rows).toEqual([
+        { left: { type: "unchanged", text: "a" }, right: { type: "unchanged", text: "a" } },
+        { left: { type: "removed", text: "b" }, right: { type: "added", text: "x" } },
+        { left: { type: "removed", text: "c" }, right: null },
+        { left: { type: "unchanged", text: "d" }, right: { type: "unchanged", text: "d" } },
+      ])
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "@jest/globals"
+import {
+  formatMoney,
+  formatMoneyRange,
+  parseMoney,
+  parseMoneyRange,
+  toComparableAmount,
+  toTaxExcluded,
+} from "../money"
+
+describe("Money Utilities", () => {
+  describe("parseMoneyRange", () => {
+    it("should apply a trailing unit to both ends of a range", () => {
+      expect(parseMoneyRange("300〜500万円")).toEqual({
+        currency: "JPY",
+        taxIncluded: false,
+        unit: "ONE_OFF",
+        min: 3000000,
+        max: 5000000,
+      })
+    })
+
+    it("should combine Japanese units", () => {
+      expect(parseMoneyRange("1.5千万円")?.min).toBe(15000000)
+      expect(parseMoneyRange("1億5000万円")?.min).toBe(150000000)
+      expect(parseMoneyRange("3百万円")?.min).toBe(3000000)
+      expect(parseMoneyRange("1千5百万円")?.min).toBe(15000000)
+      expect(parseMoneyRange("3千〜5千万円")).toMatchObject({ min: 30000000, max: 50000000 })
+    })
+
+    it("should skip unrelated numbers before the amount", () => {
+      expect(parseMoneyRange("2ヶ月 300万円")).toMatchObject({ min: 3000000, max: 3000000 })
+      expect(parseMoneyRange("2ヶ月 300〜500万円")).toMatchObject({ min: 3000000, max: 5000000 })
+      expect(parseMoneyRange("3名体制 ¥500,000")).toMatchObject({ min: 500000, max: 500000 })
+    })
+
+    it("should parse amounts written with units only", () => {
+      expect(parseMoneyRange("百万円")).toMatchObject({ min: 1000000, max: 1000000 })
+      expect(parseMoneyRange("千万円以上")).toMatchObject({ min: 10000000, max: null })
+      expect(parseMoneyRange("千葉県")).toBeNull()
+    })
+
+    it("should leave the other bound of open-ended amounts empty", () => {
+      expect(parseMoneyRange("300万円〜")).toMatchObject({ min: 3000000, max: null })
+      expect(parseMoneyRange("100万円以上")).toMatchObject({ min: 1000000, max: null })
+      expect(parseMoneyRange("$5k+")).toMatchObject({ min: 5000, max: null })
+      expect(parseMoneyRange("〜500万円")).toMatchObject({ min: null, max: 5000000 })
+      expect(parseMoneyRange("500万円以下")).toMatchObject({ min: null, max: 5000000 })
+      expect(parseMoneyRange("100万円 tax-incl")).toMatchObject({ min: 1000000, max: 1000000 })
+    })
+
+    it("should detect tax notes and billing units", () => {
+      expect(parseMoneyRange("月額50万円（税込）")).toMatchObject({
+        taxIncluded: true,
+        unit: "MONTHLY",
+        min: 500000,
+      })
+      expect(parseMoneyRange("80万円/人月 税別")).toMatchObject({
+        taxIncluded: false,
+        unit: "PERSON_MONTH",
+        max: 800000,
+      })
+    })
+
+    it("should detect foreign currencies", () => {
+      expect(parseMoneyRange("$5k-10k")).toMatchObject({ currency: "USD", min: 5000, max: 10000 })
+      expect(parseMoneyRange("€20,000")).toMatchObject({ currency: "EUR", min: 20000 })
+    })
+
+    it("should use the given defaults for terms the text doesn't mention", () => {
+      expect(parseMoneyRange("100万", { taxIncluded: true })?.taxIncluded).toBe(true)
+      expect(parseMoneyRange("100万円 税別", { taxIncluded: true })?.taxIncluded).toBe(false)
+    })
+
+    it("should return null without an amount", () => {
+      expect(parseMoneyRange("応相談")).toBeNull()
+      expect(parseMoneyRange(null)).toBeNull()
+    })
+  })
+
+  describe("parseMoney", () => {
+    it("should return the midpoint of a range", () => {
+      expect(parseMoney("100万-200万")?.amount).toBe(1500000)
+    })
+
+    it("should not turn open-ended amounts into exact ones", () => {
+      expect(parseMoney("100万円以上")).toBeNull()
+    })
+  })
+
+  describe("toComparableAmount", () => {
+    it("should remove consumption tax from JPY amounts", () => {
+      const money = {
+        amount: 1100000,
+        currency: "JPY" as const,
+        taxIncluded: true,
+        unit: "ONE_OFF" as const,
+      }
+      expect(toTaxExcluded(money)).toBe(1000000)
+      expect(toComparableAmount(money)).toBe(1000000)
+    })
+
+    it("should not compare other currencies or billing units", () => {
+      expect(toComparableAmount(parseMoney("$10,000"))).toBeNull()
+      expect(toComparableAmount(parseMoney("月額50万円"))).toBeNull()
+      expect(toComparableAmount(parseMoney("月額50万円"), "MONTHLY")).toBe(500000)
+    })
+  })
+
+  describe("formatMoney", () => {
+    it("should add no suffix for default terms", () => {
+      expect(formatMoney(1000000)).toBe("¥1,000,000")
+    })
+
+    it("should describe non-default terms", () => {
+      expect(formatMoney(500000, { unit: "MONTHLY", taxIncluded: true })).toBe(
+        "¥500,000 / month (tax incl.)"
+      )
+      expect(formatMoney(8000, { currency: "USD", unit: "PERSON_MONTH" })).toBe(
+        "$8,000 / person-month"
+      )
+    })
+  })
+
+  describe("formatMoneyRange", () => {
+    it("should format open and closed ranges", () => {
+      expect(formatMoneyRange(null, null)).toBe("Budget not specified")
+      expect(formatMoneyRange(null, 3000000)).toBe("Up to ¥3,000,000")
+      expect(formatMoneyRange(1000000, null, { taxIncluded: true })).toBe("¥1,000,000+ (tax incl.)")
+      expect(formatMoneyRange(1000, 2000, { currency: "EUR" })).toBe("€1,000 - €2,000")
+    })
+  })
+})
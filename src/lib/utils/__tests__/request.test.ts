@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals"
+import {
+  getDeadlineUrgency,
+  getDefaultQuoteDeadline,
+  isQuoteWindowOpen,
+} from "../request"
+
+const now = new Date("2026-10-19T12:00:00Z")
+
+function daysFromNow(days: number) {
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+describe("Request Quote Window", () => {
+  describe("getDefaultQuoteDeadline", () => {
+    it("should default to 14 days after publishing", () => {
+      expect(getDefaultQuoteDeadline(now, null)).toEqual(daysFromNow(14))
+    })
+
+    it("should use the project deadline when it comes first", () => {
+      expect(getDefaultQuoteDeadline(now, daysFromNow(5))).toEqual(daysFromNow(5))
+    })
+
+    it("should ignore a project deadline that already passed", () => {
+      expect(getDefaultQuoteDeadline(now, daysFromNow(-1))).toEqual(daysFromNow(14))
+    })
+  })
+
+  describe("isQuoteWindowOpen", () => {
+    it("should close once the quote deadline passes", () => {
+      expect(isQuoteWindowOpen({ quoteDeadline: daysFromNow(1) }, now)).toBe(true)
+      expect(isQuoteWindowOpen({ quoteDeadline: daysFromNow(-1) }, now)).toBe(false)
+    })
+
+    it("should fall back to the project deadline", () => {
+      expect(isQuoteWindowOpen({ quoteDeadline: null, deadline: daysFromNow(-1) }, now)).toBe(
+        false
+      )
+      expect(isQuoteWindowOpen({ quoteDeadline: null, deadline: null }, now)).toBe(true)
+    })
+  })
+
+  describe("getDeadlineUrgency", () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(now)
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it("should follow the quote window rather than the project deadline", () => {
+      expect(
+        getDeadlineUrgency({ quoteDeadline: daysFromNow(2), deadline: daysFromNow(60) })
+      ).toBe("urgent")
+      expect(
+        getDeadlineUrgency({ quoteDeadline: daysFromNow(5), deadline: daysFromNow(60) })
+      ).toBe("soon")
+      expect(
+        getDeadlineUrgency({ quoteDeadline: daysFromNow(-1), deadline: daysFromNow(60) })
+      ).toBe("closed")
+    })
+
+    it("should use project deadline thresholds without a quote window", () => {
+      expect(getDeadlineUrgency({ deadline: daysFromNow(5) })).toBe("urgent")
+      expect(getDeadlineUrgency({ deadline: daysFromNow(20) })).toBe("soon")
+      expect(getDeadlineUrgency({ deadline: daysFromNow(45) })).toBe("normal")
+      expect(getDeadlineUrgency({})).toBeNull()
+    })
+
+    it("should include the exact limits", () => {
+      expect(getDeadlineUrgency({ quoteDeadline: daysFromNow(3) })).toBe("urgent")
+      expect(getDeadlineUrgency({ quoteDeadline: daysFromNow(7) })).toBe("soon")
+      expect(getDeadlineUrgency({ quoteDeadline: daysFromNow(8) })).toBe("normal")
+      expect(getDeadlineUrgency({ deadline: daysFromNow(7) })).toBe("urgent")
+      expect(getDeadlineUrgency({ deadline: daysFromNow(30) })).toBe("soon")
+      expect(getDeadlineUrgency({ deadline: daysFromNow(31) })).toBe("normal")
+    })
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Text diff utility functions
+ *
+ * Line-based diff (longest common subsequence) and the side-by-side rows the
+ * proposal revision view renders it as.
+ */
+
+export type DiffLineType = 'unchanged' | 'removed' | 'added';
+
+/**
+ * One line of a diff
+ */
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+/**
+ * Row of a side-by-side diff: the old line on the left, the new line on the
+ * right (null where one side has no line)
+ */
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+function splitLines(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(
+  before: string | null | undefined,
+  after: string | null | undefined
+): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // lengths[i][j] = longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * Lay a diff out side by side
+ * Removed and added lines between two unchanged lines are paired up, so a
+ * rewritten line shows next to its replacement.
+ */
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'removed') {
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,328 @@
+/**
+ * Money utility functions
+ *
+ * Amounts are stored as whole units of their currency together with the terms
+ * they are quoted in: currency, whether consumption tax is included, and the
+ * billing unit (one-off, monthly or per person-month). Only amounts in the
+ * same currency and unit can be compared; JPY amounts are compared without tax.
+ */
+
+import { Currency, MoneyUnit } from '@prisma/client';
+
+/**
+ * Japanese consumption tax rate applied to JPY amounts
+ */
+export const CONSUMPTION_TAX_RATE = 0.1;
+
+/**
+ * Terms an amount is quoted in
+ */
+export interface MoneyTerms {
+  currency: Currency;
+  taxIncluded: boolean;
+  unit: MoneyUnit;
+}
+
+/**
+ * An amount with its terms
+ */
+export interface Money extends MoneyTerms {
+  amount: number;
+}
+
+/**
+ * A range of amounts with shared terms (either bound may be open)
+ */
+export interface MoneyRange extends MoneyTerms {
+  min: number | null;
+  max: number | null;
+}
+
+/**
+ * Terms assumed when none are given: one-off JPY excluding tax
+ */
+export const DEFAULT_MONEY_TERMS: MoneyTerms = {
+  currency: 'JPY',
+  taxIncluded: false,
+  unit: 'ONE_OFF',
+};
+
+/**
+ * Currency labels for UI display
+ */
+export const currencyLabels: Record<Currency, string> = {
+  JPY: 'JPY (¥)',
+  USD: 'USD ($)',
+  EUR: 'EUR (€)',
+};
+
+const currencySymbols: Record<Currency, string> = {
+  JPY: '¥',
+  USD: '$',
+  EUR: '€',
+};
+
+/**
+ * Billing unit labels for UI display
+ */
+export const moneyUnitLabels: Record<MoneyUnit, string> = {
+  ONE_OFF: 'One-off',
+  MONTHLY: 'Monthly',
+  PERSON_MONTH: 'Per person-month',
+};
+
+const moneyUnitSuffixes: Record<MoneyUnit, string> = {
+  ONE_OFF: '',
+  MONTHLY: ' / month',
+  PERSON_MONTH: ' / person-month',
+};
+
+/**
+ * Numeric units used in free-text amounts
+ * 万 and 億 close a group ("1億5000万" = 1億 + 5000万); the others multiply
+ * the number before them within a group ("3百万" = 300万).
+ */
+const AMOUNT_UNITS: Record<string, number> = {
+  百: 100,
+  千: 1_000,
+  万: 10_000,
+  億: 100_000_000,
+  k: 1_000,
+  K: 1_000,
+};
+
+const GROUP_UNITS = ['万', '億'];
+
+const AMOUNT_TOKEN_PATTERN = /(\d+(?:\.\d+)?)|([百千万億kK])/y;
+// Numbers with their units; "k" only right after digits ("kintone" is no amount)
+const AMOUNT_RUN_PATTERN = /(?:\d+(?:\.\d+)?[kK]?|[百千万億])+/g;
+const CURRENCY_BEFORE_PATTERN = /(?:[¥￥$€]|JPY|USD|EUR)$/i;
+const CURRENCY_AFTER_PATTERN = /^(?:円|ドル|ユーロ|JPY|USD|EUR)/i;
+// Only wave dashes mark open ranges: hyphens also appear in "tax-incl" etc.
+const OPEN_UPPER_PATTERN = /以上|\d[百千万億kK]*[¥￥$€円]?\+(?!tax|税)|[\d百千万億]\D*[~〜～]\D*$/i;
+const OPEN_LOWER_PATTERN = /以下|未満|^\D*[~〜～]/;
+
+const TAX_INCLUDED_PATTERN = /税込|内税|tax[- ]?incl|incl\.?[- ]?tax/i;
+const TAX_EXCLUDED_PATTERN = /税別|税抜|外税|\+\s*tax|tax[- ]?excl|excl\.?[- ]?tax/i;
+const PERSON_MONTH_PATTERN = /人月|person[- ]?months?|man[- ]?months?/i;
+const MONTHLY_PATTERN = /月額|月々|毎月|[/／]\s*月|per\s*month|monthly|[/／]\s*mo(nth)?\b/i;
+
+/**
+ * Fill in missing terms with DEFAULT_MONEY_TERMS
+ */
+export function toMoneyTerms(terms?: Partial<MoneyTerms> | null): MoneyTerms {
+  return {
+    currency: terms?.currency ?? DEFAULT_MONEY_TERMS.currency,
+    taxIncluded: terms?.taxIncluded ?? DEFAULT_MONEY_TERMS.taxIncluded,
+    unit: terms?.unit ?? DEFAULT_MONEY_TERMS.unit,
+  };
+}
+
+/**
+ * Find the amount in a piece of free text
+ *
+ * Other numbers may come first ("2ヶ月 300万円"), so a number with a
+ * magnitude unit or next to a currency wins; unit-only amounts ("百万円") need
+ * the currency. Without such a number, the first (or last) plain number is
+ * used.
+ */
+function findAmount(value: string, pick: 'first' | 'last'): string | null {
+  const runs = Array.from(value.matchAll(AMOUNT_RUN_PATTERN), (match) => {
+    const index = match.index ?? 0;
+    const hasDigit = /\d/.test(match[0]);
+    const hasCurrency =
+      CURRENCY_BEFORE_PATTERN.test(value.slice(0, index)) ||
+      CURRENCY_AFTER_PATTERN.test(value.slice(index + match[0].length));
+
+    return {
+      text: match[0],
+      hasDigit,
+      anchored: hasCurrency || (hasDigit && /[百千万億kK]/.test(match[0])),
+    };
+  });
+
+  const anchored = runs.filter((run) => run.anchored);
+  const candidates = anchored.length > 0 ? anchored : runs.filter((run) => run.hasDigit);
+  const run = pick === 'first' ? candidates[0] : candidates[candidates.length - 1];
+  return run?.text ?? null;
+}
+
+/**
+ * Parse a single amount such as "300万", "1.5千万", "1億5000万", "百万",
+ * "1500000" or "5k" out of free text (separators already removed)
+ *
+ * @param pick - Amount to use when several qualify; the lower bound of a range
+ *   is the one right before the dash
+ */
+function parseAmount(value: string, pick: 'first' | 'last' = 'first'): number | null {
+  const amountText = findAmount(value, pick);
+  if (amountText === null) return null;
+
+  let total = 0;
+  let group = 0;
+  let current: number | null = null;
+
+  AMOUNT_TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = AMOUNT_TOKEN_PATTERN.exec(amountText))) {
+    if (match[1]) {
+      // A new number after a finished group starts the next group
+      group += current ?? 0;
+      current = parseFloat(match[1]);
+    } else if (GROUP_UNITS.includes(match[2])) {
+      total += (group + (current ?? (group ? 0 : 1))) * AMOUNT_UNITS[match[2]];
+      group = 0;
+      current = null;
+    } else {
+      // 百/千/k multiply the number before them; a following 万/億 ("5千万")
+      // multiplies the whole group
+      group += (current ?? 1) * AMOUNT_UNITS[match[2]];
+      current = null;
+    }
+  }
+
+  const amount = total + group + (current ?? 0);
+  return Number.isFinite(amount) && amount > 0 ? Math.round(amount) : null;
+}
+
+/**
+ * Units after the last number of an amount, e.g. "千万" for "5千万円"
+ */
+function getTrailingUnits(value: string): string {
+  return value.match(/\d(?:\.\d+)?([百千万億kK]*)\D*$/)?.[1] ?? '';
+}
+
+/**
+ * Parse a free-text amount or range into a MoneyRange
+ *
+ * Handles Japanese units (百/千/万/億, also combined as in "1億5000万" or
+ * "1.5千万", or without a number as in "百万円"), "k", currency symbols and codes, full-width digits, tax notes
+ * (税込 / 税別 …), billing units (月額, /月, 人月 …) and ranges like
+ * "300〜500万円" (a trailing unit applies to both ends). Open-ended amounts
+ * ("300万円〜", "100万円以上", "5k+" / "〜500万円", "500万円以下") leave the
+ * other bound null. Other numbers in the text ("2ヶ月 300万円") are skipped
+ * in favour of the one with a unit or currency. Terms that the text doesn't
+ * mention come from `defaults`.
+ * Returns null when no amount can be found.
+ */
+export function parseMoneyRange(
+  value: string | null | undefined,
+  defaults?: Partial<MoneyTerms>
+): MoneyRange | null {
+  if (!value) return null;
+
+  const normalized = value
+    .replace(/[０-９．]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/[,，\s]/g, '');
+
+  const fallback = toMoneyTerms(defaults);
+  const terms: MoneyTerms = {
+    currency: /\$|USD|ドル/i.test(normalized)
+      ? 'USD'
+      : /€|EUR|ユーロ/i.test(normalized)
+        ? 'EUR'
+        : /¥|￥|円|JPY/i.test(normalized)
+          ? 'JPY'
+          : fallback.currency,
+    taxIncluded: TAX_INCLUDED_PATTERN.test(normalized)
+      ? true
+      : TAX_EXCLUDED_PATTERN.test(normalized)
+        ? false
+        : fallback.taxIncluded,
+    unit: PERSON_MONTH_PATTERN.test(normalized)
+      ? 'PERSON_MONTH'
+      : MONTHLY_PATTERN.test(normalized)
+        ? 'MONTHLY'
+        : fallback.unit,
+  };
+
+  const parts = normalized.split(/[-~〜～－]/).filter((p) => /[\d百千万億]/.test(p));
+  if (parts.length === 0) return null;
+
+  if (parts.length >= 2) {
+    // "300〜500万円" -> the unit on the upper bound also applies to the lower
+    // bound, "3千〜5千万円" -> so does its 万/億 when the lower bound has none
+    const upperUnits = getTrailingUnits(parts[1]);
+    const lowerPart = !getTrailingUnits(parts[0])
+      ? `${parts[0]}${upperUnits}`
+      : /[万億]/.test(parts[0])
+        ? parts[0]
+        : `${parts[0]}${upperUnits.replace(/[^万億]/g, '')}`;
+    const lower = parseAmount(lowerPart, 'last');
+    const upper = parseAmount(parts[1]);
+    if (lower === null && upper === null) return null;
+    return { ...terms, min: lower ?? upper, max: upper ?? lower };
+  }
+
+  const amount = parseAmount(parts[0]);
+  if (amount === null) return null;
+
+  const openUpper = OPEN_UPPER_PATTERN.test(normalized);
+  const openLower = OPEN_LOWER_PATTERN.test(normalized);
+  if (openUpper && !openLower) return { ...terms, min: amount, max: null };
+  if (openLower && !openUpper) return { ...terms, min: null, max: amount };
+  return { ...terms, min: amount, max: amount };
+}
+
+/**
+ * Parse a free-text amount into Money (the midpoint of a range)
+ */
+export function parseMoney(
+  value: string | null | undefined,
+  defaults?: Partial<MoneyTerms>
+): Money | null {
+  const range = parseMoneyRange(value, defaults);
+  if (!range || range.min === null || range.max === null) return null;
+
+  const { min, max, ...terms } = range;
+  return { ...terms, amount: Math.round((min + max) / 2) };
+}
+
+/**
+ * Amount without consumption tax (JPY only; other currencies are unchanged)
+ */
+export function toTaxExcluded(money: Money): number {
+  if (money.currency !== 'JPY' || !money.taxIncluded) return money.amount;
+  return Math.round(money.amount / (1 + CONSUMPTION_TAX_RATE));
+}
+
+/**
+ * JPY amount without tax for comparisons, or null when the amount is in
+ * another currency or billing unit
+ */
+export function toComparableAmount(
+  money: Money | null | undefined,
+  unit: MoneyUnit = 'ONE_OFF'
+): number | null {
+  if (!money || money.currency !== 'JPY' || money.unit !== unit) return null;
+  return toTaxExcluded(money);
+}
+
+/**
+ * Format an amount, e.g. "¥500,000 / month (tax incl.)"
+ * Default terms (one-off, excluding tax) add no suffix.
+ */
+export function formatMoney(amount: number, terms?: Partial<MoneyTerms> | null): string {
+  const { currency, taxIncluded, unit } = toMoneyTerms(terms);
+  return `${currencySymbols[currency]}${amount.toLocaleString()}${moneyUnitSuffixes[unit]}${
+    taxIncluded ? ' (tax incl.)' : ''
+  }`;
+}
+
+/**
+ * Format a range of amounts, e.g. "¥1,000,000 - ¥3,000,000 (tax incl.)"
+ */
+export function formatMoneyRange(
+  min: number | null | undefined,
+  max: number | null | undefined,
+  terms?: Partial<MoneyTerms> | null
+): string {
+  const { currency, taxIncluded, unit } = toMoneyTerms(terms);
+  const symbol = currencySymbols[currency];
+  const suffix = `${moneyUnitSuffixes[unit]}${taxIncluded ? ' (tax incl.)' : ''}`;
+
+  if (!min && !max) return 'Budget not specified';
+  if (!min) return `Up to ${symbol}${max?.toLocaleString()}${suffix}`;
+  if (!max) return `${symbol}${min.toLocaleString()}+${suffix}`;
+  return `${symbol}${min.toLocaleString()} - ${symbol}${max.toLocaleString()}${suffix}`;
+}
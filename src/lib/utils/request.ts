@@ -4,6 +4,25 @@
  */
 
 import { ProjectType, RequestStatus } from '@prisma/client';
+import { formatMoneyRange, MoneyTerms } from '@/lib/utils/money';
+
+/**
+ * Maximum number of companies a buyer can invite to quote on one request
+ */
+export const MAX_INVITATIONS_PER_REQUEST = 10;
+
+/**
+ * Current version of the Request.requirements JSON shape
+ * Version 2 references TechStack / Specialty rows by ID.
+ */
+export const REQUIREMENTS_VERSION = 2;
+
+/**
+ * Length of the quote window when a request is published without quoteDeadline
+ */
+export const DEFAULT_QUOTE_WINDOW_DAYS = 14;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
 
 /**
  * Project type labels for UI display
@@ -53,12 +72,44 @@ export const requestStatusColors: Record<RequestStatus, string> = {
 
 /**
  * Format budget range for display
+ * @param terms - Currency, tax and billing unit of the budget (default: one-off JPY excl. tax)
+ */
+export function formatBudgetRange(
+  min?: number | null,
+  max?: number | null,
+  terms?: Partial<MoneyTerms> | null
+): string {
+  return formatMoneyRange(min, max, terms);
+}
+
+/**
+ * Budget terms of a request
+ */
+export function getBudgetTerms(request: {
+  budgetCurrency?: MoneyTerms['currency'] | null;
+  budgetTaxIncluded?: boolean | null;
+  budgetUnit?: MoneyTerms['unit'] | null;
+}): Partial<MoneyTerms> {
+  return {
+    currency: request.budgetCurrency ?? undefined,
+    taxIncluded: request.budgetTaxIncluded ?? undefined,
+    unit: request.budgetUnit ?? undefined,
+  };
+}
+
+/**
+ * Price terms of a proposal estimate
  */
-export function formatBudgetRange(min?: number | null, max?: number | null): string {
-  if (!min && !max) return 'Budget not specified';
-  if (!min) return `Up to ¥${max?.toLocaleString()}`;
-  if (!max) return `¥${min.toLocaleString()}+`;
-  return `¥${min.toLocaleString()} - ¥${max.toLocaleString()}`;
+export function getEstimateTerms(proposal: {
+  estimatedCurrency?: MoneyTerms['currency'] | null;
+  estimatedTaxIncluded?: boolean | null;
+  estimatedUnit?: MoneyTerms['unit'] | null;
+}): Partial<MoneyTerms> {
+  return {
+    currency: proposal.estimatedCurrency ?? undefined,
+    taxIncluded: proposal.estimatedTaxIncluded ?? undefined,
+    unit: proposal.estimatedUnit ?? undefined,
+  };
 }
 
 /**
@@ -74,27 +125,6 @@ export function formatDate(date: Date | string | null | undefined): string {
   }).format(dateObj);
 }
 
-/**
- * Check if request can be edited
- */
-export function canEditRequest(status: RequestStatus): boolean {
-  return status === 'DRAFT';
-}
-
-/**
- * Check if request can be published
- */
-export function canPublishRequest(status: RequestStatus): boolean {
-  return status === 'DRAFT';
-}
-
-/**
- * Check if request can be cancelled
- */
-export function canCancelRequest(status: RequestStatus): boolean {
-  return status === 'DRAFT' || status === 'PUBLISHED';
-}
-
 /**
  * Generate request summary for display
  */
@@ -117,18 +147,65 @@ export function daysUntilDeadline(deadline: Date | string | null | undefined): n
   const deadlineDate = typeof deadline === 'string' ? new Date(deadline) : deadline;
   const now = new Date();
   const diff = deadlineDate.getTime() - now.getTime();
-  return Math.ceil(diff / (1000 * 60 * 60 * 24));
+  return Math.ceil(diff / DAY_MS);
 }
 
 /**
- * Get deadline urgency status
+ * Default end of the quote window: DEFAULT_QUOTE_WINDOW_DAYS after `from`,
+ * or the project deadline if that comes first (and is still ahead)
  */
-export function getDeadlineUrgency(
+export function getDefaultQuoteDeadline(
+  from: Date,
   deadline: Date | string | null | undefined
-): 'urgent' | 'soon' | 'normal' | null {
-  const days = daysUntilDeadline(deadline);
+): Date {
+  const windowEnd = new Date(from.getTime() + DEFAULT_QUOTE_WINDOW_DAYS * DAY_MS);
+  if (!deadline) return windowEnd;
+
+  const deadlineDate = typeof deadline === 'string' ? new Date(deadline) : deadline;
+  return deadlineDate > from && deadlineDate < windowEnd ? deadlineDate : windowEnd;
+}
+
+/**
+ * End of the quote window (falls back to the project deadline for requests
+ * published before quote windows existed)
+ */
+export function getQuoteWindowEnd(request: {
+  quoteDeadline?: Date | string | null;
+  deadline?: Date | string | null;
+}): Date | null {
+  const end = request.quoteDeadline ?? request.deadline;
+  if (!end) return null;
+  return typeof end === 'string' ? new Date(end) : end;
+}
+
+/**
+ * Check if companies can still quote on a request
+ */
+export function isQuoteWindowOpen(
+  request: { quoteDeadline?: Date | string | null; deadline?: Date | string | null },
+  now: Date = new Date()
+): boolean {
+  const end = getQuoteWindowEnd(request);
+  return !end || end > now;
+}
+
+/**
+ * Get deadline urgency status
+ *
+ * Based on the quote window: 'urgent' within 3 days, 'soon' within 7 days,
+ * 'closed' once it has ended. Requests without a quote window use the
+ * project deadline (7 / 30 days).
+ */
+export function getDeadlineUrgency(request: {
+  quoteDeadline?: Date | string | null;
+  deadline?: Date | string | null;
+}): 'closed' | 'urgent' | 'soon' | 'normal' | null {
+  const days = daysUntilDeadline(getQuoteWindowEnd(request));
   if (days === null) return null;
-  if (days < 7) return 'urgent';
-  if (days < 30) return 'soon';
+  if (days <= 0) return 'closed';
+
+  const [urgentDays, soonDays] = request.quoteDeadline ? [3, 7] : [7, 30];
+  if (days <= urgentDays) return 'urgent';
+  if (days <= soonDays) return 'soon';
   return 'normal';
 }
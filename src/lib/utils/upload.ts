@@ -1,11 +1,7 @@
 /**
  * Image upload utilities
- * Note: This is a placeholder implementation
- * In production, you should use a proper file storage service like:
- * - AWS S3
- * - Cloudinary
- * - Vercel Blob
- * - Supabase Storage
+ * Client helpers for company images; files are stored through /api/upload
+ * (see src/lib/storage)
  */
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024 // 5MB
@@ -50,25 +46,20 @@ export function fileToBase64(file: File): Promise<string> {
 
 /**
  * Upload image file to storage
- * TODO: Implement actual upload to cloud storage
+ * Company images are public; the server checks the content type again
  * @param file - File to upload
- * @param folder - Storage folder (e.g., 'logos', 'covers')
  * @returns Promise resolving to uploaded file URL
  */
-export async function uploadImage(file: File, folder: string): Promise<string> {
+export async function uploadImage(file: File): Promise<string> {
   // Validate file
   const validation = validateImageFile(file)
   if (!validation.valid) {
     throw new Error(validation.error)
   }
 
-  // TODO: Implement actual upload to cloud storage
-  // For now, return a placeholder URL
-  // In production, replace this with actual cloud storage upload
-
   const formData = new FormData()
   formData.append("file", file)
-  formData.append("folder", folder)
+  formData.append("purpose", "company")
 
   const response = await fetch("/api/upload", {
     method: "POST",
@@ -77,7 +68,7 @@ export async function uploadImage(file: File, folder: string): Promise<string> {
 
   if (!response.ok) {
     const error = await response.json()
-    throw new Error(error.message || "Upload failed")
+    throw new Error(error.error || "Upload failed")
   }
 
   const data = await response.json()
@@ -86,11 +77,9 @@ export async function uploadImage(file: File, folder: string): Promise<string> {
 
 /**
  * Delete image from storage
- * TODO: Implement actual deletion from cloud storage
  * @param url - URL of the image to delete
  */
 export async function deleteImage(url: string): Promise<void> {
-  // TODO: Implement actual deletion from cloud storage
   await fetch("/api/upload", {
     method: "DELETE",
     headers: {
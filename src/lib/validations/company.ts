@@ -96,6 +96,17 @@ export const companyTechSpecSchema = z.object({
     .max(10, "最大10まで選択できます"),
 })
 
+// Project intake settings (editable after registration)
+export const companyCapacitySchema = z.object({
+  acceptsNewProjects: z.boolean(),
+  maxConcurrentProjects: z
+    .number()
+    .int("整数で入力してください")
+    .min(1, "1以上で入力してください")
+    .max(100, "100以下で入力してください")
+    .nullable(),
+})
+
 // Complete company registration schema (all steps combined)
 export const companyRegistrationSchema = companyBasicInfoSchema
   .merge(companyContactInfoSchema)
@@ -107,6 +118,7 @@ export const companyUpdateSchema = companyBasicInfoSchema
   .merge(companyContactInfoSchema)
   .merge(companyImagesSchema)
   .merge(companyTechSpecSchema)
+  .merge(companyCapacitySchema)
   .partial()
 
 // Image upload validation
@@ -125,6 +137,7 @@ export type CompanyBasicInfo = z.infer<typeof companyBasicInfoSchema>
 export type CompanyContactInfo = z.infer<typeof companyContactInfoSchema>
 export type CompanyImages = z.infer<typeof companyImagesSchema>
 export type CompanyTechSpec = z.infer<typeof companyTechSpecSchema>
+export type CompanyCapacity = z.infer<typeof companyCapacitySchema>
 export type CompanyRegistration = z.infer<typeof companyRegistrationSchema>
 export type CompanyUpdate = z.infer<typeof companyUpdateSchema>
 export type ImageUpload = z.infer<typeof imageUploadSchema>
@@ -0,0 +1,69 @@
+/**
+ * Matching Validation Schemas
+ * Zod schemas for matching API query parameters
+ */
+
+import { z } from 'zod';
+
+/**
+ * Single factor weight (0-1)
+ */
+const weightSchema = z.coerce
+  .number()
+  .min(0, '0以上で入力してください')
+  .max(1, '1以下で入力してください')
+  .optional();
+
+/**
+ * Query parameters for GET /api/requests/[id]/matches
+ * Weight overrides are merged with the defaults and must add up to 1.
+ * algorithmVersion / compareTo select stored snapshots by algorithm version.
+ */
+export const matchesQuerySchema = z.object({
+  minScore: z.coerce.number().int().min(0).max(100).default(30),
+  maxResults: z.coerce.number().int().positive().max(100).default(20),
+  verifiedOnly: z
+    .string()
+    .transform((val) => val === 'true')
+    .optional(),
+  minRating: z.coerce.number().min(0).max(5).default(0),
+  techStackWeight: weightSchema,
+  specialtyWeight: weightSchema,
+  budgetWeight: weightSchema,
+  ratingWeight: weightSchema,
+  algorithmVersion: z.string().max(20).optional(),
+  compareTo: z.string().max(20).optional(),
+});
+
+/**
+ * Query parameters for GET /api/companies/[id]/recommended-requests
+ */
+export const recommendedRequestsQuerySchema = z.object({
+  minScore: z.coerce.number().int().min(0).max(100).default(30),
+  maxResults: z.coerce.number().int().positive().max(50).default(10),
+});
+
+/**
+ * Named MatchingConfig values compared by the offline evaluation
+ * (scripts/evaluate-matching.ts), e.g. { "default": {}, "tech": { "techStackWeight": 0.6, ... } }
+ */
+export const evaluationConfigsSchema = z.record(
+  z
+    .object({
+      techStackWeight: weightSchema,
+      specialtyWeight: weightSchema,
+      budgetWeight: weightSchema,
+      ratingWeight: weightSchema,
+      minScore: z.number().int().min(0).max(100).optional(),
+      maxResults: z.number().int().positive().optional(),
+      capacityPolicy: z.enum(['demote', 'exclude']).optional(),
+    })
+    .strict()
+);
+
+/**
+ * Type exports for use in API routes
+ */
+export type MatchesQueryParams = z.infer<typeof matchesQuerySchema>;
+export type RecommendedRequestsQueryParams = z.infer<typeof recommendedRequestsQuerySchema>;
+export type EvaluationConfigs = z.infer<typeof evaluationConfigsSchema>;
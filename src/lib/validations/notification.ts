@@ -0,0 +1,27 @@
+/**
+ * Notification Validation Schemas
+ * Zod schemas for the notification inbox API
+ */
+
+import { z } from 'zod';
+
+/**
+ * Query parameters for GET /api/notifications
+ */
+export const notificationQuerySchema = z.object({
+  unreadOnly: z
+    .string()
+    .transform((val) => val === 'true')
+    .optional(),
+  limit: z.coerce.number().int().positive().max(50).default(20),
+});
+
+/**
+ * Mark notifications as read (all unread ones when `ids` is omitted)
+ */
+export const notificationReadSchema = z.object({
+  ids: z.array(z.string().cuid()).max(100).optional(),
+});
+
+export type NotificationQueryParams = z.infer<typeof notificationQuerySchema>;
+export type NotificationReadInput = z.infer<typeof notificationReadSchema>;
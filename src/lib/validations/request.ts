@@ -4,18 +4,48 @@
  */
 
 import { z } from 'zod';
-import { ProjectType, RequestStatus } from '@prisma/client';
+import {
+  BuyerIndustry,
+  BuyerSize,
+  Currency,
+  DurationUnit,
+  MoneyUnit,
+  ProjectType,
+  QuestionVisibility,
+  RequestStatus,
+  RequestVisibility,
+} from '@prisma/client';
+import { MAX_INVITATIONS_PER_REQUEST, REQUIREMENTS_VERSION } from '@/lib/utils/request';
+import { MANUAL_REQUEST_TRANSITIONS } from '@/lib/requests/lifecycle';
+import { CONSUMPTION_TAX_RATE } from '@/lib/utils/money';
 
 /**
  * Project type validation with enum values
  */
 export const projectTypeSchema = z.nativeEnum(ProjectType);
 
+/**
+ * Request visibility validation
+ */
+export const requestVisibilitySchema = z.nativeEnum(RequestVisibility);
+
+/**
+ * Money term validation (see src/lib/utils/money.ts)
+ */
+export const currencySchema = z.nativeEnum(Currency);
+export const moneyUnitSchema = z.nativeEnum(MoneyUnit);
+export const durationUnitSchema = z.nativeEnum(DurationUnit);
+
 /**
  * Request status validation
  */
 export const requestStatusSchema = z.nativeEnum(RequestStatus);
 
+/**
+ * Answer visibility validation (see src/lib/requests/questions.ts)
+ */
+export const questionVisibilitySchema = z.nativeEnum(QuestionVisibility);
+
 /**
  * File attachment validation schema
  */
@@ -27,12 +57,143 @@ export const fileAttachmentSchema = z.object({
 });
 
 /**
- * Requirements JSON schema
- * Flexible structure to accommodate various project types
+ * MoSCoW priority of a requirement item
+ */
+export const requirementPrioritySchema = z.enum(['MUST', 'SHOULD', 'COULD', 'WONT']);
+
+/**
+ * Structured requirement item
+ * `id` is generated by the wizard and referenced by proposal answers.
+ */
+export const requirementItemSchema = z.object({
+  id: z.string().min(1).max(50),
+  title: z
+    .string()
+    .trim()
+    .min(1, '要件名を入力してください')
+    .max(200, '200文字以内で入力してください'),
+  description: z.string().max(2000, '2000文字以内で入力してください').optional(),
+  priority: requirementPrioritySchema,
+  acceptanceNotes: z.string().max(1000, '1000文字以内で入力してください').optional(),
+});
+
+/**
+ * A company's answer to one requirement item in its proposal
+ */
+export const requirementResponseSchema = z.object({
+  itemId: z.string().min(1).max(50),
+  support: z.enum(['SUPPORTED', 'PARTIAL', 'NOT_SUPPORTED']),
+  costImpact: z.number().int().optional().nullable(),
+  note: z.string().max(1000).optional(),
+});
+
+/**
+ * One line of a structured quote
+ * Labor lines give person-days and a daily rate; fixed fees (licenses,
+ * infrastructure, travel …) give an amount. A line may have both.
+ * Optional lines are offered separately and left out of the total.
+ */
+export const quoteLineItemSchema = z
+  .object({
+    id: z.string().min(1).max(50),
+    phase: z
+      .string()
+      .trim()
+      .min(1, 'フェーズを入力してください')
+      .max(100, '100文字以内で入力してください'),
+    role: z.string().trim().max(100, '100文字以内で入力してください').optional(),
+    description: z.string().max(500, '500文字以内で入力してください').optional(),
+    personDays: z.number().positive('工数は0より大きい値を入力してください').max(10000).optional(),
+    unitRate: z.number().int().nonnegative('単価は0以上の値を入力してください').optional(),
+    fixedFee: z.number().int().nonnegative('固定費は0以上の値を入力してください').optional(),
+    optional: z.boolean().default(false),
+  })
+  .refine((item) => (item.personDays === undefined) === (item.unitRate === undefined), {
+    message: '工数と単価は両方入力してください',
+    path: ['unitRate'],
+  })
+  .refine((item) => item.personDays !== undefined || item.fixedFee !== undefined, {
+    message: '工数と単価、または固定費を入力してください',
+    path: ['fixedFee'],
+  });
+
+/**
+ * Structured quote submitted with a proposal
+ * Totals are computed by the server (see src/lib/requests/quotes.ts).
+ */
+export const quoteInputSchema = z.object({
+  lineItems: z
+    .array(quoteLineItemSchema)
+    .min(1, '明細を1行以上入力してください')
+    .max(100, '100行以内で入力してください'),
+  taxRate: z.number().min(0).max(1).default(CONSUMPTION_TAX_RATE),
+});
+
+/**
+ * Milestone of a proposal's schedule
+ * Dates are calendar dates (YYYY-MM-DD); paymentPercent is the share of the
+ * price paid when the milestone is completed.
+ */
+export const milestoneSchema = z
+  .object({
+    id: z.string().min(1).max(50),
+    title: z
+      .string()
+      .trim()
+      .min(1, 'マイルストーン名を入力してください')
+      .max(200, '200文字以内で入力してください'),
+    description: z.string().max(1000, '1000文字以内で入力してください').optional(),
+    startDate: z.string().date('開始日を入力してください'),
+    endDate: z.string().date('終了日を入力してください'),
+    paymentPercent: z.number().min(0).max(100).default(0),
+  })
+  .refine((milestone) => milestone.startDate <= milestone.endDate, {
+    message: '終了日は開始日以降にしてください',
+    path: ['endDate'],
+  });
+
+/**
+ * Milestone schedule of a proposal
+ * Payment percentages have to add up to 100%.
+ */
+export const scheduleSchema = z
+  .array(milestoneSchema)
+  .min(1, 'マイルストーンを1件以上入力してください')
+  .max(30, '30件以内で入力してください')
+  .refine(
+    (milestones) =>
+      Math.abs(milestones.reduce((sum, milestone) => sum + milestone.paymentPercent, 0) - 100) <
+      0.01,
+    { message: '支払割合の合計を100%にしてください' }
+  );
+
+/**
+ * Requirements JSON schema (versioned)
+ * Technologies and specialties are TechStack / Specialty IDs so the matcher
+ * can score them; names outside the catalog go to otherTechnologies /
+ * otherSpecialties.
  */
 export const requirementsSchema = z.object({
+  version: z.literal(REQUIREMENTS_VERSION).default(REQUIREMENTS_VERSION),
+  techStackIds: z
+    .array(z.string().cuid())
+    .max(20, '20件以内で選択してください')
+    .default([]),
+  specialtyIds: z
+    .array(z.string().cuid())
+    .max(10, '10件以内で選択してください')
+    .default([]),
+  otherTechnologies: z.array(z.string().max(50)).max(20).optional(),
+  otherSpecialties: z.array(z.string().max(50)).max(10).optional(),
+  location: z.string().max(100).optional(),
   features: z.array(z.string()).optional(),
-  technologies: z.array(z.string()).optional(),
+  items: z
+    .array(requirementItemSchema)
+    .max(50, '50件以内で入力してください')
+    .refine((items) => new Set(items.map((item) => item.id)).size === items.length, {
+      message: '要件IDが重複しています',
+    })
+    .optional(),
   designRequirements: z.string().optional(),
   targetAudience: z.string().optional(),
   integrations: z.array(z.string()).optional(),
@@ -52,6 +213,9 @@ export const requestBaseSchema = z.object({
     .min(20, '20文字以上で入力してください')
     .max(2000, '2000文字以内で入力してください'),
   projectType: projectTypeSchema,
+  visibility: requestVisibilitySchema.default('PUBLIC'),
+  buyerIndustry: z.nativeEnum(BuyerIndustry).optional().nullable(),
+  buyerSize: z.nativeEnum(BuyerSize).optional().nullable(),
   budgetMin: z
     .number()
     .int()
@@ -64,6 +228,9 @@ export const requestBaseSchema = z.object({
     .positive('正の値を入力してください')
     .optional()
     .nullable(),
+  budgetCurrency: currencySchema.default('JPY'),
+  budgetTaxIncluded: z.boolean().default(false),
+  budgetUnit: moneyUnitSchema.default('ONE_OFF'),
   deadline: z
     .string()
     .datetime()
@@ -76,6 +243,12 @@ export const requestBaseSchema = z.object({
     .optional()
     .nullable()
     .or(z.date().optional().nullable()),
+  quoteDeadline: z
+    .string()
+    .datetime()
+    .optional()
+    .nullable()
+    .or(z.date().optional().nullable()),
   requirements: requirementsSchema,
   attachments: z.array(z.string()).default([]),
 });
@@ -109,6 +282,18 @@ export const requestCreateSchema = requestBaseSchema
       message: '希望開始日は納期より前にしてください',
       path: ['deadline'],
     }
+  )
+  .refine(
+    (data) => {
+      if (data.quoteDeadline && data.deadline) {
+        return new Date(data.quoteDeadline) <= new Date(data.deadline);
+      }
+      return true;
+    },
+    {
+      message: '見積締切は納期以前にしてください',
+      path: ['quoteDeadline'],
+    }
   );
 
 /**
@@ -116,6 +301,123 @@ export const requestCreateSchema = requestBaseSchema
  */
 export const requestUpdateSchema = requestBaseSchema.partial();
 
+/**
+ * Amendment to a published request
+ * Cross-field rules are checked against the amended content (see
+ * validateRequestSnapshot) because most fields keep their current value.
+ * Visibility and the buyer descriptor are fixed once published.
+ */
+export const requestAmendmentSchema = requestBaseSchema
+  .omit({ projectType: true, visibility: true, buyerIndustry: true, buyerSize: true })
+  .partial()
+  .extend({
+    note: z
+      .string()
+      .trim()
+      .min(1, '変更理由を入力してください')
+      .max(500, '500文字以内で入力してください'),
+  });
+
+/**
+ * Request template fields
+ */
+const requestTemplateBaseSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'テンプレート名を入力してください')
+    .max(100, '100文字以内で入力してください'),
+  projectType: projectTypeSchema,
+  descriptionScaffold: z.string().max(2000, '2000文字以内で入力してください').default(''),
+  features: z.array(z.string().trim().min(1).max(200)).max(30).default([]),
+  integrations: z.array(z.string().trim().min(1).max(100)).max(20).default([]),
+  budgetMin: z.number().int().positive('正の値を入力してください').optional().nullable(),
+  budgetMax: z.number().int().positive('正の値を入力してください').optional().nullable(),
+});
+
+/**
+ * Budget validation for templates and saved searches - ensure min < max if both provided
+ */
+function isBudgetRangeValid(data: { budgetMin?: number | null; budgetMax?: number | null }) {
+  if (data.budgetMin && data.budgetMax) {
+    return data.budgetMin < data.budgetMax;
+  }
+  return true;
+}
+
+/**
+ * Save a request template
+ * `shared` templates are visible to everyone and can only be created by admins.
+ */
+export const requestTemplateCreateSchema = requestTemplateBaseSchema
+  .extend({
+    shared: z.boolean().default(false),
+  })
+  .refine(isBudgetRangeValid, {
+    message: '最小予算は最大予算より小さい値を入力してください',
+    path: ['budgetMax'],
+  });
+
+/**
+ * Update a request template
+ */
+export const requestTemplateUpdateSchema = requestTemplateBaseSchema
+  .partial()
+  .refine(isBudgetRangeValid, {
+    message: '最小予算は最大予算より小さい値を入力してください',
+    path: ['budgetMax'],
+  });
+
+/**
+ * Query parameters for the template list
+ */
+export const requestTemplateQuerySchema = z.object({
+  projectType: projectTypeSchema.optional(),
+});
+
+/**
+ * Saved search filter fields
+ * Empty lists match everything; the budget is in one-off JPY without tax.
+ */
+const savedSearchBaseSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, '検索条件名を入力してください')
+    .max(100, '100文字以内で入力してください'),
+  projectTypes: z.array(projectTypeSchema).max(10).default([]),
+  budgetMin: z.number().int().positive('正の値を入力してください').optional().nullable(),
+  budgetMax: z.number().int().positive('正の値を入力してください').optional().nullable(),
+  keywords: z
+    .array(z.string().trim().min(1).max(50))
+    .max(10, '10件以内で入力してください')
+    .default([]),
+  techStackIds: z
+    .array(z.string().cuid())
+    .max(20, '20件以内で選択してください')
+    .default([]),
+  alertsEnabled: z.boolean().default(true),
+  emailDigest: z.boolean().default(true),
+});
+
+/**
+ * Save a search for a company member
+ */
+export const savedSearchCreateSchema = savedSearchBaseSchema.refine(isBudgetRangeValid, {
+  message: '最小予算は最大予算より小さい値を入力してください',
+  path: ['budgetMax'],
+});
+
+/**
+ * Update a saved search
+ */
+export const savedSearchUpdateSchema = savedSearchBaseSchema
+  .partial()
+  .refine(isBudgetRangeValid, {
+    message: '最小予算は最大予算より小さい値を入力してください',
+    path: ['budgetMax'],
+  });
+
 /**
  * Query parameters for request list
  */
@@ -129,11 +431,68 @@ export const requestQuerySchema = z.object({
   search: z.string().optional(),
 });
 
+/**
+ * Invite companies to quote on a request
+ */
+export const requestInvitationSchema = z.object({
+  companyIds: z
+    .array(z.string().cuid())
+    .min(1, '1社以上選択してください')
+    .max(MAX_INVITATIONS_PER_REQUEST, `${MAX_INVITATIONS_PER_REQUEST}社以内で選択してください`),
+});
+
+/**
+ * Manual status change by the request owner
+ */
+export const requestStatusChangeSchema = z.object({
+  transition: z.enum(MANUAL_REQUEST_TRANSITIONS),
+  reason: z.string().trim().max(500, '500文字以内で入力してください').optional(),
+});
+
+/**
+ * Clarification question of an invited company
+ */
+export const requestQuestionSchema = z.object({
+  question: z
+    .string()
+    .trim()
+    .min(1, '質問を入力してください')
+    .max(2000, '2000文字以内で入力してください'),
+});
+
+/**
+ * Buyer's answer to a question (PUBLIC answers are shared with every invited
+ * company)
+ */
+export const requestAnswerSchema = z.object({
+  answer: z
+    .string()
+    .trim()
+    .min(1, '回答を入力してください')
+    .max(4000, '4000文字以内で入力してください'),
+  visibility: questionVisibilitySchema.default('PRIVATE'),
+});
+
 /**
  * Type exports for use in components and API routes
  */
 export type RequestCreateInput = z.infer<typeof requestCreateSchema>;
 export type RequestUpdateInput = z.infer<typeof requestUpdateSchema>;
+export type RequestAmendmentInput = z.infer<typeof requestAmendmentSchema>;
 export type RequestQueryParams = z.infer<typeof requestQuerySchema>;
+export type RequestTemplateCreateInput = z.infer<typeof requestTemplateCreateSchema>;
+export type RequestTemplateUpdateInput = z.infer<typeof requestTemplateUpdateSchema>;
+export type SavedSearchCreateInput = z.infer<typeof savedSearchCreateSchema>;
+export type SavedSearchUpdateInput = z.infer<typeof savedSearchUpdateSchema>;
+export type RequestInvitationInput = z.infer<typeof requestInvitationSchema>;
+export type RequestStatusChangeInput = z.infer<typeof requestStatusChangeSchema>;
+export type RequestQuestionInput = z.infer<typeof requestQuestionSchema>;
+export type RequestAnswerInput = z.infer<typeof requestAnswerSchema>;
 export type FileAttachment = z.infer<typeof fileAttachmentSchema>;
 export type Requirements = z.infer<typeof requirementsSchema>;
+export type RequirementPriority = z.infer<typeof requirementPrioritySchema>;
+export type RequirementItem = z.infer<typeof requirementItemSchema>;
+export type RequirementResponse = z.infer<typeof requirementResponseSchema>;
+export type QuoteLineItem = z.infer<typeof quoteLineItemSchema>;
+export type QuoteInput = z.infer<typeof quoteInputSchema>;
+export type Milestone = z.infer<typeof milestoneSchema>;
@@ -4,7 +4,8 @@
  */
 
 import { z } from "zod";
-import { ProjectType } from "@prisma/client";
+import { ProjectType, Prisma } from "@prisma/client";
+import { DEFAULT_MONEY_TERMS, parseMoney } from "@/lib/utils/money";
 
 /**
  * Review rating validation (1-5 stars)
@@ -163,6 +164,27 @@ export function canEditReview(createdAt: Date): boolean {
   return createdAt >= thirtyDaysAgo;
 }
 
+/**
+ * Structured project cost parsed from the text the reviewer entered
+ * (e.g. "300万円", "月額50万円 税込"); the amount is null when none is found
+ */
+export function toProjectCostData(
+  projectCost: string | null | undefined
+): Pick<
+  Prisma.ReviewUncheckedCreateInput,
+  "projectCostAmount" | "projectCostCurrency" | "projectCostTaxIncluded" | "projectCostUnit"
+> {
+  const money = parseMoney(projectCost);
+  const terms = money ?? DEFAULT_MONEY_TERMS;
+
+  return {
+    projectCostAmount: money?.amount ?? null,
+    projectCostCurrency: terms.currency,
+    projectCostTaxIncluded: terms.taxIncluded,
+    projectCostUnit: terms.unit,
+  };
+}
+
 /**
  * Calculate average rating
  */
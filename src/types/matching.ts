@@ -5,7 +5,29 @@
  * and proposal management system.
  */
 
-import { Company, Request, RequestCompanyStatus, ProjectType } from '@prisma/client';
+import {
+  Company,
+  Currency,
+  DurationUnit,
+  MoneyUnit,
+  Request,
+  RequestCompanyStatus,
+  ProjectType,
+} from '@prisma/client';
+import { Milestone, QuoteInput, RequirementResponse } from '@/lib/validations/request';
+import { Quote } from '@/lib/requests/quotes';
+
+/**
+ * Budget compatibility verdict
+ */
+export type BudgetCompatibility = 'perfect' | 'good' | 'acceptable' | 'mismatch';
+
+/**
+ * What the budget score was based on: the company's price profile, the
+ * heuristic on the width of the budget range (no price history), or nothing
+ * to compare (no budget, or a one-sided budget without history)
+ */
+export type BudgetBasis = 'priceProfile' | 'budgetRange' | 'none';
 
 /**
  * Matching score breakdown for a company-request pair
@@ -14,26 +36,100 @@ export interface MatchScore {
   /** Overall matching score (0-100) */
   total: number;
 
-  /** Tech stack compatibility score (0-40 points) */
+  /** Tech stack compatibility score (0 to techStackWeight * 100 points) */
   techStackScore: number;
 
-  /** Specialty alignment score (0-30 points) */
+  /** Specialty alignment score (0 to specialtyWeight * 100 points) */
   specialtyScore: number;
 
-  /** Budget compatibility score (0-20 points) */
+  /** Budget compatibility score (0 to budgetWeight * 100 points) */
   budgetScore: number;
 
-  /** Company rating score (0-10 points) */
+  /** Company rating score (0 to ratingWeight * 100 points) */
   ratingScore: number;
 
-  /** Matched tech stacks */
+  /** Matched tech stacks (same technology or alias) */
   matchedTechStacks: string[];
 
+  /** Requested tech stacks covered by a related technology (absent before algorithm 1.3.0) */
+  relatedTechStacks?: RelatedTechStack[];
+
+  /** Requested tech stacks the company does not cover (absent in older snapshots) */
+  missingTechStacks?: string[];
+
   /** Matched specialties */
   matchedSpecialties: string[];
 
   /** Budget compatibility status */
-  budgetCompatibility: 'perfect' | 'good' | 'acceptable' | 'mismatch';
+  budgetCompatibility: BudgetCompatibility;
+
+  /** What the budget score was based on (absent in older snapshots) */
+  budgetBasis?: BudgetBasis;
+
+  /** Weights used to compute this score */
+  weights: MatchingWeights;
+}
+
+/**
+ * Matching factor a score component or explanation refers to
+ */
+export type MatchFactor = 'techStack' | 'specialty' | 'budget' | 'rating';
+
+/**
+ * Language of generated match explanations
+ */
+export type MatchReasonLocale = 'ja' | 'en';
+
+/**
+ * One human-readable reason behind a match score
+ */
+export interface MatchReason {
+  /** Factor the reason explains */
+  factor: MatchFactor;
+
+  /** Whether the reason helped or hurt the score */
+  tone: 'positive' | 'neutral' | 'negative';
+
+  /** Localized sentence */
+  text: string;
+}
+
+/**
+ * How a company technology relates to a requested technology
+ */
+export type TechStackRelation = 'exact' | 'implies' | 'parent' | 'sibling';
+
+/**
+ * Requested technology covered by a related company technology
+ */
+export interface RelatedTechStack {
+  /** Requested technology */
+  requested: string;
+
+  /** Company technology that covers it */
+  matchedBy: string;
+
+  /** Relation between the two (never 'exact') */
+  relation: Exclude<TechStackRelation, 'exact'>;
+}
+
+/**
+ * TechStack fields needed for the matching taxonomy
+ */
+export interface TechStackNode {
+  id: string;
+  name: string;
+  slug?: string;
+  aliases: string[];
+  parentId: string | null;
+}
+
+/**
+ * Lookup tables for resolving tech stacks by ID, name, slug or alias
+ */
+export interface TechStackTaxonomy {
+  byId: Map<string, TechStackNode>;
+  byKey: Map<string, TechStackNode>;
 }
 
 /**
@@ -42,6 +138,17 @@ export interface MatchScore {
 export interface MatchedCompany {
   company: CompanyWithRelations;
   matchScore: MatchScore;
+
+  /** Capacity of the company when it was ranked */
+  availability?: CompanyAvailability;
+}
+
+/**
+ * Request with its matching score for a company (reverse matching)
+ */
+export interface MatchedRequest<T extends RequestWithRequirements = RequestWithRequirements> {
+  request: T;
+  matchScore: MatchScore;
 }
 
 /**
@@ -63,6 +170,58 @@ export interface CompanyWithRelations extends Company {
       slug: string;
     };
   }[];
+
+  /** Typical price range from past quotes and reviews (budget factor) */
+  priceProfile?: CompanyPriceProfile | null;
+
+  /** Current project load (capacity) */
+  workload?: CompanyWorkload;
+}
+
+/**
+ * Projects a company is currently committed to
+ */
+export interface CompanyWorkload {
+  /** SELECTED proposals on requests that are still running */
+  activeProjects: number;
+
+  /** PENDING invitations on published requests */
+  pendingInvitations: number;
+}
+
+/**
+ * Capacity status shown next to a matched company
+ */
+export type AvailabilityStatus = 'available' | 'limited' | 'at_capacity';
+
+/**
+ * Company capacity derived from maxConcurrentProjects and its workload
+ */
+export interface CompanyAvailability extends CompanyWorkload {
+  status: AvailabilityStatus;
+
+  /** Declared capacity (null = no limit) */
+  maxConcurrentProjects: number | null;
+
+  /** Projects the company can still take on (null = no limit) */
+  remainingCapacity: number | null;
+}
+
+/**
+ * Company price range derived from historical project costs (JPY)
+ */
+export interface CompanyPriceProfile {
+  /** Lower bound of the typical project cost */
+  typicalMin: number;
+
+  /** Upper bound of the typical project cost */
+  typicalMax: number;
+
+  /** Median project cost */
+  median: number;
+
+  /** Number of historical costs the profile is based on */
+  sampleSize: number;
 }
 
 /**
@@ -70,9 +229,9 @@ export interface CompanyWithRelations extends Company {
  */
 export interface RequestWithRequirements extends Omit<Request, 'requirements'> {
   requirements?: {
-    techStacks?: string[];
-    specialties?: string[];
-    location?: string;
+    version?: number;
+    techStackIds?: string[];
+    specialtyIds?: string[];
   } | null;
 }
 
@@ -80,10 +239,19 @@ export interface RequestWithRequirements extends Omit<Request, 'requirements'> {
  * Proposal submission data
  */
 export interface ProposalSubmission {
-  estimatedCost: number;
-  estimatedDuration: string;
+  estimatedCost?: number;
+  estimatedCurrency?: Currency;
+  estimatedTaxIncluded?: boolean;
+  estimatedUnit?: MoneyUnit;
+  estimatedDuration?: string;
+  durationValue?: number;
+  durationUnit?: DurationUnit;
+  schedule?: Milestone[];
+  quote?: QuoteInput;
   proposal: string;
   attachments?: string[];
+  /** What a resubmission changed */
+  revisionNote?: string;
 }
 
 /**
@@ -94,12 +262,26 @@ export interface ProposalWithDetails {
   requestId: string;
   companyId: string;
   estimatedCost: number | null;
+  estimatedCurrency: Currency;
+  estimatedTaxIncluded: boolean;
+  estimatedUnit: MoneyUnit;
   estimatedDuration: string | null;
+  durationValue?: number | null;
+  durationUnit?: DurationUnit | null;
+  /** Structured duration in days, or the parsed free-text duration */
+  durationDays?: number | null;
+  schedule?: Milestone[] | null;
   proposal: string | null;
   attachments: string[];
+  requirementResponses?: RequirementResponse[] | null;
+  quote?: Quote | null;
   status: RequestCompanyStatus;
   respondedAt: Date | null;
   selectedAt: Date | null;
+  requestVersion: number | null;
+  isOutdated?: boolean;
+  /** Latest revision (0 = not submitted yet) */
+  revision?: number;
   createdAt: Date;
   updatedAt: Date;
   company: CompanyWithRelations;
@@ -116,11 +298,20 @@ export interface ProposalComparison {
     avgCost: number;
     minCost: number;
     maxCost: number;
+    /** Average duration in days (see getAverageDurationDays) */
     avgDuration: number;
     avgMatchScore: number;
   };
 }
 
+/**
+ * Company skipped when inviting companies to quote
+ */
+export interface InvitationSkip {
+  companyId: string;
+  reason: 'not_found' | 'already_invited' | 'not_accepting_projects' | 'limit_reached';
+}
+
 /**
  * Proposal status update
  */
@@ -150,6 +341,30 @@ export interface MatchingConfig {
 
   /** Maximum number of matches to return (default: 20) */
   maxResults?: number;
+
+  /** Tech stack aliases and hierarchy (default: exact name matching only) */
+  techStackTaxonomy?: TechStackTaxonomy;
+
+  /** What to do with companies at capacity: rank them last or leave them out (default: demote) */
+  capacityPolicy?: 'demote' | 'exclude';
+}
+
+/**
+ * Resolved factor weights (always add up to 1)
+ */
+export type MatchingWeights = Required<
+  Pick<MatchingConfig, 'techStackWeight' | 'specialtyWeight' | 'budgetWeight' | 'ratingWeight'>
+>;
+
+/**
+ * Rank change of a company between two match snapshots
+ */
+export interface MatchRankingChange {
+  companyId: string;
+  previousRank: number | null;
+  currentRank: number | null;
+  scoreDelta: number | null;
+  status: 'new' | 'dropped' | 'moved' | 'unchanged';
 }
 
 /**
@@ -165,3 +380,45 @@ export interface MatchingFilters {
   minRating?: number;
   verifiedOnly?: boolean;
 }
+
+/**
+ * Historical request replayed by the offline matching evaluation
+ */
+export interface MatchingEvaluationCase {
+  request: RequestWithRequirements;
+
+  /** Company the buyer eventually selected */
+  selectedCompanyId: string;
+
+  /** Candidate companies as the algorithm would have seen them */
+  companies: CompanyWithRelations[];
+}
+
+/**
+ * Metrics of one matching configuration over all evaluation cases
+ */
+export interface MatchingEvaluationResult {
+  name: string;
+  weights: MatchingWeights;
+
+  /** Share of cases whose selected company ranked within the top k */
+  hitAtK: Record<number, number>;
+
+  /** Mean reciprocal rank of the selected company (0 when not ranked) */
+  mrr: number;
+
+  /** Cases where the selected company was not ranked at all */
+  misses: number;
+  cases: { requestId: string; selectedCompanyId: string; rank: number | null }[];
+}
+
+/**
+ * Comparison of matching configurations on historical requests
+ */
+export interface MatchingEvaluationReport {
+  generatedAt: string;
+  algorithmVersion: string;
+  caseCount: number;
+  ks: number[];
+  results: MatchingEvaluationResult[];
+}